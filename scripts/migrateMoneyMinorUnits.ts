@@ -0,0 +1,127 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { MONEY_CONFIG } from "@/config/money";
+
+// Convert the money amounts of a database created before they were stored
+// as integers in minor units, keeping their value. Existing amounts are
+// floats in major units of MONEY_CONFIG.currency. Run it once before
+// pushing the schema:
+//
+//   npm run db:migrate-money
+//
+// Columns that are already integers are left alone, so running it again
+// only repeats the checks. Nothing is changed when a check fails.
+
+const prisma = new PrismaClient();
+
+const currency = MONEY_CONFIG.currency;
+const factor = 10 ** (MONEY_CONFIG.decimals[currency] ?? 2);
+
+// Money columns by table
+const AMOUNT_COLUMNS: Record<string, string[]> = {
+    Product: ["price"],
+    Order: ["totalAmount", "discountAmount", "shippingCost", "taxAmount"],
+    FulfillmentGroup: ["subtotal"],
+    OrderItem: ["price", "grossAmount", "taxAmount"],
+    RefundRequest: ["amount"],
+    RefundRequestItem: ["amount"],
+    Coupon: ["minBasket"],
+    CouponRedemption: ["discountAmount"],
+    ShippingZone: ["freeShippingThreshold"],
+    ShippingRate: ["price"],
+};
+
+// Net amounts are derived from the rounded gross and VAT amounts, so that
+// net + VAT still adds up to gross
+const NET_AMOUNTS: Record<string, { gross: string; tax: string }> = {
+    Order: { gross: "totalAmount", tax: "taxAmount" },
+    OrderItem: { gross: "grossAmount", tax: "taxAmount" },
+};
+
+const column = (name: string) => Prisma.raw(`"${name}"`);
+
+// Round a float amount in major units to an integer in minor units.
+// ALTER TABLE takes no query parameters, so the factor is inlined.
+const toMinorUnits = (name: string) =>
+    Prisma.sql`ROUND(${column(name)}::NUMERIC * ${Prisma.raw(String(factor))})`;
+
+const isFloatColumn = async (
+    tx: Prisma.TransactionClient,
+    table: string,
+    name: string
+) => {
+    const [row] = await tx.$queryRaw<Array<{ data_type: string }>>`
+        SELECT data_type FROM information_schema.columns
+        WHERE table_schema = current_schema()
+            AND table_name = ${table} AND column_name = ${name}`;
+    return row?.data_type === "double precision";
+};
+
+const convertAmounts = async (tx: Prisma.TransactionClient) => {
+    for (const [table, { gross, tax }] of Object.entries(NET_AMOUNTS)) {
+        if (await isFloatColumn(tx, table, "netAmount")) {
+            await tx.$executeRaw`
+                ALTER TABLE ${column(table)} ALTER COLUMN "netAmount"
+                SET DATA TYPE INTEGER
+                USING (${toMinorUnits(gross)} - ${toMinorUnits(tax)})::INTEGER`;
+            console.log(`Converted ${table}.netAmount`);
+        }
+    }
+
+    for (const [table, names] of Object.entries(AMOUNT_COLUMNS)) {
+        for (const name of names) {
+            if (!(await isFloatColumn(tx, table, name))) {
+                continue;
+            }
+            await tx.$executeRaw`
+                ALTER TABLE ${column(table)} ALTER COLUMN ${column(name)}
+                SET DATA TYPE INTEGER USING ${toMinorUnits(name)}::INTEGER`;
+            console.log(`Converted ${table}.${name}`);
+
+            // Amounts kept in float columns of the same rows
+            if (table === "Coupon") {
+                await tx.$executeRaw`
+                    UPDATE "Coupon" SET "value" = ${toMinorUnits("value")}
+                    WHERE "type" = 'FIXED_AMOUNT'`;
+            }
+            if (table === "ShippingRate") {
+                await tx.$executeRaw`
+                    UPDATE "ShippingRate"
+                    SET "minValue" = ${toMinorUnits("minValue")},
+                        "maxValue" = ${toMinorUnits("maxValue")}
+                    WHERE "basis" = 'ORDER_VALUE'`;
+            }
+        }
+    }
+};
+
+// Fail when an order or order item no longer adds up
+const checkAmounts = async (tx: Prisma.TransactionClient) => {
+    for (const [table, { gross, tax }] of Object.entries(NET_AMOUNTS)) {
+        const [{ count }] = await tx.$queryRaw<Array<{ count: number }>>`
+            SELECT COUNT(*)::int AS count FROM ${column(table)}
+            WHERE "netAmount" + ${column(tax)} <> ${column(gross)}`;
+        if (count > 0) {
+            throw new Error(
+                `${count} ${table} rows have net and VAT amounts that do not add up to ${gross}`
+            );
+        }
+    }
+};
+
+const main = async () => {
+    await prisma.$transaction(
+        async (tx) => {
+            await convertAmounts(tx);
+            await checkAmounts(tx);
+        },
+        { timeout: 10 * 60 * 1000 }
+    );
+    console.log(`Money amounts are in minor units of ${currency}`);
+};
+
+main()
+    .catch((error) => {
+        console.error("Error converting money amounts:", error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,15 @@
+// Define the configuration for abandoned cart reminders
+const CART_CONFIG = {
+    // How long a cart is left untouched before it counts as abandoned
+    abandonedAfterHours: Number(process.env.CART_ABANDONED_AFTER_HOURS || 24),
+    // How often abandoned carts are looked for
+    reminderIntervalMs: Number(
+        process.env.CART_REMINDER_INTERVAL_MS || 60 * 60 * 1000
+    ),
+    // Most reminders sent in one run
+    reminderBatchSize: Number(process.env.CART_REMINDER_BATCH_SIZE || 100),
+    // How long after a reminder a checkout counts as recovering the cart
+    conversionWindowDays: Number(process.env.CART_CONVERSION_WINDOW_DAYS || 7),
+};
+
+export { CART_CONFIG };
@@ -4,6 +4,11 @@ interface EmailOptions {
     to: string;
     subject: string;
     html: string;
+    attachments?: {
+        filename: string;
+        content: Buffer;
+        contentType?: string;
+    }[];
 }
 
 const transporter = nodemailer.createTransport({
@@ -0,0 +1,11 @@
+// Define the configuration for stock reservations
+const INVENTORY_CONFIG = {
+    // How long checkout holds stock while waiting for payment
+    reservationTtlMinutes: Number(process.env.RESERVATION_TTL_MINUTES || 15),
+    // How often expired reservations are released
+    expiryIntervalMs: Number(
+        process.env.RESERVATION_EXPIRY_INTERVAL_MS || 60 * 1000
+    ),
+};
+
+export { INVENTORY_CONFIG };
@@ -0,0 +1,12 @@
+// Define the configuration for invoices
+const INVOICE_CONFIG = {
+    // Invoice numbers are printed as PREFIX-000042
+    prefix: process.env.INVOICE_PREFIX || "INV",
+    // Details of the business issuing the invoices
+    companyName: process.env.COMPANY_NAME || "Esoko",
+    companyAddress: process.env.COMPANY_ADDRESS || "Kigali, Rwanda",
+    // Taxpayer identification number, printed when set
+    companyTin: process.env.COMPANY_TIN,
+};
+
+export { INVOICE_CONFIG };
@@ -0,0 +1,31 @@
+import { CART_CONFIG } from "./cart";
+import { INVENTORY_CONFIG } from "./inventory";
+import { RECOMMENDATION_CONFIG } from "./recommendation";
+import { SEARCH_CONFIG } from "./search";
+
+// Define the configuration for scheduled jobs
+const JOB_CONFIG = {
+    // How often each instance looks for due jobs
+    pollIntervalMs: Number(process.env.JOB_POLL_INTERVAL_MS || 5 * 1000),
+    // How many due jobs an instance takes at a time
+    batchSize: Number(process.env.JOB_BATCH_SIZE || 10),
+    // Jobs still running after this long are taken to have crashed
+    lockTimeoutMs: Number(process.env.JOB_LOCK_TIMEOUT_MS || 10 * 60 * 1000),
+    maxAttempts: Number(process.env.JOB_MAX_ATTEMPTS || 5),
+    // Failed jobs are retried after the base delay, doubled each attempt
+    backoffBaseMs: Number(process.env.JOB_BACKOFF_BASE_MS || 30 * 1000),
+    backoffMaxMs: Number(process.env.JOB_BACKOFF_MAX_MS || 60 * 60 * 1000),
+    // Jobs run on a fixed interval, in milliseconds
+    recurring: {
+        "inventory.expireReservations": INVENTORY_CONFIG.expiryIntervalMs,
+        "auth.cleanupTokens": Number(
+            process.env.TOKEN_CLEANUP_INTERVAL_MS || 60 * 60 * 1000
+        ),
+        "reports.dailySales": 24 * 60 * 60 * 1000,
+        "carts.remindAbandoned": CART_CONFIG.reminderIntervalMs,
+        "search.reindexProducts": SEARCH_CONFIG.reindexIntervalMs,
+        "recommendations.compute": RECOMMENDATION_CONFIG.intervalMs,
+    },
+};
+
+export { JOB_CONFIG };
@@ -0,0 +1,31 @@
+// Define the configuration for mobile money providers
+const MOBILE_MONEY_CONFIG = {
+    // Use the local sandbox instead of the real provider APIs. It lets
+    // payments be completed without paying, so it is only turned on
+    // explicitly.
+    sandbox: process.env.MOBILE_MONEY_SANDBOX === "true",
+    // Currency for all mobile money transactions
+    currency: "RWF" as const,
+    // Country code sent to the providers
+    country: "RW" as const,
+    // Base URL the providers call back once a payment completes
+    callbackUrl: process.env.MOBILE_MONEY_CALLBACK_URL as string,
+    mtn: {
+        baseUrl:
+            process.env.MTN_MOMO_BASE_URL ||
+            "https://sandbox.momodeveloper.mtn.com",
+        subscriptionKey: process.env.MTN_MOMO_SUBSCRIPTION_KEY as string,
+        apiUser: process.env.MTN_MOMO_API_USER as string,
+        apiKey: process.env.MTN_MOMO_API_KEY as string,
+        targetEnvironment: process.env.MTN_MOMO_TARGET_ENVIRONMENT || "sandbox",
+    },
+    airtel: {
+        baseUrl:
+            process.env.AIRTEL_MONEY_BASE_URL ||
+            "https://openapiuat.airtel.africa",
+        clientId: process.env.AIRTEL_MONEY_CLIENT_ID as string,
+        clientSecret: process.env.AIRTEL_MONEY_CLIENT_SECRET as string,
+    },
+};
+
+export { MOBILE_MONEY_CONFIG };
@@ -0,0 +1,28 @@
+// Define the configuration for money amounts
+const MONEY_CONFIG = {
+    // Currency products are priced and orders are charged in
+    currency: "RWF",
+    // Digits after the decimal point of each currency (ISO 4217).
+    // Amounts are stored as integers in this smallest unit.
+    decimals: {
+        RWF: 0,
+        UGX: 0,
+        KES: 2,
+        TZS: 2,
+        USD: 2,
+        EUR: 2,
+        GBP: 2,
+    } as Record<string, number>,
+    // How prices converted for display are rounded, in minor units of the
+    // display currency. Currencies not listed round to the minor unit.
+    displayRounding: {
+        UGX: { increment: 100, mode: "nearest" },
+        KES: { increment: 100, mode: "nearest" },
+        TZS: { increment: 100, mode: "nearest" },
+        USD: { increment: 1, mode: "nearest" },
+        EUR: { increment: 1, mode: "nearest" },
+        GBP: { increment: 1, mode: "nearest" },
+    } as Record<string, { increment: number; mode: "nearest" | "up" | "down" }>,
+};
+
+export { MONEY_CONFIG };
@@ -0,0 +1,34 @@
+// Define the configuration for product recommendations
+const RECOMMENDATION_CONFIG = {
+    // How often recommendations are recomputed
+    intervalMs: Number(
+        process.env.RECOMMENDATION_INTERVAL_MS || 6 * 60 * 60 * 1000
+    ),
+    // How far back orders, carts, wishlists and searches are looked at
+    lookbackDays: Number(process.env.RECOMMENDATION_LOOKBACK_DAYS || 180),
+    // Fewest orders or customers two products must share to be recommended
+    // together
+    minSharedCount: Number(process.env.RECOMMENDATION_MIN_SHARED_COUNT || 2),
+    // Most products recommended on the page of a product
+    productLimit: 10,
+    // Most products in a home feed, and most users whose feed is recomputed
+    // in one run, most recently active first
+    feedSize: 20,
+    feedUserBatchSize: Number(
+        process.env.RECOMMENDATION_FEED_USER_BATCH_SIZE || 1000
+    ),
+    // Latest searches of a user and search results of each used for their
+    // feed
+    feedSearches: 3,
+    feedResultsPerSearch: 5,
+    // How much a product a user showed interest in counts towards its
+    // recommendations in their feed
+    weights: {
+        purchased: 3,
+        cart: 2,
+        wishlist: 2,
+        search: 1,
+    },
+};
+
+export { RECOMMENDATION_CONFIG };
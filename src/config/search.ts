@@ -0,0 +1,30 @@
+// Define the configuration for product search
+const SEARCH_CONFIG = {
+    // Text search configuration used to stem product words and queries
+    language: process.env.SEARCH_LANGUAGE || "english",
+    // How close a word must be to a product name to match despite typos,
+    // from 0 to 1
+    similarityThreshold: Number(process.env.SEARCH_SIMILARITY_THRESHOLD || 0.4),
+    // Tags wrapped around matched words in highlights
+    highlightStart: "<mark>",
+    highlightStop: "</mark>",
+    // Most words in a description highlight
+    highlightMaxWords: 30,
+    // How often products without a search vector are indexed, and how many
+    // at a time
+    reindexIntervalMs: Number(
+        process.env.SEARCH_REINDEX_INTERVAL_MS || 10 * 60 * 1000
+    ),
+    reindexBatchSize: Number(process.env.SEARCH_REINDEX_BATCH_SIZE || 500),
+    // Prices search results are counted between, in the minor unit of the
+    // default currency
+    priceBoundaries: [5000, 10000, 25000, 50000, 100000],
+    // Most products, categories and recent searches suggested of each
+    suggestionLimit: Number(process.env.SEARCH_SUGGESTION_LIMIT || 5),
+    // Longest search text saved to the search history
+    maxHistoryQueryLength: 200,
+    // Most queries listed in the search report
+    reportLimit: Number(process.env.SEARCH_REPORT_LIMIT || 20),
+};
+
+export { SEARCH_CONFIG };
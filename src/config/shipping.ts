@@ -0,0 +1,40 @@
+// Define the provinces of Rwanda and their districts
+const RWANDA_PROVINCES: Record<string, string[]> = {
+    "Kigali City": ["Gasabo", "Kicukiro", "Nyarugenge"],
+    Northern: ["Burera", "Gakenke", "Gicumbi", "Musanze", "Rulindo"],
+    Southern: [
+        "Gisagara",
+        "Huye",
+        "Kamonyi",
+        "Muhanga",
+        "Nyamagabe",
+        "Nyanza",
+        "Nyaruguru",
+        "Ruhango",
+    ],
+    Eastern: [
+        "Bugesera",
+        "Gatsibo",
+        "Kayonza",
+        "Kirehe",
+        "Ngoma",
+        "Nyagatare",
+        "Rwamagana",
+    ],
+    Western: [
+        "Karongi",
+        "Ngororero",
+        "Nyabihu",
+        "Nyamasheke",
+        "Rubavu",
+        "Rusizi",
+        "Rutsiro",
+    ],
+};
+
+const RWANDA_DISTRICTS = Object.values(RWANDA_PROVINCES).flat();
+
+// Country names accepted on delivery addresses
+const SHIPPING_COUNTRIES = ["rwanda", "rw"];
+
+export { RWANDA_PROVINCES, RWANDA_DISTRICTS, SHIPPING_COUNTRIES };
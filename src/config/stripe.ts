@@ -14,6 +14,8 @@ const STRIPE_CONFIG = {
     minimumAmount: 1000,
     // Maximum amount for a transactions
     maximumAmount: 100000000,
+    // Signing secret used to verify webhook events
+    webhookSecret: process.env.STRIPE_WEBHOOK_SECRET as string,
 };
 
 // Export the Stripe instance andconfiguration for use
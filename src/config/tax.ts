@@ -0,0 +1,9 @@
+// Define the configuration for VAT
+const TAX_CONFIG = {
+    // Standard VAT rate in percent, used when a category has no rate of its own
+    defaultVatRate: Number(process.env.VAT_RATE || 18),
+    // Whether product prices already include VAT
+    pricesIncludeTax: process.env.PRICES_INCLUDE_TAX !== "false",
+};
+
+export { TAX_CONFIG };
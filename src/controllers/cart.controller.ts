@@ -1,11 +1,17 @@
 import { Request, Response } from "express";
 import { CartService } from "@/services/cart.service";
+import { CurrencyService } from "@/services/currency.service";
+import { CartReminderService } from "@/services/cartReminder.service";
 
 export class CartController {
     private cartService: CartService;
+    private currencyService: CurrencyService;
+    private cartReminderService: CartReminderService;
 
     constructor() {
         this.cartService = new CartService();
+        this.currencyService = new CurrencyService();
+        this.cartReminderService = new CartReminderService();
     }
 
     // Add item to cart
@@ -17,11 +23,12 @@ export class CartController {
                     .status(401)
                     .json({ message: "User not authenticated" });
             }
-            const { productId, quantity } = req.body;
+            const { productId, variantId, quantity } = req.body;
             const cart = await this.cartService.addCart(
                 userId,
                 productId,
-                quantity
+                quantity,
+                variantId
             );
             res.status(201).json(cart);
         } catch (error) {
@@ -39,11 +46,12 @@ export class CartController {
                     .json({ message: "User not authenticated" });
             }
             const { productId } = req.params;
-            const { quantity } = req.body;
+            const { quantity, variantId } = req.body;
             const cart = await this.cartService.updateCartItem(
                 userId,
                 productId,
-                quantity
+                quantity,
+                variantId
             );
             res.json(cart);
         } catch (error) {
@@ -61,7 +69,12 @@ export class CartController {
                     .json({ message: "User not authenticated" });
             }
             const { productId } = req.params;
-            await this.cartService.removeFromCart(userId, productId);
+            const { variantId } = req.query;
+            await this.cartService.removeFromCart(
+                userId,
+                productId,
+                variantId as string | undefined
+            );
             res.json({ message: "Item removed from cart" });
         } catch (error) {
             res.status(400).json({ message: (error as Error).message });
@@ -78,7 +91,9 @@ export class CartController {
                     .json({ message: "User not authenticated" });
             }
             const cart = await this.cartService.getCart(userId);
-            res.json(cart);
+            res.json(
+                await this.currencyService.localizeCart(cart, req.currency)
+            );
         } catch (error) {
             res.status(400).json({ message: (error as Error).message });
         }
@@ -109,8 +124,18 @@ export class CartController {
                     .status(401)
                     .json({ message: "User not authenticated" });
             }
-            const total = await this.cartService.getCartTotal(userId);
-            res.json({ total });
+            const { couponCode, addressId, shippingRateId } = req.query;
+            const total = await this.cartService.getCartTotal(userId, {
+                couponCode: couponCode as string | undefined,
+                addressId: addressId as string | undefined,
+                shippingRateId: shippingRateId as string | undefined,
+            });
+            res.json(
+                await this.currencyService.localizeCartTotal(
+                    total,
+                    req.currency
+                )
+            );
         } catch (error) {
             res.status(400).json({ message: (error as Error).message });
         }
@@ -132,4 +157,27 @@ export class CartController {
             res.status(400).json({ message: (error as Error).message });
         }
     }
+
+    // Get the abandoned cart report
+    async getAbandonedCartReport(req: Request, res: Response) {
+        try {
+            const { startDate, endDate } = req.query;
+            const start = startDate ? new Date(startDate as string) : undefined;
+            const end = endDate ? new Date(endDate as string) : undefined;
+            if (
+                (start && isNaN(start.getTime())) ||
+                (end && isNaN(end.getTime()))
+            ) {
+                return res.status(400).json({ message: "Invalid date" });
+            }
+            const report =
+                await this.cartReminderService.getAbandonedCartReport({
+                    startDate: start,
+                    endDate: end,
+                });
+            res.json(report);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
 }
@@ -0,0 +1,87 @@
+import { Request, Response } from "express";
+import { CouponService } from "@/services/coupon.service";
+
+export class CouponController {
+    private couponService: CouponService;
+
+    constructor() {
+        this.couponService = new CouponService();
+    }
+
+    // Create coupon
+    async createCoupon(req: Request, res: Response) {
+        try {
+            const coupon = await this.couponService.createCoupon(req.body);
+            res.status(201).json(coupon);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get coupons
+    async getCoupons(req: Request, res: Response) {
+        try {
+            const { page, limit, isActive } = req.query;
+            const coupons = await this.couponService.getCoupons({
+                page: Number(page) || 1,
+                limit: Number(limit) || 10,
+                isActive:
+                    isActive === undefined ? undefined : isActive === "true",
+            });
+            res.json(coupons);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get coupon by ID
+    async getCouponById(req: Request, res: Response) {
+        try {
+            const { couponId } = req.params;
+            const coupon = await this.couponService.getCouponById(couponId);
+            res.json(coupon);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Update coupon
+    async updateCoupon(req: Request, res: Response) {
+        try {
+            const { couponId } = req.params;
+            const coupon = await this.couponService.updateCoupon(
+                couponId,
+                req.body
+            );
+            res.json(coupon);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Deactivate coupon
+    async deactivateCoupon(req: Request, res: Response) {
+        try {
+            const { couponId } = req.params;
+            const coupon = await this.couponService.deactivateCoupon(couponId);
+            res.json(coupon);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Send a promotional notification about a coupon
+    async announceCoupon(req: Request, res: Response) {
+        try {
+            const { couponId } = req.params;
+            const { message } = req.body;
+            const recipients = await this.couponService.announceCoupon(
+                couponId,
+                message
+            );
+            res.json({ recipients });
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+}
@@ -0,0 +1,45 @@
+import { Request, Response } from "express";
+import { CurrencyService } from "@/services/currency.service";
+
+export class CurrencyController {
+    private currencyService: CurrencyService;
+
+    constructor() {
+        this.currencyService = new CurrencyService();
+    }
+
+    // Get exchange rates
+    async getRates(req: Request, res: Response) {
+        try {
+            const rates = await this.currencyService.getRates();
+            res.json(rates);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Set the exchange rate of a currency
+    async setRate(req: Request, res: Response) {
+        try {
+            const { currency } = req.params;
+            const rate = await this.currencyService.setRate(
+                currency,
+                req.body.rate
+            );
+            res.json(rate);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Delete the exchange rate of a currency
+    async deleteRate(req: Request, res: Response) {
+        try {
+            const { currency } = req.params;
+            await this.currencyService.deleteRate(currency);
+            res.json({ message: "Exchange rate deleted successfully" });
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+}
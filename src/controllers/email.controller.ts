@@ -40,13 +40,19 @@ export class EmailController {
         }
     }
 
-    // Send order confirmation email
+    // Send the confirmation email of one of the user's orders
     async sendOrderConfirmationEmail(req: Request, res: Response) {
         try {
-            const { userId, orderId } = req.body;
-            if (!userId || !orderId) {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { orderId } = req.body;
+            if (!orderId) {
                 return res.status(400).json({
-                    message: "User ID and order ID are required",
+                    message: "Order ID is required",
                 });
             }
             await this.emailService.sendOrderConfirmationEmail(userId, orderId);
@@ -0,0 +1,40 @@
+import { Request, Response } from "express";
+import { InventoryService } from "@/services/inventory.service";
+
+export class InventoryController {
+    private inventoryService: InventoryService;
+
+    constructor() {
+        this.inventoryService = new InventoryService();
+    }
+
+    // Get products with stock held by active reservations
+    async getReservedProducts(req: Request, res: Response) {
+        try {
+            const { page, limit } = req.query;
+            const products = await this.inventoryService.getReservedProducts({
+                page: Number(page) || 1,
+                limit: Number(limit) || 10,
+            });
+            res.json(products);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get the active reservations of a product
+    async getProductReservations(req: Request, res: Response) {
+        try {
+            const { productId } = req.params;
+            const { page, limit } = req.query;
+            const reservations =
+                await this.inventoryService.getProductReservations(productId, {
+                    page: Number(page) || 1,
+                    limit: Number(limit) || 10,
+                });
+            res.json(reservations);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+}
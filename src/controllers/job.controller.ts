@@ -0,0 +1,88 @@
+import { Request, Response } from "express";
+import { JobService } from "@/services/job.service";
+import { JobRunStatus, JobStatus } from "@prisma/client";
+
+export class JobController {
+    private jobService: JobService;
+
+    constructor() {
+        this.jobService = new JobService();
+    }
+
+    // Get scheduled jobs
+    async getJobs(req: Request, res: Response) {
+        try {
+            const { status, name, page, limit } = req.query;
+            if (
+                status &&
+                !Object.values(JobStatus).includes(status as JobStatus)
+            ) {
+                return res.status(400).json({ message: "Invalid status" });
+            }
+            const jobs = await this.jobService.getJobs(
+                {
+                    status: status as JobStatus | undefined,
+                    name: name as string | undefined,
+                },
+                {
+                    page: Number(page) || 1,
+                    limit: Number(limit) || 10,
+                }
+            );
+            res.json(jobs);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get a job with its latest runs
+    async getJobById(req: Request, res: Response) {
+        try {
+            const { jobId } = req.params;
+            const job = await this.jobService.getJobById(jobId);
+            if (!job) {
+                return res.status(404).json({ message: "Job not found" });
+            }
+            res.json(job);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get job runs
+    async getJobRuns(req: Request, res: Response) {
+        try {
+            const { jobId, status, page, limit } = req.query;
+            if (
+                status &&
+                !Object.values(JobRunStatus).includes(status as JobRunStatus)
+            ) {
+                return res.status(400).json({ message: "Invalid status" });
+            }
+            const runs = await this.jobService.getJobRuns(
+                {
+                    jobId: jobId as string | undefined,
+                    status: status as JobRunStatus | undefined,
+                },
+                {
+                    page: Number(page) || 1,
+                    limit: Number(limit) || 10,
+                }
+            );
+            res.json(runs);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Run a failed job again
+    async retryJob(req: Request, res: Response) {
+        try {
+            const { jobId } = req.params;
+            const job = await this.jobService.retryJob(jobId);
+            res.json(job);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+}
@@ -1,12 +1,23 @@
 import { Request, Response } from "express";
 import { OrderService } from "@/services/order.service";
-import { OrderStatus, PaymentMethod, PaymentStatus } from "@prisma/client";
+import { InvoiceService } from "@/services/invoice.service";
+import { CurrencyService } from "@/services/currency.service";
+import {
+    OrderStatus,
+    PaymentMethod,
+    PaymentStatus,
+    UserRole,
+} from "@prisma/client";
 
 export class OrderController {
     private orderService: OrderService;
+    private invoiceService: InvoiceService;
+    private currencyService: CurrencyService;
 
     constructor() {
         this.orderService = new OrderService();
+        this.invoiceService = new InvoiceService();
+        this.currencyService = new CurrencyService();
     }
 
     // Create order
@@ -18,12 +29,20 @@ export class OrderController {
                     .status(401)
                     .json({ message: "User not authenticated" });
             }
-            const { addressId, items, paymentMethod } = req.body;
+            const {
+                addressId,
+                items,
+                paymentMethod,
+                couponCode,
+                shippingRateId,
+            } = req.body;
             const order = await this.orderService.createOrder({
                 userId,
                 addressId,
                 items,
                 paymentMethod: paymentMethod as PaymentMethod,
+                couponCode,
+                shippingRateId,
             });
             res.status(201).json(order);
         } catch (error) {
@@ -31,6 +50,35 @@ export class OrderController {
         }
     }
 
+    // Place an order for the items in the user's cart
+    async checkout(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const {
+                addressId,
+                paymentMethod,
+                productIds,
+                couponCode,
+                shippingRateId,
+            } = req.body;
+            const result = await this.orderService.checkout(userId, {
+                addressId,
+                paymentMethod: paymentMethod as PaymentMethod,
+                productIds,
+                couponCode,
+                shippingRateId,
+            });
+            res.status(201).json(result);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
     // Get order by ID
     async getOrderById(req: Request, res: Response) {
         try {
@@ -45,7 +93,60 @@ export class OrderController {
             if (!order) {
                 return res.status(404).json({ message: "Order not found" });
             }
-            res.json(order);
+            res.json(
+                await this.currencyService.localizeOrder(order, req.currency)
+            );
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Download the invoice of an order as PDF
+    async getInvoice(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { orderId } = req.params;
+            const invoice = await this.invoiceService.getInvoiceForUser(
+                orderId,
+                { userId, role: req.user?.role ?? UserRole.CUSTOMER }
+            );
+            if (!invoice) {
+                return res.status(404).json({ message: "Order not found" });
+            }
+            res.setHeader("Content-Type", "application/pdf");
+            res.setHeader(
+                "Content-Disposition",
+                `attachment; filename="${invoice.fileName}"`
+            );
+            res.send(invoice.pdf);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get the tracking timeline of an order
+    async getOrderTimeline(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { orderId } = req.params;
+            const timeline = await this.orderService.getOrderTimeline(orderId, {
+                userId,
+                role: req.user?.role ?? UserRole.CUSTOMER,
+            });
+            if (!timeline) {
+                return res.status(404).json({ message: "Order not found" });
+            }
+            res.json(timeline);
         } catch (error) {
             res.status(400).json({ message: (error as Error).message });
         }
@@ -65,7 +166,58 @@ export class OrderController {
                 page: Number(page) || 1,
                 limit: Number(limit) || 10,
             });
-            res.json(orders);
+            res.json({
+                ...orders,
+                data: await this.currencyService.localizeOrders(
+                    orders.data,
+                    req.currency
+                ),
+            });
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Add the items of a past order to the cart again
+    async reorder(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { orderId } = req.params;
+            const result = await this.orderService.reorder(orderId, userId);
+            if (!result) {
+                return res.status(404).json({ message: "Order not found" });
+            }
+            res.json(result);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get the products the user buys most often
+    async getBuyAgainProducts(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { limit } = req.query;
+            const products = await this.orderService.getBuyAgainProducts(
+                userId,
+                Number(limit) || 10
+            );
+            res.json(
+                await this.currencyService.localizeProducts(
+                    products,
+                    req.currency
+                )
+            );
         } catch (error) {
             res.status(400).json({ message: (error as Error).message });
         }
@@ -75,10 +227,17 @@ export class OrderController {
     async updateOrderStatus(req: Request, res: Response) {
         try {
             const { orderId } = req.params;
-            const { status } = req.body;
+            const { status, reason } = req.body;
+            if (!status || !Object.values(OrderStatus).includes(status)) {
+                return res.status(400).json({ message: "Invalid status" });
+            }
             const order = await this.orderService.updateOrderStatus(
                 orderId,
-                status as OrderStatus
+                status as OrderStatus,
+                {
+                    changedById: req.user?.userId,
+                    reason,
+                }
             );
             res.json(order);
         } catch (error) {
@@ -86,14 +245,81 @@ export class OrderController {
         }
     }
 
+    // Get fulfillment groups for the authenticated seller
+    async getSellerFulfillmentGroups(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { page, limit, status } = req.query;
+            if (
+                status &&
+                !Object.values(OrderStatus).includes(status as OrderStatus)
+            ) {
+                return res.status(400).json({ message: "Invalid status" });
+            }
+            const groups = await this.orderService.getSellerFulfillmentGroups(
+                userId,
+                {
+                    status: status as OrderStatus | undefined,
+                    page: Number(page) || 1,
+                    limit: Number(limit) || 10,
+                }
+            );
+            res.json(groups);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Update fulfillment group status
+    async updateFulfillmentGroupStatus(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { groupId } = req.params;
+            const { status, reason, carrier, trackingNumber } = req.body;
+            if (!status || !Object.values(OrderStatus).includes(status)) {
+                return res.status(400).json({ message: "Invalid status" });
+            }
+            const group = await this.orderService.updateFulfillmentGroupStatus(
+                groupId,
+                status as OrderStatus,
+                {
+                    changedById: userId,
+                    reason,
+                    carrier,
+                    trackingNumber,
+                    // Sellers can only update their own groups
+                    sellerUserId:
+                        req.user?.role === UserRole.SELLER ? userId : undefined,
+                }
+            );
+            res.json(group);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
     // Update payment status
     async updatePaymentStatus(req: Request, res: Response) {
         try {
             const { orderId } = req.params;
-            const { status } = req.body;
+            const { status, reason } = req.body;
             const order = await this.orderService.updatePaymentStatus(
                 orderId,
-                status as PaymentStatus
+                status as PaymentStatus,
+                {
+                    changedById: req.user?.userId,
+                    reason,
+                }
             );
             res.json(order);
         } catch (error) {
@@ -1,6 +1,10 @@
 import { Request, Response } from "express";
 import { PaymentService } from "@/services/payment.service";
-import { PaymentMethod } from "@prisma/client";
+import {
+    MobileMoneyNetwork,
+    PaymentMethod,
+    WebhookEventStatus,
+} from "@prisma/client";
 
 export class PaymentController {
     private paymentService: PaymentService;
@@ -12,17 +16,23 @@ export class PaymentController {
     // Create payment
     async createPayment(req: Request, res: Response) {
         try {
-            const { orderId, method, amount } = req.body;
-            if (!orderId || !method || !amount) {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { orderId, method, phoneNumber, network } = req.body;
+            if (!orderId || !method) {
                 return res.status(400).json({
-                    message:
-                        "Order ID, payment method, and amount are required",
+                    message: "Order ID and payment method are required",
                 });
             }
             const payment = await this.paymentService.createPayment(
                 orderId,
+                userId,
                 method as PaymentMethod,
-                amount
+                { phoneNumber, network }
             );
             res.status(201).json(payment);
         } catch (error) {
@@ -49,12 +59,96 @@ export class PaymentController {
         }
     }
 
-    // Handle webhook
+    // Handle Stripe webhook
+    // req.body is the raw request body so the signature can be verified
     async handleWebhook(req: Request, res: Response) {
         try {
-            const event = req.body;
-            await this.paymentService.handleWebhook(event);
-            res.json({ received: true });
+            const result = await this.paymentService.handleWebhook(
+                PaymentMethod.CARD,
+                { body: req.body, headers: req.headers, query: req.query }
+            );
+            res.json({ received: true, duplicate: result.duplicate });
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Handle mobile money provider callback
+    async handleMobileMoneyCallback(req: Request, res: Response) {
+        try {
+            const network = req.params.network.toUpperCase();
+            if (
+                !Object.values(MobileMoneyNetwork).includes(
+                    network as MobileMoneyNetwork
+                )
+            ) {
+                return res
+                    .status(400)
+                    .json({ message: "Invalid mobile money network" });
+            }
+            const result = await this.paymentService.handleWebhook(
+                PaymentMethod.MOBILE_MONEY,
+                { body: req.body, headers: req.headers, query: req.query },
+                network as MobileMoneyNetwork
+            );
+            res.json({ received: true, duplicate: result.duplicate });
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Complete a sandbox mobile money payment
+    async completeSandboxPayment(req: Request, res: Response) {
+        try {
+            const { referenceId } = req.params;
+            const { status } = req.body;
+            if (status !== "SUCCESSFUL" && status !== "FAILED") {
+                return res.status(400).json({
+                    message: "Status must be SUCCESSFUL or FAILED",
+                });
+            }
+            const result =
+                await this.paymentService.completeSandboxMobileMoneyPayment(
+                    referenceId,
+                    status
+                );
+            res.json(result);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get logged webhook events
+    async getWebhookEvents(req: Request, res: Response) {
+        try {
+            const { page, limit, status, type } = req.query;
+            if (
+                status &&
+                !Object.values(WebhookEventStatus).includes(
+                    status as WebhookEventStatus
+                )
+            ) {
+                return res.status(400).json({ message: "Invalid status" });
+            }
+            const events = await this.paymentService.getWebhookEvents({
+                status: status as WebhookEventStatus | undefined,
+                type: type as string | undefined,
+                page: Number(page) || 1,
+                limit: Number(limit) || 10,
+            });
+            res.json(events);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Re-process a logged webhook event
+    async reprocessWebhookEvent(req: Request, res: Response) {
+        try {
+            const { eventId } = req.params;
+            const event =
+                await this.paymentService.reprocessWebhookEvent(eventId);
+            res.json(event);
         } catch (error) {
             res.status(400).json({ message: (error as Error).message });
         }
@@ -1,11 +1,17 @@
 import { Request, Response } from "express";
 import { ProductService } from "@/services/product.service";
+import { CurrencyService } from "@/services/currency.service";
+import { SearchHistoryService } from "@/services/searchHistory.service";
 
 export class ProductController {
     private productService: ProductService;
+    private currencyService: CurrencyService;
+    private searchHistoryService: SearchHistoryService;
 
     constructor() {
         this.productService = new ProductService();
+        this.currencyService = new CurrencyService();
+        this.searchHistoryService = new SearchHistoryService();
     }
 
     // Create product
@@ -35,7 +41,12 @@ export class ProductController {
             if (!product) {
                 return res.status(404).json({ message: "Product not found" });
             }
-            res.json(product);
+            res.json(
+                await this.currencyService.localizeProduct(
+                    product,
+                    req.currency
+                )
+            );
         } catch (error) {
             res.status(400).json({ message: (error as Error).message });
         }
@@ -54,7 +65,13 @@ export class ProductController {
                 minPrice: minPrice ? Number(minPrice) : undefined,
                 maxPrice: maxPrice ? Number(maxPrice) : undefined,
             });
-            res.json(products);
+            res.json({
+                ...products,
+                data: await this.currencyService.localizeProducts(
+                    products.data,
+                    req.currency
+                ),
+            });
         } catch (error) {
             res.status(400).json({ message: (error as Error).message });
         }
@@ -221,6 +238,7 @@ export class ProductController {
             const {
                 search,
                 categoryId,
+                sellerId,
                 minPrice,
                 maxPrice,
                 inStock,
@@ -232,17 +250,61 @@ export class ProductController {
             } = req.query;
             const products = await this.productService.searchProduct({
                 search: search as string,
+                userId: req.user?.userId,
                 categoryId: categoryId as string,
+                sellerId: sellerId as string,
                 minPrice: minPrice ? Number(minPrice) : undefined,
                 maxPrice: maxPrice ? Number(maxPrice) : undefined,
                 inStock: inStock === "true",
                 rating: rating ? Number(rating) : undefined,
-                sortBy: sortBy as "price" | "rating" | "createdAt",
+                sortBy: sortBy as
+                    "relevance" | "price" | "rating" | "createdAt",
                 sortOrder: sortOrder as "asc" | "desc",
                 page: Number(page) || 1,
                 limit: Number(limit) || 10,
             });
-            res.json(products);
+            res.json({
+                ...products,
+                data: await this.currencyService.localizeProducts(
+                    products.data,
+                    req.currency
+                ),
+            });
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Suggest products, categories and recent searches for a search text
+    async suggestSearch(req: Request, res: Response) {
+        try {
+            const suggestions = await this.searchHistoryService.getSuggestions(
+                (req.query.q as string) || "",
+                req.user?.userId
+            );
+            res.json(suggestions);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get the report of trending and zero result searches
+    async getSearchReport(req: Request, res: Response) {
+        try {
+            const { startDate, endDate } = req.query;
+            const start = startDate ? new Date(startDate as string) : undefined;
+            const end = endDate ? new Date(endDate as string) : undefined;
+            if (
+                (start && isNaN(start.getTime())) ||
+                (end && isNaN(end.getTime()))
+            ) {
+                return res.status(400).json({ message: "Invalid date" });
+            }
+            const report = await this.searchHistoryService.getSearchReport({
+                startDate: start,
+                endDate: end,
+            });
+            res.json(report);
         } catch (error) {
             res.status(400).json({ message: (error as Error).message });
         }
@@ -260,7 +322,13 @@ export class ProductController {
                     limit: Number(limit) || 10,
                 }
             );
-            res.json(products);
+            res.json({
+                ...products,
+                data: await this.currencyService.localizeProducts(
+                    products.data,
+                    req.currency
+                ),
+            });
         } catch (error) {
             res.status(400).json({ message: (error as Error).message });
         }
@@ -292,11 +360,12 @@ export class ProductController {
     async checkProductAvailability(req: Request, res: Response) {
         try {
             const { id } = req.params;
-            const { quantity } = req.query;
+            const { quantity, variantId } = req.query;
             const available =
                 await this.productService.checkProductAvailability(
                     id,
-                    Number(quantity)
+                    Number(quantity),
+                    variantId as string | undefined
                 );
             res.json({ available });
         } catch (error) {
@@ -338,7 +407,12 @@ export class ProductController {
                 productId,
                 limit ? Number(limit) : undefined
             );
-            res.json(products);
+            res.json(
+                await this.currencyService.localizeProducts(
+                    products,
+                    req.currency
+                )
+            );
         } catch (error) {
             res.status(400).json({ message: (error as Error).message });
         }
@@ -360,4 +434,96 @@ export class ProductController {
             res.status(400).json({ message: (error as Error).message });
         }
     }
+
+    // Get the options and variants of a product
+    async getProductVariants(req: Request, res: Response) {
+        try {
+            const { id } = req.params;
+            const variants = await this.productService.getProductVariants(id);
+            res.json(variants);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Set the options of a product
+    async setProductOptions(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "Seller not authenticated" });
+            }
+            const { id } = req.params;
+            const options = await this.productService.setProductOptions(
+                id,
+                userId,
+                req.body.options
+            );
+            res.json(options);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Add a variant to a product
+    async createVariant(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "Seller not authenticated" });
+            }
+            const { id } = req.params;
+            const variant = await this.productService.createVariant(
+                id,
+                userId,
+                req.body
+            );
+            res.status(201).json(variant);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Update a variant of a product
+    async updateVariant(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "Seller not authenticated" });
+            }
+            const { id, variantId } = req.params;
+            const variant = await this.productService.updateVariant(
+                id,
+                variantId,
+                userId,
+                req.body
+            );
+            res.json(variant);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Stop selling a variant of a product
+    async deleteVariant(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "Seller not authenticated" });
+            }
+            const { id, variantId } = req.params;
+            await this.productService.deleteVariant(id, variantId, userId);
+            res.json({ message: "Variant deleted successfully" });
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
 }
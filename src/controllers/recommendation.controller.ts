@@ -0,0 +1,74 @@
+import { Request, Response } from "express";
+import { RecommendationService } from "@/services/recommendation.service";
+import { CurrencyService } from "@/services/currency.service";
+
+export class RecommendationController {
+    private recommendationService: RecommendationService;
+    private currencyService: CurrencyService;
+
+    constructor() {
+        this.recommendationService = new RecommendationService();
+        this.currencyService = new CurrencyService();
+    }
+
+    // Get the home feed of the signed in user, or of guests
+    async getHomeFeed(req: Request, res: Response) {
+        try {
+            const { limit } = req.query;
+            const products = await this.recommendationService.getHomeFeed(
+                req.user?.userId,
+                limit ? Number(limit) : undefined
+            );
+            res.json(
+                await this.currencyService.localizeProducts(
+                    products,
+                    req.currency
+                )
+            );
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get the products frequently bought together with a product
+    async getFrequentlyBoughtTogether(req: Request, res: Response) {
+        try {
+            const { productId } = req.params;
+            const { limit } = req.query;
+            const products =
+                await this.recommendationService.getFrequentlyBoughtTogether(
+                    productId,
+                    limit ? Number(limit) : undefined
+                );
+            res.json(
+                await this.currencyService.localizeProducts(
+                    products,
+                    req.currency
+                )
+            );
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get the products customers also viewed with a product
+    async getCustomersAlsoViewed(req: Request, res: Response) {
+        try {
+            const { productId } = req.params;
+            const { limit } = req.query;
+            const products =
+                await this.recommendationService.getCustomersAlsoViewed(
+                    productId,
+                    limit ? Number(limit) : undefined
+                );
+            res.json(
+                await this.currencyService.localizeProducts(
+                    products,
+                    req.currency
+                )
+            );
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+}
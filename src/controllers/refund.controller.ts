@@ -0,0 +1,153 @@
+import { Request, Response } from "express";
+import { RefundService } from "@/services/refund.service";
+import { RefundStatus } from "@prisma/client";
+
+export class RefundController {
+    private refundService: RefundService;
+
+    constructor() {
+        this.refundService = new RefundService();
+    }
+
+    // Create refund request
+    async createRefundRequest(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { orderId, reasonCode, reason, photos, items } = req.body;
+            const refund = await this.refundService.createRefundRequest({
+                userId,
+                orderId,
+                reasonCode,
+                reason,
+                photos,
+                items,
+            });
+            res.status(201).json(refund);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get the authenticated user's refund requests
+    async getUserRefundRequests(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { page, limit } = req.query;
+            const refunds = await this.refundService.getUserRefundRequests(
+                userId,
+                {
+                    page: Number(page) || 1,
+                    limit: Number(limit) || 10,
+                }
+            );
+            res.json(refunds);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get refund request by ID
+    async getRefundRequestById(req: Request, res: Response) {
+        try {
+            if (!req.user) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { refundId } = req.params;
+            const refund = await this.refundService.getRefundRequestById(
+                refundId,
+                req.user
+            );
+            res.json(refund);
+        } catch (error) {
+            res.status(404).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get refund requests for admins and sellers to review
+    async getRefundRequestsForReview(req: Request, res: Response) {
+        try {
+            if (!req.user) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { page, limit, status } = req.query;
+            if (
+                status &&
+                !Object.values(RefundStatus).includes(status as RefundStatus)
+            ) {
+                return res.status(400).json({ message: "Invalid status" });
+            }
+            const refunds = await this.refundService.getRefundRequestsForReview(
+                req.user,
+                {
+                    status: status as RefundStatus | undefined,
+                    page: Number(page) || 1,
+                    limit: Number(limit) || 10,
+                }
+            );
+            res.json(refunds);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Approve refund request
+    async approveRefundRequest(req: Request, res: Response) {
+        try {
+            if (!req.user) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { refundId } = req.params;
+            const { restock, note } = req.body;
+            const refund = await this.refundService.approveRefundRequest(
+                refundId,
+                req.user,
+                { restock: restock === true, note }
+            );
+            res.json(refund);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Reject refund request
+    async rejectRefundRequest(req: Request, res: Response) {
+        try {
+            if (!req.user) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { refundId } = req.params;
+            const { note } = req.body;
+            if (!note) {
+                return res
+                    .status(400)
+                    .json({ message: "Rejection note is required" });
+            }
+            const refund = await this.refundService.rejectRefundRequest(
+                refundId,
+                req.user,
+                note
+            );
+            res.json(refund);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+}
@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import { SellerService } from "@/services/seller.service";
+import { OrderItemStatus, OrderStatus } from "@prisma/client";
 
 export class SellerController {
     private sellerService: SellerService;
@@ -151,4 +152,147 @@ export class SellerController {
             res.status(400).json({ message: (error as Error).message });
         }
     }
+
+    // Get orders containing the authenticated seller's products
+    async getSellerOrders(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { page, limit, status, itemStatus, startDate, endDate } =
+                req.query;
+            if (
+                status &&
+                !Object.values(OrderStatus).includes(status as OrderStatus)
+            ) {
+                return res.status(400).json({ message: "Invalid status" });
+            }
+            if (
+                itemStatus &&
+                !Object.values(OrderItemStatus).includes(
+                    itemStatus as OrderItemStatus
+                )
+            ) {
+                return res.status(400).json({ message: "Invalid item status" });
+            }
+            const orders = await this.sellerService.getSellerOrders(userId, {
+                status: status as OrderStatus | undefined,
+                itemStatus: itemStatus as OrderItemStatus | undefined,
+                startDate: startDate
+                    ? new Date(startDate as string)
+                    : undefined,
+                endDate: endDate ? new Date(endDate as string) : undefined,
+                page: Number(page) || 1,
+                limit: Number(limit) || 10,
+            });
+            res.json(orders);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get a single order with the authenticated seller's items
+    async getSellerOrder(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { orderId } = req.params;
+            const order = await this.sellerService.getSellerOrder(
+                userId,
+                orderId
+            );
+            res.json(order);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Accept order items
+    async acceptOrderItems(req: Request, res: Response) {
+        return this.updateOrderItemStatus(req, res, OrderItemStatus.ACCEPTED);
+    }
+
+    // Reject order items
+    async rejectOrderItems(req: Request, res: Response) {
+        if (!req.body.reason) {
+            return res
+                .status(400)
+                .json({ message: "Rejection reason is required" });
+        }
+        return this.updateOrderItemStatus(req, res, OrderItemStatus.REJECTED);
+    }
+
+    // Mark order items as packed
+    async packOrderItems(req: Request, res: Response) {
+        return this.updateOrderItemStatus(req, res, OrderItemStatus.PACKED);
+    }
+
+    // Mark order items as shipped
+    async shipOrderItems(req: Request, res: Response) {
+        if (!req.body.carrier || !req.body.trackingNumber) {
+            return res.status(400).json({
+                message: "Carrier and tracking number are required",
+            });
+        }
+        return this.updateOrderItemStatus(req, res, OrderItemStatus.SHIPPED);
+    }
+
+    // Get a printable packing slip
+    async getPackingSlip(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { orderId } = req.params;
+            const slip = await this.sellerService.getPackingSlip(
+                userId,
+                orderId
+            );
+            res.type("html").send(slip);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Update the status of the seller's items in an order
+    private async updateOrderItemStatus(
+        req: Request,
+        res: Response,
+        status: OrderItemStatus
+    ) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { orderId } = req.params;
+            const { itemIds, reason, carrier, trackingNumber } = req.body;
+            if (!Array.isArray(itemIds) || itemIds.length === 0) {
+                return res
+                    .status(400)
+                    .json({ message: "Item IDs are required" });
+            }
+            const items = await this.sellerService.updateOrderItemStatus(
+                userId,
+                orderId,
+                status,
+                { itemIds, reason, carrier, trackingNumber }
+            );
+            res.json(items);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
 }
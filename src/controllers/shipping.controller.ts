@@ -0,0 +1,131 @@
+import { Request, Response } from "express";
+import { ShippingService } from "@/services/shipping.service";
+import { CartService } from "@/services/cart.service";
+
+export class ShippingController {
+    private shippingService: ShippingService;
+    private cartService: CartService;
+
+    constructor() {
+        this.shippingService = new ShippingService();
+        this.cartService = new CartService();
+    }
+
+    // Get the delivery options for the cart to an address
+    async getQuote(req: Request, res: Response) {
+        try {
+            const userId = req.user?.userId;
+            if (!userId) {
+                return res
+                    .status(401)
+                    .json({ message: "User not authenticated" });
+            }
+            const { addressId, couponCode } = req.query;
+            if (!addressId) {
+                return res
+                    .status(400)
+                    .json({ message: "Address ID is required" });
+            }
+            const quote = await this.cartService.getShippingQuote(
+                userId,
+                addressId as string,
+                couponCode as string | undefined
+            );
+            res.json(quote);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Create delivery zone
+    async createZone(req: Request, res: Response) {
+        try {
+            const zone = await this.shippingService.createZone(req.body);
+            res.status(201).json(zone);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get delivery zones
+    async getZones(req: Request, res: Response) {
+        try {
+            const zones = await this.shippingService.getZones();
+            res.json(zones);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Get delivery zone by ID
+    async getZoneById(req: Request, res: Response) {
+        try {
+            const { zoneId } = req.params;
+            const zone = await this.shippingService.getZoneById(zoneId);
+            res.json(zone);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Update delivery zone
+    async updateZone(req: Request, res: Response) {
+        try {
+            const { zoneId } = req.params;
+            const zone = await this.shippingService.updateZone(
+                zoneId,
+                req.body
+            );
+            res.json(zone);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Delete delivery zone
+    async deleteZone(req: Request, res: Response) {
+        try {
+            const { zoneId } = req.params;
+            await this.shippingService.deleteZone(zoneId);
+            res.json({ message: "Shipping zone deleted successfully" });
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Add rate to a delivery zone
+    async addRate(req: Request, res: Response) {
+        try {
+            const { zoneId } = req.params;
+            const rate = await this.shippingService.addRate(zoneId, req.body);
+            res.status(201).json(rate);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Update rate
+    async updateRate(req: Request, res: Response) {
+        try {
+            const { rateId } = req.params;
+            const rate = await this.shippingService.updateRate(
+                rateId,
+                req.body
+            );
+            res.json(rate);
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+
+    // Delete rate
+    async deleteRate(req: Request, res: Response) {
+        try {
+            const { rateId } = req.params;
+            await this.shippingService.deleteRate(rateId);
+            res.json({ message: "Shipping rate deleted successfully" });
+        } catch (error) {
+            res.status(400).json({ message: (error as Error).message });
+        }
+    }
+}
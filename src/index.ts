@@ -7,6 +7,7 @@ import swaggerJsdoc from "swagger-jsdoc";
 import { config } from "dotenv";
 import { PrismaClient } from "@prisma/client";
 import { initializeSocket } from "@/config/socket";
+import { startJobWorker } from "@/jobs";
 
 // Load environment variables
 config();
@@ -19,13 +20,20 @@ import authRoutes from "@/routes/auth.routes";
 import blogRoutes from "@/routes/blog.routes";
 import cartRoutes from "@/routes/cart.routes";
 import categoryRoutes from "@/routes/category.routes";
+import couponRoutes from "@/routes/coupon.routes";
+import currencyRoutes from "@/routes/currency.routes";
 import emailRoutes from "@/routes/email.routes";
 import fileRoutes from "@/routes/file.routes";
+import inventoryRoutes from "@/routes/inventory.routes";
+import jobRoutes from "@/routes/job.routes";
 import notificationRoutes from "@/routes/notification.routes";
 import orderRoutes from "@/routes/order.routes";
 import paymentRoutes from "@/routes/payment.routes";
 import productRoutes from "@/routes/product.routes";
+import recommendationRoutes from "@/routes/recommendation.routes";
+import refundRoutes from "@/routes/refund.routes";
 import sellerRoutes from "@/routes/seller.routes";
+import shippingRoutes from "@/routes/shipping.routes";
 import userRoutes from "@/routes/user.routes";
 
 const app = express();
@@ -89,6 +97,10 @@ const initializeServices = async () => {
         });
         initializeSocket(server);
         console.log("Socket.IO initialized successfully");
+
+        // Run scheduled jobs: expirations, cleanups and reports
+        await startJobWorker();
+        console.log("Job worker started successfully");
     } catch (error) {
         console.error("Error initializing services:", error);
         process.exit(1);
@@ -110,6 +122,8 @@ app.use(
     })
 );
 app.use(morgan("dev"));
+// Stripe webhooks need the raw body to verify their signature
+app.use("/api/payments/webhook", express.raw({ type: "application/json" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -145,13 +159,20 @@ app.use("/api/auth", authRoutes);
 app.use("/api/blogs", blogRoutes);
 app.use("/api/cart", cartRoutes);
 app.use("/api/categories", categoryRoutes);
+app.use("/api/coupons", couponRoutes);
+app.use("/api/currencies", currencyRoutes);
 app.use("/api/email", emailRoutes);
 app.use("/api/files", fileRoutes);
+app.use("/api/inventory", inventoryRoutes);
+app.use("/api/jobs", jobRoutes);
 app.use("/api/notifications", notificationRoutes);
 app.use("/api/orders", orderRoutes);
 app.use("/api/payments", paymentRoutes);
 app.use("/api/products", productRoutes);
+app.use("/api/recommendations", recommendationRoutes);
+app.use("/api/refunds", refundRoutes);
 app.use("/api/sellers", sellerRoutes);
+app.use("/api/shipping", shippingRoutes);
 app.use("/api/users", userRoutes);
 
 // Error handling middleware
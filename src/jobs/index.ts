@@ -0,0 +1,94 @@
+import os from "os";
+import { JOB_CONFIG } from "@/config/jobs";
+import { JobHandlers, JobService } from "@/services/job.service";
+import { AuthService } from "@/services/auth.service";
+import { CartReminderService } from "@/services/cartReminder.service";
+import { InventoryService } from "@/services/inventory.service";
+import { NotificationService } from "@/services/notification.service";
+import { OrderService } from "@/services/order.service";
+import { RecommendationService } from "@/services/recommendation.service";
+import { SEARCH_CONFIG } from "@/config/search";
+import { getSearchProvider } from "@/providers/search";
+
+// Create the handlers of the scheduled jobs
+export const createJobHandlers = (): JobHandlers => {
+    const authService = new AuthService();
+    const cartReminderService = new CartReminderService();
+    const inventoryService = new InventoryService();
+    const notificationService = new NotificationService();
+    const orderService = new OrderService();
+    const recommendationService = new RecommendationService();
+
+    return {
+        // Delete a notification once it expires
+        "notifications.expire": async (payload) => {
+            const { notificationId } = payload as { notificationId: string };
+            const deleted =
+                await notificationService.expireNotification(notificationId);
+            return { deleted };
+        },
+        // Release stock held by checkouts that were never paid and cancel
+        // their orders
+        "inventory.expireReservations": async () => {
+            const { expired, orderIds } =
+                await inventoryService.expireReservations();
+            const cancelled = await orderService.cancelUnpaidOrders(orderIds);
+            return { expired, cancelled };
+        },
+        "auth.cleanupTokens": () => authService.cleanupExpiredTokens(),
+        // Remind customers of the carts they left
+        "carts.remindAbandoned": () =>
+            cartReminderService.sendAbandonedCartReminders(),
+        // Index products that were added without going through the API,
+        // e.g. by seeding, or whose indexing failed
+        "search.reindexProducts": async () => {
+            const indexed = await getSearchProvider().indexProducts({
+                missingOnly: true,
+                limit: SEARCH_CONFIG.reindexBatchSize,
+            });
+            return { indexed };
+        },
+        // Recompute product recommendations and home feeds
+        "recommendations.compute": () =>
+            recommendationService.computeRecommendations(),
+        // Sales of the last day, kept on the job run
+        "reports.dailySales": async () => {
+            const [statistics, sales] = await Promise.all([
+                orderService.getOrderStatistics(),
+                orderService.getSalesTrendAnalytics("day"),
+            ]);
+            return {
+                statistics,
+                netSales: sales.netSales,
+                taxCollected: sales.taxCollected,
+                averageOrderValue: sales.averageOrderValue,
+                currency: sales.currency,
+            };
+        },
+    };
+};
+
+// Schedule the recurring jobs and poll for due jobs in the background
+export const startJobWorker = async () => {
+    const jobService = new JobService();
+    const handlers = createJobHandlers();
+    const workerId = `${os.hostname()}:${process.pid}`;
+
+    await jobService.scheduleRecurringJobs();
+
+    // Skip a poll while the previous one is still running
+    let polling = false;
+    setInterval(async () => {
+        if (polling) {
+            return;
+        }
+        polling = true;
+        try {
+            await jobService.runDueJobs(handlers, workerId);
+        } catch (error) {
+            console.error("Error running scheduled jobs:", error);
+        } finally {
+            polling = false;
+        }
+    }, JOB_CONFIG.pollIntervalMs).unref();
+};
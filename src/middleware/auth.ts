@@ -35,6 +35,24 @@ export const authenticate = async (
     }
 };
 
+// Middleware to read the JWT token of a signed in user without requiring
+// one. Requests without a valid token go on as a guest's.
+export const optionalAuthenticate = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    const authHeader = req.headers.authorization;
+    if (authHeader?.startsWith("Bearer ")) {
+        try {
+            req.user = verifyAccessToken(authHeader.split(" ")[1]);
+        } catch (error) {
+            req.user = undefined;
+        }
+    }
+    next();
+};
+
 //Middleware to check user rol
 export const authorize = (...roles: UserRole[]) => {
     return (req: Request, res: Response, next: NextFunction) => {
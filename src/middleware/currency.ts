@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from "express";
+import { verifyAccessToken } from "@/config/jwt";
+import { CurrencyService } from "@/services/currency.service";
+import { isSupportedCurrency } from "@/utils/money";
+
+// Extend express request type with the currency to show amounts in
+declare global {
+    namespace Express {
+        interface Request {
+            currency?: string;
+        }
+    }
+}
+
+const currencyService = new CurrencyService();
+
+// Get the signed in user of a request, if any, without requiring one
+const getUserId = (req: Request) => {
+    if (req.user) {
+        return req.user.userId;
+    }
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith("Bearer ")) {
+        return undefined;
+    }
+    try {
+        return verifyAccessToken(authHeader.split(" ")[1]).userId;
+    } catch (error) {
+        return undefined;
+    }
+};
+
+// Middleware to pick the currency to show amounts in: the currency query
+// parameter, else the currency in the signed in user's settings
+export const displayCurrency = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { currency } = req.query;
+        if (typeof currency === "string" && currency) {
+            if (!isSupportedCurrency(currency)) {
+                return res
+                    .status(400)
+                    .json({ message: `Unsupported currency: ${currency}` });
+            }
+            req.currency = currency.toUpperCase();
+            return next();
+        }
+
+        const userId = getUserId(req);
+        if (userId) {
+            req.currency = await currencyService.getUserCurrency(userId);
+        }
+        next();
+    } catch (error) {
+        next(error);
+    }
+};
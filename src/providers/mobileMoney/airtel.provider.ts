@@ -0,0 +1,144 @@
+import { randomUUID } from "crypto";
+import { MobileMoneyNetwork } from "@prisma/client";
+import { MOBILE_MONEY_CONFIG } from "@/config/mobileMoney";
+import {
+    MobileMoneyCallback,
+    MobileMoneyPayment,
+    MobileMoneyPaymentStatus,
+    MobileMoneyProvider,
+    normalizePhoneNumber,
+    RequestToPayParams,
+} from "./mobileMoney.provider";
+
+// Airtel Money collections API
+export class AirtelMoneyProvider implements MobileMoneyProvider {
+    readonly network = MobileMoneyNetwork.AIRTEL;
+    private accessToken: { token: string; expiresAt: number } | null = null;
+
+    async requestToPay(
+        params: RequestToPayParams
+    ): Promise<MobileMoneyPayment> {
+        const referenceId = randomUUID();
+        // Airtel expects the subscriber number without the country code
+        const msisdn = normalizePhoneNumber(params.phoneNumber).slice(3);
+
+        const response = await fetch(
+            `${MOBILE_MONEY_CONFIG.airtel.baseUrl}/merchant/v1/payments/`,
+            {
+                method: "POST",
+                headers: {
+                    ...(await this.getHeaders()),
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    reference: params.payerMessage,
+                    subscriber: {
+                        country: MOBILE_MONEY_CONFIG.country,
+                        currency: params.currency,
+                        msisdn,
+                    },
+                    transaction: {
+                        amount: params.amount,
+                        country: MOBILE_MONEY_CONFIG.country,
+                        currency: params.currency,
+                        id: referenceId,
+                    },
+                }),
+            }
+        );
+
+        const result = (await response.json().catch(() => null)) as {
+            status?: { success?: boolean };
+        } | null;
+        if (!response.ok || !result?.status?.success) {
+            throw new Error("Airtel Money payment request failed");
+        }
+
+        return { referenceId, status: "PENDING" };
+    }
+
+    async getPaymentStatus(referenceId: string): Promise<MobileMoneyPayment> {
+        const response = await fetch(
+            `${MOBILE_MONEY_CONFIG.airtel.baseUrl}/standard/v1/payments/${referenceId}`,
+            { headers: await this.getHeaders() }
+        );
+
+        if (!response.ok) {
+            throw new Error("Failed to fetch Airtel Money payment status");
+        }
+
+        const result = (await response.json()) as {
+            data?: { transaction?: { status?: string; message?: string } };
+        };
+        return {
+            referenceId,
+            status: this.mapStatus(result.data?.transaction?.status),
+            reason: result.data?.transaction?.message,
+        };
+    }
+
+    parseCallback(body: unknown): MobileMoneyCallback {
+        const { transaction } = (body ?? {}) as {
+            transaction?: { id?: string; status_code?: string };
+        };
+        if (!transaction?.id || !transaction.status_code) {
+            throw new Error("Invalid Airtel Money callback");
+        }
+        return {
+            referenceId: transaction.id,
+            status: this.mapStatus(transaction.status_code),
+        };
+    }
+
+    // TS is a successful transaction, TF a failed one; anything else is in progress
+    private mapStatus(status?: string): MobileMoneyPaymentStatus {
+        switch (status) {
+            case "TS":
+                return "SUCCESSFUL";
+            case "TF":
+                return "FAILED";
+            default:
+                return "PENDING";
+        }
+    }
+
+    private async getHeaders() {
+        return {
+            Authorization: `Bearer ${await this.getAccessToken()}`,
+            "X-Country": MOBILE_MONEY_CONFIG.country,
+            "X-Currency": MOBILE_MONEY_CONFIG.currency,
+        };
+    }
+
+    // Tokens are cached until shortly before they expire
+    private async getAccessToken() {
+        if (this.accessToken && this.accessToken.expiresAt > Date.now()) {
+            return this.accessToken.token;
+        }
+
+        const { airtel } = MOBILE_MONEY_CONFIG;
+        const response = await fetch(`${airtel.baseUrl}/auth/oauth2/token`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                client_id: airtel.clientId,
+                client_secret: airtel.clientSecret,
+                grant_type: "client_credentials",
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error("Failed to authenticate with Airtel Money");
+        }
+
+        const { access_token, expires_in } = (await response.json()) as {
+            access_token: string;
+            expires_in: string | number;
+        };
+        this.accessToken = {
+            token: access_token,
+            expiresAt: Date.now() + (Number(expires_in) - 60) * 1000,
+        };
+        return access_token;
+    }
+}
@@ -0,0 +1,30 @@
+import { MobileMoneyNetwork } from "@prisma/client";
+import { MOBILE_MONEY_CONFIG } from "@/config/mobileMoney";
+import { AirtelMoneyProvider } from "./airtel.provider";
+import { MobileMoneyProvider } from "./mobileMoney.provider";
+import { MtnMomoProvider } from "./mtn.provider";
+import { SandboxMobileMoneyProvider } from "./sandbox.provider";
+
+export * from "./mobileMoney.provider";
+export { AirtelMoneyProvider, MtnMomoProvider, SandboxMobileMoneyProvider };
+
+// Providers are shared so access tokens and sandbox payments survive between requests
+const providers = new Map<MobileMoneyNetwork, MobileMoneyProvider>();
+
+// Get the provider for a mobile money network
+export const getMobileMoneyProvider = (
+    network: MobileMoneyNetwork
+): MobileMoneyProvider => {
+    let provider = providers.get(network);
+    if (!provider) {
+        if (MOBILE_MONEY_CONFIG.sandbox) {
+            provider = new SandboxMobileMoneyProvider(network);
+        } else if (network === MobileMoneyNetwork.MTN) {
+            provider = new MtnMomoProvider();
+        } else {
+            provider = new AirtelMoneyProvider();
+        }
+        providers.set(network, provider);
+    }
+    return provider;
+};
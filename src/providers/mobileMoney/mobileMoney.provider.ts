@@ -0,0 +1,54 @@
+import { MobileMoneyNetwork } from "@prisma/client";
+
+export type MobileMoneyPaymentStatus = "PENDING" | "SUCCESSFUL" | "FAILED";
+
+export interface RequestToPayParams {
+    // Our own reference for the order being paid
+    externalId: string;
+    // In major units, as the networks take them
+    amount: number;
+    currency: string;
+    phoneNumber: string;
+    payerMessage: string;
+}
+
+export interface MobileMoneyPayment {
+    referenceId: string;
+    status: MobileMoneyPaymentStatus;
+    reason?: string;
+}
+
+export interface MobileMoneyCallback {
+    referenceId: string;
+    status: MobileMoneyPaymentStatus;
+}
+
+// A mobile money network that can collect payments from a customer's wallet
+export interface MobileMoneyProvider {
+    readonly network: MobileMoneyNetwork;
+
+    // Ask the customer to approve a payment on their phone
+    requestToPay(params: RequestToPayParams): Promise<MobileMoneyPayment>;
+
+    // Look up the current status of a payment request
+    getPaymentStatus(referenceId: string): Promise<MobileMoneyPayment>;
+
+    // Read the payment reference and reported status from a provider callback
+    // Callbacks are not signed, so the status must be confirmed by polling
+    parseCallback(
+        body: unknown,
+        query: Record<string, unknown>
+    ): MobileMoneyCallback;
+}
+
+// Normalise a Rwandan phone number to the international MSISDN format
+export const normalizePhoneNumber = (phoneNumber: string): string => {
+    let msisdn = phoneNumber.replace(/[\s+-]/g, "");
+    if (msisdn.startsWith("07")) {
+        msisdn = `250${msisdn.slice(1)}`;
+    }
+    if (!/^2507\d{8}$/.test(msisdn)) {
+        throw new Error("Invalid phone number");
+    }
+    return msisdn;
+};
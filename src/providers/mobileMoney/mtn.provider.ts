@@ -0,0 +1,145 @@
+import { randomUUID } from "crypto";
+import { MobileMoneyNetwork } from "@prisma/client";
+import { MOBILE_MONEY_CONFIG } from "@/config/mobileMoney";
+import {
+    MobileMoneyCallback,
+    MobileMoneyPayment,
+    MobileMoneyPaymentStatus,
+    MobileMoneyProvider,
+    normalizePhoneNumber,
+    RequestToPayParams,
+} from "./mobileMoney.provider";
+
+// MTN Mobile Money collections API
+export class MtnMomoProvider implements MobileMoneyProvider {
+    readonly network = MobileMoneyNetwork.MTN;
+    private accessToken: { token: string; expiresAt: number } | null = null;
+
+    async requestToPay(
+        params: RequestToPayParams
+    ): Promise<MobileMoneyPayment> {
+        const referenceId = randomUUID();
+        const { mtn, callbackUrl } = MOBILE_MONEY_CONFIG;
+
+        const response = await fetch(
+            `${mtn.baseUrl}/collection/v1_0/requesttopay`,
+            {
+                method: "POST",
+                headers: {
+                    ...(await this.getHeaders()),
+                    "X-Reference-Id": referenceId,
+                    // MTN does not send the reference back in the callback body
+                    "X-Callback-Url": `${callbackUrl}/mtn?referenceId=${referenceId}`,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    amount: String(params.amount),
+                    currency: params.currency,
+                    externalId: params.externalId,
+                    payer: {
+                        partyIdType: "MSISDN",
+                        partyId: normalizePhoneNumber(params.phoneNumber),
+                    },
+                    payerMessage: params.payerMessage,
+                    payeeNote: params.payerMessage,
+                }),
+            }
+        );
+
+        if (response.status !== 202) {
+            throw new Error("MTN Mobile Money payment request failed");
+        }
+
+        return { referenceId, status: "PENDING" };
+    }
+
+    async getPaymentStatus(referenceId: string): Promise<MobileMoneyPayment> {
+        const response = await fetch(
+            `${MOBILE_MONEY_CONFIG.mtn.baseUrl}/collection/v1_0/requesttopay/${referenceId}`,
+            { headers: await this.getHeaders() }
+        );
+
+        if (!response.ok) {
+            throw new Error("Failed to fetch MTN Mobile Money payment status");
+        }
+
+        const payment = (await response.json()) as {
+            status: string;
+            reason?: string;
+        };
+        return {
+            referenceId,
+            status: this.mapStatus(payment.status),
+            reason: payment.reason,
+        };
+    }
+
+    parseCallback(
+        body: unknown,
+        query: Record<string, unknown>
+    ): MobileMoneyCallback {
+        const { status } = (body ?? {}) as { status?: string };
+        if (typeof query.referenceId !== "string" || !status) {
+            throw new Error("Invalid MTN Mobile Money callback");
+        }
+        return {
+            referenceId: query.referenceId,
+            status: this.mapStatus(status),
+        };
+    }
+
+    private mapStatus(status: string): MobileMoneyPaymentStatus {
+        switch (status) {
+            case "SUCCESSFUL":
+                return "SUCCESSFUL";
+            case "FAILED":
+            case "REJECTED":
+            case "TIMEOUT":
+                return "FAILED";
+            default:
+                return "PENDING";
+        }
+    }
+
+    private async getHeaders() {
+        const { mtn } = MOBILE_MONEY_CONFIG;
+        return {
+            Authorization: `Bearer ${await this.getAccessToken()}`,
+            "X-Target-Environment": mtn.targetEnvironment,
+            "Ocp-Apim-Subscription-Key": mtn.subscriptionKey,
+        };
+    }
+
+    // Tokens are cached until shortly before they expire
+    private async getAccessToken() {
+        if (this.accessToken && this.accessToken.expiresAt > Date.now()) {
+            return this.accessToken.token;
+        }
+
+        const { mtn } = MOBILE_MONEY_CONFIG;
+        const credentials = Buffer.from(
+            `${mtn.apiUser}:${mtn.apiKey}`
+        ).toString("base64");
+        const response = await fetch(`${mtn.baseUrl}/collection/token/`, {
+            method: "POST",
+            headers: {
+                Authorization: `Basic ${credentials}`,
+                "Ocp-Apim-Subscription-Key": mtn.subscriptionKey,
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error("Failed to authenticate with MTN Mobile Money");
+        }
+
+        const { access_token, expires_in } = (await response.json()) as {
+            access_token: string;
+            expires_in: number;
+        };
+        this.accessToken = {
+            token: access_token,
+            expiresAt: Date.now() + (expires_in - 60) * 1000,
+        };
+        return access_token;
+    }
+}
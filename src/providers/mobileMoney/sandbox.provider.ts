@@ -0,0 +1,78 @@
+import { randomUUID } from "crypto";
+import { MobileMoneyNetwork } from "@prisma/client";
+import {
+    MobileMoneyCallback,
+    MobileMoneyPayment,
+    MobileMoneyPaymentStatus,
+    MobileMoneyProvider,
+    normalizePhoneNumber,
+    RequestToPayParams,
+} from "./mobileMoney.provider";
+
+const SANDBOX_STATUSES: MobileMoneyPaymentStatus[] = [
+    "PENDING",
+    "SUCCESSFUL",
+    "FAILED",
+];
+
+// Local stand-in for a mobile money network
+// Payments stay PENDING until they are completed through completePayment
+export class SandboxMobileMoneyProvider implements MobileMoneyProvider {
+    private payments = new Map<string, MobileMoneyPayment>();
+
+    constructor(readonly network: MobileMoneyNetwork) {}
+
+    async requestToPay(
+        params: RequestToPayParams
+    ): Promise<MobileMoneyPayment> {
+        normalizePhoneNumber(params.phoneNumber);
+        if (params.amount <= 0) {
+            throw new Error("Invalid amount");
+        }
+
+        const payment: MobileMoneyPayment = {
+            referenceId: randomUUID(),
+            status: "PENDING",
+        };
+        this.payments.set(payment.referenceId, payment);
+        return { ...payment };
+    }
+
+    async getPaymentStatus(referenceId: string): Promise<MobileMoneyPayment> {
+        const payment = this.payments.get(referenceId);
+        if (!payment) {
+            throw new Error("Mobile money payment not found");
+        }
+        return { ...payment };
+    }
+
+    parseCallback(body: unknown): MobileMoneyCallback {
+        const { referenceId, status } = (body ?? {}) as {
+            referenceId?: string;
+            status?: MobileMoneyPaymentStatus;
+        };
+        if (!referenceId || !status || !SANDBOX_STATUSES.includes(status)) {
+            throw new Error("Invalid mobile money callback");
+        }
+        return { referenceId, status };
+    }
+
+    // Simulate the customer approving or declining a payment on their phone
+    completePayment(
+        referenceId: string,
+        status: Exclude<MobileMoneyPaymentStatus, "PENDING">,
+        reason?: string
+    ): MobileMoneyPayment {
+        const payment = this.payments.get(referenceId);
+        if (!payment) {
+            throw new Error("Mobile money payment not found");
+        }
+        if (payment.status !== "PENDING") {
+            throw new Error("Mobile money payment is already complete");
+        }
+
+        payment.status = status;
+        payment.reason = reason;
+        return { ...payment };
+    }
+}
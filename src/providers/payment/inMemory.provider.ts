@@ -0,0 +1,107 @@
+import { randomUUID } from "crypto";
+import { PaymentStatus } from "@prisma/client";
+import {
+    CreatePaymentIntentParams,
+    PaymentConfirmation,
+    PaymentIntent,
+    PaymentProvider,
+    PaymentRefund,
+    PaymentWebhookEvent,
+    PaymentWebhookRequest,
+} from "./paymentProvider";
+
+interface InMemoryPayment {
+    id: string;
+    amount: number;
+    orderId?: string;
+    status: PaymentStatus;
+    refunded: number;
+}
+
+// Payment provider that keeps everything in memory, for tests
+// Webhook bodies are PaymentWebhookEvent objects and are trusted as-is
+export class InMemoryPaymentProvider implements PaymentProvider {
+    readonly payments = new Map<string, InMemoryPayment>();
+    readonly refunds: Array<{ id: string; paymentId: string; amount: number }> =
+        [];
+
+    constructor(readonly name = "in_memory") {}
+
+    async createPaymentIntent(
+        params: CreatePaymentIntentParams
+    ): Promise<PaymentIntent> {
+        const payment: InMemoryPayment = {
+            id: `pay_${randomUUID()}`,
+            amount: params.amount,
+            orderId: params.orderId,
+            status: PaymentStatus.PENDING,
+            refunded: 0,
+        };
+        this.payments.set(payment.id, payment);
+
+        return {
+            id: payment.id,
+            status: payment.status,
+            clientSecret: `${payment.id}_secret`,
+        };
+    }
+
+    async getPaymentIntent(paymentId: string): Promise<PaymentIntent> {
+        const payment = this.getPayment(paymentId);
+        return {
+            id: payment.id,
+            status: payment.status,
+            clientSecret: `${payment.id}_secret`,
+        };
+    }
+
+    async confirmPayment(paymentId: string): Promise<PaymentConfirmation> {
+        const payment = this.getPayment(paymentId);
+        return {
+            id: payment.id,
+            status: payment.status,
+            amount: payment.amount,
+        };
+    }
+
+    async refundPayment(
+        paymentId: string,
+        amount: number
+    ): Promise<PaymentRefund> {
+        const payment = this.getPayment(paymentId);
+        if (payment.status !== PaymentStatus.COMPLETED) {
+            throw new Error("Payment has not been completed");
+        }
+        if (payment.refunded + amount > payment.amount) {
+            throw new Error("Refund exceeds the amount paid");
+        }
+
+        payment.refunded += amount;
+        const refund = { id: `re_${randomUUID()}`, paymentId, amount };
+        this.refunds.push(refund);
+        return { id: refund.id, status: "succeeded" };
+    }
+
+    async parseWebhook(
+        request: PaymentWebhookRequest
+    ): Promise<PaymentWebhookEvent> {
+        const event = request.body as PaymentWebhookEvent;
+        if (!event?.id || !event.type) {
+            throw new Error("Invalid webhook event");
+        }
+        return { ...event, data: event.data ?? null };
+    }
+
+    // Settle a payment as the customer would
+    setPaymentStatus(paymentId: string, status: PaymentStatus) {
+        this.getPayment(paymentId).status = status;
+    }
+
+    private getPayment(paymentId: string) {
+        const payment = this.payments.get(paymentId);
+        if (!payment) {
+            throw new Error("Payment not found");
+        }
+        return payment;
+    }
+}
@@ -0,0 +1,61 @@
+import { MobileMoneyNetwork, PaymentMethod } from "@prisma/client";
+import { InMemoryPaymentProvider } from "./inMemory.provider";
+import { MobileMoneyPaymentProvider } from "./mobileMoney.provider";
+import { PaymentProvider } from "./paymentProvider";
+import { StripePaymentProvider } from "./stripe.provider";
+
+export * from "./paymentProvider";
+export {
+    InMemoryPaymentProvider,
+    MobileMoneyPaymentProvider,
+    StripePaymentProvider,
+};
+
+const providers = new Map<string, PaymentProvider>();
+
+// Mobile money has one provider per network
+const getProviderKey = (
+    method: PaymentMethod,
+    network?: MobileMoneyNetwork | null
+) => (method === PaymentMethod.MOBILE_MONEY ? `${method}:${network}` : method);
+
+// Get the provider that takes payments for a payment method
+// Cash on delivery has no provider
+export const getPaymentProvider = (
+    method: PaymentMethod,
+    network?: MobileMoneyNetwork | null
+): PaymentProvider => {
+    const key = getProviderKey(method, network);
+    let provider = providers.get(key);
+    if (!provider) {
+        switch (method) {
+            case PaymentMethod.CARD:
+                provider = new StripePaymentProvider();
+                break;
+            case PaymentMethod.MOBILE_MONEY:
+                if (!network) {
+                    throw new Error("Mobile money network is required");
+                }
+                provider = new MobileMoneyPaymentProvider(network);
+                break;
+            default:
+                throw new Error("Invalid payment method");
+        }
+        providers.set(key, provider);
+    }
+    return provider;
+};
+
+// Use a different provider for a payment method, e.g. InMemoryPaymentProvider in tests
+export const setPaymentProvider = (
+    method: PaymentMethod,
+    provider: PaymentProvider,
+    network?: MobileMoneyNetwork
+) => {
+    providers.set(getProviderKey(method, network), provider);
+};
+
+// Go back to the default providers
+export const resetPaymentProviders = () => {
+    providers.clear();
+};
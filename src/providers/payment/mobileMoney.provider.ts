@@ -0,0 +1,103 @@
+import { MobileMoneyNetwork, PaymentStatus } from "@prisma/client";
+import { MOBILE_MONEY_CONFIG } from "@/config/mobileMoney";
+import { fromMinorUnits } from "@/utils/money";
+import {
+    getMobileMoneyProvider,
+    MobileMoneyPaymentStatus,
+} from "@/providers/mobileMoney";
+import {
+    CreatePaymentIntentParams,
+    PaymentConfirmation,
+    PaymentIntent,
+    PaymentProvider,
+    PaymentRefund,
+    PaymentWebhookEvent,
+    PaymentWebhookRequest,
+} from "./paymentProvider";
+
+// Mobile money payments through one network's request-to-pay API
+export class MobileMoneyPaymentProvider implements PaymentProvider {
+    readonly name: string;
+
+    constructor(private readonly network: MobileMoneyNetwork) {
+        this.name = network.toLowerCase();
+    }
+
+    async createPaymentIntent(
+        params: CreatePaymentIntentParams
+    ): Promise<PaymentIntent> {
+        if (!params.phoneNumber) {
+            throw new Error("Phone number is required for mobile money");
+        }
+
+        // Ask the customer to approve the payment on their phone
+        const payment = await getMobileMoneyProvider(this.network).requestToPay(
+            {
+                externalId: params.orderId ?? "",
+                amount: fromMinorUnits(
+                    params.amount,
+                    MOBILE_MONEY_CONFIG.currency
+                ),
+                currency: MOBILE_MONEY_CONFIG.currency,
+                phoneNumber: params.phoneNumber,
+                payerMessage: params.orderId
+                    ? `Payment for order #${params.orderId}`
+                    : "Esoko payment",
+            }
+        );
+
+        return {
+            id: payment.referenceId,
+            status: this.mapStatus(payment.status),
+        };
+    }
+
+    async getPaymentIntent(paymentId: string): Promise<PaymentIntent> {
+        const { status } = await this.confirmPayment(paymentId);
+        return { id: paymentId, status };
+    }
+
+    async confirmPayment(paymentId: string): Promise<PaymentConfirmation> {
+        const payment = await getMobileMoneyProvider(
+            this.network
+        ).getPaymentStatus(paymentId);
+        return { id: paymentId, status: this.mapStatus(payment.status) };
+    }
+
+    // Wallet refunds are sent to the payer by hand
+    async refundPayment(): Promise<PaymentRefund> {
+        return { id: null, status: "manual" };
+    }
+
+    // Callbacks are not signed, so the status is confirmed with the provider
+    async parseWebhook(
+        request: PaymentWebhookRequest
+    ): Promise<PaymentWebhookEvent> {
+        const provider = getMobileMoneyProvider(this.network);
+        const callback = provider.parseCallback(request.body, request.query);
+        const payment = await provider.getPaymentStatus(callback.referenceId);
+
+        return {
+            // A payment can report PENDING before its final status
+            id: `${this.network}:${payment.referenceId}:${payment.status}`,
+            type: `mobile_money.${payment.status.toLowerCase()}`,
+            paymentId: payment.referenceId,
+            paymentStatus:
+                payment.status === "PENDING"
+                    ? null
+                    : this.mapStatus(payment.status),
+            data: { network: this.network, ...payment },
+        };
+    }
+
+    private mapStatus(status: MobileMoneyPaymentStatus): PaymentStatus {
+        switch (status) {
+            case "SUCCESSFUL":
+                return PaymentStatus.COMPLETED;
+            case "FAILED":
+                return PaymentStatus.FAILED;
+            default:
+                return PaymentStatus.PENDING;
+        }
+    }
+}
@@ -0,0 +1,64 @@
+import { PaymentStatus } from "@prisma/client";
+
+// Amounts are integers in the minor unit of the currency
+export interface CreatePaymentIntentParams {
+    amount: number;
+    // Order being paid, when it already exists
+    orderId?: string;
+    // Payer's phone number for wallet based providers
+    phoneNumber?: string;
+}
+
+export interface PaymentIntent {
+    id: string;
+    status: PaymentStatus;
+    // Secret the client uses to complete the payment, if the provider has one
+    clientSecret?: string | null;
+}
+
+export interface PaymentConfirmation {
+    id: string;
+    status: PaymentStatus;
+    amount?: number;
+}
+
+export interface PaymentRefund {
+    // Null when the refund has to be settled by hand
+    id: string | null;
+    status: string;
+}
+
+export interface PaymentWebhookRequest {
+    body: unknown;
+    headers: Record<string, string | string[] | undefined>;
+    query: Record<string, unknown>;
+}
+
+// A provider webhook translated into the payment status it reports
+export interface PaymentWebhookEvent {
+    id: string;
+    type: string;
+    paymentId: string | null;
+    // Null for events that do not change a payment
+    paymentStatus: PaymentStatus | null;
+    data: unknown;
+}
+
+// A gateway that takes payments for one payment method
+export interface PaymentProvider {
+    readonly name: string;
+
+    createPaymentIntent(
+        params: CreatePaymentIntentParams
+    ): Promise<PaymentIntent>;
+
+    // Look up an intent created earlier, to resume its payment
+    getPaymentIntent(paymentId: string): Promise<PaymentIntent>;
+
+    confirmPayment(paymentId: string): Promise<PaymentConfirmation>;
+
+    refundPayment(paymentId: string, amount: number): Promise<PaymentRefund>;
+
+    // Verify and translate a webhook delivery
+    parseWebhook(request: PaymentWebhookRequest): Promise<PaymentWebhookEvent>;
+}
@@ -0,0 +1,136 @@
+import Stripe from "stripe";
+import { PaymentStatus } from "@prisma/client";
+import { stripe, STRIPE_CONFIG } from "@/config/stripe";
+import {
+    CreatePaymentIntentParams,
+    PaymentConfirmation,
+    PaymentIntent,
+    PaymentProvider,
+    PaymentRefund,
+    PaymentWebhookEvent,
+    PaymentWebhookRequest,
+} from "./paymentProvider";
+
+// Card payments through Stripe payment intents.
+// Stripe takes amounts in the minor unit of the currency, as we store them.
+export class StripePaymentProvider implements PaymentProvider {
+    readonly name = "stripe";
+
+    async createPaymentIntent(
+        params: CreatePaymentIntentParams
+    ): Promise<PaymentIntent> {
+        const paymentIntent = await stripe.paymentIntents.create({
+            amount: params.amount,
+            currency: STRIPE_CONFIG.currency,
+            ...(params.orderId && { metadata: { orderId: params.orderId } }),
+        });
+
+        return {
+            id: paymentIntent.id,
+            status: this.mapStatus(paymentIntent.status),
+            clientSecret: paymentIntent.client_secret,
+        };
+    }
+
+    async getPaymentIntent(paymentId: string): Promise<PaymentIntent> {
+        const paymentIntent = await stripe.paymentIntents.retrieve(paymentId);
+        return {
+            id: paymentIntent.id,
+            status: this.mapStatus(paymentIntent.status),
+            clientSecret: paymentIntent.client_secret,
+        };
+    }
+
+    async confirmPayment(paymentId: string): Promise<PaymentConfirmation> {
+        const paymentIntent = await stripe.paymentIntents.retrieve(paymentId);
+        return {
+            id: paymentIntent.id,
+            status: this.mapStatus(paymentIntent.status),
+            amount: paymentIntent.amount,
+        };
+    }
+
+    async refundPayment(
+        paymentId: string,
+        amount: number
+    ): Promise<PaymentRefund> {
+        const refund = await stripe.refunds.create({
+            payment_intent: paymentId,
+            amount,
+        });
+        return { id: refund.id, status: refund.status ?? "pending" };
+    }
+
+    // The signature is checked against the raw request body
+    async parseWebhook(
+        request: PaymentWebhookRequest
+    ): Promise<PaymentWebhookEvent> {
+        const signature = request.headers["stripe-signature"];
+        if (!signature || typeof signature !== "string") {
+            throw new Error("Missing Stripe signature");
+        }
+
+        let event: Stripe.Event;
+        try {
+            event = stripe.webhooks.constructEvent(
+                request.body as Buffer | string,
+                signature,
+                STRIPE_CONFIG.webhookSecret
+            );
+        } catch (error) {
+            throw new Error("Invalid webhook signature");
+        }
+
+        return {
+            id: event.id,
+            type: event.type,
+            ...this.getEventPayment(event),
+            data: event,
+        };
+    }
+
+    private getEventPayment(event: Stripe.Event): {
+        paymentId: string | null;
+        paymentStatus: PaymentStatus | null;
+    } {
+        switch (event.type) {
+            case "payment_intent.succeeded":
+                return {
+                    paymentId: event.data.object.id,
+                    paymentStatus: PaymentStatus.COMPLETED,
+                };
+            case "payment_intent.payment_failed":
+                return {
+                    paymentId: event.data.object.id,
+                    paymentStatus: PaymentStatus.FAILED,
+                };
+            case "charge.refunded": {
+                const charge = event.data.object;
+                const paymentId =
+                    typeof charge.payment_intent === "string"
+                        ? charge.payment_intent
+                        : (charge.payment_intent?.id ?? null);
+                // Partial refunds are tracked through refund requests
+                return {
+                    paymentId,
+                    paymentStatus: charge.refunded
+                        ? PaymentStatus.REFUNDED
+                        : null,
+                };
+            }
+            default:
+                return { paymentId: null, paymentStatus: null };
+        }
+    }
+
+    private mapStatus(status: Stripe.PaymentIntent.Status): PaymentStatus {
+        switch (status) {
+            case "succeeded":
+                return PaymentStatus.COMPLETED;
+            case "canceled":
+                return PaymentStatus.FAILED;
+            default:
+                return PaymentStatus.PENDING;
+        }
+    }
+}
@@ -0,0 +1,25 @@
+import { PostgresSearchProvider } from "./postgres.provider";
+import { ProductSearchProvider } from "./searchProvider";
+
+export * from "./searchProvider";
+export { PostgresSearchProvider };
+
+let provider: ProductSearchProvider | null = null;
+
+// Get the backend that product searches run on
+export const getSearchProvider = (): ProductSearchProvider => {
+    if (!provider) {
+        provider = new PostgresSearchProvider();
+    }
+    return provider;
+};
+
+// Use a different search backend, e.g. one on a test database
+export const setSearchProvider = (searchProvider: ProductSearchProvider) => {
+    provider = searchProvider;
+};
+
+// Go back to the default search backend
+export const resetSearchProvider = () => {
+    provider = null;
+};
@@ -0,0 +1,258 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { prisma } from "@/config/database";
+import { SEARCH_CONFIG } from "@/config/search";
+import {
+    ProductIndexScope,
+    ProductSearchFacets,
+    ProductSearchFilters,
+    ProductSearchProvider,
+    ProductSearchQuery,
+    ProductSearchResult,
+} from "./searchProvider";
+
+// Products with stock of their own or of a variant on sale
+const inStockCondition = Prisma.sql`(p.stock > 0 OR EXISTS (
+    SELECT 1 FROM "ProductVariant" v
+    WHERE v."productId" = p.id AND v."isActive" = true AND v.stock > 0
+))`;
+
+// Lowest and highest prices of products and their variants on sale.
+// LEAST and GREATEST skip the NULL of a product without variants.
+const variantPrice = (aggregate: "MIN" | "MAX") => Prisma.sql`(
+    SELECT ${Prisma.raw(aggregate)}(v.price) FROM "ProductVariant" v
+    WHERE v."productId" = p.id AND v."isActive" = true
+)`;
+const lowestPrice = Prisma.sql`LEAST(p.price, ${variantPrice("MIN")})`;
+const highestPrice = Prisma.sql`GREATEST(p.price, ${variantPrice("MAX")})`;
+
+// Searches products with Postgres full-text search. Products match on the
+// stemmed words of their name, category and description, weighted in that
+// order, or on a name close to the search text to tolerate typos.
+// Needs the pg_trgm extension and the indexes of the Product model.
+export class PostgresSearchProvider implements ProductSearchProvider {
+    readonly name = "postgres";
+
+    constructor(private readonly db: PrismaClient = prisma) {}
+
+    async search(query: ProductSearchQuery): Promise<ProductSearchResult> {
+        const language = SEARCH_CONFIG.language;
+        const tsQuery = this.toTsQuery(query.text);
+        const where = this.buildWhere(query);
+        // Weights of the D, C, B and A labels: name counts most
+        const relevance = Prisma.sql`
+            COALESCE(ts_rank('{0.1, 0.2, 0.4, 1.0}', p."searchVector", ${tsQuery}), 0)
+            + word_similarity(${query.text}, p.name)`;
+
+        return this.withSearchSettings(async (tx) => {
+            const ranked = await tx.$queryRaw<
+                Array<{ id: string; relevance: number }>
+            >`
+                SELECT p.id, (${relevance})::float AS relevance
+                FROM "Product" p
+                WHERE ${where}
+                ORDER BY ${this.buildOrderBy(query)}
+                LIMIT ${query.take} OFFSET ${query.skip}`;
+            const [{ total }] = await tx.$queryRaw<Array<{ total: number }>>`
+                SELECT COUNT(*)::int AS total FROM "Product" p WHERE ${where}`;
+            if (ranked.length === 0) {
+                return { hits: [], total };
+            }
+
+            const highlights = await tx.$queryRaw<
+                Array<{ id: string; name: string; description: string }>
+            >`
+                SELECT p.id,
+                    ts_headline(${language}::regconfig, ${this.escapeHtml(Prisma.sql`p.name`)}, ${tsQuery}, ${this.highlightOptions("HighlightAll=true")}) AS name,
+                    ts_headline(${language}::regconfig, ${this.escapeHtml(Prisma.sql`p.description`)}, ${tsQuery}, ${this.highlightOptions(`MaxWords=${SEARCH_CONFIG.highlightMaxWords}, MinWords=10`)}) AS description
+                FROM "Product" p
+                WHERE p.id IN (${Prisma.join(ranked.map((row) => row.id))})`;
+            const highlightsById = new Map(
+                highlights.map((row) => [row.id, row])
+            );
+
+            return {
+                hits: ranked.map((row) => ({
+                    id: row.id,
+                    relevance: row.relevance,
+                    highlights: {
+                        name: highlightsById.get(row.id)?.name ?? "",
+                        description:
+                            highlightsById.get(row.id)?.description ?? "",
+                    },
+                })),
+                total,
+            };
+        });
+    }
+
+    async getFacets(
+        filters: ProductSearchFilters,
+        priceBoundaries: number[]
+    ): Promise<ProductSearchFacets> {
+        const where = this.buildWhere(filters);
+
+        return this.withSearchSettings(async (tx) => {
+            const categories = await tx.$queryRaw<
+                ProductSearchFacets["categories"]
+            >`
+                SELECT p."categoryId", COUNT(*)::int AS count
+                FROM "Product" p
+                WHERE ${where}
+                GROUP BY p."categoryId"`;
+            const sellers = await tx.$queryRaw<ProductSearchFacets["sellers"]>`
+                SELECT p."sellerId", s."businessName", COUNT(*)::int AS count
+                FROM "Product" p
+                JOIN "Seller" s ON s.id = p."sellerId"
+                WHERE ${where}
+                GROUP BY p."sellerId", s."businessName"
+                ORDER BY count DESC, s."businessName"`;
+            const prices =
+                priceBoundaries.length > 0
+                    ? await tx.$queryRaw<ProductSearchFacets["prices"]>`
+                        SELECT width_bucket(${lowestPrice}, ${priceBoundaries}::int[]) AS bucket,
+                            COUNT(*)::int AS count
+                        FROM "Product" p
+                        WHERE ${where}
+                        GROUP BY bucket`
+                    : [];
+            const ratings = await tx.$queryRaw<ProductSearchFacets["ratings"]>`
+                SELECT rated.rating, COUNT(*)::int AS count
+                FROM (
+                    SELECT (
+                        SELECT MAX(r.rating) FROM "Review" r WHERE r."productId" = p.id
+                    ) AS rating
+                    FROM "Product" p
+                    WHERE ${where}
+                ) rated
+                WHERE rated.rating IS NOT NULL
+                GROUP BY rated.rating`;
+            const [stock] = await tx.$queryRaw<
+                Array<ProductSearchFacets["stock"]>
+            >`
+                SELECT COUNT(*) FILTER (WHERE ${inStockCondition})::int AS "inStock",
+                    COUNT(*) FILTER (WHERE NOT ${inStockCondition})::int AS "outOfStock"
+                FROM "Product" p
+                WHERE ${where}`;
+
+            return { categories, sellers, prices, ratings, stock };
+        });
+    }
+
+    async indexProducts(scope: ProductIndexScope): Promise<number> {
+        if (scope.productIds?.length === 0) {
+            return 0;
+        }
+        const conditions = [Prisma.sql`TRUE`];
+        if (scope.productIds) {
+            conditions.push(
+                Prisma.sql`id IN (${Prisma.join(scope.productIds)})`
+            );
+        }
+        if (scope.categoryId) {
+            conditions.push(Prisma.sql`"categoryId" = ${scope.categoryId}`);
+        }
+        if (scope.missingOnly) {
+            conditions.push(Prisma.sql`"searchVector" IS NULL`);
+        }
+        const limit = scope.limit
+            ? Prisma.sql`LIMIT ${scope.limit}`
+            : Prisma.empty;
+        const language = SEARCH_CONFIG.language;
+
+        return this.db.$executeRaw`
+            UPDATE "Product" p
+            SET "searchVector" =
+                setweight(to_tsvector(${language}::regconfig, p.name), 'A') ||
+                setweight(to_tsvector(${language}::regconfig, c.name), 'B') ||
+                setweight(to_tsvector(${language}::regconfig, p.description), 'C')
+            FROM "Category" c
+            WHERE c.id = p."categoryId" AND p.id IN (
+                SELECT id FROM "Product"
+                WHERE ${Prisma.join(conditions, " AND ")}
+                ${limit}
+            )`;
+    }
+
+    // Run queries with the settings of a search. The trigram threshold
+    // lets the name index find names close to the search text.
+    private withSearchSettings<T>(
+        queries: (tx: Prisma.TransactionClient) => Promise<T>
+    ) {
+        return this.db.$transaction(async (tx) => {
+            await tx.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(SEARCH_CONFIG.similarityThreshold)}, true)`;
+            return queries(tx);
+        });
+    }
+
+    private toTsQuery(text: string) {
+        return Prisma.sql`websearch_to_tsquery(${SEARCH_CONFIG.language}::regconfig, ${text})`;
+    }
+
+    // Products on sale that match the search text and the filters
+    private buildWhere(filters: ProductSearchFilters) {
+        const conditions = [Prisma.sql`p."isActive" = true`];
+        if (filters.text) {
+            conditions.push(
+                Prisma.sql`(p."searchVector" @@ ${this.toTsQuery(filters.text)} OR ${filters.text} <% p.name)`
+            );
+        }
+        if (filters.categoryIds) {
+            conditions.push(
+                filters.categoryIds.length > 0
+                    ? Prisma.sql`p."categoryId" IN (${Prisma.join(filters.categoryIds)})`
+                    : Prisma.sql`FALSE`
+            );
+        }
+        if (filters.sellerId) {
+            conditions.push(Prisma.sql`p."sellerId" = ${filters.sellerId}`);
+        }
+        // Products whose prices, their own and their variants', overlap
+        // the range
+        if (filters.minPrice) {
+            conditions.push(Prisma.sql`${highestPrice} >= ${filters.minPrice}`);
+        }
+        if (filters.maxPrice) {
+            conditions.push(Prisma.sql`${lowestPrice} <= ${filters.maxPrice}`);
+        }
+        if (filters.inStock) {
+            conditions.push(inStockCondition);
+        }
+        if (filters.rating) {
+            conditions.push(Prisma.sql`EXISTS (
+                SELECT 1 FROM "Review" r
+                WHERE r."productId" = p.id AND r.rating >= ${filters.rating}
+            )`);
+        }
+        return Prisma.join(conditions, " AND ");
+    }
+
+    private buildOrderBy(query: ProductSearchQuery) {
+        const direction = Prisma.raw(
+            query.sortOrder === "asc" ? "ASC" : "DESC"
+        );
+        switch (query.sortBy) {
+            // Cheapest first by their lowest price, dearest first by their
+            // highest
+            case "price":
+                return Prisma.sql`${query.sortOrder === "asc" ? lowestPrice : highestPrice} ${direction}, relevance DESC`;
+            case "createdAt":
+                return Prisma.sql`p."createdAt" ${direction}`;
+            case "rating":
+                return Prisma.sql`(
+                    SELECT AVG(r.rating) FROM "Review" r WHERE r."productId" = p.id
+                ) ${direction} NULLS LAST, relevance DESC`;
+            default:
+                return Prisma.sql`relevance DESC, p."createdAt" DESC`;
+        }
+    }
+
+    private highlightOptions(options: string) {
+        return `StartSel=${SEARCH_CONFIG.highlightStart}, StopSel=${SEARCH_CONFIG.highlightStop}, ${options}`;
+    }
+
+    // Escape product text before highlighting it, so the highlight tags
+    // are the only markup in a headline
+    private escapeHtml(column: Prisma.Sql) {
+        return Prisma.sql`replace(replace(replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+    }
+}
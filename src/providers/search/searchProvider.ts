@@ -0,0 +1,78 @@
+// Filters of a product search. Amounts are integers in the minor unit of
+// the currency.
+export interface ProductSearchFilters {
+    // Matches every product when left out
+    text?: string;
+    // A category and its descendants
+    categoryIds?: string[];
+    sellerId?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    inStock?: boolean;
+    rating?: number;
+}
+
+export interface ProductSearchQuery extends ProductSearchFilters {
+    text: string;
+    // Most relevant first by default
+    sortBy?: "relevance" | "price" | "rating" | "createdAt";
+    sortOrder?: "asc" | "desc";
+    skip: number;
+    take: number;
+}
+
+// A product matching a search, with the matched words highlighted.
+// Highlights are HTML: the product text in them is escaped.
+export interface ProductSearchHit {
+    id: string;
+    relevance: number;
+    highlights: {
+        name: string;
+        description: string;
+    };
+}
+
+export interface ProductSearchResult {
+    hits: ProductSearchHit[];
+    total: number;
+}
+
+// Counts of the products matching a search, by the values they could be
+// filtered on next
+export interface ProductSearchFacets {
+    // Products directly in each category
+    categories: Array<{ categoryId: string; count: number }>;
+    sellers: Array<{ sellerId: string; businessName: string; count: number }>;
+    // Bucket i holds prices from the boundary before it (0 for the first)
+    // up to but not including boundary i
+    prices: Array<{ bucket: number; count: number }>;
+    // Products by their best review rating
+    ratings: Array<{ rating: number; count: number }>;
+    stock: { inStock: number; outOfStock: number };
+}
+
+// Products to bring up to date in the search index
+export interface ProductIndexScope {
+    productIds?: string[];
+    categoryId?: string;
+    // Only products that were never indexed, at most limit of them
+    missingOnly?: boolean;
+    limit?: number;
+}
+
+// Backend that ranks products for a search text
+export interface ProductSearchProvider {
+    readonly name: string;
+
+    search(query: ProductSearchQuery): Promise<ProductSearchResult>;
+
+    // Count the products matching the filters by facet. Price buckets are
+    // split at the given ascending boundaries.
+    getFacets(
+        filters: ProductSearchFilters,
+        priceBoundaries: number[]
+    ): Promise<ProductSearchFacets>;
+
+    // Index the searchable fields of products. Returns the number indexed.
+    indexProducts(scope: ProductIndexScope): Promise<number>;
+}
@@ -1,5 +1,7 @@
 import { Router } from "express";
 import { CartController } from "@/controllers/cart.controller";
+import { displayCurrency } from "@/middleware/currency";
+import { authenticate, authorize } from "@/middleware/auth";
 
 const router = Router();
 const cartController = new CartController();
@@ -12,13 +14,19 @@ const cartController = new CartController();
  *     summary: Get user's cart
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
  *     responses:
  *       200:
  *         description: Cart retrieved successfully
  *       401:
  *         description: Unauthorized
  */
-router.get("/", cartController.getCart);
+router.get("/", displayCurrency, cartController.getCart);
 
 /**
  * @swagger
@@ -40,6 +48,9 @@ router.get("/", cartController.getCart);
  *             properties:
  *               productId:
  *                 type: string
+ *               variantId:
+ *                 type: string
+ *                 description: Required for products with variants
  *               quantity:
  *                 type: integer
  *                 minimum: 1
@@ -79,6 +90,8 @@ router.post("/items", cartController.addToCart);
  *               quantity:
  *                 type: integer
  *                 minimum: 1
+ *               variantId:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Cart item updated successfully
@@ -103,6 +116,10 @@ router.put("/items/:productId", cartController.updateCartItem);
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: variantId
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Item removed from cart successfully
@@ -137,6 +154,27 @@ router.delete("/clear", cartController.clearCart);
  *     summary: Get cart total
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: couponCode
+ *         schema:
+ *           type: string
+ *         description: Coupon code to apply to the total
+ *       - in: query
+ *         name: addressId
+ *         schema:
+ *           type: string
+ *         description: Address to add the delivery cost for
+ *       - in: query
+ *         name: shippingRateId
+ *         schema:
+ *           type: string
+ *         description: Delivery option to use. Defaults to the cheapest.
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
  *     responses:
  *       200:
  *         description: Cart total retrieved successfully
@@ -145,12 +183,32 @@ router.delete("/clear", cartController.clearCart);
  *             schema:
  *               type: object
  *               properties:
+ *                 subtotal:
+ *                   type: integer
+ *                 discountAmount:
+ *                   type: integer
+ *                 freeShipping:
+ *                   type: boolean
+ *                 couponCode:
+ *                   type: string
+ *                   nullable: true
+ *                 shipping:
+ *                   type: object
+ *                   nullable: true
+ *                 shippingCost:
+ *                   type: integer
  *                 total:
- *                   type: number
+ *                   type: integer
+ *                   description: Amount in the minor unit of currency
+ *                 currency:
+ *                   type: string
+ *                   example: RWF
+ *       400:
+ *         description: Coupon cannot be applied or address cannot be delivered to
  *       401:
  *         description: Unauthorized
  */
-router.get("/total", cartController.getCartTotal);
+router.get("/total", displayCurrency, cartController.getCartTotal);
 
 /**
  * @swagger
@@ -168,4 +226,47 @@ router.get("/total", cartController.getCartTotal);
  */
 router.get("/validate", cartController.validateCart);
 
+/**
+ * @swagger
+ * /api/cart/abandoned/report:
+ *   get:
+ *     tags: [Cart]
+ *     summary: Get the abandoned cart report (Admin only)
+ *     description: |
+ *       Carts left untouched for longer than the abandonment period, and
+ *       the reminders sent in the period with the carts they recovered. A
+ *       cart is recovered when its owner checks out within the conversion
+ *       window of a reminder. Amounts are in minor units of the currency.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to 30 days before the end date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to now
+ *     responses:
+ *       200:
+ *         description: Abandoned cart value, reminders sent and recovery rate
+ *       400:
+ *         description: Invalid date
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/abandoned/report",
+    authenticate,
+    authorize("ADMIN"),
+    cartController.getAbandonedCartReport
+);
+
 export default router;
@@ -29,6 +29,10 @@ const categoryController = new CategoryController();
  *                 type: string
  *               image:
  *                 type: string
+ *               vatRate:
+ *                 type: number
+ *                 nullable: true
+ *                 description: VAT rate in percent. Subcategories without one use their parent's rate, then the default rate.
  *     responses:
  *       201:
  *         description: Category created successfully
@@ -100,6 +104,10 @@ router.get("/", categoryController.getAllCategories);
  *                 type: string
  *               image:
  *                 type: string
+ *               vatRate:
+ *                 type: number
+ *                 nullable: true
+ *                 description: VAT rate in percent. Subcategories without one use their parent's rate, then the default rate.
  *     responses:
  *       200:
  *         description: Category updated successfully
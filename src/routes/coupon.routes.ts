@@ -0,0 +1,246 @@
+import { Router } from "express";
+import { CouponController } from "@/controllers/coupon.controller";
+import { authenticate, authorize } from "@/middleware/auth";
+import { validate } from "@/middleware/validate";
+import { couponSchema, updateCouponSchema } from "@/types/validation";
+
+const router = Router();
+const couponController = new CouponController();
+
+/**
+ * @swagger
+ * /api/coupons:
+ *   post:
+ *     tags: [Coupons]
+ *     summary: Create a coupon (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - type
+ *             properties:
+ *               code:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [PERCENTAGE, FIXED_AMOUNT, FREE_SHIPPING]
+ *               value:
+ *                 type: number
+ *                 description: Percentage, or amount off in minor units. Not used by free shipping coupons.
+ *               minBasket:
+ *                 type: integer
+ *                 description: Amount in minor units
+ *               usageLimit:
+ *                 type: integer
+ *               perUserLimit:
+ *                 type: integer
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               isActive:
+ *                 type: boolean
+ *               categoryIds:
+ *                 type: array
+ *                 description: Categories the coupon applies to. Empty means all.
+ *                 items:
+ *                   type: string
+ *               sellerIds:
+ *                 type: array
+ *                 description: Sellers the coupon applies to. Empty means all.
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Coupon created successfully
+ *       400:
+ *         description: Invalid input or code already exists
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/",
+    authenticate,
+    authorize("ADMIN"),
+    validate(couponSchema),
+    couponController.createCoupon
+);
+
+/**
+ * @swagger
+ * /api/coupons:
+ *   get:
+ *     tags: [Coupons]
+ *     summary: Get coupons (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of coupons
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get("/", authenticate, authorize("ADMIN"), couponController.getCoupons);
+
+/**
+ * @swagger
+ * /api/coupons/{couponId}:
+ *   get:
+ *     tags: [Coupons]
+ *     summary: Get a coupon (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: couponId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon details
+ *       400:
+ *         description: Coupon not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/:couponId",
+    authenticate,
+    authorize("ADMIN"),
+    couponController.getCouponById
+);
+
+/**
+ * @swagger
+ * /api/coupons/{couponId}:
+ *   put:
+ *     tags: [Coupons]
+ *     summary: Update a coupon (Admin only)
+ *     description: Takes the same fields as creating a coupon, except the code.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: couponId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon updated successfully
+ *       400:
+ *         description: Invalid input or coupon not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.put(
+    "/:couponId",
+    authenticate,
+    authorize("ADMIN"),
+    validate(updateCouponSchema),
+    couponController.updateCoupon
+);
+
+/**
+ * @swagger
+ * /api/coupons/{couponId}:
+ *   delete:
+ *     tags: [Coupons]
+ *     summary: Deactivate a coupon (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: couponId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon deactivated
+ *       400:
+ *         description: Coupon not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.delete(
+    "/:couponId",
+    authenticate,
+    authorize("ADMIN"),
+    couponController.deactivateCoupon
+);
+
+/**
+ * @swagger
+ * /api/coupons/{couponId}/announce:
+ *   post:
+ *     tags: [Coupons]
+ *     summary: Notify customers who accept promotions about a coupon (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: couponId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               message:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Number of customers notified
+ *       400:
+ *         description: Coupon not found or not active
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/:couponId/announce",
+    authenticate,
+    authorize("ADMIN"),
+    couponController.announceCoupon
+);
+
+export default router;
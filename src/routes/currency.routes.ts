@@ -0,0 +1,99 @@
+import { Router } from "express";
+import { CurrencyController } from "@/controllers/currency.controller";
+import { authenticate, authorize } from "@/middleware/auth";
+import { validate } from "@/middleware/validate";
+import { exchangeRateSchema } from "@/types/validation";
+
+const router = Router();
+const currencyController = new CurrencyController();
+
+/**
+ * @swagger
+ * /api/currencies/rates:
+ *   get:
+ *     tags: [Currencies]
+ *     summary: Get the exchange rates prices can be shown in
+ *     responses:
+ *       200:
+ *         description: Units of each currency per unit of the base currency
+ */
+router.get("/rates", currencyController.getRates);
+
+/**
+ * @swagger
+ * /api/currencies/rates/{currency}:
+ *   put:
+ *     tags: [Currencies]
+ *     summary: Set the exchange rate of a currency (Admin only)
+ *     description: Rates are only used to show prices. Orders are charged in the base currency.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ISO 4217 currency code, e.g. USD
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rate
+ *             properties:
+ *               rate:
+ *                 type: number
+ *                 description: Units of the currency per unit of the base currency, e.g. 0.00075 USD per RWF
+ *     responses:
+ *       200:
+ *         description: Exchange rate saved
+ *       400:
+ *         description: Invalid input or unsupported currency
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.put(
+    "/rates/:currency",
+    authenticate,
+    authorize("ADMIN"),
+    validate(exchangeRateSchema),
+    currencyController.setRate
+);
+
+/**
+ * @swagger
+ * /api/currencies/rates/{currency}:
+ *   delete:
+ *     tags: [Currencies]
+ *     summary: Delete the exchange rate of a currency (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Exchange rate deleted
+ *       400:
+ *         description: Exchange rate not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.delete(
+    "/rates/:currency",
+    authenticate,
+    authorize("ADMIN"),
+    currencyController.deleteRate
+);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { EmailController } from "@/controllers/email.controller";
+import { authenticate } from "@/middleware/auth";
 
 const router = Router();
 const emailController = new EmailController();
@@ -74,6 +75,7 @@ router.post("/password-reset", emailController.sendPasswordResetEmail);
  *   post:
  *     tags: [Email]
  *     summary: Send order confirmation email
+ *     description: The invoice of the order is attached as PDF.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -83,21 +85,22 @@ router.post("/password-reset", emailController.sendPasswordResetEmail);
  *           schema:
  *             type: object
  *             required:
- *               - userId
  *               - orderId
  *             properties:
- *               userId:
- *                 type: string
  *               orderId:
  *                 type: string
  *     responses:
  *       200:
  *         description: Order confirmation email sent successfully
  *       400:
- *         description: User ID and order ID are required
+ *         description: Order ID is required or the order was not found
  *       401:
  *         description: Unauthorized
  */
-router.post("/order-confirmation", emailController.sendOrderConfirmationEmail);
+router.post(
+    "/order-confirmation",
+    authenticate,
+    emailController.sendOrderConfirmationEmail
+);
 
 export default router;
@@ -0,0 +1,77 @@
+import { Router } from "express";
+import { InventoryController } from "@/controllers/inventory.controller";
+import { authenticate, authorize } from "@/middleware/auth";
+
+const router = Router();
+const inventoryController = new InventoryController();
+
+/**
+ * @swagger
+ * /api/inventory/reservations:
+ *   get:
+ *     tags: [Inventory]
+ *     summary: Get products with stock held by active reservations (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Reserved and available stock per product
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/reservations",
+    authenticate,
+    authorize("ADMIN"),
+    inventoryController.getReservedProducts
+);
+
+/**
+ * @swagger
+ * /api/inventory/reservations/{productId}:
+ *   get:
+ *     tags: [Inventory]
+ *     summary: Get the active reservations of a product (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Active reservations, soonest to expire first
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/reservations/:productId",
+    authenticate,
+    authorize("ADMIN"),
+    inventoryController.getProductReservations
+);
+
+export default router;
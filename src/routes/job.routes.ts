@@ -0,0 +1,153 @@
+import { Router } from "express";
+import { JobController } from "@/controllers/job.controller";
+import { authenticate, authorize } from "@/middleware/auth";
+
+const router = Router();
+const jobController = new JobController();
+
+/**
+ * @swagger
+ * /api/jobs:
+ *   get:
+ *     tags: [Jobs]
+ *     summary: Get scheduled jobs (Admin only)
+ *     description: |
+ *       Jobs are stored in the database and run by every instance of the
+ *       API, which lock the jobs they run. Failed jobs are retried with
+ *       backoff. Recurring jobs expire stock reservations, clean up expired
+ *       tokens and build the daily sales report.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, RUNNING, COMPLETED, FAILED]
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Job name, e.g. reports.dailySales
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: List of jobs
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get("/", authenticate, authorize("ADMIN"), jobController.getJobs);
+
+/**
+ * @swagger
+ * /api/jobs/runs:
+ *   get:
+ *     tags: [Jobs]
+ *     summary: Get job runs, latest first (Admin only)
+ *     description: Each attempt to run a job, with its error or its result, such as the daily sales report.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: jobId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [RUNNING, COMPLETED, FAILED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: List of job runs
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get("/runs", authenticate, authorize("ADMIN"), jobController.getJobRuns);
+
+/**
+ * @swagger
+ * /api/jobs/{jobId}:
+ *   get:
+ *     tags: [Jobs]
+ *     summary: Get a job with its latest runs (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job details
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Job not found
+ */
+router.get(
+    "/:jobId",
+    authenticate,
+    authorize("ADMIN"),
+    jobController.getJobById
+);
+
+/**
+ * @swagger
+ * /api/jobs/{jobId}/retry:
+ *   post:
+ *     tags: [Jobs]
+ *     summary: Run a failed job again (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job scheduled to run now
+ *       400:
+ *         description: Job not found or not failed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/:jobId/retry",
+    authenticate,
+    authorize("ADMIN"),
+    jobController.retryJob
+);
+
+export default router;
@@ -1,5 +1,9 @@
 import { Router } from "express";
 import { OrderController } from "@/controllers/order.controller";
+import { displayCurrency } from "@/middleware/currency";
+import { authenticate, authorize } from "@/middleware/auth";
+import { validate } from "@/middleware/validate";
+import { checkoutSchema } from "@/types/validation";
 
 const router = Router();
 const orderController = new OrderController();
@@ -39,7 +43,12 @@ const orderController = new OrderController();
  *                       type: integer
  *               paymentMethod:
  *                 type: string
- *                 enum: [CASH, CARD, MOBILE_MONEY]
+ *                 enum: [CARD, CASH_ON_DELIVERY, MOBILE_MONEY]
+ *               couponCode:
+ *                 type: string
+ *               shippingRateId:
+ *                 type: string
+ *                 description: Delivery option from the shipping quote. Defaults to the cheapest.
  *     responses:
  *       201:
  *         description: Order created successfully
@@ -48,7 +57,89 @@ const orderController = new OrderController();
  *       401:
  *         description: Unauthorized
  */
-router.post("/", orderController.createOrder);
+router.post("/", authenticate, orderController.createOrder);
+
+/**
+ * @swagger
+ * /api/orders/checkout:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Place an order for the items in the cart
+ *     description: Validates the cart, creates the order and removes the ordered lines from the cart in one transaction.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - addressId
+ *               - paymentMethod
+ *             properties:
+ *               addressId:
+ *                 type: string
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [CARD, CASH_ON_DELIVERY, MOBILE_MONEY]
+ *               productIds:
+ *                 type: array
+ *                 description: Cart lines to order. Defaults to the whole cart.
+ *                 items:
+ *                   type: string
+ *               couponCode:
+ *                 type: string
+ *               shippingRateId:
+ *                 type: string
+ *                 description: Delivery option from the shipping quote. Defaults to the cheapest.
+ *     responses:
+ *       201:
+ *         description: Order created, with the prices it was placed at
+ *       400:
+ *         description: Cart is empty or has items that cannot be ordered
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+    "/checkout",
+    authenticate,
+    validate(checkoutSchema),
+    orderController.checkout
+);
+
+/**
+ * @swagger
+ * /api/orders/buy-again:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get the products the user buys most often
+ *     description: Active products from the user's orders that were not cancelled, most often ordered first.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show prices in, under display, e.g. USD. Defaults to the currency in the user's settings.
+ *     responses:
+ *       200:
+ *         description: Products with the number of orders and the quantity they were bought in
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+    "/buy-again",
+    authenticate,
+    displayCurrency,
+    orderController.getBuyAgainProducts
+);
 
 /**
  * @swagger
@@ -64,15 +155,122 @@ router.post("/", orderController.createOrder);
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
+ *     responses:
+ *       200:
+ *         description: Order details including fulfillment groups and status history
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Order not found
+ */
+router.get(
+    "/:orderId",
+    authenticate,
+    displayCurrency,
+    orderController.getOrderById
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/invoice:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Download the invoice of an order as PDF
+ *     description: |
+ *       The invoice gets the next sequential number the first time it is
+ *       requested. Paid orders are titled as receipts. Only the customer who
+ *       placed the order and admins can get its invoice.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Order is cancelled and has no invoice
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Order not found
+ */
+router.get("/:orderId/invoice", authenticate, orderController.getInvoice);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/timeline:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get the tracking timeline of an order
+ *     description: |
+ *       Status changes of the order, of each seller's part of it and of its
+ *       payment, oldest first. Customers can see the timeline of their own
+ *       orders and sellers of orders with their products. The same changes
+ *       are pushed to the buyer and sellers with the orderUpdate socket event.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
- *         description: Order details
+ *         description: Order timeline
  *       401:
  *         description: Unauthorized
  *       404:
  *         description: Order not found
  */
-router.get("/:orderId", orderController.getOrderById);
+router.get(
+    "/:orderId/timeline",
+    authenticate,
+    orderController.getOrderTimeline
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/reorder:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Add the items of a past order to the cart again
+ *     description: |
+ *       Items are added at the current price. Inactive products are left
+ *       out and quantities are capped at the stock left. Lines that could
+ *       not be added as they were ordered, or whose price changed, are
+ *       listed under changes.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Cart lines added and the changes from the order
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Order not found
+ */
+router.post("/:orderId/reorder", authenticate, orderController.reorder);
 
 /**
  * @swagger
@@ -93,13 +291,18 @@ router.get("/:orderId", orderController.getOrderById);
  *         schema:
  *           type: integer
  *           default: 10
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
  *     responses:
  *       200:
  *         description: List of user orders
  *       401:
  *         description: Unauthorized
  */
-router.get("/", orderController.getUserOrders);
+router.get("/", authenticate, displayCurrency, orderController.getUserOrders);
 
 /**
  * @swagger
@@ -107,6 +310,10 @@ router.get("/", orderController.getUserOrders);
  *   put:
  *     tags: [Orders]
  *     summary: Update order status
+ *     description: |
+ *       Allowed transitions are PENDING → PROCESSING → SHIPPED → DELIVERED.
+ *       PENDING and PROCESSING orders can also be CANCELLED.
+ *       Every change is recorded in the order status history.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -127,17 +334,122 @@ router.get("/", orderController.getUserOrders);
  *               status:
  *                 type: string
  *                 enum: [PENDING, PROCESSING, SHIPPED, DELIVERED, CANCELLED]
+ *               reason:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Order status updated
  *       400:
- *         description: Invalid status
+ *         description: Invalid status or status transition
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
  *       404:
  *         description: Order not found
  */
-router.put("/:orderId/status", orderController.updateOrderStatus);
+router.put(
+    "/:orderId/status",
+    authenticate,
+    authorize("ADMIN"),
+    orderController.updateOrderStatus
+);
+
+/**
+ * @swagger
+ * /api/orders/fulfillments/seller:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get the authenticated seller's fulfillment groups
+ *     description: |
+ *       Each order is split into one fulfillment group per seller.
+ *       Sellers only see their own groups and the items in them.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, PROCESSING, SHIPPED, DELIVERED, CANCELLED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: List of fulfillment groups
+ *       400:
+ *         description: Invalid status or no seller profile
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/fulfillments/seller",
+    authenticate,
+    authorize("SELLER"),
+    orderController.getSellerFulfillmentGroups
+);
+
+/**
+ * @swagger
+ * /api/orders/fulfillments/{groupId}/status:
+ *   put:
+ *     tags: [Orders]
+ *     summary: Update fulfillment group status
+ *     description: |
+ *       Uses the same transitions as order statuses. The overall order
+ *       status is rolled up from the statuses of its fulfillment groups.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING, PROCESSING, SHIPPED, DELIVERED, CANCELLED]
+ *               reason:
+ *                 type: string
+ *               carrier:
+ *                 type: string
+ *               trackingNumber:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Fulfillment group status updated
+ *       400:
+ *         description: Invalid status or status transition
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.put(
+    "/fulfillments/:groupId/status",
+    authenticate,
+    authorize("SELLER", "ADMIN"),
+    orderController.updateFulfillmentGroupStatus
+);
 
 /**
  * @swagger
@@ -164,7 +476,10 @@ router.put("/:orderId/status", orderController.updateOrderStatus);
  *             properties:
  *               status:
  *                 type: string
- *                 enum: [PENDING, PAID, FAILED, REFUNDED]
+ *                 enum: [PENDING, COMPLETED, FAILED, REFUNDED]
+ *               reason:
+ *                 type: string
+ *                 description: Shown on the order timeline
  *     responses:
  *       200:
  *         description: Payment status updated
@@ -172,10 +487,17 @@ router.put("/:orderId/status", orderController.updateOrderStatus);
  *         description: Invalid status
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
  *       404:
  *         description: Order not found
  */
-router.put("/:orderId/payment", orderController.updatePaymentStatus);
+router.put(
+    "/:orderId/payment",
+    authenticate,
+    authorize("ADMIN"),
+    orderController.updatePaymentStatus
+);
 
 /**
  * @swagger
@@ -199,7 +521,7 @@ router.put("/:orderId/payment", orderController.updatePaymentStatus);
  *       404:
  *         description: Order not found
  */
-router.post("/:orderId/cancel", orderController.cancelOrder);
+router.post("/:orderId/cancel", authenticate, orderController.cancelOrder);
 
 /**
  * @swagger
@@ -233,8 +555,15 @@ router.post("/:orderId/cancel", orderController.cancelOrder);
  *         description: Invalid status
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
  */
-router.get("/status/:status", orderController.getOrdersByStatus);
+router.get(
+    "/status/:status",
+    authenticate,
+    authorize("ADMIN"),
+    orderController.getOrdersByStatus
+);
 
 /**
  * @swagger
@@ -287,7 +616,7 @@ router.get("/date-range", orderController.getOrdersByDateRange);
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: Order statistics
+ *         description: Order statistics, with revenue split into net revenue and VAT collected
  *       401:
  *         description: Unauthorized
  */
@@ -326,7 +655,7 @@ router.get("/user-statistics", orderController.getUserOrderStatistics);
  *           enum: [day, week, month, year]
  *     responses:
  *       200:
- *         description: Sales trend analytics
+ *         description: Sales trend analytics, with VAT collected reported separately
  *       400:
  *         description: Invalid time range
  *       401:
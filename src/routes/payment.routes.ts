@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { PaymentController } from "@/controllers/payment.controller";
+import { authenticate, authorize } from "@/middleware/auth";
 
 const router = Router();
 const paymentController = new PaymentController();
@@ -10,6 +11,7 @@ const paymentController = new PaymentController();
  *   post:
  *     tags: [Payments]
  *     summary: Create a new payment
+ *     description: Pays for an order of the signed in user. The order total is charged.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -21,16 +23,19 @@ const paymentController = new PaymentController();
  *             required:
  *               - orderId
  *               - method
- *               - amount
  *             properties:
  *               orderId:
  *                 type: string
  *               method:
  *                 type: string
- *                 enum: [CASH, CARD, MOBILE_MONEY]
- *               amount:
- *                 type: number
- *                 format: float
+ *                 enum: [CARD, CASH_ON_DELIVERY, MOBILE_MONEY]
+ *               phoneNumber:
+ *                 type: string
+ *                 description: Payer's phone number, required for mobile money
+ *               network:
+ *                 type: string
+ *                 enum: [MTN, AIRTEL]
+ *                 description: Mobile money network, required for mobile money
  *     responses:
  *       201:
  *         description: Payment created successfully
@@ -39,7 +44,7 @@ const paymentController = new PaymentController();
  *       401:
  *         description: Unauthorized
  */
-router.post("/", paymentController.createPayment);
+router.post("/", authenticate, paymentController.createPayment);
 
 /**
  * @swagger
@@ -61,9 +66,10 @@ router.post("/", paymentController.createPayment);
  *             properties:
  *               paymentId:
  *                 type: string
+ *                 description: Stripe payment intent ID or mobile money reference
  *               method:
  *                 type: string
- *                 enum: [CASH, CARD, MOBILE_MONEY]
+ *                 enum: [CARD, MOBILE_MONEY]
  *     responses:
  *       200:
  *         description: Payment confirmed successfully
@@ -79,14 +85,24 @@ router.post("/confirm", paymentController.confirmPayment);
  * /api/payments/webhook:
  *   post:
  *     tags: [Payments]
- *     summary: Handle payment webhook
+ *     summary: Handle Stripe webhook
+ *     description: |
+ *       The Stripe-Signature header is verified against the raw request body.
+ *       Each event is logged by ID, so repeated deliveries are acknowledged
+ *       without being applied again.
+ *     parameters:
+ *       - in: header
+ *         name: Stripe-Signature
+ *         required: true
+ *         schema:
+ *           type: string
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             description: Payment provider webhook event data
+ *             description: Stripe webhook event data
  *     responses:
  *       200:
  *         description: Webhook processed successfully
@@ -97,9 +113,181 @@ router.post("/confirm", paymentController.confirmPayment);
  *               properties:
  *                 received:
  *                   type: boolean
+ *                 duplicate:
+ *                   type: boolean
  *       400:
- *         description: Invalid webhook data
+ *         description: Invalid signature or webhook processing failed
  */
 router.post("/webhook", paymentController.handleWebhook);
 
+/**
+ * @swagger
+ * /api/payments/mobile-money/callback/{network}:
+ *   post:
+ *     tags: [Payments]
+ *     summary: Handle mobile money provider callback
+ *     description: |
+ *       The reported status is confirmed with the provider before the order
+ *       is updated. Each callback is logged so repeats are not applied twice.
+ *     parameters:
+ *       - in: path
+ *         name: network
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [mtn, airtel]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Provider callback data
+ *     responses:
+ *       200:
+ *         description: Callback processed successfully
+ *       400:
+ *         description: Invalid callback or processing failed
+ *   put:
+ *     tags: [Payments]
+ *     summary: Handle mobile money provider callback
+ *     description: MTN delivers request-to-pay callbacks with PUT.
+ *     parameters:
+ *       - in: path
+ *         name: network
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [mtn, airtel]
+ *     responses:
+ *       200:
+ *         description: Callback processed successfully
+ *       400:
+ *         description: Invalid callback or processing failed
+ */
+router.post(
+    "/mobile-money/callback/:network",
+    paymentController.handleMobileMoneyCallback
+);
+router.put(
+    "/mobile-money/callback/:network",
+    paymentController.handleMobileMoneyCallback
+);
+
+/**
+ * @swagger
+ * /api/payments/mobile-money/sandbox/{referenceId}/complete:
+ *   post:
+ *     tags: [Payments]
+ *     summary: Complete a sandbox mobile money payment
+ *     description: |
+ *       Simulates the customer approving or declining the payment on their
+ *       phone. Only available while the mobile money sandbox is enabled
+ *       with MOBILE_MONEY_SANDBOX=true.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [SUCCESSFUL, FAILED]
+ *     responses:
+ *       200:
+ *         description: Sandbox payment completed
+ *       400:
+ *         description: Sandbox disabled or payment not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+    "/mobile-money/sandbox/:referenceId/complete",
+    authenticate,
+    paymentController.completeSandboxPayment
+);
+
+/**
+ * @swagger
+ * /api/payments/webhook-events:
+ *   get:
+ *     tags: [Payments]
+ *     summary: Get logged webhook events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, PROCESSED, IGNORED, FAILED]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of webhook events
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/webhook-events",
+    authenticate,
+    authorize("ADMIN"),
+    paymentController.getWebhookEvents
+);
+
+/**
+ * @swagger
+ * /api/payments/webhook-events/{eventId}/reprocess:
+ *   post:
+ *     tags: [Payments]
+ *     summary: Re-process a failed or ignored webhook event
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook event with its new processing status
+ *       400:
+ *         description: Webhook event not found or already processed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/webhook-events/:eventId/reprocess",
+    authenticate,
+    authorize("ADMIN"),
+    paymentController.reprocessWebhookEvent
+);
+
 export default router;
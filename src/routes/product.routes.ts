@@ -1,5 +1,17 @@
 import { Router } from "express";
 import { ProductController } from "@/controllers/product.controller";
+import { displayCurrency } from "@/middleware/currency";
+import {
+    authenticate,
+    authorize,
+    optionalAuthenticate,
+} from "@/middleware/auth";
+import { validate } from "@/middleware/validate";
+import {
+    productOptionsSchema,
+    productVariantSchema,
+    updateProductVariantSchema,
+} from "@/types/validation";
 
 const router = Router();
 const productController = new ProductController();
@@ -29,7 +41,8 @@ const productController = new ProductController();
  *               description:
  *                 type: string
  *               price:
- *                 type: number
+ *                 type: integer
+ *                 description: Amount in the minor unit of the currency, e.g. francs for RWF
  *               categoryId:
  *                 type: string
  *               images:
@@ -38,6 +51,9 @@ const productController = new ProductController();
  *                   type: string
  *               stock:
  *                 type: integer
+ *               weight:
+ *                 type: number
+ *                 description: Shipping weight in kilograms
  *     responses:
  *       201:
  *         description: Product created successfully
@@ -48,26 +64,6 @@ const productController = new ProductController();
  */
 router.post("/", productController.createProduct);
 
-/**
- * @swagger
- * /api/products/{id}:
- *   get:
- *     tags: [Products]
- *     summary: Get product by ID
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       200:
- *         description: Product details
- *       404:
- *         description: Product not found
- */
-router.get("/:id", productController.getProductById);
-
 /**
  * @swagger
  * /api/products:
@@ -101,82 +97,16 @@ router.get("/:id", productController.getProductById);
  *         name: maxPrice
  *         schema:
  *           type: number
- *     responses:
- *       200:
- *         description: List of products
- */
-router.get("/", productController.getProducts);
-
-/**
- * @swagger
- * /api/products/{id}:
- *   put:
- *     tags: [Products]
- *     summary: Update product
- *     security:
- *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               name:
- *                 type: string
- *               description:
- *                 type: string
- *               price:
- *                 type: number
- *               categoryId:
- *                 type: string
- *               images:
- *                 type: array
- *                 items:
- *                   type: string
- *               stock:
- *                 type: integer
- *     responses:
- *       200:
- *         description: Product updated successfully
- *       400:
- *         description: Invalid input
- *       401:
- *         description: Unauthorized
- *       404:
- *         description: Product not found
- */
-router.put("/:id", productController.updateProduct);
-
-/**
- * @swagger
- * /api/products/{id}:
- *   delete:
- *     tags: [Products]
- *     summary: Soft delete product
- *     security:
- *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
+ *       - in: query
+ *         name: currency
  *         schema:
  *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
  *     responses:
  *       200:
- *         description: Product deleted successfully
- *       401:
- *         description: Unauthorized
- *       404:
- *         description: Product not found
+ *         description: List of products
  */
-router.delete("/:id", productController.softDeleteProduct);
+router.get("/", displayCurrency, productController.getProducts);
 
 /**
  * @swagger
@@ -205,92 +135,6 @@ router.delete("/:id", productController.softDeleteProduct);
  */
 router.get("/seller", productController.getSellerProducts);
 
-/**
- * @swagger
- * /api/products/{productId}/reviews:
- *   get:
- *     tags: [Products]
- *     summary: Get product reviews
- *     parameters:
- *       - in: path
- *         name: productId
- *         required: true
- *         schema:
- *           type: string
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           default: 1
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 10
- *     responses:
- *       200:
- *         description: List of product reviews
- */
-router.get("/:productId/reviews", productController.getProductReviews);
-
-/**
- * @swagger
- * /api/products/{productId}/reviews:
- *   post:
- *     tags: [Products]
- *     summary: Add product review
- *     security:
- *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: productId
- *         required: true
- *         schema:
- *           type: string
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - rating
- *               - comment
- *             properties:
- *               rating:
- *                 type: integer
- *                 minimum: 1
- *                 maximum: 5
- *               comment:
- *                 type: string
- *     responses:
- *       201:
- *         description: Review added successfully
- *       400:
- *         description: Invalid input
- *       401:
- *         description: Unauthorized
- */
-router.post("/:productId/reviews", productController.addProductReview);
-
-/**
- * @swagger
- * /api/products/{productId}/statistics:
- *   get:
- *     tags: [Products]
- *     summary: Get product statistics
- *     parameters:
- *       - in: path
- *         name: productId
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       200:
- *         description: Product statistics
- */
-router.get("/:productId/statistics", productController.getProductStatistics);
-
 /**
  * @swagger
  * /api/products/seller/statistics:
@@ -347,6 +191,7 @@ router.put("/bulk-update", productController.bulkUpdateProducts);
  *   get:
  *     tags: [Products]
  *     summary: Search products
+ *     description: A search text matches the words of the product name, category and description, and names close to it despite typos. Results come most relevant first, with the matched words wrapped in <mark> tags under highlights. Facets count the products matching the search and all its filters by category, seller, price range, rating and stock. Searches by text are saved to the search history, unless the signed in user turned saveSearchHistory off in their settings.
  *     parameters:
  *       - in: query
  *         name: search
@@ -356,6 +201,11 @@ router.put("/bulk-update", productController.bulkUpdateProducts);
  *         name: categoryId
  *         schema:
  *           type: string
+ *         description: Also matches the products of its subcategories
+ *       - in: query
+ *         name: sellerId
+ *         schema:
+ *           type: string
  *       - in: query
  *         name: minPrice
  *         schema:
@@ -376,7 +226,7 @@ router.put("/bulk-update", productController.bulkUpdateProducts);
  *         name: sortBy
  *         schema:
  *           type: string
- *           enum: [price, rating, createdAt]
+ *           enum: [relevance, price, rating, createdAt]
  *       - in: query
  *         name: sortOrder
  *         schema:
@@ -392,96 +242,498 @@ router.put("/bulk-update", productController.bulkUpdateProducts);
  *         schema:
  *           type: integer
  *           default: 10
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
  *     responses:
  *       200:
- *         description: Search results
+ *         description: Search results, each with its relevance and highlights when searching by text, and the facets of the search
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ *                 totalPages:
+ *                   type: integer
+ *                 facets:
+ *                   type: object
+ *                   properties:
+ *                     currency:
+ *                       type: string
+ *                       description: Currency of the price ranges, in its minor unit
+ *                     categories:
+ *                       type: array
+ *                       description: Categories with matching products, counting those of their subcategories
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                           parentId:
+ *                             type: string
+ *                             nullable: true
+ *                           count:
+ *                             type: integer
+ *                     sellers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           businessName:
+ *                             type: string
+ *                           count:
+ *                             type: integer
+ *                     priceRanges:
+ *                       type: array
+ *                       description: Prices from min up to but not including max. The last range has no max.
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           min:
+ *                             type: integer
+ *                           max:
+ *                             type: integer
+ *                             nullable: true
+ *                           count:
+ *                             type: integer
+ *                     ratings:
+ *                       type: array
+ *                       description: Products with a review of at least each rating
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           rating:
+ *                             type: integer
+ *                           count:
+ *                             type: integer
+ *                     stock:
+ *                       type: object
+ *                       properties:
+ *                         inStock:
+ *                           type: integer
+ *                         outOfStock:
+ *                           type: integer
  */
-router.get("/search", productController.searchProduct);
+router.get(
+    "/search",
+    optionalAuthenticate,
+    displayCurrency,
+    productController.searchProduct
+);
 
 /**
  * @swagger
- * /api/products/category/{categoryId}:
+ * /api/products/search/suggest:
  *   get:
  *     tags: [Products]
- *     summary: Get products by category
+ *     summary: Suggest searches as a search text is typed
+ *     description: Products and categories whose name contains the text, those starting with it first, and the signed in user's recent searches starting with it.
  *     parameters:
- *       - in: path
- *         name: categoryId
+ *       - in: query
+ *         name: q
  *         required: true
  *         schema:
  *           type: string
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           default: 1
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 10
  *     responses:
  *       200:
- *         description: List of products in category
+ *         description: Suggestions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 products:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                       images:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                 categories:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                 recentSearches:
+ *                   type: array
+ *                   items:
+ *                     type: string
  */
-router.get("/category/:categoryId", productController.getProductsByCategory);
+router.get(
+    "/search/suggest",
+    optionalAuthenticate,
+    productController.suggestSearch
+);
 
 /**
  * @swagger
- * /api/products/{id}/stock:
- *   put:
+ * /api/products/search/report:
+ *   get:
  *     tags: [Products]
- *     summary: Update product stock
+ *     summary: Get the search report (Admin only)
+ *     description: |
+ *       The most searched queries in the period, with the change from the
+ *       period of the same length before it, and the queries that found no
+ *       products. Queries are counted lowercased.
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: path
- *         name: id
- *         required: true
+ *       - in: query
+ *         name: startDate
  *         schema:
  *           type: string
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - quantity
- *             properties:
- *               quantity:
- *                 type: integer
+ *           format: date
+ *         description: Defaults to 30 days before the end date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to now
  *     responses:
  *       200:
- *         description: Stock updated successfully
+ *         description: Searches, trending queries and zero result queries
  *       400:
- *         description: Invalid input
+ *         description: Invalid date
  *       401:
  *         description: Unauthorized
- *       404:
- *         description: Product not found
+ *       403:
+ *         description: Forbidden
  */
-router.put("/:id/stock", productController.updateProductStock);
+router.get(
+    "/search/report",
+    authenticate,
+    authorize("ADMIN"),
+    productController.getSearchReport
+);
 
 /**
  * @swagger
- * /api/products/{id}/availability:
+ * /api/products/category/{categoryId}:
  *   get:
  *     tags: [Products]
- *     summary: Check product availability
+ *     summary: Get products by category
  *     parameters:
  *       - in: path
- *         name: id
+ *         name: categoryId
  *         required: true
  *         schema:
  *           type: string
  *       - in: query
- *         name: quantity
- *         required: true
+ *         name: page
  *         schema:
  *           type: integer
- *     responses:
- *       200:
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
+ *     responses:
+ *       200:
+ *         description: List of products in category
+ */
+router.get(
+    "/category/:categoryId",
+    displayCurrency,
+    productController.getProductsByCategory
+);
+
+/**
+ * @swagger
+ * /api/products/inventory/analytics:
+ *   get:
+ *     tags: [Products]
+ *     summary: Get inventory analytics
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Inventory analytics
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/inventory/analytics", productController.getInventoryAnalytics);
+
+// Routes with a product id come after the fixed paths above, which they
+// would otherwise match
+/**
+ * @swagger
+ * /api/products/{id}:
+ *   get:
+ *     tags: [Products]
+ *     summary: Get product by ID
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
+ *     responses:
+ *       200:
+ *         description: Product details
+ *       404:
+ *         description: Product not found
+ */
+router.get("/:id", displayCurrency, productController.getProductById);
+
+/**
+ * @swagger
+ * /api/products/{id}:
+ *   put:
+ *     tags: [Products]
+ *     summary: Update product
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               price:
+ *                 type: integer
+ *                 description: Amount in the minor unit of the currency, e.g. francs for RWF
+ *               categoryId:
+ *                 type: string
+ *               images:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               stock:
+ *                 type: integer
+ *               weight:
+ *                 type: number
+ *                 description: Shipping weight in kilograms
+ *     responses:
+ *       200:
+ *         description: Product updated successfully
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Product not found
+ */
+router.put("/:id", productController.updateProduct);
+
+/**
+ * @swagger
+ * /api/products/{id}:
+ *   delete:
+ *     tags: [Products]
+ *     summary: Soft delete product
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Product deleted successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Product not found
+ */
+router.delete("/:id", productController.softDeleteProduct);
+
+/**
+ * @swagger
+ * /api/products/{productId}/reviews:
+ *   get:
+ *     tags: [Products]
+ *     summary: Get product reviews
+ *     parameters:
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: List of product reviews
+ */
+router.get("/:productId/reviews", productController.getProductReviews);
+
+/**
+ * @swagger
+ * /api/products/{productId}/reviews:
+ *   post:
+ *     tags: [Products]
+ *     summary: Add product review
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *               - comment
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Review added successfully
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ */
+router.post("/:productId/reviews", productController.addProductReview);
+
+/**
+ * @swagger
+ * /api/products/{productId}/statistics:
+ *   get:
+ *     tags: [Products]
+ *     summary: Get product statistics
+ *     parameters:
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Product statistics
+ */
+router.get("/:productId/statistics", productController.getProductStatistics);
+
+/**
+ * @swagger
+ * /api/products/{id}/stock:
+ *   put:
+ *     tags: [Products]
+ *     summary: Update product stock
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - quantity
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Stock updated successfully
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Product not found
+ */
+router.put("/:id/stock", productController.updateProductStock);
+
+/**
+ * @swagger
+ * /api/products/{id}/availability:
+ *   get:
+ *     tags: [Products]
+ *     summary: Check product availability
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: quantity
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: variantId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
  *         description: Product availability status
  *         content:
  *           application/json:
@@ -538,26 +790,213 @@ router.get(
  *         name: limit
  *         schema:
  *           type: integer
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
  *     responses:
  *       200:
  *         description: List of related products
  */
-router.get("/:productId/related", productController.getRelatedProducts);
+router.get(
+    "/:productId/related",
+    displayCurrency,
+    productController.getRelatedProducts
+);
 
 /**
  * @swagger
- * /api/products/inventory/analytics:
+ * /api/products/{id}/variants:
  *   get:
  *     tags: [Products]
- *     summary: Get inventory analytics
+ *     summary: Get the options and variants of a product
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Product options and variants on sale
+ *       400:
+ *         description: Product not found
+ */
+router.get("/:id/variants", productController.getProductVariants);
+
+/**
+ * @swagger
+ * /api/products/{id}/options:
+ *   put:
+ *     tags: [Products]
+ *     summary: Set the options of a product, such as size or color
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - options
+ *             properties:
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     values:
+ *                       type: array
+ *                       items:
+ *                         type: string
  *     responses:
  *       200:
- *         description: Inventory analytics
+ *         description: Options set successfully
+ *       400:
+ *         description: Invalid input or product not found
  *       401:
  *         description: Unauthorized
  */
-router.get("/inventory/analytics", productController.getInventoryAnalytics);
+router.put(
+    "/:id/options",
+    authenticate,
+    validate(productOptionsSchema),
+    productController.setProductOptions
+);
+
+/**
+ * @swagger
+ * /api/products/{id}/variants:
+ *   post:
+ *     tags: [Products]
+ *     summary: Add a variant to a product
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sku
+ *               - options
+ *               - price
+ *               - stock
+ *             properties:
+ *               sku:
+ *                 type: string
+ *               options:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 example: { "Size": "M", "Color": "Red" }
+ *               price:
+ *                 type: integer
+ *               stock:
+ *                 type: integer
+ *               images:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               weight:
+ *                 type: number
+ *     responses:
+ *       201:
+ *         description: Variant created successfully
+ *       400:
+ *         description: Invalid input or product not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+    "/:id/variants",
+    authenticate,
+    validate(productVariantSchema),
+    productController.createVariant
+);
+
+/**
+ * @swagger
+ * /api/products/{id}/variants/{variantId}:
+ *   put:
+ *     tags: [Products]
+ *     summary: Update a variant of a product
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Variant updated successfully
+ *       400:
+ *         description: Invalid input or variant not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.put(
+    "/:id/variants/:variantId",
+    authenticate,
+    validate(updateProductVariantSchema),
+    productController.updateVariant
+);
+
+/**
+ * @swagger
+ * /api/products/{id}/variants/{variantId}:
+ *   delete:
+ *     tags: [Products]
+ *     summary: Stop selling a variant of a product
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Variant deleted successfully
+ *       400:
+ *         description: Variant not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete(
+    "/:id/variants/:variantId",
+    authenticate,
+    productController.deleteVariant
+);
 
 export default router;
@@ -0,0 +1,111 @@
+import { Router } from "express";
+import { RecommendationController } from "@/controllers/recommendation.controller";
+import { displayCurrency } from "@/middleware/currency";
+import { optionalAuthenticate } from "@/middleware/auth";
+
+const router = Router();
+const recommendationController = new RecommendationController();
+
+/**
+ * @swagger
+ * /api/recommendations/feed:
+ *   get:
+ *     tags: [Recommendations]
+ *     summary: Get the home feed
+ *     description: |
+ *       Products recommended to the signed in user from what goes with the
+ *       products they bought, keep in their cart or wishlisted, and from
+ *       their latest searches. Guests and users without a feed yet get the
+ *       most ordered products. Feeds are recomputed periodically, so new
+ *       activity shows up in them after a while. Each product has the
+ *       reason it is recommended: BOUGHT_TOGETHER, ALSO_VIEWED, SEARCHED,
+ *       POPULAR or NEW.
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
+ *     responses:
+ *       200:
+ *         description: Recommended products, most recommended first
+ */
+router.get(
+    "/feed",
+    optionalAuthenticate,
+    displayCurrency,
+    recommendationController.getHomeFeed
+);
+
+/**
+ * @swagger
+ * /api/recommendations/products/{productId}/bought-together:
+ *   get:
+ *     tags: [Recommendations]
+ *     summary: Get the products frequently bought together with a product
+ *     description: Products most often in the same orders as the product, recomputed periodically.
+ *     parameters:
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
+ *     responses:
+ *       200:
+ *         description: Products, most often bought together first
+ */
+router.get(
+    "/products/:productId/bought-together",
+    displayCurrency,
+    recommendationController.getFrequentlyBoughtTogether
+);
+
+/**
+ * @swagger
+ * /api/recommendations/products/{productId}/also-viewed:
+ *   get:
+ *     tags: [Recommendations]
+ *     summary: Get the products customers also viewed with a product
+ *     description: Products that the customers who wishlisted the product or added it to their cart did the same with, recomputed periodically. Newest products of the same category make up for missing recommendations.
+ *     parameters:
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency to also show amounts in, under display, e.g. USD. Defaults to the currency in the user's settings.
+ *     responses:
+ *       200:
+ *         description: Products, the ones shared by most customers first
+ */
+router.get(
+    "/products/:productId/also-viewed",
+    displayCurrency,
+    recommendationController.getCustomersAlsoViewed
+);
+
+export default router;
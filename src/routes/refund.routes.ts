@@ -0,0 +1,242 @@
+import { Router } from "express";
+import { RefundController } from "@/controllers/refund.controller";
+import { authenticate, authorize } from "@/middleware/auth";
+import { validate } from "@/middleware/validate";
+import { refundRequestSchema } from "@/types/validation";
+
+const router = Router();
+const refundController = new RefundController();
+
+/**
+ * @swagger
+ * /api/refunds:
+ *   post:
+ *     tags: [Refunds]
+ *     summary: Request a refund for items of a delivered order
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderId
+ *               - reasonCode
+ *               - reason
+ *               - items
+ *             properties:
+ *               orderId:
+ *                 type: string
+ *               reasonCode:
+ *                 type: string
+ *                 enum: [DAMAGED, WRONG_ITEM, NOT_AS_DESCRIBED, MISSING_PARTS, QUALITY_ISSUE, OTHER]
+ *               reason:
+ *                 type: string
+ *               photos:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uri
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - orderItemId
+ *                     - quantity
+ *                   properties:
+ *                     orderItemId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *     responses:
+ *       201:
+ *         description: Refund request created
+ *       400:
+ *         description: Invalid input or order not eligible for a refund
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+    "/",
+    authenticate,
+    validate(refundRequestSchema),
+    refundController.createRefundRequest
+);
+
+/**
+ * @swagger
+ * /api/refunds:
+ *   get:
+ *     tags: [Refunds]
+ *     summary: Get the authenticated user's refund requests
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of refund requests
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/", authenticate, refundController.getUserRefundRequests);
+
+/**
+ * @swagger
+ * /api/refunds/review:
+ *   get:
+ *     tags: [Refunds]
+ *     summary: Get refund requests to review
+ *     description: Sellers only see refund requests that include their products.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED, COMPLETED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of refund requests
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/review",
+    authenticate,
+    authorize("ADMIN", "SELLER"),
+    refundController.getRefundRequestsForReview
+);
+
+/**
+ * @swagger
+ * /api/refunds/{refundId}:
+ *   get:
+ *     tags: [Refunds]
+ *     summary: Get refund request by ID
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: refundId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund request details
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Refund request not found
+ */
+router.get("/:refundId", authenticate, refundController.getRefundRequestById);
+
+/**
+ * @swagger
+ * /api/refunds/{refundId}/approve:
+ *   post:
+ *     tags: [Refunds]
+ *     summary: Approve a refund request
+ *     description: |
+ *       Refunds the payment through the order's payment method. Card refunds
+ *       complete straight away; cash on delivery refunds are settled by hand.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: refundId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               restock:
+ *                 type: boolean
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Refund request approved
+ *       400:
+ *         description: Refund request cannot be approved
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/:refundId/approve",
+    authenticate,
+    authorize("ADMIN", "SELLER"),
+    refundController.approveRefundRequest
+);
+
+/**
+ * @swagger
+ * /api/refunds/{refundId}/reject:
+ *   post:
+ *     tags: [Refunds]
+ *     summary: Reject a refund request
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: refundId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - note
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Refund request rejected
+ *       400:
+ *         description: Refund request cannot be rejected
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/:refundId/reject",
+    authenticate,
+    authorize("ADMIN", "SELLER"),
+    refundController.rejectRefundRequest
+);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { SellerController } from "@/controllers/seller.controller";
+import { authenticate, authorize } from "@/middleware/auth";
 
 const router = Router();
 const sellerController = new SellerController();
@@ -38,6 +39,317 @@ const sellerController = new SellerController();
  */
 router.post("/", sellerController.createSellerProfile);
 
+// Seller order routes are registered before "/:id" so they are not shadowed by it
+
+/**
+ * @swagger
+ * /api/sellers/orders:
+ *   get:
+ *     tags: [Sellers]
+ *     summary: Get orders containing the authenticated seller's products
+ *     description: Each order only includes the seller's own items and fulfillment group.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         description: Status of the seller's fulfillment group
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, PROCESSING, SHIPPED, DELIVERED, CANCELLED]
+ *       - in: query
+ *         name: itemStatus
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, ACCEPTED, REJECTED, PACKED, SHIPPED]
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: List of seller orders
+ *       400:
+ *         description: Invalid filters or no seller profile
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/orders",
+    authenticate,
+    authorize("SELLER"),
+    sellerController.getSellerOrders
+);
+
+/**
+ * @swagger
+ * /api/sellers/orders/{orderId}:
+ *   get:
+ *     tags: [Sellers]
+ *     summary: Get an order with the authenticated seller's items
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Seller order details
+ *       400:
+ *         description: Order not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/orders/:orderId",
+    authenticate,
+    authorize("SELLER"),
+    sellerController.getSellerOrder
+);
+
+/**
+ * @swagger
+ * /api/sellers/orders/{orderId}/items/accept:
+ *   post:
+ *     tags: [Sellers]
+ *     summary: Accept order items
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemIds
+ *             properties:
+ *               itemIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Items accepted
+ *       400:
+ *         description: Invalid input or status transition
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/orders/:orderId/items/accept",
+    authenticate,
+    authorize("SELLER"),
+    sellerController.acceptOrderItems
+);
+
+/**
+ * @swagger
+ * /api/sellers/orders/{orderId}/items/reject:
+ *   post:
+ *     tags: [Sellers]
+ *     summary: Reject order items
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemIds
+ *               - reason
+ *             properties:
+ *               itemIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Items rejected and restocked
+ *       400:
+ *         description: Invalid input or status transition
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/orders/:orderId/items/reject",
+    authenticate,
+    authorize("SELLER"),
+    sellerController.rejectOrderItems
+);
+
+/**
+ * @swagger
+ * /api/sellers/orders/{orderId}/items/pack:
+ *   post:
+ *     tags: [Sellers]
+ *     summary: Mark order items as packed
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemIds
+ *             properties:
+ *               itemIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Items marked as packed
+ *       400:
+ *         description: Invalid input or status transition
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/orders/:orderId/items/pack",
+    authenticate,
+    authorize("SELLER"),
+    sellerController.packOrderItems
+);
+
+/**
+ * @swagger
+ * /api/sellers/orders/{orderId}/items/ship:
+ *   post:
+ *     tags: [Sellers]
+ *     summary: Mark order items as shipped
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemIds
+ *               - carrier
+ *               - trackingNumber
+ *             properties:
+ *               itemIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               carrier:
+ *                 type: string
+ *               trackingNumber:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Items marked as shipped
+ *       400:
+ *         description: Invalid input or status transition
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/orders/:orderId/items/ship",
+    authenticate,
+    authorize("SELLER"),
+    sellerController.shipOrderItems
+);
+
+/**
+ * @swagger
+ * /api/sellers/orders/{orderId}/packing-slip:
+ *   get:
+ *     tags: [Sellers]
+ *     summary: Get a printable packing slip for the seller's items
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Packing slip
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Order not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/orders/:orderId/packing-slip",
+    authenticate,
+    authorize("SELLER"),
+    sellerController.getPackingSlip
+);
+
 /**
  * @swagger
  * /api/sellers/{id}:
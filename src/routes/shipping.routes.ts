@@ -0,0 +1,336 @@
+import { Router } from "express";
+import { ShippingController } from "@/controllers/shipping.controller";
+import { authenticate, authorize } from "@/middleware/auth";
+import { validate } from "@/middleware/validate";
+import {
+    shippingRateSchema,
+    shippingZoneSchema,
+    updateShippingRateSchema,
+    updateShippingZoneSchema,
+} from "@/types/validation";
+
+const router = Router();
+const shippingController = new ShippingController();
+
+/**
+ * @swagger
+ * /api/shipping/quote:
+ *   get:
+ *     tags: [Shipping]
+ *     summary: Get the delivery options for the cart to an address
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: addressId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: couponCode
+ *         schema:
+ *           type: string
+ *         description: Coupon code, for free shipping and discounted order value
+ *     responses:
+ *       200:
+ *         description: Delivery options, cheapest first
+ *       400:
+ *         description: Address cannot be delivered to or cart is empty
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/quote", authenticate, shippingController.getQuote);
+
+/**
+ * @swagger
+ * /api/shipping/zones:
+ *   post:
+ *     tags: [Shipping]
+ *     summary: Create a delivery zone (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               provinces:
+ *                 type: array
+ *                 description: Rwandan provinces, e.g. Kigali City or Northern
+ *                 items:
+ *                   type: string
+ *               districts:
+ *                 type: array
+ *                 description: Rwandan districts. They take precedence over provinces.
+ *                 items:
+ *                   type: string
+ *               freeShippingThreshold:
+ *                 type: integer
+ *                 description: Order value in minor units from which delivery is free
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Zone created successfully
+ *       400:
+ *         description: Invalid input or areas already covered by another zone
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/zones",
+    authenticate,
+    authorize("ADMIN"),
+    validate(shippingZoneSchema),
+    shippingController.createZone
+);
+
+/**
+ * @swagger
+ * /api/shipping/zones:
+ *   get:
+ *     tags: [Shipping]
+ *     summary: Get delivery zones with their rates (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of delivery zones
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/zones",
+    authenticate,
+    authorize("ADMIN"),
+    shippingController.getZones
+);
+
+/**
+ * @swagger
+ * /api/shipping/zones/{zoneId}:
+ *   get:
+ *     tags: [Shipping]
+ *     summary: Get a delivery zone (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: zoneId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Zone details with rates
+ *       400:
+ *         description: Zone not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+    "/zones/:zoneId",
+    authenticate,
+    authorize("ADMIN"),
+    shippingController.getZoneById
+);
+
+/**
+ * @swagger
+ * /api/shipping/zones/{zoneId}:
+ *   put:
+ *     tags: [Shipping]
+ *     summary: Update a delivery zone (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: zoneId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Zone updated successfully
+ *       400:
+ *         description: Invalid input or zone not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.put(
+    "/zones/:zoneId",
+    authenticate,
+    authorize("ADMIN"),
+    validate(updateShippingZoneSchema),
+    shippingController.updateZone
+);
+
+/**
+ * @swagger
+ * /api/shipping/zones/{zoneId}:
+ *   delete:
+ *     tags: [Shipping]
+ *     summary: Delete a delivery zone and its rates (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: zoneId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Zone deleted successfully
+ *       400:
+ *         description: Zone not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.delete(
+    "/zones/:zoneId",
+    authenticate,
+    authorize("ADMIN"),
+    shippingController.deleteZone
+);
+
+/**
+ * @swagger
+ * /api/shipping/zones/{zoneId}/rates:
+ *   post:
+ *     tags: [Shipping]
+ *     summary: Add a rate to a delivery zone (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: zoneId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - basis
+ *               - price
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Delivery option name, e.g. Standard or Express
+ *               basis:
+ *                 type: string
+ *                 enum: [WEIGHT, ORDER_VALUE]
+ *               minValue:
+ *                 type: number
+ *                 description: Lowest weight in kilograms or order value in minor units the rate applies to
+ *               maxValue:
+ *                 type: number
+ *                 description: Weight or order value the rate stops applying at
+ *               price:
+ *                 type: integer
+ *                 description: Amount in minor units
+ *               estimatedDays:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Rate added successfully
+ *       400:
+ *         description: Invalid input or zone not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+    "/zones/:zoneId/rates",
+    authenticate,
+    authorize("ADMIN"),
+    validate(shippingRateSchema),
+    shippingController.addRate
+);
+
+/**
+ * @swagger
+ * /api/shipping/rates/{rateId}:
+ *   put:
+ *     tags: [Shipping]
+ *     summary: Update a shipping rate (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: rateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rate updated successfully
+ *       400:
+ *         description: Invalid input or rate not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.put(
+    "/rates/:rateId",
+    authenticate,
+    authorize("ADMIN"),
+    validate(updateShippingRateSchema),
+    shippingController.updateRate
+);
+
+/**
+ * @swagger
+ * /api/shipping/rates/{rateId}:
+ *   delete:
+ *     tags: [Shipping]
+ *     summary: Delete a shipping rate (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: rateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rate deleted successfully
+ *       400:
+ *         description: Rate not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.delete(
+    "/rates/:rateId",
+    authenticate,
+    authorize("ADMIN"),
+    shippingController.deleteRate
+);
+
+export default router;
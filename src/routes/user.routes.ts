@@ -76,6 +76,10 @@ router.put("/profile", userController.updateProfile);
  *                 type: string
  *               currency:
  *                 type: string
+ *                 description: Currency prices are shown in, e.g. USD. Orders are still charged in RWF.
+ *               saveSearchHistory:
+ *                 type: boolean
+ *                 description: Whether product searches are saved and suggested back. Defaults to true.
  *     responses:
  *       200:
  *         description: Settings updated successfully
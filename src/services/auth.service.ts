@@ -323,6 +323,24 @@ export class AuthService {
         });
     }
 
+    // Delete refresh and verification tokens that have expired
+    async cleanupExpiredTokens() {
+        const now = new Date();
+        const [refreshTokens, verificationTokens] = await Promise.all([
+            prisma.refreshToken.deleteMany({
+                where: { expiresAt: { lte: now } },
+            }),
+            prisma.verificationToken.deleteMany({
+                where: { expiresAt: { lte: now } },
+            }),
+        ]);
+
+        return {
+            refreshTokens: refreshTokens.count,
+            verificationTokens: verificationTokens.count,
+        };
+    }
+
     // Request password reset
     async requestPasswordReset(email: string): Promise<void> {
         const user = await prisma.user.findUnique({
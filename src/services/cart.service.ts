@@ -1,55 +1,106 @@
 import { prisma } from "@/config/database";
+import { MONEY_CONFIG } from "@/config/money";
+import { CART_CONFIG } from "@/config/cart";
+import { Prisma } from "@prisma/client";
+import { InventoryService } from "./inventory.service";
+import { CouponService } from "./coupon.service";
+import { ShippingParcel, ShippingService } from "./shipping.service";
 
 export class CartService {
+    private inventoryService: InventoryService;
+    private couponService: CouponService;
+    private shippingService: ShippingService;
+
+    constructor() {
+        this.inventoryService = new InventoryService();
+        this.couponService = new CouponService();
+        this.shippingService = new ShippingService();
+    }
+
     //Add item to cart
-    async addCart(userId: string, productId: string, quantity: number) {
-        return prisma.cart.upsert({
-            where: {
-                userId_productId: { userId, productId },
-            },
-            update: {
-                quantity: { increment: quantity },
-            },
-            create: {
+    async addCart(
+        userId: string,
+        productId: string,
+        quantity: number,
+        variantId?: string
+    ) {
+        const item = await this.findCartItem(userId, productId, variantId);
+        if (item) {
+            return prisma.cart.update({
+                where: { id: item.id },
+                data: { quantity: { increment: quantity } },
+                include: { product: true, variant: true },
+            });
+        }
+
+        return prisma.cart.create({
+            data: {
                 userId,
                 productId,
+                variantId,
                 quantity,
             },
             include: {
                 product: true,
+                variant: true,
             },
         });
     }
 
     //Update cart item quantity
-    async updateCartItem(userId: string, productId: string, quantity: number) {
+    async updateCartItem(
+        userId: string,
+        productId: string,
+        quantity: number,
+        variantId?: string
+    ) {
         if (quantity <= 0) {
-            return this.removeFromCart(userId, productId);
+            return this.removeFromCart(userId, productId, variantId);
         }
 
+        const item = await this.findCartItem(userId, productId, variantId);
+        if (!item) {
+            throw new Error("Cart item not found");
+        }
         return prisma.cart.update({
-            where: {
-                userId_productId: { userId, productId },
-            },
+            where: { id: item.id },
             data: { quantity },
             include: {
                 product: true,
+                variant: true,
             },
         });
     }
 
     //Remove item from cart
-    async removeFromCart(userId: string, productId: string) {
+    async removeFromCart(
+        userId: string,
+        productId: string,
+        variantId?: string
+    ) {
+        const item = await this.findCartItem(userId, productId, variantId);
+        if (!item) {
+            throw new Error("Cart item not found");
+        }
         return prisma.cart.delete({
-            where: {
-                userId_productId: { userId, productId },
-            },
+            where: { id: item.id },
+        });
+    }
+
+    // Find the cart line of a product, or of one of its variants
+    private async findCartItem(
+        userId: string,
+        productId: string,
+        variantId?: string
+    ) {
+        return prisma.cart.findFirst({
+            where: { userId, productId, variantId: variantId ?? null },
         });
     }
 
     // Get user's cart
-    async getCart(userId: string) {
-        return prisma.cart.findMany({
+    async getCart(userId: string, tx: Prisma.TransactionClient = prisma) {
+        return tx.cart.findMany({
             where: { userId },
             include: {
                 product: {
@@ -58,10 +109,67 @@ export class CartService {
                         seller: true,
                     },
                 },
+                variant: true,
             },
         });
     }
 
+    // Remove ordered items from the cart.
+    // Quantity added to a line after it was ordered stays in the cart.
+    async removePurchasedItems(
+        tx: Prisma.TransactionClient,
+        userId: string,
+        items: Array<{
+            productId: string;
+            variantId?: string | null;
+            quantity: number;
+        }>
+    ) {
+        for (const item of items) {
+            await tx.cart.deleteMany({
+                where: {
+                    userId,
+                    productId: item.productId,
+                    variantId: item.variantId ?? null,
+                    quantity: { lte: item.quantity },
+                },
+            });
+            await tx.cart.updateMany({
+                where: {
+                    userId,
+                    productId: item.productId,
+                    variantId: item.variantId ?? null,
+                    quantity: { gt: item.quantity },
+                },
+                data: { quantity: { decrement: item.quantity } },
+            });
+        }
+    }
+
+    // Credit a checkout to the latest cart reminder sent to the user
+    // within the conversion window, if any
+    async recordReminderConversion(
+        tx: Prisma.TransactionClient,
+        userId: string,
+        orderId: string
+    ) {
+        const sentAfter = new Date(
+            Date.now() - CART_CONFIG.conversionWindowDays * 24 * 60 * 60 * 1000
+        );
+        const reminder = await tx.cartReminder.findFirst({
+            where: { userId, orderId: null, sentAt: { gte: sentAfter } },
+            orderBy: { sentAt: "desc" },
+        });
+        if (!reminder) {
+            return null;
+        }
+
+        return tx.cartReminder.update({
+            where: { id: reminder.id },
+            data: { orderId, convertedAt: new Date() },
+        });
+    }
+
     //Clear cart
     async clearCart(userId: string) {
         return prisma.cart.deleteMany({
@@ -69,43 +177,165 @@ export class CartService {
         });
     }
 
-    // Get cart total
-    async getCartTotal(userId: string) {
+    // Get cart total, with the discount of a coupon code and the delivery
+    // cost to an address if they are given
+    async getCartTotal(
+        userId: string,
+        options: {
+            couponCode?: string;
+            addressId?: string;
+            shippingRateId?: string;
+        } = {}
+    ) {
+        const { subtotal, appliedCoupon, parcel } = await this.getCartParcel(
+            userId,
+            options.couponCode
+        );
+
+        const shipping = options.addressId
+            ? await this.shippingService.chooseShippingOption(
+                  await this.shippingService.getDeliveryAddress(
+                      userId,
+                      options.addressId
+                  ),
+                  parcel,
+                  options.shippingRateId
+              )
+            : null;
+        const discountAmount = appliedCoupon?.discountAmount ?? 0;
+        const shippingCost = shipping?.price ?? 0;
+
+        return {
+            subtotal,
+            discountAmount,
+            freeShipping: appliedCoupon?.freeShipping ?? false,
+            couponCode: appliedCoupon?.coupon.code ?? null,
+            shipping,
+            shippingCost,
+            total: subtotal - discountAmount + shippingCost,
+            currency: MONEY_CONFIG.currency,
+        };
+    }
+
+    // Get the delivery options for the cart to one of the user's addresses
+    async getShippingQuote(
+        userId: string,
+        addressId: string,
+        couponCode?: string
+    ) {
+        const address = await this.shippingService.getDeliveryAddress(
+            userId,
+            addressId
+        );
+        const { cartItems, parcel } = await this.getCartParcel(
+            userId,
+            couponCode
+        );
+        if (cartItems.length === 0) {
+            throw new Error("Cart is empty");
+        }
+
+        return {
+            addressId,
+            orderValue: parcel.orderValue,
+            weight: parcel.weight,
+            currency: MONEY_CONFIG.currency,
+            options: await this.shippingService.getShippingOptions(
+                address,
+                parcel
+            ),
+        };
+    }
+
+    // Price the cart and work out what its delivery depends on
+    private async getCartParcel(userId: string, couponCode?: string) {
         const cartItems = await prisma.cart.findMany({
             where: { userId },
-            include: { product: true },
+            include: { product: true, variant: true },
         });
 
-        return cartItems.reduce((total, item) => {
-            return total + item.product.price * item.quantity;
+        // Lines of a variant are priced and weighed by the variant
+        const subtotal = cartItems.reduce((total, item) => {
+            return (
+                total +
+                (item.variant?.price ?? item.product.price) * item.quantity
+            );
         }, 0);
+
+        const appliedCoupon = couponCode
+            ? await this.couponService.applyCoupon(
+                  couponCode,
+                  userId,
+                  cartItems.map((item) => ({
+                      productId: item.productId,
+                      quantity: item.quantity,
+                      price: item.variant?.price ?? item.product.price,
+                      categoryId: item.product.categoryId,
+                      sellerId: item.product.sellerId,
+                  }))
+              )
+            : null;
+
+        const parcel: ShippingParcel = {
+            orderValue: subtotal - (appliedCoupon?.discountAmount ?? 0),
+            weight: cartItems.reduce(
+                (total, item) =>
+                    total +
+                    (item.variant?.weight ?? item.product.weight ?? 0) *
+                        item.quantity,
+                0
+            ),
+            freeShipping: appliedCoupon?.freeShipping,
+        };
+
+        return { cartItems, subtotal, appliedCoupon, parcel };
     }
 
     //Validate cart items
-    async validateCart(userId: string) {
-        const cartItems = await this.getCart(userId);
+    async validateCart(userId: string, tx: Prisma.TransactionClient = prisma) {
+        const cartItems = await this.getCart(userId, tx);
         const validationResults = [];
 
         for (const item of cartItems) {
-            const product = await prisma.product.findUnique({
+            const product = await tx.product.findUnique({
                 where: { id: item.productId },
             });
 
-            if (!product || !product.isActive) {
+            if (
+                !product ||
+                !product.isActive ||
+                (item.variant && !item.variant.isActive)
+            ) {
                 validationResults.push({
                     productId: item.productId,
+                    variantId: item.variantId,
                     valid: false,
                     reason: "Product not available",
                 });
-            } else if (product.stock < item.quantity) {
+            } else if (product.hasVariants && !item.variant) {
+                validationResults.push({
+                    productId: item.productId,
+                    variantId: item.variantId,
+                    valid: false,
+                    reason: "Choose a variant",
+                });
+            } else if (
+                (await this.inventoryService.getAvailableStock(
+                    product,
+                    tx,
+                    item.variant
+                )) < item.quantity
+            ) {
                 validationResults.push({
                     productId: item.productId,
+                    variantId: item.variantId,
                     valid: false,
                     reason: "Insufficient stock",
                 });
             } else {
                 validationResults.push({
                     productId: item.productId,
+                    variantId: item.variantId,
                     valid: true,
                 });
             }
@@ -0,0 +1,193 @@
+import { prisma } from "@/config/database";
+import { CART_CONFIG } from "@/config/cart";
+import { MONEY_CONFIG } from "@/config/money";
+import { NotificationType } from "@prisma/client";
+import { CartService } from "./cart.service";
+import { EmailService } from "./email.service";
+import { NotificationService } from "./notification.service";
+
+type ReminderPreferences = {
+    emailNotifications?: boolean;
+    promotions?: boolean;
+} | null;
+
+export class CartReminderService {
+    private cartService: CartService;
+    private emailService: EmailService;
+    private notificationService: NotificationService;
+
+    constructor() {
+        this.cartService = new CartService();
+        this.emailService = new EmailService();
+        this.notificationService = new NotificationService();
+    }
+
+    // Remind customers of carts left untouched for a while. A cart is
+    // reminded about once until it changes again, and only to customers
+    // who accept promotions.
+    async sendAbandonedCartReminders() {
+        const carts = await this.getAbandonedCarts();
+        const lastReminders = await prisma.cartReminder.findMany({
+            where: { userId: { in: carts.map((cart) => cart.userId) } },
+            orderBy: { sentAt: "desc" },
+            distinct: ["userId"],
+        });
+        const remindedAt = new Map(
+            lastReminders.map((reminder) => [
+                reminder.userId,
+                reminder.cartUpdatedAt,
+            ])
+        );
+
+        let reminded = 0;
+        for (const { userId, updatedAt } of carts) {
+            if (reminded >= CART_CONFIG.reminderBatchSize) {
+                break;
+            }
+            const lastReminded = remindedAt.get(userId);
+            if (lastReminded && lastReminded >= updatedAt) {
+                continue;
+            }
+            if (await this.remindUser(userId, updatedAt)) {
+                reminded++;
+            }
+        }
+        return { reminded };
+    }
+
+    // Get the report of abandoned carts and of carts recovered by reminders
+    // sent in a period, the last 30 days by default
+    async getAbandonedCartReport(range: { startDate?: Date; endDate?: Date }) {
+        const endDate = range.endDate ?? new Date();
+        const startDate =
+            range.startDate ??
+            new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+        const sentAt = { gte: startDate, lte: endDate };
+
+        const [abandonedCarts, reminders, converted, recovered] =
+            await Promise.all([
+                this.getAbandonedCarts(),
+                prisma.cartReminder.aggregate({
+                    where: { sentAt },
+                    _count: { id: true },
+                    _sum: { cartValue: true },
+                }),
+                prisma.cartReminder.count({
+                    where: { sentAt, orderId: { not: null } },
+                }),
+                prisma.order.aggregate({
+                    where: { cartReminder: { is: { sentAt } } },
+                    _sum: { totalAmount: true },
+                }),
+            ]);
+
+        const abandonedLines = await prisma.cart.findMany({
+            where: {
+                userId: { in: abandonedCarts.map((cart) => cart.userId) },
+                product: { isActive: true },
+            },
+            include: { product: { select: { price: true } } },
+        });
+        const sent = reminders._count.id;
+
+        return {
+            startDate,
+            endDate,
+            currency: MONEY_CONFIG.currency,
+            // Carts untouched for longer than the abandonment period now
+            abandonedCarts: abandonedCarts.length,
+            abandonedCartValue: abandonedLines.reduce(
+                (sum, line) => sum + line.product.price * line.quantity,
+                0
+            ),
+            remindersSent: sent,
+            remindedCartValue: reminders._sum.cartValue ?? 0,
+            recoveredCarts: converted,
+            recoveredRevenue: recovered._sum.totalAmount ?? 0,
+            // Share of reminded carts that were checked out, in percent
+            recoveryRate:
+                sent > 0 ? Math.round((converted / sent) * 10000) / 100 : 0,
+        };
+    }
+
+    // Get the users whose cart has not changed for the abandonment period,
+    // with the time it last changed, longest abandoned first
+    private async getAbandonedCarts() {
+        const idleSince = new Date(
+            Date.now() - CART_CONFIG.abandonedAfterHours * 60 * 60 * 1000
+        );
+        const carts = await prisma.cart.groupBy({
+            by: ["userId"],
+            _max: { updatedAt: true },
+            having: { updatedAt: { _max: { lte: idleSince } } },
+            orderBy: { _max: { updatedAt: "asc" } },
+        });
+
+        return carts.map((cart) => ({
+            userId: cart.userId,
+            updatedAt: cart._max.updatedAt!,
+        }));
+    }
+
+    // Send the reminder of a cart and record it. Returns false when the
+    // customer does not accept promotions or has nothing left to buy.
+    private async remindUser(userId: string, cartUpdatedAt: Date) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: {
+                email: true,
+                firstName: true,
+                notificationPreferences: true,
+            },
+        });
+        const preferences =
+            user?.notificationPreferences as ReminderPreferences;
+        if (!user || preferences?.promotions === false) {
+            return false;
+        }
+
+        const items = (await this.cartService.getCart(userId)).filter(
+            (item) => item.product.isActive
+        );
+        if (items.length === 0) {
+            return false;
+        }
+        const cartValue = items.reduce(
+            (sum, item) => sum + item.product.price * item.quantity,
+            0
+        );
+        const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
+
+        await prisma.cartReminder.create({
+            data: {
+                userId,
+                cartValue,
+                currency: MONEY_CONFIG.currency,
+                itemCount,
+                cartUpdatedAt,
+            },
+        });
+        await this.notificationService.createNotification({
+            userId,
+            type: NotificationType.CART_REMINDER,
+            message: `You left ${itemCount} item${itemCount === 1 ? "" : "s"} in your cart`,
+            metadata: { cartValue, currency: MONEY_CONFIG.currency },
+        });
+        if (preferences?.emailNotifications !== false) {
+            try {
+                await this.emailService.sendAbandonedCartEmail(user, {
+                    items: items.map((item) => ({
+                        name: item.product.name,
+                        quantity: item.quantity,
+                        price: item.product.price,
+                    })),
+                    total: cartValue,
+                    currency: MONEY_CONFIG.currency,
+                });
+            } catch (error) {
+                console.error("Error sending cart reminder email:", error);
+            }
+        }
+        return true;
+    }
+}
@@ -1,6 +1,7 @@
 import { prisma } from "@/config/database";
 import { Category } from "@prisma/client";
 import { paginate, PaginationParams } from "@/utils/pagination";
+import { getSearchProvider } from "@/providers/search";
 
 export class CategoryService {
     //Create category
@@ -9,6 +10,7 @@ export class CategoryService {
         description?: string;
         image?: string;
         parentId?: string;
+        vatRate?: number | null;
     }): Promise<Category> {
         //Check if name is unique
         const existingCategory = await prisma.category.findUnique({
@@ -36,6 +38,7 @@ export class CategoryService {
                 description: data.description,
                 image: data.image,
                 parentId: data.parentId,
+                vatRate: data.vatRate,
             },
         });
     }
@@ -88,6 +91,7 @@ export class CategoryService {
             description?: string;
             image?: string;
             parentId?: string;
+            vatRate?: number | null;
         }
     ): Promise<Category> {
         //Check if category exists
@@ -135,10 +139,20 @@ export class CategoryService {
                 );
             }
         }
-        return prisma.category.update({
+        const updatedCategory = await prisma.category.update({
             where: { id },
             data,
         });
+
+        // Products are searchable by the name of their category
+        if (data.name && data.name !== category.name) {
+            try {
+                await getSearchProvider().indexProducts({ categoryId: id });
+            } catch (error) {
+                console.error("Error indexing products for search:", error);
+            }
+        }
+        return updatedCategory;
     }
 
     //Delete category
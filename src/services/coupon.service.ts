@@ -0,0 +1,329 @@
+import { prisma } from "@/config/database";
+import { paginate, PaginationParams } from "@/utils/pagination";
+import { allocate, formatMoney, percentOf } from "@/utils/money";
+import { NotificationService } from "./notification.service";
+import {
+    Coupon,
+    CouponType,
+    NotificationType,
+    Prisma,
+    UserRole,
+} from "@prisma/client";
+
+// A priced line of a cart or order the coupon is checked against
+export interface CouponLine {
+    productId: string;
+    quantity: number;
+    price: number;
+    categoryId: string;
+    sellerId: string;
+}
+
+export interface AppliedCoupon {
+    coupon: Coupon;
+    subtotal: number;
+    discountAmount: number;
+    // Share of the discount taken off each line, in the order of the lines
+    lineDiscounts: number[];
+    freeShipping: boolean;
+}
+
+type CouponInput = {
+    code: string;
+    description?: string;
+    type: CouponType;
+    value?: number;
+    minBasket?: number;
+    usageLimit?: number;
+    perUserLimit?: number;
+    startsAt?: Date;
+    expiresAt?: Date;
+    isActive?: boolean;
+    categoryIds?: string[];
+    sellerIds?: string[];
+};
+
+export class CouponService {
+    private notificationService: NotificationService;
+
+    constructor() {
+        this.notificationService = new NotificationService();
+    }
+
+    // Codes are matched case-insensitively
+    private normalizeCode(code: string) {
+        return code.trim().toUpperCase();
+    }
+
+    private assertCouponValue(data: { type: CouponType; value: number }) {
+        if (data.type === CouponType.PERCENTAGE && data.value > 100) {
+            throw new Error("Percentage cannot be more than 100");
+        }
+        if (data.type !== CouponType.FREE_SHIPPING && data.value <= 0) {
+            throw new Error("Value must be positive");
+        }
+        if (
+            data.type === CouponType.FIXED_AMOUNT &&
+            !Number.isInteger(data.value)
+        ) {
+            throw new Error("Amount must be in whole minor units");
+        }
+    }
+
+    // Create a coupon
+    async createCoupon(data: CouponInput): Promise<Coupon> {
+        const code = this.normalizeCode(data.code);
+        this.assertCouponValue({ type: data.type, value: data.value ?? 0 });
+
+        const existingCoupon = await prisma.coupon.findUnique({
+            where: { code },
+        });
+        if (existingCoupon) {
+            throw new Error("Coupon code already exists");
+        }
+
+        return prisma.coupon.create({
+            data: { ...data, code },
+        });
+    }
+
+    // Get coupons with pagination
+    async getCoupons(params: PaginationParams & { isActive?: boolean } = {}) {
+        const { isActive, ...paginationParams } = params;
+        const where: Prisma.CouponWhereInput = {};
+        if (isActive !== undefined) where.isActive = isActive;
+
+        return paginate(
+            (skip, take) =>
+                prisma.coupon.findMany({
+                    where,
+                    skip,
+                    take,
+                    orderBy: { createdAt: "desc" },
+                }),
+            () => prisma.coupon.count({ where }),
+            paginationParams
+        );
+    }
+
+    // Get coupon by id
+    async getCouponById(couponId: string): Promise<Coupon> {
+        const coupon = await prisma.coupon.findUnique({
+            where: { id: couponId },
+        });
+
+        if (!coupon) {
+            throw new Error("Coupon not found");
+        }
+
+        return coupon;
+    }
+
+    // Update a coupon. The code cannot change once customers may have it.
+    async updateCoupon(
+        couponId: string,
+        data: Partial<Omit<CouponInput, "code">>
+    ): Promise<Coupon> {
+        const coupon = await this.getCouponById(couponId);
+        this.assertCouponValue({
+            type: data.type ?? coupon.type,
+            value: data.value ?? coupon.value,
+        });
+
+        return prisma.coupon.update({
+            where: { id: couponId },
+            data,
+        });
+    }
+
+    // Deactivate a coupon. Coupons stay on record for the orders that used them.
+    async deactivateCoupon(couponId: string): Promise<Coupon> {
+        await this.getCouponById(couponId);
+
+        return prisma.coupon.update({
+            where: { id: couponId },
+            data: { isActive: false },
+        });
+    }
+
+    // Let customers who accept promotions know about a coupon
+    async announceCoupon(couponId: string, message?: string) {
+        const coupon = await this.getCouponById(couponId);
+        if (!coupon.isActive) {
+            throw new Error("Coupon is not active");
+        }
+
+        const customers = await prisma.user.findMany({
+            where: { role: UserRole.CUSTOMER },
+            select: { id: true, notificationPreferences: true },
+        });
+        const recipients = customers
+            .filter(
+                (customer) =>
+                    (
+                        customer.notificationPreferences as {
+                            promotions?: boolean;
+                        } | null
+                    )?.promotions !== false
+            )
+            .map((customer) => customer.id);
+        if (recipients.length === 0) {
+            return 0;
+        }
+
+        await this.notificationService.createBulkNotification(
+            recipients.map((userId) => ({
+                userId,
+                type: NotificationType.PROMOTIONAL,
+                message:
+                    message ||
+                    coupon.description ||
+                    `Use code ${coupon.code} on your next order`,
+                metadata: { couponId: coupon.id, code: coupon.code },
+            }))
+        );
+        return recipients.length;
+    }
+
+    // Check a coupon code against the lines of a cart or order and work out
+    // the discount. Scoped coupons only discount the lines they cover.
+    async applyCoupon(
+        code: string,
+        userId: string,
+        lines: CouponLine[],
+        tx: Prisma.TransactionClient = prisma
+    ): Promise<AppliedCoupon> {
+        const coupon = await tx.coupon.findUnique({
+            where: { code: this.normalizeCode(code) },
+        });
+
+        if (!coupon || !coupon.isActive) {
+            throw new Error("Invalid coupon code");
+        }
+
+        const now = new Date();
+        if (coupon.startsAt && coupon.startsAt > now) {
+            throw new Error("Coupon is not valid yet");
+        }
+        if (coupon.expiresAt && coupon.expiresAt <= now) {
+            throw new Error("Coupon has expired");
+        }
+
+        await this.assertUsageAvailable(tx, coupon, userId);
+
+        const subtotal = lines.reduce(
+            (sum, line) => sum + line.price * line.quantity,
+            0
+        );
+        const isEligible = (line: CouponLine) =>
+            (coupon.categoryIds.length === 0 ||
+                coupon.categoryIds.includes(line.categoryId)) &&
+            (coupon.sellerIds.length === 0 ||
+                coupon.sellerIds.includes(line.sellerId));
+        const eligibleLines = lines.filter(isEligible);
+        if (eligibleLines.length === 0) {
+            throw new Error("Coupon does not apply to any items in your order");
+        }
+
+        const eligibleSubtotal = eligibleLines.reduce(
+            (sum, line) => sum + line.price * line.quantity,
+            0
+        );
+        // Only the items a scoped coupon covers count towards its minimum
+        if (coupon.minBasket && eligibleSubtotal < coupon.minBasket) {
+            throw new Error(
+                coupon.categoryIds.length > 0 || coupon.sellerIds.length > 0
+                    ? `Items this coupon applies to must be at least ${formatMoney(coupon.minBasket)}`
+                    : `Order must be at least ${formatMoney(coupon.minBasket)} to use this coupon`
+            );
+        }
+
+        let discountAmount = 0;
+        if (coupon.type === CouponType.PERCENTAGE) {
+            discountAmount = percentOf(eligibleSubtotal, coupon.value);
+        } else if (coupon.type === CouponType.FIXED_AMOUNT) {
+            discountAmount = Math.min(coupon.value, eligibleSubtotal);
+        }
+
+        // Spread the discount over the eligible lines by their value
+        const lineDiscounts = allocate(
+            discountAmount,
+            lines.map((line) =>
+                isEligible(line) ? line.price * line.quantity : 0
+            )
+        );
+
+        return {
+            coupon,
+            subtotal,
+            discountAmount,
+            lineDiscounts,
+            freeShipping: coupon.type === CouponType.FREE_SHIPPING,
+        };
+    }
+
+    // Record the use of a coupon by an order.
+    // The coupon row is locked so concurrent orders cannot go over its limits.
+    async redeemCoupon(
+        tx: Prisma.TransactionClient,
+        data: {
+            couponId: string;
+            userId: string;
+            orderId: string;
+            discountAmount: number;
+        }
+    ) {
+        await tx.$queryRaw`SELECT id FROM "Coupon" WHERE id = ${data.couponId} FOR UPDATE`;
+
+        const coupon = await tx.coupon.findUniqueOrThrow({
+            where: { id: data.couponId },
+        });
+        await this.assertUsageAvailable(tx, coupon, data.userId);
+
+        await tx.coupon.update({
+            where: { id: coupon.id },
+            data: { usageCount: { increment: 1 } },
+        });
+
+        return tx.couponRedemption.create({
+            data,
+        });
+    }
+
+    // Give back the coupon use of a cancelled order
+    async releaseRedemption(tx: Prisma.TransactionClient, orderId: string) {
+        const redemption = await tx.couponRedemption.findUnique({
+            where: { orderId },
+        });
+        if (!redemption) {
+            return;
+        }
+
+        await tx.couponRedemption.delete({
+            where: { id: redemption.id },
+        });
+        await tx.coupon.update({
+            where: { id: redemption.couponId },
+            data: { usageCount: { decrement: 1 } },
+        });
+    }
+
+    private async assertUsageAvailable(
+        tx: Prisma.TransactionClient,
+        coupon: Coupon,
+        userId: string
+    ) {
+        if (coupon.usageLimit && coupon.usageCount >= coupon.usageLimit) {
+            throw new Error("Coupon usage limit reached");
+        }
+
+        if (coupon.perUserLimit) {
+            const used = await tx.couponRedemption.count({
+                where: { couponId: coupon.id, userId },
+            });
+            if (used >= coupon.perUserLimit) {
+                throw new Error("You have already used this coupon");
+            }
+        }
+    }
+}
@@ -0,0 +1,331 @@
+import { prisma } from "@/config/database";
+import { MONEY_CONFIG } from "@/config/money";
+import { convertAmount, isSupportedCurrency } from "@/utils/money";
+import { ExchangeRate } from "@prisma/client";
+
+// Currency amounts of a response are shown in, with the rate used
+export interface DisplayCurrency {
+    currency: string;
+    rate: number;
+}
+
+// Converted copies of the amount fields of a response. The original fields
+// stay in the base currency, which orders are charged and settled in.
+export type DisplayAmounts<K extends string> = DisplayCurrency &
+    Record<K, number>;
+
+// A record with its amounts converted for display
+type Localized<T, K extends string> = T & { display?: DisplayAmounts<K> };
+
+// Variants are priced in their product's currency
+type PricedVariant = { price: number };
+
+type PricedProduct = {
+    price: number;
+    currency: string;
+    variants?: PricedVariant[];
+};
+
+type CartEntry<P extends PricedProduct> = {
+    product: P;
+    variant?: PricedVariant | null;
+};
+
+type CartTotal = {
+    subtotal: number;
+    discountAmount: number;
+    shippingCost: number;
+    total: number;
+    currency: string;
+};
+
+type OrderAmounts = {
+    currency: string;
+    totalAmount: number;
+    discountAmount: number;
+    shippingCost: number;
+    netAmount: number;
+    taxAmount: number;
+    items?: OrderItemAmounts[];
+};
+
+type OrderItemAmounts = { price: number; grossAmount: number };
+
+const PRODUCT_FIELDS = ["price"] as const;
+const CART_TOTAL_FIELDS = [
+    "subtotal",
+    "discountAmount",
+    "shippingCost",
+    "total",
+] as const;
+const ORDER_FIELDS = [
+    "totalAmount",
+    "discountAmount",
+    "shippingCost",
+    "netAmount",
+    "taxAmount",
+] as const;
+const ORDER_ITEM_FIELDS = ["price", "grossAmount"] as const;
+
+type ProductField = (typeof PRODUCT_FIELDS)[number];
+
+// A product with its price and the prices of its variants converted
+type LocalizedProduct<P extends PricedProduct> = Localized<P, ProductField> & {
+    variants?: Array<Localized<PricedVariant, ProductField>>;
+};
+type CartTotalField = (typeof CART_TOTAL_FIELDS)[number];
+type OrderField = (typeof ORDER_FIELDS)[number];
+type OrderItemField = (typeof ORDER_ITEM_FIELDS)[number];
+
+export class CurrencyService {
+    // Get the exchange rates
+    async getRates(): Promise<ExchangeRate[]> {
+        return prisma.exchangeRate.findMany({
+            orderBy: { currency: "asc" },
+        });
+    }
+
+    // Set the exchange rate of a currency
+    async setRate(currency: string, rate: number): Promise<ExchangeRate> {
+        const code = currency.toUpperCase();
+        if (!isSupportedCurrency(code)) {
+            throw new Error(`Unsupported currency: ${currency}`);
+        }
+        if (code === MONEY_CONFIG.currency) {
+            throw new Error("The base currency has no exchange rate");
+        }
+        if (!(rate > 0)) {
+            throw new Error("Exchange rate must be positive");
+        }
+
+        return prisma.exchangeRate.upsert({
+            where: { currency: code },
+            create: { currency: code, rate },
+            update: { rate },
+        });
+    }
+
+    // Delete the exchange rate of a currency
+    async deleteRate(currency: string): Promise<ExchangeRate> {
+        const code = currency.toUpperCase();
+        const rate = await prisma.exchangeRate.findUnique({
+            where: { currency: code },
+        });
+        if (!rate) {
+            throw new Error("Exchange rate not found");
+        }
+
+        return prisma.exchangeRate.delete({ where: { currency: code } });
+    }
+
+    // Get the currency a user wants to see prices in
+    async getUserCurrency(userId: string): Promise<string> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { settings: true },
+        });
+        const currency = (user?.settings as { currency?: unknown } | null)
+            ?.currency;
+
+        return typeof currency === "string" && isSupportedCurrency(currency)
+            ? currency.toUpperCase()
+            : MONEY_CONFIG.currency;
+    }
+
+    // Get the rate to show amounts in a currency. Amounts are left in the
+    // base currency when it is asked for or has no exchange rate.
+    async getDisplayCurrency(
+        currency?: string
+    ): Promise<DisplayCurrency | null> {
+        if (!currency || currency.toUpperCase() === MONEY_CONFIG.currency) {
+            return null;
+        }
+        const code = currency.toUpperCase();
+        const exchangeRate = await prisma.exchangeRate.findUnique({
+            where: { currency: code },
+        });
+
+        return exchangeRate
+            ? { currency: code, rate: exchangeRate.rate }
+            : null;
+    }
+
+    // Add display prices to products
+    async localizeProducts<P extends PricedProduct>(
+        products: P[],
+        currency?: string
+    ): Promise<Array<LocalizedProduct<P>>> {
+        const display = await this.getDisplayCurrency(currency);
+        if (!display) {
+            return products;
+        }
+
+        return products.map((product) =>
+            this.withProductDisplay(product, display)
+        );
+    }
+
+    // Add display prices to a product
+    async localizeProduct<P extends PricedProduct>(
+        product: P,
+        currency?: string
+    ) {
+        const [localized] = await this.localizeProducts([product], currency);
+        return localized;
+    }
+
+    // Add display prices to cart items and their products. A line of a
+    // variant is priced by the variant.
+    async localizeCart<P extends PricedProduct, E extends CartEntry<P>>(
+        entries: E[],
+        currency?: string
+    ): Promise<
+        Array<
+            Localized<E, ProductField> & {
+                product: LocalizedProduct<P>;
+                variant?: Localized<PricedVariant, ProductField> | null;
+            }
+        >
+    > {
+        const display = await this.getDisplayCurrency(currency);
+        if (!display) {
+            return entries;
+        }
+
+        return entries.map((entry) => {
+            const { product, variant } = entry;
+            const line = this.withDisplay(
+                { price: variant?.price ?? product.price },
+                product.currency,
+                PRODUCT_FIELDS,
+                display
+            );
+            return {
+                ...entry,
+                display: line.display,
+                product: this.withProductDisplay(product, display),
+                variant:
+                    variant &&
+                    this.withDisplay(
+                        variant,
+                        product.currency,
+                        PRODUCT_FIELDS,
+                        display
+                    ),
+            };
+        });
+    }
+
+    // Add display amounts to a cart total
+    async localizeCartTotal<T extends CartTotal>(
+        total: T,
+        currency?: string
+    ): Promise<Localized<T, CartTotalField>> {
+        const display = await this.getDisplayCurrency(currency);
+        if (!display) {
+            return total;
+        }
+
+        return this.withDisplay(
+            total,
+            total.currency,
+            CART_TOTAL_FIELDS,
+            display
+        );
+    }
+
+    // Add display amounts to orders and their items
+    async localizeOrders<O extends OrderAmounts>(
+        orders: O[],
+        currency?: string
+    ): Promise<
+        Array<
+            Localized<O, OrderField> & {
+                items?: Array<Localized<OrderItemAmounts, OrderItemField>>;
+            }
+        >
+    > {
+        const display = await this.getDisplayCurrency(currency);
+        if (!display) {
+            return orders;
+        }
+
+        return orders.map((order) => {
+            const localized = this.withDisplay(
+                order,
+                order.currency,
+                ORDER_FIELDS,
+                display
+            );
+            if (!order.items) {
+                return localized;
+            }
+            return {
+                ...localized,
+                items: order.items.map((item) =>
+                    this.withDisplay(
+                        item,
+                        order.currency,
+                        ORDER_ITEM_FIELDS,
+                        display
+                    )
+                ),
+            };
+        });
+    }
+
+    // Add display amounts to an order and its items
+    async localizeOrder<O extends OrderAmounts>(order: O, currency?: string) {
+        const [localized] = await this.localizeOrders([order], currency);
+        return localized;
+    }
+
+    // Convert the price of a product and the prices of its variants
+    private withProductDisplay<P extends PricedProduct>(
+        product: P,
+        display: DisplayCurrency
+    ): LocalizedProduct<P> {
+        const localized = this.withDisplay(
+            product,
+            product.currency,
+            PRODUCT_FIELDS,
+            display
+        );
+        if (!product.variants) {
+            return localized;
+        }
+        return {
+            ...localized,
+            variants: product.variants.map((variant) =>
+                this.withDisplay(
+                    variant,
+                    product.currency,
+                    PRODUCT_FIELDS,
+                    display
+                )
+            ),
+        };
+    }
+
+    // Copy the amount fields converted to the display currency. Records
+    // priced in another currency than the base one are left as they are.
+    private withDisplay<T extends Record<K, number>, K extends string>(
+        record: T,
+        currency: string,
+        fields: readonly K[],
+        display: DisplayCurrency
+    ): Localized<T, K> {
+        if (currency !== MONEY_CONFIG.currency) {
+            return record;
+        }
+
+        const amounts = Object.fromEntries(
+            fields.map((field) => [
+                field,
+                convertAmount(record[field], display.rate, display.currency),
+            ])
+        ) as Record<K, number>;
+
+        return { ...record, display: { ...display, ...amounts } };
+    }
+}
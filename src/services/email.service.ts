@@ -1,11 +1,16 @@
 import nodemailer from "nodemailer";
 import { prisma } from "@/config/database";
 import { sendEmail } from "@/config/email";
+import { formatMoney } from "@/utils/money";
+import { InvoiceService } from "./invoice.service";
 
 export class EmailService {
     private transporter: nodemailer.Transporter;
+    private invoiceService: InvoiceService;
 
     constructor() {
+        this.invoiceService = new InvoiceService();
+
         if (
             !process.env.SMTP_HOST ||
             !process.env.SMTP_USER ||
@@ -112,14 +117,11 @@ export class EmailService {
             },
         });
 
-        if (!order) {
+        if (!order || order.userId !== userId) {
             throw new Error("Order not found");
         }
 
-        const totalAmount = order.items.reduce(
-            (sum, item) => sum + item.price * item.quantity,
-            0
-        );
+        const invoice = await this.invoiceService.generateInvoice(order.id);
 
         await sendEmail({
             to: user.email,
@@ -128,19 +130,62 @@ export class EmailService {
                 <h1>Order Confirmation</h1>
                 <p>Thank you for your order!</p>
                 <p>Order ID: ${order.id}</p>
-                <p>Total: ${totalAmount}</p>
+                <p>Total: ${formatMoney(order.totalAmount, order.currency)}, including VAT of ${formatMoney(order.taxAmount, order.currency)}</p>
                 <h2>Order Items:</h2>
                 <ul>
                     ${order.items
                         .map(
                             (item) => `
                         <li>
-                            ${item.product.name} x ${item.quantity} - ${item.price}
+                            ${item.product.name} x ${item.quantity} - ${formatMoney(item.price, order.currency)}
+                        </li>
+                    `
+                        )
+                        .join("")}
+                </ul>
+                <p>Your invoice ${invoice.number} is attached.</p>
+            `,
+            attachments: [
+                {
+                    filename: invoice.fileName,
+                    content: invoice.pdf,
+                    contentType: "application/pdf",
+                },
+            ],
+        });
+    }
+
+    // Remind a customer of the items left in their cart
+    async sendAbandonedCartEmail(
+        user: { email: string; firstName: string },
+        cart: {
+            items: Array<{ name: string; quantity: number; price: number }>;
+            total: number;
+            currency: string;
+        }
+    ): Promise<void> {
+        const cartUrl = `${process.env.FRONTEND_URL}/cart`;
+
+        await sendEmail({
+            to: user.email,
+            subject: "You left items in your cart",
+            html: `
+                <h1>Hi ${user.firstName}, your cart is waiting</h1>
+                <p>You left these items in your cart:</p>
+                <ul>
+                    ${cart.items
+                        .map(
+                            (item) => `
+                        <li>
+                            ${item.name} x ${item.quantity} - ${formatMoney(item.price, cart.currency)}
                         </li>
                     `
                         )
                         .join("")}
                 </ul>
+                <p>Total: ${formatMoney(cart.total, cart.currency)}</p>
+                <a href="${cartUrl}">Complete your order</a>
+                <p>You can turn off these reminders in your notification preferences.</p>
             `,
         });
     }
@@ -0,0 +1,408 @@
+import { paginate, PaginationParams } from "@/utils/pagination";
+import { prisma } from "@/config/database";
+import { INVENTORY_CONFIG } from "@/config/inventory";
+import {
+    OrderItem,
+    OrderStatus,
+    Prisma,
+    ReservationStatus,
+    StockReservation,
+} from "@prisma/client";
+
+// Reservations that still hold stock
+const activeReservationWhere = (): Prisma.StockReservationWhereInput => ({
+    status: ReservationStatus.ACTIVE,
+    expiresAt: { gt: new Date() },
+});
+
+export class InventoryService {
+    // Get the quantity of a product, or of one of its variants, held by
+    // active reservations
+    async getReservedQuantity(
+        productId: string,
+        tx: Prisma.TransactionClient = prisma,
+        variantId?: string
+    ): Promise<number> {
+        const result = await tx.stockReservation.aggregate({
+            where: {
+                productId,
+                ...(variantId && { variantId }),
+                ...activeReservationWhere(),
+            },
+            _sum: { quantity: true },
+        });
+        return result._sum.quantity ?? 0;
+    }
+
+    // Get the stock of a product, or of the variant of it being bought,
+    // that is not held by reservations
+    async getAvailableStock(
+        product: { id: string; stock: number },
+        tx: Prisma.TransactionClient = prisma,
+        variant?: { id: string; stock: number } | null
+    ): Promise<number> {
+        if (variant) {
+            const reserved = await this.getReservedQuantity(
+                product.id,
+                tx,
+                variant.id
+            );
+            return variant.stock - reserved;
+        }
+        const reserved = await this.getReservedQuantity(product.id, tx);
+        return product.stock - reserved;
+    }
+
+    // Lock product rows until the transaction ends, so concurrent checkouts
+    // and stock changes wait for each other instead of selling the same stock.
+    // Rows are locked in id order to avoid deadlocks.
+    async lockProducts(tx: Prisma.TransactionClient, productIds: string[]) {
+        const ids = [...new Set(productIds)].sort();
+        if (ids.length === 0) {
+            return;
+        }
+        await tx.$queryRaw`SELECT id FROM "Product" WHERE id IN (${Prisma.join(ids)}) ORDER BY id FOR UPDATE`;
+    }
+
+    // Take stock out of inventory only if enough is left
+    async decrementStock(
+        tx: Prisma.TransactionClient,
+        productId: string,
+        quantity: number,
+        variantId?: string | null
+    ): Promise<boolean> {
+        const result = variantId
+            ? await tx.productVariant.updateMany({
+                  where: { id: variantId, stock: { gte: quantity } },
+                  data: { stock: { decrement: quantity } },
+              })
+            : await tx.product.updateMany({
+                  where: { id: productId, stock: { gte: quantity } },
+                  data: { stock: { decrement: quantity } },
+              });
+        return result.count > 0;
+    }
+
+    // Set the stock a seller counted for a product or one of its variants.
+    // The product is locked so checkouts cannot sell stock meanwhile, and
+    // stock held by reservations cannot be removed.
+    async setStock(
+        tx: Prisma.TransactionClient,
+        productId: string,
+        stock: number,
+        variantId?: string
+    ) {
+        await this.lockProducts(tx, [productId]);
+
+        const reserved = await this.getReservedQuantity(
+            productId,
+            tx,
+            variantId
+        );
+        if (stock < reserved) {
+            throw new Error(
+                `Cannot set stock to ${stock}, ${reserved} units are reserved`
+            );
+        }
+
+        if (variantId) {
+            await tx.productVariant.update({
+                where: { id: variantId },
+                data: { stock },
+            });
+            return;
+        }
+        await tx.product.update({
+            where: { id: productId },
+            data: { stock },
+        });
+    }
+
+    // Hold stock for order items until their payment completes
+    async reserveOrderItems(
+        tx: Prisma.TransactionClient,
+        items: Pick<OrderItem, "id" | "productId" | "variantId" | "quantity">[]
+    ) {
+        const expiresAt = new Date(
+            Date.now() + INVENTORY_CONFIG.reservationTtlMinutes * 60 * 1000
+        );
+
+        await tx.stockReservation.createMany({
+            data: items.map((item) => ({
+                orderItemId: item.id,
+                productId: item.productId,
+                variantId: item.variantId,
+                quantity: item.quantity,
+                expiresAt,
+            })),
+        });
+        return expiresAt;
+    }
+
+    // Take the stock of an order out of inventory once it is paid.
+    // Active reservations are committed. Items whose reservation expired or
+    // was released, e.g. after a failed payment attempt, take their stock
+    // again if enough is still available. Cancelled orders are left alone.
+    // Returns the products that were not available any more.
+    async commitOrderReservations(orderId: string): Promise<string[]> {
+        return prisma.$transaction(async (tx) => {
+            // Lock the order so it cannot be cancelled while its stock is taken
+            await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${orderId} FOR UPDATE`;
+            const order = await tx.order.findUnique({
+                where: { id: orderId },
+                select: { status: true },
+            });
+            if (!order || order.status === OrderStatus.CANCELLED) {
+                return [];
+            }
+
+            const reservations = await tx.stockReservation.findMany({
+                where: {
+                    orderItem: { orderId },
+                    status: { not: ReservationStatus.COMMITTED },
+                },
+            });
+            await this.lockProducts(
+                tx,
+                reservations.map((reservation) => reservation.productId)
+            );
+
+            const unavailable: string[] = [];
+            for (const reservation of reservations) {
+                const held =
+                    reservation.status === ReservationStatus.ACTIVE &&
+                    reservation.expiresAt > new Date();
+                if (!held && !(await this.isAvailable(tx, reservation))) {
+                    unavailable.push(reservation.productId);
+                    continue;
+                }
+
+                // Skip reservations a concurrent request got to first
+                const claimed = await tx.stockReservation.updateMany({
+                    where: {
+                        id: reservation.id,
+                        status: reservation.status,
+                    },
+                    data: {
+                        status: ReservationStatus.COMMITTED,
+                        committedAt: new Date(),
+                    },
+                });
+                if (claimed.count === 0) {
+                    continue;
+                }
+
+                const decremented = await this.decrementStock(
+                    tx,
+                    reservation.productId,
+                    reservation.quantity,
+                    reservation.variantId
+                );
+                if (!decremented) {
+                    throw new Error(
+                        `Insufficient stock for product ${reservation.productId}`
+                    );
+                }
+            }
+
+            return unavailable;
+        });
+    }
+
+    // Give back the stock held for an order, e.g. when its payment fails
+    async releaseOrderReservations(
+        orderId: string,
+        tx: Prisma.TransactionClient = prisma
+    ) {
+        const result = await tx.stockReservation.updateMany({
+            where: {
+                orderItem: { orderId },
+                status: ReservationStatus.ACTIVE,
+            },
+            data: {
+                status: ReservationStatus.RELEASED,
+                releasedAt: new Date(),
+            },
+        });
+        return result.count;
+    }
+
+    // Put a cancelled or rejected order item back into stock.
+    // Items with a reservation only have stock to return once it was committed.
+    async restockOrderItem(
+        tx: Prisma.TransactionClient,
+        item: Pick<OrderItem, "id" | "productId" | "variantId" | "quantity">
+    ) {
+        const reservation = await tx.stockReservation.findUnique({
+            where: { orderItemId: item.id },
+        });
+
+        if (reservation && reservation.status !== ReservationStatus.COMMITTED) {
+            if (reservation.status === ReservationStatus.ACTIVE) {
+                await tx.stockReservation.update({
+                    where: { id: reservation.id },
+                    data: {
+                        status: ReservationStatus.RELEASED,
+                        releasedAt: new Date(),
+                    },
+                });
+            }
+            return;
+        }
+
+        if (item.variantId) {
+            await tx.productVariant.update({
+                where: { id: item.variantId },
+                data: { stock: { increment: item.quantity } },
+            });
+            return;
+        }
+        await tx.product.update({
+            where: { id: item.productId },
+            data: {
+                stock: {
+                    increment: item.quantity,
+                },
+            },
+        });
+    }
+
+    // Mark reservations past their expiry as expired.
+    // Returns the orders that lost their stock, so unpaid ones can be cancelled.
+    async expireReservations() {
+        const reservations = await prisma.stockReservation.findMany({
+            where: {
+                status: ReservationStatus.ACTIVE,
+                expiresAt: { lte: new Date() },
+            },
+            select: { id: true, orderItem: { select: { orderId: true } } },
+        });
+        if (reservations.length === 0) {
+            return { expired: 0, orderIds: [] };
+        }
+
+        // Skip reservations committed or released meanwhile
+        const result = await prisma.stockReservation.updateMany({
+            where: {
+                id: { in: reservations.map((reservation) => reservation.id) },
+                status: ReservationStatus.ACTIVE,
+            },
+            data: {
+                status: ReservationStatus.EXPIRED,
+                releasedAt: new Date(),
+            },
+        });
+        return {
+            expired: result.count,
+            orderIds: [
+                ...new Set(
+                    reservations.map(
+                        (reservation) => reservation.orderItem.orderId
+                    )
+                ),
+            ],
+        };
+    }
+
+    // Get products with active reservations and how much of their stock is held
+    async getReservedProducts(params: PaginationParams = {}) {
+        const where = activeReservationWhere();
+
+        return paginate(
+            async (skip, take) => {
+                const groups = await prisma.stockReservation.groupBy({
+                    by: ["productId"],
+                    where,
+                    _sum: { quantity: true },
+                    _count: { _all: true },
+                    orderBy: { _sum: { quantity: "desc" } },
+                    skip,
+                    take,
+                });
+                const products = await prisma.product.findMany({
+                    where: { id: { in: groups.map((g) => g.productId) } },
+                    select: { id: true, name: true, stock: true },
+                });
+
+                return groups.map((group) => {
+                    const product = products.find(
+                        (p) => p.id === group.productId
+                    );
+                    const reserved = group._sum.quantity ?? 0;
+                    return {
+                        product,
+                        reservedQuantity: reserved,
+                        reservations: group._count._all,
+                        availableStock: (product?.stock ?? 0) - reserved,
+                    };
+                });
+            },
+            async () => {
+                const groups = await prisma.stockReservation.groupBy({
+                    by: ["productId"],
+                    where,
+                });
+                return groups.length;
+            },
+            params
+        );
+    }
+
+    // Get the active reservations of a product
+    async getProductReservations(
+        productId: string,
+        params: PaginationParams = {}
+    ) {
+        const where = { productId, ...activeReservationWhere() };
+
+        return paginate(
+            (skip, take) =>
+                prisma.stockReservation.findMany({
+                    where,
+                    skip,
+                    take,
+                    include: {
+                        orderItem: {
+                            select: {
+                                orderId: true,
+                                order: {
+                                    select: {
+                                        userId: true,
+                                        status: true,
+                                        paymentStatus: true,
+                                        paymentMethod: true,
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    orderBy: { expiresAt: "asc" },
+                }),
+            () => prisma.stockReservation.count({ where }),
+            params
+        );
+    }
+
+    // Whether the stock of a lapsed reservation can still be taken,
+    // leaving the stock held by other reservations alone
+    private async isAvailable(
+        tx: Prisma.TransactionClient,
+        reservation: Pick<
+            StockReservation,
+            "productId" | "variantId" | "quantity"
+        >
+    ) {
+        const product = await tx.product.findUniqueOrThrow({
+            where: { id: reservation.productId },
+            select: { id: true, stock: true },
+        });
+        const variant = reservation.variantId
+            ? await tx.productVariant.findUniqueOrThrow({
+                  where: { id: reservation.variantId },
+                  select: { id: true, stock: true },
+              })
+            : null;
+        const available = await this.getAvailableStock(product, tx, variant);
+        return available >= reservation.quantity;
+    }
+}
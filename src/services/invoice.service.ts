@@ -0,0 +1,347 @@
+import { prisma } from "@/config/database";
+import { INVOICE_CONFIG } from "@/config/invoice";
+import { formatAmount, formatMoney } from "@/utils/money";
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, PdfDocument } from "@/utils/pdf";
+import {
+    Invoice,
+    OrderStatus,
+    PaymentMethod,
+    PaymentStatus,
+    Prisma,
+    UserRole,
+} from "@prisma/client";
+
+// Order relations printed on the invoice
+const invoiceOrderInclude = {
+    invoice: true,
+    user: true,
+    address: true,
+    items: {
+        include: {
+            product: {
+                include: {
+                    seller: {
+                        include: {
+                            user: {
+                                select: { email: true, phoneNumber: true },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    },
+} satisfies Prisma.OrderInclude;
+
+type InvoiceOrder = Prisma.OrderGetPayload<{
+    include: typeof invoiceOrderInclude;
+}>;
+
+export interface GeneratedInvoice {
+    number: string;
+    fileName: string;
+    pdf: Buffer;
+}
+
+const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+    PENDING: "Pending",
+    COMPLETED: "Paid",
+    FAILED: "Failed",
+    REFUNDED: "Refunded",
+};
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    CARD: "Card",
+    CASH_ON_DELIVERY: "Cash on delivery",
+    MOBILE_MONEY: "Mobile money",
+};
+
+const MARGIN = 50;
+const RIGHT = PDF_PAGE_WIDTH - MARGIN;
+const BOTTOM = PDF_PAGE_HEIGHT - 60;
+
+// Right edges of the amount columns of the item table
+const COLUMNS = {
+    quantity: 230,
+    price: 295,
+    taxRate: 330,
+    netAmount: 400,
+    taxAmount: 470,
+    grossAmount: RIGHT,
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export class InvoiceService {
+    // Invoice number as printed, e.g. INV-000042
+    formatInvoiceNumber(number: number) {
+        return `${INVOICE_CONFIG.prefix}-${String(number).padStart(6, "0")}`;
+    }
+
+    // Get the invoice of an order, e.g. to attach it to an email
+    async generateInvoice(orderId: string): Promise<GeneratedInvoice> {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            include: invoiceOrderInclude,
+        });
+
+        if (!order) {
+            throw new Error("Order not found");
+        }
+
+        return this.buildInvoice(order);
+    }
+
+    // Get the invoice of an order for a user. The invoice is the buyer's,
+    // so only they and admins get it. Sellers have packing slips of their
+    // part of the order.
+    async getInvoiceForUser(
+        orderId: string,
+        viewer: { userId: string; role: UserRole }
+    ): Promise<GeneratedInvoice | null> {
+        const order = await prisma.order.findFirst({
+            where:
+                viewer.role === UserRole.ADMIN
+                    ? { id: orderId }
+                    : { id: orderId, userId: viewer.userId },
+            include: invoiceOrderInclude,
+        });
+
+        if (!order) {
+            return null;
+        }
+
+        return this.buildInvoice(order);
+    }
+
+    private async buildInvoice(order: InvoiceOrder): Promise<GeneratedInvoice> {
+        const invoice = order.invoice ?? (await this.issueInvoice(order));
+        const number = this.formatInvoiceNumber(invoice.number);
+
+        return {
+            number,
+            fileName: `${number}.pdf`,
+            pdf: this.renderInvoice(order, invoice, number),
+        };
+    }
+
+    // Give the order the next invoice number
+    private async issueInvoice(order: InvoiceOrder): Promise<Invoice> {
+        if (order.status === OrderStatus.CANCELLED) {
+            throw new Error("Cannot issue an invoice for a cancelled order");
+        }
+
+        return prisma.$transaction(async (tx) => {
+            // Issue one invoice at a time so numbers have no gaps or duplicates
+            await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('invoice_number'))`;
+
+            const existingInvoice = await tx.invoice.findUnique({
+                where: { orderId: order.id },
+            });
+            if (existingInvoice) {
+                return existingInvoice;
+            }
+
+            const last = await tx.invoice.aggregate({
+                _max: { number: true },
+            });
+            return tx.invoice.create({
+                data: {
+                    orderId: order.id,
+                    number: (last._max.number ?? 0) + 1,
+                },
+            });
+        });
+    }
+
+    private renderInvoice(
+        order: InvoiceOrder,
+        invoice: Invoice,
+        number: string
+    ): Buffer {
+        const paid = order.paymentStatus === PaymentStatus.COMPLETED;
+        const amount = (value: number) => formatAmount(value, order.currency);
+        const doc = new PdfDocument(
+            `${paid ? "Receipt" : "Invoice"} ${number}`
+        );
+        let y = 60;
+
+        // Move down a line, starting a new page when the line and the
+        // lines kept with it do not fit
+        const nextLine = (height: number, keepWith = 0) => {
+            if (y + height + keepWith > BOTTOM) {
+                doc.addPage();
+                y = 60;
+                return true;
+            }
+            y += height;
+            return false;
+        };
+
+        // Issuer and invoice details
+        doc.text(MARGIN, y, INVOICE_CONFIG.companyName, {
+            size: 18,
+            font: "bold",
+        });
+        doc.text(RIGHT, y, paid ? "RECEIPT" : "INVOICE", {
+            size: 18,
+            font: "bold",
+            align: "right",
+        });
+        const issuer = [
+            INVOICE_CONFIG.companyAddress,
+            INVOICE_CONFIG.companyTin
+                ? `TIN: ${INVOICE_CONFIG.companyTin}`
+                : "",
+        ];
+        const payment =
+            PAYMENT_METHOD_LABELS[order.paymentMethod] +
+            (order.mobileMoneyNetwork ? ` (${order.mobileMoneyNetwork})` : "");
+        const details = [
+            `Invoice no. ${number}`,
+            `Date: ${formatDate(invoice.issuedAt)}`,
+            `Order: ${order.id}`,
+            `Order date: ${formatDate(order.createdAt)}`,
+            `Payment: ${PAYMENT_STATUS_LABELS[order.paymentStatus]}, ${payment}`,
+        ];
+        details.forEach((line, index) => {
+            y += 14;
+            if (issuer[index]) {
+                doc.text(MARGIN, y, issuer[index], { size: 9 });
+            }
+            doc.text(RIGHT, y, line, { size: 9, align: "right" });
+        });
+
+        // Buyer
+        y += 30;
+        doc.text(MARGIN, y, "Bill to", { font: "bold" });
+        const { user, address } = order;
+        const buyer = [
+            `${user.firstName} ${user.lastName}`,
+            user.email,
+            user.phoneNumber,
+            address.street,
+            [address.city, address.state].filter(Boolean).join(", "),
+            [address.postalCode, address.country].filter(Boolean).join(" "),
+        ].filter((line): line is string => Boolean(line));
+        for (const line of buyer) {
+            y += 13;
+            doc.text(MARGIN, y, line, { size: 9 });
+        }
+
+        // Items, grouped by the seller that sold them
+        const tableHeader = () => {
+            doc.text(MARGIN, y, "Item", { size: 9, font: "bold" });
+            const headings: [keyof typeof COLUMNS, string][] = [
+                ["quantity", "Qty"],
+                ["price", "Unit price"],
+                ["taxRate", "VAT %"],
+                ["netAmount", "Net"],
+                ["taxAmount", "VAT"],
+                ["grossAmount", "Total"],
+            ];
+            for (const [column, heading] of headings) {
+                doc.text(COLUMNS[column], y, heading, {
+                    size: 9,
+                    font: "bold",
+                    align: "right",
+                });
+            }
+            doc.line(MARGIN, y + 5, RIGHT, y + 5);
+            y += 5;
+        };
+
+        const sellers = new Map<string, InvoiceOrder["items"]>();
+        for (const item of order.items) {
+            const items = sellers.get(item.product.sellerId) ?? [];
+            items.push(item);
+            sellers.set(item.product.sellerId, items);
+        }
+
+        for (const items of sellers.values()) {
+            const seller = items[0].product.seller;
+            // Keep the seller with the table header and first item
+            nextLine(34, 47);
+            doc.text(MARGIN, y, `Sold by ${seller.businessName}`, {
+                font: "bold",
+            });
+            const contact = [seller.user.email, seller.user.phoneNumber]
+                .filter(Boolean)
+                .join(" | ");
+            nextLine(13);
+            doc.text(MARGIN, y, contact, { size: 9 });
+            nextLine(20);
+            tableHeader();
+
+            for (const item of items) {
+                if (nextLine(14)) {
+                    tableHeader();
+                    y += 14;
+                }
+                doc.text(MARGIN, y, doc.fitText(item.product.name, 140, 9), {
+                    size: 9,
+                });
+                const values: [keyof typeof COLUMNS, string][] = [
+                    ["quantity", String(item.quantity)],
+                    ["price", amount(item.price)],
+                    ["taxRate", `${item.taxRate}%`],
+                    ["netAmount", amount(item.netAmount)],
+                    ["taxAmount", amount(item.taxAmount)],
+                    ["grossAmount", amount(item.grossAmount)],
+                ];
+                for (const [column, value] of values) {
+                    doc.text(COLUMNS[column], y, value, {
+                        size: 9,
+                        align: "right",
+                    });
+                }
+            }
+        }
+
+        // Totals. Line amounts already have their share of the discount
+        // taken off, so the discount is shown for information only.
+        const subtotal = order.items.reduce(
+            (sum, item) => sum + item.price * item.quantity,
+            0
+        );
+        const totals: [string, string][] = [["Subtotal", amount(subtotal)]];
+        if (order.discountAmount > 0) {
+            totals.push([
+                `Discount${order.couponCode ? ` (${order.couponCode})` : ""}`,
+                `-${amount(order.discountAmount)}`,
+            ]);
+        }
+        totals.push(
+            [
+                `Delivery${order.shippingMethod ? ` (${order.shippingMethod})` : ""}`,
+                amount(order.shippingCost),
+            ],
+            ["Net amount", amount(order.netAmount)],
+            ["VAT", amount(order.taxAmount)]
+        );
+
+        nextLine(24, totals.length * 14 + 18);
+        doc.line(COLUMNS.taxRate - 40, y - 12, RIGHT, y - 12);
+        for (const [label, value] of totals) {
+            doc.text(COLUMNS.taxRate - 40, y, label, { size: 9 });
+            doc.text(RIGHT, y, value, { size: 9, align: "right" });
+            nextLine(14);
+        }
+        nextLine(4);
+        doc.text(COLUMNS.taxRate - 40, y, "Total", { font: "bold" });
+        doc.text(RIGHT, y, formatMoney(order.totalAmount, order.currency), {
+            font: "bold",
+            align: "right",
+        });
+
+        nextLine(40);
+        doc.text(
+            MARGIN,
+            y,
+            `All amounts are in ${order.currency}. Thank you for shopping with ${INVOICE_CONFIG.companyName}.`,
+            { size: 8 }
+        );
+
+        return doc.toBuffer();
+    }
+}
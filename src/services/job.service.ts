@@ -0,0 +1,293 @@
+import { prisma } from "@/config/database";
+import { JOB_CONFIG } from "@/config/jobs";
+import { paginate, PaginationParams } from "@/utils/pagination";
+import { Job, JobRunStatus, JobStatus, Prisma } from "@prisma/client";
+
+export type RecurringJobName = keyof typeof JOB_CONFIG.recurring;
+export type JobName = RecurringJobName | "notifications.expire";
+
+// Runs a job with its payload. What it returns is kept on the job run.
+export type JobHandler = (
+    payload: Prisma.JsonValue
+) => Promise<Prisma.InputJsonValue | void>;
+
+export type JobHandlers = Record<JobName, JobHandler>;
+
+export class JobService {
+    // Schedule a job to run once, now or at a later time
+    async schedule(
+        name: JobName,
+        payload?: Prisma.InputJsonValue,
+        options: { runAt?: Date; maxAttempts?: number } = {}
+    ): Promise<Job> {
+        return prisma.job.create({
+            data: {
+                name,
+                payload,
+                runAt: options.runAt ?? new Date(),
+                maxAttempts: options.maxAttempts ?? JOB_CONFIG.maxAttempts,
+            },
+        });
+    }
+
+    // Make sure each recurring job is scheduled. Jobs are keyed by name so
+    // instances starting at the same time do not schedule them twice.
+    async scheduleRecurringJobs(
+        intervals: Record<RecurringJobName, number> = JOB_CONFIG.recurring
+    ) {
+        for (const [name, intervalMs] of Object.entries(intervals)) {
+            await prisma.job.upsert({
+                where: { key: name },
+                create: {
+                    name,
+                    key: name,
+                    intervalMs,
+                    maxAttempts: JOB_CONFIG.maxAttempts,
+                },
+                update: { intervalMs },
+            });
+        }
+    }
+
+    // Run the jobs that are due and return how many ran. Jobs are locked
+    // while they run, so several instances can poll at the same time.
+    async runDueJobs(
+        handlers: JobHandlers,
+        workerId: string,
+        limit = JOB_CONFIG.batchSize
+    ): Promise<number> {
+        await this.releaseStaleJobs();
+        const jobs = await this.claimDueJobs(workerId, limit);
+
+        for (const job of jobs) {
+            await this.runJob(job, handlers, workerId);
+        }
+        return jobs.length;
+    }
+
+    // Get jobs with pagination
+    async getJobs(
+        filters: { status?: JobStatus; name?: string } = {},
+        params: PaginationParams = {}
+    ) {
+        const where: Prisma.JobWhereInput = {
+            status: filters.status,
+            name: filters.name,
+        };
+
+        return paginate(
+            (skip, take) =>
+                prisma.job.findMany({
+                    where,
+                    skip,
+                    take,
+                    orderBy: { runAt: "desc" },
+                }),
+            () => prisma.job.count({ where }),
+            params
+        );
+    }
+
+    // Get a job with its latest runs
+    async getJobById(jobId: string) {
+        return prisma.job.findUnique({
+            where: { id: jobId },
+            include: {
+                runs: {
+                    orderBy: { startedAt: "desc" },
+                    take: 20,
+                },
+            },
+        });
+    }
+
+    // Get job runs with pagination, latest first
+    async getJobRuns(
+        filters: { jobId?: string; status?: JobRunStatus } = {},
+        params: PaginationParams = {}
+    ) {
+        const where: Prisma.JobRunWhereInput = {
+            jobId: filters.jobId,
+            status: filters.status,
+        };
+
+        return paginate(
+            (skip, take) =>
+                prisma.jobRun.findMany({
+                    where,
+                    skip,
+                    take,
+                    include: {
+                        job: { select: { name: true } },
+                    },
+                    orderBy: { startedAt: "desc" },
+                }),
+            () => prisma.jobRun.count({ where }),
+            params
+        );
+    }
+
+    // Run a failed job again
+    async retryJob(jobId: string): Promise<Job> {
+        const job = await prisma.job.findUnique({ where: { id: jobId } });
+        if (!job) {
+            throw new Error("Job not found");
+        }
+        if (job.status !== JobStatus.FAILED) {
+            throw new Error("Only failed jobs can be retried");
+        }
+
+        return prisma.job.update({
+            where: { id: jobId },
+            data: {
+                status: JobStatus.PENDING,
+                runAt: new Date(),
+                attempts: 0,
+                lastError: null,
+            },
+        });
+    }
+
+    // Take due jobs for this worker. Rows locked by another worker are
+    // skipped instead of waited for.
+    private async claimDueJobs(workerId: string, limit: number) {
+        return prisma.$queryRaw<Job[]>`
+            UPDATE "Job"
+            SET status = 'RUNNING', "lockedAt" = NOW(), "lockedBy" = ${workerId},
+                attempts = attempts + 1, "updatedAt" = NOW()
+            WHERE id IN (
+                SELECT id FROM "Job"
+                WHERE status = 'PENDING' AND "runAt" <= NOW()
+                ORDER BY "runAt"
+                LIMIT ${limit}
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING *`;
+    }
+
+    // Put back jobs whose worker stopped before finishing them
+    private async releaseStaleJobs() {
+        const lockedBefore = new Date(Date.now() - JOB_CONFIG.lockTimeoutMs);
+
+        await prisma.jobRun.updateMany({
+            where: {
+                status: JobRunStatus.RUNNING,
+                startedAt: { lt: lockedBefore },
+            },
+            data: {
+                status: JobRunStatus.FAILED,
+                error: "Job timed out",
+                finishedAt: new Date(),
+            },
+        });
+        await prisma.job.updateMany({
+            where: {
+                status: JobStatus.RUNNING,
+                lockedAt: { lt: lockedBefore },
+            },
+            data: {
+                status: JobStatus.PENDING,
+                lastError: "Job timed out",
+                lockedAt: null,
+                lockedBy: null,
+            },
+        });
+    }
+
+    // Run a claimed job and record the run. Failed jobs are retried with
+    // backoff until they run out of attempts. Recurring jobs are scheduled
+    // again either way. A job that timed out and was put back is left to
+    // the worker that claimed it next.
+    private async runJob(job: Job, handlers: JobHandlers, workerId: string) {
+        const run = await prisma.jobRun.create({
+            data: { jobId: job.id, attempt: job.attempts, workerId },
+        });
+
+        try {
+            const handler = handlers[job.name as JobName];
+            if (!handler) {
+                throw new Error(`No handler for job: ${job.name}`);
+            }
+            const result = await handler(job.payload);
+
+            await prisma.jobRun.update({
+                where: { id: run.id },
+                data: {
+                    status: JobRunStatus.COMPLETED,
+                    result: result ?? undefined,
+                    finishedAt: new Date(),
+                },
+            });
+            await prisma.job.updateMany({
+                where: { id: job.id, lockedBy: workerId },
+                data: job.intervalMs
+                    ? this.nextRun(job.intervalMs, null)
+                    : {
+                          status: JobStatus.COMPLETED,
+                          lastError: null,
+                          lockedAt: null,
+                          lockedBy: null,
+                      },
+            });
+        } catch (error) {
+            const message = (error as Error).message;
+            console.error(`Error running job ${job.name}:`, error);
+
+            await prisma.jobRun.update({
+                where: { id: run.id },
+                data: {
+                    status: JobRunStatus.FAILED,
+                    error: message,
+                    finishedAt: new Date(),
+                },
+            });
+
+            let data: Prisma.JobUpdateManyMutationInput;
+            if (job.attempts < job.maxAttempts) {
+                data = {
+                    status: JobStatus.PENDING,
+                    runAt: new Date(Date.now() + this.getBackoff(job.attempts)),
+                    lastError: message,
+                    lockedAt: null,
+                    lockedBy: null,
+                };
+            } else if (job.intervalMs) {
+                data = this.nextRun(job.intervalMs, message);
+            } else {
+                data = {
+                    status: JobStatus.FAILED,
+                    lastError: message,
+                    lockedAt: null,
+                    lockedBy: null,
+                };
+            }
+            await prisma.job.updateMany({
+                where: { id: job.id, lockedBy: workerId },
+                data,
+            });
+        }
+    }
+
+    // Delay before retrying a job that failed on the given attempt
+    private getBackoff(attempt: number) {
+        return Math.min(
+            JOB_CONFIG.backoffBaseMs * 2 ** (attempt - 1),
+            JOB_CONFIG.backoffMaxMs
+        );
+    }
+
+    // Schedule the next run of a recurring job
+    private nextRun(
+        intervalMs: number,
+        lastError: string | null
+    ): Prisma.JobUpdateManyMutationInput {
+        return {
+            status: JobStatus.PENDING,
+            runAt: new Date(Date.now() + intervalMs),
+            attempts: 0,
+            lastError,
+            lockedAt: null,
+            lockedBy: null,
+        };
+    }
+}
@@ -1,11 +1,64 @@
 import { prisma } from "@/config/database";
 import { getIO } from "@/config/socket";
 import { paginate, PaginationParams } from "@/utils/pagination";
-import { Notification, NotificationType, User, Prisma } from "@prisma/client";
+import { JobService } from "./job.service";
+import {
+    Notification,
+    NotificationType,
+    OrderStatus,
+    PaymentStatus,
+    User,
+    Prisma,
+} from "@prisma/client";
 
 type NotificationMetadata = Record<string, unknown>;
 
+// What changed on an order, to tell its buyer and sellers about
+export interface OrderUpdate {
+    status?: OrderStatus;
+    paymentStatus?: PaymentStatus;
+    // Set when the status is that of one seller's part of the order
+    sellerName?: string;
+}
+
+// Notification sent to the buyer for each order status, and how to
+// describe it
+const ORDER_STATUS_NOTIFICATIONS: Partial<
+    Record<OrderStatus, { type: NotificationType; verb: string }>
+> = {
+    PENDING: { type: NotificationType.ORDER_PLACED, verb: "placed" },
+    PROCESSING: { type: NotificationType.ORDER_CONFIRMED, verb: "confirmed" },
+    SHIPPED: { type: NotificationType.ORDER_SHIPPED, verb: "shipped" },
+    DELIVERED: { type: NotificationType.ORDER_DELIVERED, verb: "delivered" },
+    CANCELLED: { type: NotificationType.ORDER_CANCELLED, verb: "cancelled" },
+};
+
+// Notification sent to the buyer for each payment status. Refunds are
+// notified when the refund request is approved.
+const PAYMENT_STATUS_NOTIFICATIONS: Partial<
+    Record<
+        PaymentStatus,
+        { type: NotificationType; message: (orderId: string) => string }
+    >
+> = {
+    COMPLETED: {
+        type: NotificationType.PAYMENT_SUCCESS,
+        message: (orderId) =>
+            `Your payment for order #${orderId} has been received`,
+    },
+    FAILED: {
+        type: NotificationType.PAYMENT_FAILED,
+        message: (orderId) => `Your payment for order #${orderId} has failed`,
+    },
+};
+
 export class NotificationService {
+    private jobService: JobService;
+
+    constructor() {
+        this.jobService = new JobService();
+    }
+
     private getSocketIO() {
         try {
             return getIO();
@@ -42,6 +95,81 @@ export class NotificationService {
         return notification;
     }
 
+    // Send the latest state of an order to the rooms of its buyer and
+    // sellers, and notify the buyer of the change unless they turned order
+    // updates off. The change is already saved, so failures are logged
+    // instead of thrown.
+    async sendOrderUpdate(orderId: string, update: OrderUpdate = {}) {
+        try {
+            const order = await prisma.order.findUnique({
+                where: { id: orderId },
+                include: {
+                    user: { select: { notificationPreferences: true } },
+                    fulfillmentGroups: {
+                        select: { seller: { select: { userId: true } } },
+                    },
+                },
+            });
+            if (!order) {
+                return;
+            }
+            const { user, fulfillmentGroups, ...orderData } = order;
+
+            const io = this.getSocketIO();
+            if (io) {
+                const rooms = new Set([
+                    order.userId,
+                    ...fulfillmentGroups.map((group) => group.seller.userId),
+                ]);
+                io.to([...rooms]).emit("orderUpdate", orderData);
+            }
+
+            const preferences = user.notificationPreferences as {
+                orderUpdates?: boolean;
+            } | null;
+            if (preferences?.orderUpdates === false) {
+                return;
+            }
+
+            const payment = update.paymentStatus
+                ? PAYMENT_STATUS_NOTIFICATIONS[update.paymentStatus]
+                : undefined;
+            if (payment) {
+                await this.createNotification({
+                    userId: order.userId,
+                    type: payment.type,
+                    message: payment.message(order.id),
+                    metadata: {
+                        orderId: order.id,
+                        paymentStatus: update.paymentStatus,
+                    },
+                });
+            }
+
+            const status = update.status
+                ? ORDER_STATUS_NOTIFICATIONS[update.status]
+                : undefined;
+            if (status) {
+                await this.createNotification({
+                    userId: order.userId,
+                    type: status.type,
+                    message: update.sellerName
+                        ? `Items from ${update.sellerName} in your order #${order.id} have been ${status.verb}`
+                        : `Your order #${order.id} has been ${status.verb}`,
+                    metadata: {
+                        orderId: order.id,
+                        status: update.status,
+                        ...(update.sellerName && {
+                            sellerName: update.sellerName,
+                        }),
+                    },
+                });
+            }
+        } catch (error) {
+            console.error("Error sending order update:", error);
+        }
+    }
+
     //Get user notifications
     async getUserNotifications(userId: string, params: PaginationParams = {}) {
         return paginate(
@@ -321,13 +449,23 @@ export class NotificationService {
         });
 
         //Schedule notification deletion
-        setTimeout(async () => {
-            await this.deleteNotification(notification.id, data.userId);
-        }, data.expiresAt.getTime() - Date.now());
+        await this.jobService.schedule(
+            "notifications.expire",
+            { notificationId: notification.id },
+            { runAt: data.expiresAt }
+        );
 
         return notification;
     }
 
+    // Delete an expiring notification, if the user has not deleted it yet
+    async expireNotification(notificationId: string): Promise<number> {
+        const result = await prisma.notification.deleteMany({
+            where: { id: notificationId },
+        });
+        return result.count;
+    }
+
     //Get notification statistics
     async getNotificationStats(userId: string): Promise<{
         totalNotifications: number;
@@ -421,6 +559,7 @@ export class NotificationService {
             case NotificationType.ORDER_DELIVERED:
                 return preferences.orderUpdates;
             case NotificationType.PROMOTIONAL:
+            case NotificationType.CART_REMINDER:
                 return preferences.promotions;
             case NotificationType.PRICE_ALERT:
                 return preferences.priceAlerts;
@@ -1,91 +1,470 @@
 import { paginate, PaginationParams } from "./../utils/pagination";
 import { prisma } from "@/config/database";
-import { stripe } from "@/config/stripe";
+import { getPaymentProvider } from "@/providers/payment";
+import { InventoryService } from "./inventory.service";
+import { CartService } from "./cart.service";
+import { CouponLine, CouponService } from "./coupon.service";
+import { ShippingService } from "./shipping.service";
+import { TaxService } from "./tax.service";
+import { NotificationService } from "./notification.service";
+import { TAX_CONFIG } from "@/config/tax";
+import { MONEY_CONFIG } from "@/config/money";
+import { calculateTax } from "@/utils/tax";
+import { getOrderAccessFilter } from "@/utils/orderAccess";
+import {
+    assertOrderStatusTransition,
+    getOrderStatusesLeadingTo,
+    rollupOrderStatus,
+} from "@/utils/orderStatus";
 import {
     Order,
+    OrderItemStatus,
     OrderStatus,
     PaymentMethod,
     PaymentStatus,
+    Prisma,
+    ProductVariant,
+    UserRole,
 } from "@prisma/client";
 
+// Order relations returned with order details
+const orderDetailsInclude = {
+    items: {
+        include: {
+            product: true,
+            variant: true,
+        },
+    },
+    fulfillmentGroups: {
+        include: {
+            seller: {
+                select: {
+                    id: true,
+                    businessName: true,
+                },
+            },
+        },
+    },
+} satisfies Prisma.OrderInclude;
+
+// A line of a new order. Products with variants are ordered by variant.
+export interface OrderLineInput {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+}
+
+// An entry of an order's tracking timeline
+export interface OrderTimelineEvent {
+    type: "ORDER_STATUS" | "FULFILLMENT_STATUS" | "PAYMENT_STATUS";
+    fromStatus: OrderStatus | PaymentStatus | null;
+    toStatus: OrderStatus | PaymentStatus;
+    reason: string | null;
+    changedById: string | null;
+    // Seller whose part of the order changed, for fulfilment events
+    seller?: { id: string; businessName: string };
+    carrier?: string | null;
+    trackingNumber?: string | null;
+    createdAt: Date;
+}
+
+// A line of a past order that could not be added to the cart as it was
+// ordered. A line is repriced when the product's price changed since.
+export interface ReorderChange {
+    productId: string;
+    variantId: string | null;
+    name: string;
+    reasons: Array<"INACTIVE" | "OUT_OF_STOCK" | "REPRICED">;
+    orderedQuantity: number;
+    addedQuantity: number;
+    orderedPrice: number;
+    currentPrice: number;
+}
+
 export class OrderService {
+    private inventoryService: InventoryService;
+    private cartService: CartService;
+    private couponService: CouponService;
+    private shippingService: ShippingService;
+    private taxService: TaxService;
+    private notificationService: NotificationService;
+
+    constructor() {
+        this.inventoryService = new InventoryService();
+        this.cartService = new CartService();
+        this.couponService = new CouponService();
+        this.shippingService = new ShippingService();
+        this.taxService = new TaxService();
+        this.notificationService = new NotificationService();
+    }
+
     // Create a new order
     async createOrder(data: {
         userId: string;
         addressId: string;
-        items: Array<{ productId: string; quantity: number }>;
+        items: OrderLineInput[];
         paymentMethod: PaymentMethod;
+        couponCode?: string;
+        shippingRateId?: string;
     }): Promise<Order> {
-        return prisma.$transaction(async (tx) => {
-            // 1. Calculate total amount and validate products
-            let totalAmount = 0;
-            const orderItems = [];
-
-            for (const item of data.items) {
-                const product = await tx.product.findUnique({
-                    where: { id: item.productId },
-                });
+        const placedOrder = await prisma.$transaction((tx) =>
+            this.placeOrder(tx, data)
+        );
+        const order = await this.startCardPayment(placedOrder);
+        await this.notificationService.sendOrderUpdate(order.id, {
+            status: OrderStatus.PENDING,
+        });
+        return order;
+    }
 
-                if (!product) {
-                    throw new Error(`Product ${item.productId} not found`);
-                }
+    // Place an order for the items in the user's cart.
+    // Only the ordered lines are removed from the cart.
+    async checkout(
+        userId: string,
+        data: {
+            addressId: string;
+            paymentMethod: PaymentMethod;
+            productIds?: string[];
+            couponCode?: string;
+            shippingRateId?: string;
+        }
+    ) {
+        const result = await prisma.$transaction(async (tx) => {
+            const cart = await this.cartService.getCart(userId, tx);
+            const lines = data.productIds
+                ? cart.filter((line) =>
+                      data.productIds!.includes(line.productId)
+                  )
+                : cart;
+            if (lines.length === 0) {
+                throw new Error("Cart is empty");
+            }
 
-                if (product.stock < item.quantity) {
-                    throw new Error(
-                        `Insufficient stock for product ${product.name}`
-                    );
-                }
+            const validation = await this.cartService.validateCart(userId, tx);
+            const problems = lines.flatMap((line) => {
+                const result = validation.find(
+                    (r) =>
+                        r.productId === line.productId &&
+                        r.variantId === line.variantId
+                );
+                return result && !result.valid
+                    ? [`${line.product.name} (${result.reason})`]
+                    : [];
+            });
+            if (problems.length > 0) {
+                throw new Error(
+                    `Some cart items cannot be ordered: ${problems.join(", ")}`
+                );
+            }
 
-                // Calculate item total
-                const itemsTotal = product.price * item.quantity;
-                totalAmount += itemsTotal;
+            const order = await this.placeOrder(tx, {
+                userId,
+                addressId: data.addressId,
+                paymentMethod: data.paymentMethod,
+                couponCode: data.couponCode,
+                shippingRateId: data.shippingRateId,
+                items: lines.map((line) => ({
+                    productId: line.productId,
+                    variantId: line.variantId ?? undefined,
+                    quantity: line.quantity,
+                })),
+            });
 
-                // Create order Item
-                orderItems.push({
-                    productId: item.productId,
-                    quantity: item.quantity,
-                    price: product.price,
-                });
+            await this.cartService.removePurchasedItems(
+                tx,
+                userId,
+                order.items
+            );
+            await this.cartService.recordReminderConversion(
+                tx,
+                userId,
+                order.id
+            );
 
-                // Update product stock
-                await tx.product.update({
-                    where: { id: item.productId },
-                    data: { stock: product.stock - item.quantity },
-                });
+            return {
+                order,
+                // Prices the order was placed at
+                priceSnapshot: {
+                    items: order.items.map((item) => ({
+                        productId: item.productId,
+                        variantId: item.variantId,
+                        name: item.product.name,
+                        quantity: item.quantity,
+                        unitPrice: item.price,
+                        lineTotal: item.price * item.quantity,
+                        taxRate: item.taxRate,
+                        netAmount: item.netAmount,
+                        taxAmount: item.taxAmount,
+                        grossAmount: item.grossAmount,
+                    })),
+                    subtotal: order.items.reduce(
+                        (sum, item) => sum + item.price * item.quantity,
+                        0
+                    ),
+                    discountAmount: order.discountAmount,
+                    couponCode: order.couponCode,
+                    shippingMethod: order.shippingMethod,
+                    shippingCost: order.shippingCost,
+                    netAmount: order.netAmount,
+                    taxAmount: order.taxAmount,
+                    totalAmount: order.totalAmount,
+                    currency: order.currency,
+                },
+            };
+        });
+
+        const order = await this.startCardPayment(result.order);
+        await this.notificationService.sendOrderUpdate(order.id, {
+            status: OrderStatus.PENDING,
+        });
+        return { ...result, order };
+    }
+
+    // Create an order inside a transaction.
+    // Cash on delivery orders take their stock right away; orders paid
+    // online reserve it until the payment completes.
+    async placeOrder(
+        tx: Prisma.TransactionClient,
+        data: {
+            userId: string;
+            addressId: string;
+            items: OrderLineInput[];
+            paymentMethod: PaymentMethod;
+            couponCode?: string;
+            shippingRateId?: string;
+        }
+    ) {
+        const reserveStock =
+            data.paymentMethod !== PaymentMethod.CASH_ON_DELIVERY;
+
+        // Lock the products so concurrent checkouts cannot sell the same stock
+        await this.inventoryService.lockProducts(
+            tx,
+            data.items.map((item) => item.productId)
+        );
+
+        // 1. Calculate subtotal and validate products
+        let subtotal = 0;
+        let weight = 0;
+        const orderItems = [];
+        const pricedLines: CouponLine[] = [];
+        const requested = new Map<string, number>();
+
+        for (const item of data.items) {
+            const product = await tx.product.findUnique({
+                where: { id: item.productId },
+            });
+
+            if (!product) {
+                throw new Error(`Product ${item.productId} not found`);
             }
 
-            // 2. Create payment inte if using stripe
-            let paymentIntentId = null;
-            if (data.paymentMethod === "CARD") {
-                const paymentIntent = await stripe.paymentIntents.create({
-                    amount: Math.round(totalAmount * 100),
-                    currency: "rwf",
+            // Products with variants are bought by variant
+            let variant: ProductVariant | null = null;
+            if (item.variantId) {
+                variant = await tx.productVariant.findFirst({
+                    where: {
+                        id: item.variantId,
+                        productId: product.id,
+                        isActive: true,
+                    },
                 });
-                paymentIntentId = paymentIntent.id;
+                if (!variant) {
+                    throw new Error(`Variant ${item.variantId} not found`);
+                }
+            } else if (product.hasVariants) {
+                throw new Error(`Choose a variant of ${product.name}`);
             }
+            const price = variant?.price ?? product.price;
 
-            // 3. Create the order
-            const order = await tx.order.create({
-                data: {
-                    userId: data.userId,
-                    addressId: data.addressId,
-                    totalAmount,
-                    paymentMethod: data.paymentMethod,
-                    paymentStatus: PaymentStatus.PENDING,
-                    status: OrderStatus.PENDING,
-                    items: {
-                        create: orderItems,
+            // Count earlier lines of the order for the same product or variant
+            const stockKey = variant?.id ?? product.id;
+            const quantity = (requested.get(stockKey) ?? 0) + item.quantity;
+            requested.set(stockKey, quantity);
+
+            const availableStock =
+                await this.inventoryService.getAvailableStock(
+                    product,
+                    tx,
+                    variant
+                );
+            if (availableStock < quantity) {
+                throw new Error(
+                    `Insufficient stock for product ${product.name}`
+                );
+            }
+
+            // Calculate item total
+            const itemsTotal = price * item.quantity;
+            subtotal += itemsTotal;
+            weight += (variant?.weight ?? product.weight ?? 0) * item.quantity;
+
+            // Create order Item
+            orderItems.push({
+                productId: item.productId,
+                variantId: variant?.id,
+                quantity: item.quantity,
+                price,
+            });
+            pricedLines.push({
+                productId: item.productId,
+                quantity: item.quantity,
+                price,
+                categoryId: product.categoryId,
+                sellerId: product.sellerId,
+            });
+
+            // Update product stock
+            if (
+                !reserveStock &&
+                !(await this.inventoryService.decrementStock(
+                    tx,
+                    item.productId,
+                    item.quantity,
+                    variant?.id
+                ))
+            ) {
+                throw new Error(
+                    `Insufficient stock for product ${product.name}`
+                );
+            }
+        }
+
+        // 2. Take off the coupon discount
+        const appliedCoupon = data.couponCode
+            ? await this.couponService.applyCoupon(
+                  data.couponCode,
+                  data.userId,
+                  pricedLines,
+                  tx
+              )
+            : null;
+        const discountAmount = appliedCoupon?.discountAmount ?? 0;
+
+        // 3. Work out the VAT of each line after its share of the discount
+        const vatRates = await this.taxService.getVatRates(
+            pricedLines.map((line) => line.categoryId),
+            tx
+        );
+        const taxedItems = orderItems.map((item, index) => ({
+            ...item,
+            ...calculateTax(
+                item.price * item.quantity -
+                    (appliedCoupon?.lineDiscounts[index] ?? 0),
+                vatRates.get(pricedLines[index].categoryId) ??
+                    TAX_CONFIG.defaultVatRate
+            ),
+        }));
+
+        // 4. Add the delivery to the order's address
+        const address = await this.shippingService.getDeliveryAddress(
+            data.userId,
+            data.addressId,
+            tx
+        );
+        const shipping = await this.shippingService.chooseShippingOption(
+            address,
+            {
+                orderValue: subtotal - discountAmount,
+                weight,
+                freeShipping: appliedCoupon?.freeShipping,
+            },
+            data.shippingRateId,
+            tx
+        );
+        const shippingTax = this.taxService.getShippingTax(shipping.price);
+
+        const sumOf = (field: "netAmount" | "taxAmount" | "grossAmount") =>
+            taxedItems.reduce((sum, item) => sum + item[field], 0) +
+            shippingTax[field];
+        const netAmount = sumOf("netAmount");
+        const taxAmount = sumOf("taxAmount");
+        const totalAmount = sumOf("grossAmount");
+
+        // 5. Create the order
+        const order = await tx.order.create({
+            data: {
+                userId: data.userId,
+                addressId: data.addressId,
+                currency: MONEY_CONFIG.currency,
+                totalAmount,
+                netAmount,
+                taxAmount,
+                discountAmount,
+                couponId: appliedCoupon?.coupon.id,
+                couponCode: appliedCoupon?.coupon.code,
+                shippingRateId: shipping.rateId,
+                shippingMethod: shipping.name,
+                shippingZone: shipping.zone,
+                shippingCost: shipping.price,
+                paymentMethod: data.paymentMethod,
+                paymentStatus: PaymentStatus.PENDING,
+                status: OrderStatus.PENDING,
+                items: {
+                    create: taxedItems,
+                },
+                statusHistory: {
+                    create: {
+                        toStatus: OrderStatus.PENDING,
+                        changedById: data.userId,
                     },
                 },
-                include: {
+            },
+            include: {
+                items: {
+                    include: {
+                        product: true,
+                    },
+                },
+            },
+        });
+
+        // 6. Record the coupon use
+        if (appliedCoupon) {
+            await this.couponService.redeemCoupon(tx, {
+                couponId: appliedCoupon.coupon.id,
+                userId: data.userId,
+                orderId: order.id,
+                discountAmount,
+            });
+        }
+
+        // 7. Hold the stock until the order is paid
+        if (reserveStock) {
+            await this.inventoryService.reserveOrderItems(tx, order.items);
+        }
+
+        // 8. Split the order into per-seller fulfilment groups
+        const groups = new Map<
+            string,
+            { subtotal: number; itemIds: string[] }
+        >();
+        for (const item of order.items) {
+            const group = groups.get(item.product.sellerId) || {
+                subtotal: 0,
+                itemIds: [],
+            };
+            group.subtotal += item.price * item.quantity;
+            group.itemIds.push(item.id);
+            groups.set(item.product.sellerId, group);
+        }
+
+        for (const [sellerId, group] of groups) {
+            await tx.fulfillmentGroup.create({
+                data: {
+                    orderId: order.id,
+                    sellerId,
+                    subtotal: group.subtotal,
                     items: {
-                        include: {
-                            product: true,
-                        },
+                        connect: group.itemIds.map((id) => ({ id })),
                     },
                 },
             });
-            return order;
+        }
+
+        return tx.order.findUniqueOrThrow({
+            where: { id: order.id },
+            include: orderDetailsInclude,
         });
     }
 
@@ -97,14 +476,82 @@ export class OrderService {
                 userId,
             },
             include: {
-                items: {
+                ...orderDetailsInclude,
+                address: true,
+                statusHistory: {
+                    orderBy: { createdAt: "asc" },
+                },
+            },
+        });
+    }
+
+    // Get the tracking timeline of an order: changes of its status, of
+    // its sellers' parts and of its payment, oldest first.
+    // Returns null when the user cannot see the order.
+    async getOrderTimeline(
+        orderId: string,
+        viewer: { userId: string; role: UserRole }
+    ) {
+        const order = await prisma.order.findFirst({
+            where: getOrderAccessFilter(orderId, viewer),
+            include: {
+                statusHistory: {
                     include: {
-                        product: true,
+                        fulfillmentGroup: {
+                            select: {
+                                carrier: true,
+                                trackingNumber: true,
+                                seller: {
+                                    select: { id: true, businessName: true },
+                                },
+                            },
+                        },
                     },
+                    orderBy: { createdAt: "asc" },
+                },
+                paymentStatusHistory: {
+                    orderBy: { createdAt: "asc" },
                 },
-                address: true,
             },
         });
+
+        if (!order) {
+            return null;
+        }
+
+        const events: OrderTimelineEvent[] = [
+            ...order.statusHistory.map((entry) => ({
+                type: entry.fulfillmentGroup
+                    ? ("FULFILLMENT_STATUS" as const)
+                    : ("ORDER_STATUS" as const),
+                fromStatus: entry.fromStatus,
+                toStatus: entry.toStatus,
+                reason: entry.reason,
+                changedById: entry.changedById,
+                ...(entry.fulfillmentGroup && {
+                    seller: entry.fulfillmentGroup.seller,
+                    carrier: entry.fulfillmentGroup.carrier,
+                    trackingNumber: entry.fulfillmentGroup.trackingNumber,
+                }),
+                createdAt: entry.createdAt,
+            })),
+            ...order.paymentStatusHistory.map((entry) => ({
+                type: "PAYMENT_STATUS" as const,
+                fromStatus: entry.fromStatus,
+                toStatus: entry.toStatus,
+                reason: entry.reason,
+                changedById: entry.changedById,
+                createdAt: entry.createdAt,
+            })),
+        ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+        return {
+            orderId: order.id,
+            status: order.status,
+            paymentStatus: order.paymentStatus,
+            createdAt: order.createdAt,
+            events,
+        };
     }
 
     // Get user orders with pagination
@@ -130,33 +577,370 @@ export class OrderService {
         );
     }
 
+    // Add the items of a past order to the user's cart again. Inactive
+    // products are left out and quantities are capped at the stock left.
+    // Returns null when the order is not the user's.
+    async reorder(orderId: string, userId: string) {
+        const order = await prisma.order.findFirst({
+            where: { id: orderId, userId },
+            include: { items: { include: { product: true, variant: true } } },
+        });
+        if (!order) {
+            return null;
+        }
+
+        const cart = await this.cartService.getCart(userId);
+        const added = [];
+        const changes: ReorderChange[] = [];
+
+        for (const item of order.items) {
+            const { product, variant } = item;
+            const reasons: ReorderChange["reasons"] = [];
+            const currentPrice = variant?.price ?? product.price;
+            let quantity = 0;
+
+            if (!product.isActive || (variant && !variant.isActive)) {
+                reasons.push("INACTIVE");
+            } else {
+                // Stock already in the cart is not available to the reorder
+                const inCart =
+                    cart.find(
+                        (entry) =>
+                            entry.productId === product.id &&
+                            entry.variantId === item.variantId
+                    )?.quantity ?? 0;
+                const available =
+                    (await this.inventoryService.getAvailableStock(
+                        product,
+                        undefined,
+                        variant
+                    )) - inCart;
+                quantity = Math.max(0, Math.min(item.quantity, available));
+                if (quantity < item.quantity) {
+                    reasons.push("OUT_OF_STOCK");
+                }
+            }
+            if (currentPrice !== item.price) {
+                reasons.push("REPRICED");
+            }
+
+            if (quantity > 0) {
+                added.push(
+                    await this.cartService.addCart(
+                        userId,
+                        product.id,
+                        quantity,
+                        variant?.id
+                    )
+                );
+            }
+            if (reasons.length > 0) {
+                changes.push({
+                    productId: product.id,
+                    variantId: item.variantId,
+                    name: product.name,
+                    reasons,
+                    orderedQuantity: item.quantity,
+                    addedQuantity: quantity,
+                    orderedPrice: item.price,
+                    currentPrice,
+                });
+            }
+        }
+
+        return { orderId: order.id, added, changes };
+    }
+
+    // Get the products a user buys most often, for buying them again.
+    // Products of cancelled orders and inactive products are left out.
+    async getBuyAgainProducts(userId: string, limit = 10) {
+        const purchases = await prisma.orderItem.groupBy({
+            by: ["productId"],
+            where: {
+                order: { userId, status: { not: OrderStatus.CANCELLED } },
+                product: { isActive: true },
+            },
+            _count: { productId: true },
+            _sum: { quantity: true },
+            orderBy: [
+                { _count: { productId: "desc" } },
+                { _sum: { quantity: "desc" } },
+            ],
+            take: limit,
+        });
+
+        const products = await prisma.product.findMany({
+            where: {
+                id: { in: purchases.map((purchase) => purchase.productId) },
+            },
+        });
+        const productsById = new Map(
+            products.map((product) => [product.id, product])
+        );
+
+        return purchases.flatMap((purchase) => {
+            const product = productsById.get(purchase.productId);
+            return product
+                ? [
+                      {
+                          ...product,
+                          timesOrdered: purchase._count.productId,
+                          quantityOrdered: purchase._sum.quantity ?? 0,
+                      },
+                  ]
+                : [];
+        });
+    }
+
     //Update order status
     async updateOrderStatus(
         orderId: string,
-        status: OrderStatus
+        status: OrderStatus,
+        data: { changedById?: string; reason?: string } = {}
     ): Promise<Order> {
-        return prisma.order.update({
-            where: {
-                id: orderId,
+        const updatedOrder = await prisma.$transaction(async (tx) => {
+            const order = await tx.order.findUnique({
+                where: { id: orderId },
+                include: {
+                    items: {
+                        include: { fulfillmentGroup: true },
+                    },
+                },
+            });
+
+            if (!order) {
+                throw new Error("Order not found");
+            }
+
+            assertOrderStatusTransition(order.status, status);
+
+            const updatedOrder = await this.claimOrderStatus(tx, order, status);
+
+            // Restore product stock when an order is cancelled, skipping
+            // rejected items and groups that were already restocked
+            if (status === OrderStatus.CANCELLED) {
+                for (const item of order.items) {
+                    if (
+                        item.status === OrderItemStatus.REJECTED ||
+                        item.fulfillmentGroup?.status === OrderStatus.CANCELLED
+                    ) {
+                        continue;
+                    }
+                    await this.inventoryService.restockOrderItem(tx, item);
+                }
+                await this.couponService.releaseRedemption(tx, orderId);
+            }
+
+            // Move fulfilment groups along with the order
+            await tx.fulfillmentGroup.updateMany({
+                where: {
+                    orderId,
+                    status: { in: getOrderStatusesLeadingTo(status) },
+                },
+                data: this.getFulfillmentStatusData(status),
+            });
+
+            await tx.orderStatusHistory.create({
+                data: {
+                    orderId,
+                    fromStatus: order.status,
+                    toStatus: status,
+                    changedById: data.changedById,
+                    reason: data.reason,
+                },
+            });
+
+            return updatedOrder;
+        });
+
+        await this.notificationService.sendOrderUpdate(orderId, { status });
+        return updatedOrder;
+    }
+
+    // Update the status of a single seller's fulfilment group
+    async updateFulfillmentGroupStatus(
+        groupId: string,
+        status: OrderStatus,
+        data: {
+            changedById?: string;
+            reason?: string;
+            carrier?: string;
+            trackingNumber?: string;
+            sellerUserId?: string;
+        } = {}
+    ) {
+        const { sellerUserId, ...groupData } = data;
+        const sellerId = sellerUserId
+            ? await this.getSellerIdByUserId(sellerUserId)
+            : undefined;
+
+        const group = await prisma.$transaction((tx) =>
+            this.applyFulfillmentGroupStatus(tx, groupId, status, {
+                ...groupData,
+                sellerId,
+            })
+        );
+
+        await this.notificationService.sendOrderUpdate(group.orderId, {
+            status,
+            sellerName: group.seller.businessName,
+        });
+        return group;
+    }
+
+    // Move a fulfilment group to a new status inside a transaction
+    // and roll the change up into the overall order status
+    async applyFulfillmentGroupStatus(
+        tx: Prisma.TransactionClient,
+        groupId: string,
+        status: OrderStatus,
+        data: {
+            changedById?: string;
+            reason?: string;
+            carrier?: string;
+            trackingNumber?: string;
+            sellerId?: string;
+        } = {}
+    ) {
+        const group = await tx.fulfillmentGroup.findUnique({
+            where: { id: groupId },
+            include: { items: true },
+        });
+
+        if (!group || (data.sellerId && group.sellerId !== data.sellerId)) {
+            throw new Error("Fulfillment group not found");
+        }
+
+        assertOrderStatusTransition(group.status, status);
+
+        // Restore product stock for the cancelled group,
+        // skipping items that were rejected and already restocked
+        if (status === OrderStatus.CANCELLED) {
+            for (const item of group.items) {
+                if (item.status === OrderItemStatus.REJECTED) {
+                    continue;
+                }
+                await this.inventoryService.restockOrderItem(tx, item);
+            }
+        }
+
+        const updatedGroup = await tx.fulfillmentGroup.update({
+            where: { id: groupId },
+            data: {
+                ...this.getFulfillmentStatusData(status),
+                carrier: data.carrier,
+                trackingNumber: data.trackingNumber,
             },
-            data: { status },
+            include: { seller: { select: { businessName: true } } },
         });
+
+        await tx.orderStatusHistory.create({
+            data: {
+                orderId: group.orderId,
+                fulfillmentGroupId: groupId,
+                fromStatus: group.status,
+                toStatus: status,
+                changedById: data.changedById,
+                reason: data.reason,
+            },
+        });
+
+        await this.syncOrderStatus(tx, group.orderId, data.changedById);
+
+        return updatedGroup;
+    }
+
+    // Get fulfilment groups of the seller owned by a user
+    async getSellerFulfillmentGroups(
+        userId: string,
+        params: PaginationParams & { status?: OrderStatus } = {}
+    ) {
+        const { status, ...paginationParams } = params;
+        const sellerId = await this.getSellerIdByUserId(userId);
+        const where: Prisma.FulfillmentGroupWhereInput = { sellerId };
+        if (status) where.status = status;
+
+        return paginate(
+            (skip, take) =>
+                prisma.fulfillmentGroup.findMany({
+                    where,
+                    skip,
+                    take,
+                    include: {
+                        items: {
+                            include: {
+                                product: true,
+                            },
+                        },
+                        order: {
+                            select: {
+                                id: true,
+                                createdAt: true,
+                                paymentStatus: true,
+                                paymentMethod: true,
+                                address: true,
+                                user: {
+                                    select: {
+                                        id: true,
+                                        firstName: true,
+                                        lastName: true,
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    orderBy: { createdAt: "desc" },
+                }),
+            () => prisma.fulfillmentGroup.count({ where }),
+            paginationParams
+        );
     }
 
     // Update payment status
     async updatePaymentStatus(
         orderId: string,
-        status: PaymentStatus
+        status: PaymentStatus,
+        data: { changedById?: string; reason?: string } = {}
     ): Promise<Order> {
-        return prisma.order.update({
-            where: { id: orderId },
-            data: { paymentStatus: status },
-        });
+        const { order, updatedOrder } = await prisma.$transaction(
+            async (tx) => {
+                const order = await tx.order.findUnique({
+                    where: { id: orderId },
+                });
+                if (!order) {
+                    throw new Error("Order not found");
+                }
+
+                const updatedOrder = await tx.order.update({
+                    where: { id: orderId },
+                    data: { paymentStatus: status },
+                });
+                if (order.paymentStatus !== status) {
+                    await tx.paymentStatusHistory.create({
+                        data: {
+                            orderId,
+                            fromStatus: order.paymentStatus,
+                            toStatus: status,
+                            changedById: data.changedById,
+                            reason: data.reason,
+                        },
+                    });
+                }
+                return { order, updatedOrder };
+            }
+        );
+
+        if (order.paymentStatus !== status) {
+            await this.notificationService.sendOrderUpdate(orderId, {
+                paymentStatus: status,
+            });
+        }
+        return updatedOrder;
     }
 
     //Cancel order
     async cancelOrder(orderId: string, userId: string): Promise<Order> {
-        return prisma.$transaction(async (tx) => {
+        const cancelledOrder = await prisma.$transaction(async (tx) => {
             //Get order
             const order = await tx.order.findFirst({
                 where: {
@@ -173,24 +957,73 @@ export class OrderService {
                 throw new Error(`Order not found or cannot be cancelled`);
             }
 
-            //Restore product stock
+            //Update order status first so a concurrent cancel cannot restock twice
+            const cancelledOrder = await this.claimOrderStatus(
+                tx,
+                order,
+                OrderStatus.CANCELLED
+            );
+
+            //Restore product stock, skipping rejected items
             for (const item of order.items) {
-                await tx.product.update({
-                    where: { id: item.productId },
-                    data: {
-                        stock: {
-                            increment: item.quantity,
-                        },
-                    },
-                });
+                if (item.status === OrderItemStatus.REJECTED) {
+                    continue;
+                }
+                await this.inventoryService.restockOrderItem(tx, item);
             }
+            await this.couponService.releaseRedemption(tx, orderId);
 
-            //Update order status
-            return tx.order.update({
-                where: { id: orderId },
+            await tx.fulfillmentGroup.updateMany({
+                where: { orderId },
                 data: { status: OrderStatus.CANCELLED },
             });
+
+            await tx.orderStatusHistory.create({
+                data: {
+                    orderId,
+                    fromStatus: order.status,
+                    toStatus: OrderStatus.CANCELLED,
+                    changedById: userId,
+                    reason: "Cancelled by customer",
+                },
+            });
+
+            return cancelledOrder;
+        });
+
+        await this.notificationService.sendOrderUpdate(orderId, {
+            status: OrderStatus.CANCELLED,
         });
+        return cancelledOrder;
+    }
+
+    // Cancel orders whose stock reservations expired before they were paid.
+    // Orders that were paid or moved on meanwhile are left alone.
+    async cancelUnpaidOrders(orderIds: string[]) {
+        let cancelled = 0;
+        for (const orderId of orderIds) {
+            const order = await prisma.order.findUnique({
+                where: { id: orderId },
+            });
+            if (
+                !order ||
+                order.status !== OrderStatus.PENDING ||
+                order.paymentMethod === PaymentMethod.CASH_ON_DELIVERY ||
+                order.paymentStatus === PaymentStatus.COMPLETED
+            ) {
+                continue;
+            }
+
+            try {
+                await this.updateOrderStatus(orderId, OrderStatus.CANCELLED, {
+                    reason: "Not paid before the stock reservation expired",
+                });
+                cancelled++;
+            } catch (error) {
+                console.error("Error cancelling unpaid order:", error);
+            }
+        }
+        return cancelled;
     }
 
     //Get orders by status
@@ -271,7 +1104,7 @@ export class OrderService {
             pendingOrders,
             completedOrders,
             cancelledOrders,
-            totalRevenue,
+            revenue,
         ] = await Promise.all([
             prisma.order.count(),
             prisma.order.count({ where: { status: OrderStatus.PENDING } }),
@@ -279,7 +1112,7 @@ export class OrderService {
             prisma.order.count({ where: { status: OrderStatus.CANCELLED } }),
             prisma.order.aggregate({
                 where: { status: OrderStatus.DELIVERED },
-                _sum: { totalAmount: true },
+                _sum: { totalAmount: true, netAmount: true, taxAmount: true },
             }),
         ]);
 
@@ -288,7 +1121,11 @@ export class OrderService {
             pendingOrders,
             completedOrders,
             cancelledOrders,
-            totalRevenue: totalRevenue._sum.totalAmount || 0,
+            totalRevenue: revenue._sum.totalAmount || 0,
+            // Revenue without VAT, and the VAT collected on top of it
+            netRevenue: revenue._sum.netAmount || 0,
+            taxCollected: revenue._sum.taxAmount || 0,
+            currency: MONEY_CONFIG.currency,
         };
     }
 
@@ -342,39 +1179,42 @@ export class OrderService {
                 break;
         }
 
-        const [hourlySales, categorySales, averageOrderValue] =
-            await Promise.all([
-                prisma.order.groupBy({
-                    by: ["createdAt"],
-                    where: {
-                        createdAt: { gte: startDate },
-                        status: OrderStatus.DELIVERED,
-                    },
-                    _sum: { totalAmount: true },
-                }),
-                prisma.orderItem.groupBy({
-                    by: ["productId"],
-                    where: {
-                        order: {
-                            createdAt: { gte: startDate },
-                            status: OrderStatus.DELIVERED,
-                        },
-                    },
-                    _sum: { quantity: true },
-                }),
-                prisma.order.aggregate({
-                    where: {
+        const [hourlySales, categorySales, totals] = await Promise.all([
+            prisma.order.groupBy({
+                by: ["createdAt"],
+                where: {
+                    createdAt: { gte: startDate },
+                    status: OrderStatus.DELIVERED,
+                },
+                _sum: { totalAmount: true, taxAmount: true },
+            }),
+            prisma.orderItem.groupBy({
+                by: ["productId"],
+                where: {
+                    order: {
                         createdAt: { gte: startDate },
                         status: OrderStatus.DELIVERED,
                     },
-                    _avg: { totalAmount: true },
-                }),
-            ]);
+                },
+                _sum: { quantity: true },
+            }),
+            prisma.order.aggregate({
+                where: {
+                    createdAt: { gte: startDate },
+                    status: OrderStatus.DELIVERED,
+                },
+                _avg: { totalAmount: true },
+                _sum: { netAmount: true, taxAmount: true },
+            }),
+        ]);
 
         return {
             hourlySales,
             categorySales,
-            averageOrderValue: averageOrderValue._avg.totalAmount || 0,
+            averageOrderValue: Math.round(totals._avg.totalAmount || 0),
+            currency: MONEY_CONFIG.currency,
+            netSales: totals._sum.netAmount || 0,
+            taxCollected: totals._sum.taxAmount || 0,
         };
     }
 
@@ -428,4 +1268,105 @@ export class OrderService {
                 (repeatCustomers.length / customerRetention.length) * 100,
         };
     }
+
+    // Get the seller profile id for a user
+    private async getSellerIdByUserId(userId: string): Promise<string> {
+        const seller = await prisma.seller.findUnique({
+            where: { userId },
+            select: { id: true },
+        });
+        if (!seller) {
+            throw new Error("Seller profile not found");
+        }
+        return seller.id;
+    }
+
+    // Start the card payment of a new order once it is committed, so the
+    // provider is not called while its products are locked. An order whose
+    // payment could not be started gets one when the customer pays.
+    private async startCardPayment<T extends Order>(order: T): Promise<T> {
+        if (order.paymentMethod !== PaymentMethod.CARD) {
+            return order;
+        }
+
+        try {
+            const paymentIntent = await getPaymentProvider(
+                PaymentMethod.CARD
+            ).createPaymentIntent({
+                orderId: order.id,
+                amount: order.totalAmount,
+            });
+            await prisma.order.update({
+                where: { id: order.id },
+                data: { paymentIntentId: paymentIntent.id },
+            });
+            return { ...order, paymentIntentId: paymentIntent.id };
+        } catch (error) {
+            console.error("Error starting card payment:", error);
+            return order;
+        }
+    }
+
+    // Move an order on from the status it was read with.
+    // Fails if a concurrent request changed the order in the meantime.
+    private async claimOrderStatus(
+        tx: Prisma.TransactionClient,
+        order: Order,
+        status: OrderStatus
+    ): Promise<Order> {
+        const result = await tx.order.updateMany({
+            where: { id: order.id, status: order.status },
+            data: { status },
+        });
+        if (result.count === 0) {
+            throw new Error(
+                "Order was updated by another request, please try again"
+            );
+        }
+        return tx.order.findUniqueOrThrow({ where: { id: order.id } });
+    }
+
+    // Fulfilment group fields to set for a status
+    private getFulfillmentStatusData(status: OrderStatus) {
+        return {
+            status,
+            ...(status === OrderStatus.SHIPPED && { shippedAt: new Date() }),
+            ...(status === OrderStatus.DELIVERED && {
+                deliveredAt: new Date(),
+            }),
+        };
+    }
+
+    // Recompute the overall order status from its fulfilment groups
+    private async syncOrderStatus(
+        tx: Prisma.TransactionClient,
+        orderId: string,
+        changedById?: string
+    ) {
+        const order = await tx.order.findUniqueOrThrow({
+            where: { id: orderId },
+            include: { fulfillmentGroups: { select: { status: true } } },
+        });
+
+        const status = rollupOrderStatus(
+            order.fulfillmentGroups.map((group) => group.status)
+        );
+        if (status === order.status) {
+            return;
+        }
+
+        await tx.order.update({
+            where: { id: orderId },
+            data: { status },
+        });
+        await tx.orderStatusHistory.create({
+            data: {
+                orderId,
+                fromStatus: order.status,
+                toStatus: status,
+                changedById,
+                reason: "Fulfillment groups updated",
+            },
+        });
+    }
 }
@@ -1,22 +1,63 @@
 import { prisma } from "@/config/database";
-import { PaymentMethod, PaymentStatus } from "@prisma/client";
-import { stripe, STRIPE_CONFIG } from "@/config/stripe";
+import {
+    MobileMoneyNetwork,
+    Order,
+    OrderStatus,
+    PaymentMethod,
+    PaymentStatus,
+    Prisma,
+    WebhookEvent,
+    WebhookEventStatus,
+} from "@prisma/client";
+import { STRIPE_CONFIG } from "@/config/stripe";
+import { MOBILE_MONEY_CONFIG } from "@/config/mobileMoney";
+import {
+    getMobileMoneyProvider,
+    SandboxMobileMoneyProvider,
+} from "@/providers/mobileMoney";
+import {
+    getPaymentProvider,
+    PaymentWebhookEvent,
+    PaymentWebhookRequest,
+} from "@/providers/payment";
+import { paginate, PaginationParams } from "@/utils/pagination";
+import { canTransitionOrderStatus } from "@/utils/orderStatus";
+import { InventoryService } from "./inventory.service";
+import { NotificationService } from "./notification.service";
+import { OrderService } from "./order.service";
 
 export class PaymentService {
+    private inventoryService: InventoryService;
+    private notificationService: NotificationService;
+    private orderService: OrderService;
+
+    constructor() {
+        this.inventoryService = new InventoryService();
+        this.notificationService = new NotificationService();
+        this.orderService = new OrderService();
+    }
+
+    // Pay for an order of a user. The order total is charged, whatever the
+    // client thinks it is.
     async createPayment(
         orderId: string,
+        userId: string,
         method: PaymentMethod,
-        amount: number
+        details: { phoneNumber?: string; network?: MobileMoneyNetwork } = {}
     ) {
         const order = await prisma.order.findUnique({
             where: { id: orderId },
         });
 
-        if (!order) {
+        if (!order || order.userId !== userId) {
             throw new Error("Order not found");
         }
+        if (order.status === OrderStatus.CANCELLED) {
+            throw new Error("Order has been cancelled");
+        }
 
         // Validate amount against configured limits
+        const amount = order.totalAmount;
         if (amount < STRIPE_CONFIG.minimumAmount) {
             throw new Error(
                 `Amount must be at least ${STRIPE_CONFIG.minimumAmount} ${STRIPE_CONFIG.currency}`
@@ -28,121 +69,510 @@ export class PaymentService {
             );
         }
 
-        switch (method) {
-            case PaymentMethod.CARD:
-                return this.handleCardPayment(amount);
-            case PaymentMethod.CASH_ON_DELIVERY:
-                return this.handleCashOnDelivery(orderId);
-            default:
-                throw new Error("Invalid payment method");
+        if (method === PaymentMethod.CASH_ON_DELIVERY) {
+            return this.handleCashOnDelivery(order);
         }
+        return this.handleProviderPayment(order, method, details);
     }
 
-    private async handleCardPayment(amount: number) {
-        // Create Stripe payment intent
-        const paymentIntent = await stripe.paymentIntents.create({
-            amount: Math.round(amount * 100),
-            currency: STRIPE_CONFIG.currency,
+    private async handleCashOnDelivery(order: Order) {
+        // Update order status for COD
+        await this.moveToProcessing(order, {
+            paymentStatus: PaymentStatus.PENDING,
+            reason: "Cash on delivery selected",
         });
 
         return {
-            type: "card",
-            paymentIntentId: paymentIntent.id,
-            clientSecret: paymentIntent.client_secret,
+            type: "cash_on_delivery",
+            status: "pending",
         };
     }
 
-    private async handleCashOnDelivery(orderId: string) {
-        // Update order status for COD
+    // Start a payment with the provider for the payment method
+    private async handleProviderPayment(
+        order: Order,
+        method: PaymentMethod,
+        details: { phoneNumber?: string; network?: MobileMoneyNetwork }
+    ) {
+        if (
+            method === PaymentMethod.MOBILE_MONEY &&
+            (!details.phoneNumber || !details.network)
+        ) {
+            throw new Error(
+                "Phone number and mobile money network are required"
+            );
+        }
+        if (order.paymentStatus === PaymentStatus.COMPLETED) {
+            throw new Error("Order has already been paid");
+        }
+
+        const provider = getPaymentProvider(method, details.network);
+
+        // Resume the card payment started with the order rather than
+        // starting a second one
+        if (
+            method === PaymentMethod.CARD &&
+            order.paymentMethod === PaymentMethod.CARD &&
+            order.paymentIntentId &&
+            order.paymentStatus === PaymentStatus.PENDING
+        ) {
+            const existing = await provider.getPaymentIntent(
+                order.paymentIntentId
+            );
+            if (existing.status === PaymentStatus.PENDING) {
+                return {
+                    type: "card",
+                    paymentIntentId: existing.id,
+                    clientSecret: existing.clientSecret,
+                };
+            }
+        }
+
+        const intent = await provider.createPaymentIntent({
+            orderId: order.id,
+            amount: order.totalAmount,
+            phoneNumber: details.phoneNumber,
+        });
+
         await prisma.order.update({
-            where: { id: orderId },
+            where: { id: order.id },
             data: {
+                paymentMethod: method,
+                // A new payment replaces any earlier failed attempt
                 paymentStatus: PaymentStatus.PENDING,
-                status: "PROCESSING",
+                paymentIntentId: intent.id,
+                mobileMoneyNetwork: details.network ?? null,
+                paymentPhoneNumber: details.phoneNumber ?? null,
             },
         });
+        if (
+            await this.recordPaymentStatus(
+                order,
+                PaymentStatus.PENDING,
+                "Payment started"
+            )
+        ) {
+            await this.notificationService.sendOrderUpdate(order.id, {
+                paymentStatus: PaymentStatus.PENDING,
+            });
+        }
 
+        if (method === PaymentMethod.MOBILE_MONEY) {
+            return {
+                type: "mobile_money",
+                referenceId: intent.id,
+                status: intent.status.toLowerCase(),
+            };
+        }
         return {
-            type: "cash_on_delivery",
-            status: "pending",
+            type: "card",
+            paymentIntentId: intent.id,
+            clientSecret: intent.clientSecret,
         };
     }
 
+    // Check a payment with its provider in case its webhook never arrived
     async confirmPayment(paymentId: string, method: PaymentMethod) {
-        if (method === PaymentMethod.CARD) {
-            return this.confirmCardPayment(paymentId);
+        if (method === PaymentMethod.CASH_ON_DELIVERY) {
+            throw new Error("Invalid payment method");
+        }
+
+        const order = await prisma.order.findFirst({
+            where: { paymentIntentId: paymentId, paymentMethod: method },
+        });
+        if (!order) {
+            throw new Error("Payment not found");
         }
-        throw new Error("Invalid payment method");
-    }
 
-    private async confirmCardPayment(paymentIntentId: string) {
-        const paymentIntent =
-            await stripe.paymentIntents.retrieve(paymentIntentId);
+        const payment = await getPaymentProvider(
+            method,
+            order.mobileMoneyNetwork
+        ).confirmPayment(paymentId);
+        await this.applyPaymentStatus(order, payment.status);
+
         return {
-            status: paymentIntent.status,
-            amount: paymentIntent.amount / 100,
+            status: payment.status,
+            amount: payment.amount ?? order.totalAmount,
         };
     }
 
-    async handleWebhook(event: any) {
-        const { type, data } = event;
+    // Simulate the customer answering a sandbox payment request
+    async completeSandboxMobileMoneyPayment(
+        referenceId: string,
+        status: "SUCCESSFUL" | "FAILED"
+    ) {
+        if (!MOBILE_MONEY_CONFIG.sandbox) {
+            throw new Error("Mobile money sandbox is disabled");
+        }
 
-        switch (type) {
-            case "payment_intent.succeeded":
-                await this.handlePaymentSuccess(data.object);
-                break;
-            case "payment_intent.payment_failed":
-                await this.handlePaymentFailure(data.object);
-                break;
-            case "charge.refunded":
-                await this.handleRefund(data.object);
-                break;
+        const order = await prisma.order.findFirst({
+            where: { paymentIntentId: referenceId },
+        });
+        if (!order || !order.mobileMoneyNetwork) {
+            throw new Error("Payment not found");
+        }
+
+        const provider = getMobileMoneyProvider(order.mobileMoneyNetwork);
+        if (!(provider instanceof SandboxMobileMoneyProvider)) {
+            throw new Error("Mobile money sandbox is disabled");
         }
+        provider.completePayment(referenceId, status);
+
+        // Deliver the callback the real provider would send
+        return this.handleWebhook(
+            PaymentMethod.MOBILE_MONEY,
+            { body: { referenceId, status }, headers: {}, query: {} },
+            order.mobileMoneyNetwork
+        );
     }
 
-    private async handlePaymentSuccess(paymentIntent: any) {
-        const order = await prisma.order.findFirst({
-            where: { paymentIntentId: paymentIntent.id },
+    // Refund part or all of an order's payment
+    async refundPayment(orderId: string, amount: number) {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
         });
 
-        if (order) {
-            await prisma.order.update({
-                where: { id: order.id },
+        if (!order) {
+            throw new Error("Order not found");
+        }
+        if (amount <= 0 || amount > order.totalAmount) {
+            throw new Error("Invalid refund amount");
+        }
+
+        // Cash payments are refunded by hand
+        if (order.paymentMethod === PaymentMethod.CASH_ON_DELIVERY) {
+            return {
+                type: "cash_on_delivery",
+                refundId: null,
+                status: "manual",
+            };
+        }
+
+        if (
+            !order.paymentIntentId ||
+            order.paymentStatus !== PaymentStatus.COMPLETED
+        ) {
+            throw new Error("Order has no completed payment to refund");
+        }
+
+        const refund = await getPaymentProvider(
+            order.paymentMethod,
+            order.mobileMoneyNetwork
+        ).refundPayment(order.paymentIntentId, amount);
+
+        return {
+            type: order.paymentMethod.toLowerCase(),
+            refundId: refund.id,
+            status: refund.status,
+        };
+    }
+
+    // Verify a webhook delivery and process it once
+    // Events are logged by ID so replayed deliveries are no-ops
+    async handleWebhook(
+        method: PaymentMethod,
+        request: PaymentWebhookRequest,
+        network?: MobileMoneyNetwork
+    ) {
+        const provider = getPaymentProvider(method, network);
+        const event = await provider.parseWebhook(request);
+
+        let record: WebhookEvent;
+        try {
+            record = await prisma.webhookEvent.create({
                 data: {
-                    paymentStatus: PaymentStatus.COMPLETED,
-                    status: "PROCESSING",
+                    provider: provider.name,
+                    eventId: event.id,
+                    type: event.type,
+                    payload: event as unknown as Prisma.InputJsonValue,
                 },
             });
+        } catch (error) {
+            if (
+                !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+                error.code !== "P2002"
+            ) {
+                throw error;
+            }
+
+            // Only retry deliveries of events that failed before
+            const existing = await prisma.webhookEvent.findUniqueOrThrow({
+                where: { eventId: event.id },
+            });
+            if (existing.status !== WebhookEventStatus.FAILED) {
+                return { duplicate: true, status: existing.status };
+            }
+            record = existing;
+        }
+
+        const processed = await this.processWebhookEvent(record);
+        if (processed.status === WebhookEventStatus.FAILED) {
+            throw new Error(processed.error ?? "Webhook processing failed");
         }
+        return { duplicate: false, status: processed.status };
     }
 
-    private async handlePaymentFailure(paymentIntent: any) {
-        const order = await prisma.order.findFirst({
-            where: { paymentIntentId: paymentIntent.id },
+    // Get logged webhook events for inspection
+    async getWebhookEvents(
+        params: PaginationParams & {
+            status?: WebhookEventStatus;
+            type?: string;
+        } = {}
+    ) {
+        const { status, type, ...paginationParams } = params;
+        const where: Prisma.WebhookEventWhereInput = {};
+        if (status) where.status = status;
+        if (type) where.type = type;
+
+        return paginate(
+            (skip, take) =>
+                prisma.webhookEvent.findMany({
+                    where,
+                    skip,
+                    take,
+                    orderBy: { createdAt: "desc" },
+                }),
+            () => prisma.webhookEvent.count({ where }),
+            paginationParams
+        );
+    }
+
+    // Re-run a logged webhook event that was not processed
+    async reprocessWebhookEvent(id: string) {
+        const record = await prisma.webhookEvent.findUnique({
+            where: { id },
         });
+        if (!record) {
+            throw new Error("Webhook event not found");
+        }
+        if (record.status === WebhookEventStatus.PROCESSED) {
+            throw new Error("Webhook event has already been processed");
+        }
 
-        if (order) {
-            await prisma.order.update({
-                where: { id: order.id },
-                data: {
-                    paymentStatus: PaymentStatus.FAILED,
-                },
-            });
+        return this.processWebhookEvent(record);
+    }
+
+    // Apply a logged event and record the outcome
+    // Events that do not change a payment are kept as IGNORED
+    private async processWebhookEvent(record: WebhookEvent) {
+        const event = record.payload as unknown as PaymentWebhookEvent;
+        let status: WebhookEventStatus = WebhookEventStatus.PROCESSED;
+        let error: string | null = null;
+
+        try {
+            if (event.paymentId && event.paymentStatus) {
+                const order = await prisma.order.findFirst({
+                    where: { paymentIntentId: event.paymentId },
+                });
+                if (order) {
+                    await this.applyPaymentStatus(order, event.paymentStatus);
+                }
+            } else {
+                status = WebhookEventStatus.IGNORED;
+            }
+        } catch (err) {
+            status = WebhookEventStatus.FAILED;
+            error = (err as Error).message;
         }
+
+        return prisma.webhookEvent.update({
+            where: { id: record.id },
+            data: {
+                status,
+                error,
+                attempts: { increment: 1 },
+                processedAt:
+                    status === WebhookEventStatus.PROCESSED ? new Date() : null,
+            },
+        });
     }
 
-    private async handleRefund(charge: any) {
-        const order = await prisma.order.findFirst({
-            where: { paymentIntentId: charge.payment_intent },
+    // Record a payment status reported by a provider on its order
+    private async applyPaymentStatus(order: Order, status: PaymentStatus) {
+        switch (status) {
+            case PaymentStatus.COMPLETED:
+                // Ignore repeated results for a payment that is already settled
+                if (
+                    order.paymentStatus === PaymentStatus.COMPLETED ||
+                    order.paymentStatus === PaymentStatus.REFUNDED
+                ) {
+                    return;
+                }
+                await this.completePayment(order);
+                break;
+            case PaymentStatus.FAILED:
+                if (order.paymentStatus !== PaymentStatus.PENDING) {
+                    return;
+                }
+                if (
+                    await this.setPaymentStatus(
+                        order,
+                        PaymentStatus.FAILED,
+                        "Payment failed"
+                    )
+                ) {
+                    await this.inventoryService.releaseOrderReservations(
+                        order.id
+                    );
+                }
+                break;
+            case PaymentStatus.REFUNDED:
+                await this.setPaymentStatus(
+                    order,
+                    PaymentStatus.REFUNDED,
+                    "Payment refunded"
+                );
+                break;
+        }
+    }
+
+    // Take the stock of a paid order and start processing it.
+    // Orders whose stock sold out meanwhile are refunded and cancelled.
+    private async completePayment(order: Order) {
+        const unavailable = await this.inventoryService.commitOrderReservations(
+            order.id
+        );
+        if (unavailable.length > 0) {
+            await this.refundUnfulfillablePayment(
+                order,
+                "Refunded, the ordered stock sold out before the payment completed"
+            );
+            await this.orderService.updateOrderStatus(
+                order.id,
+                OrderStatus.CANCELLED,
+                { reason: "Out of stock when the payment completed" }
+            );
+            return;
+        }
+
+        await this.moveToProcessing(order, {
+            paymentStatus: PaymentStatus.COMPLETED,
+            reason: "Payment completed",
         });
+    }
+
+    // Give back a completed payment whose order cannot be fulfilled.
+    // The reason is kept on the order's payment timeline.
+    private async refundUnfulfillablePayment(order: Order, reason: string) {
+        if (order.paymentIntentId) {
+            await getPaymentProvider(
+                order.paymentMethod,
+                order.mobileMoneyNetwork
+            ).refundPayment(order.paymentIntentId, order.totalAmount);
+        }
+        await this.setPaymentStatus(order, PaymentStatus.REFUNDED, reason);
+    }
+
+    // Update the payment status of an order and tell its buyer and sellers.
+    // The status only changes from the one the order was read with, so a
+    // concurrent result for the same payment is not overwritten.
+    // Returns whether the status changed.
+    private async setPaymentStatus(
+        order: Order,
+        status: PaymentStatus,
+        reason: string
+    ) {
+        if (order.paymentStatus === status) {
+            return false;
+        }
+        const result = await prisma.order.updateMany({
+            where: { id: order.id, paymentStatus: order.paymentStatus },
+            data: { paymentStatus: status },
+        });
+        if (result.count === 0) {
+            return false;
+        }
 
-        if (order) {
-            await prisma.order.update({
+        await this.recordPaymentStatus(order, status, reason);
+        await this.notificationService.sendOrderUpdate(order.id, {
+            paymentStatus: status,
+        });
+        return true;
+    }
+
+    // Record a change of an order's payment status on its timeline.
+    // Returns whether the status changed.
+    private async recordPaymentStatus(
+        order: Order,
+        status: PaymentStatus,
+        reason: string
+    ) {
+        if (order.paymentStatus === status) {
+            return false;
+        }
+        await prisma.paymentStatusHistory.create({
+            data: {
+                orderId: order.id,
+                fromStatus: order.paymentStatus,
+                toStatus: status,
+                reason,
+            },
+        });
+        return true;
+    }
+
+    // Move a pending order to PROCESSING and record the status change.
+    // The order is claimed from the status it was read with, as a concurrent
+    // request may have cancelled it. Payments completed for a cancelled
+    // order are refunded; orders that moved on only get their payment
+    // status updated.
+    private async moveToProcessing(
+        order: Order,
+        data: { paymentStatus: PaymentStatus; reason: string }
+    ) {
+        const claimed = await this.claimProcessing(order, data.paymentStatus);
+        if (!claimed) {
+            const current = await prisma.order.findUniqueOrThrow({
                 where: { id: order.id },
-                data: {
-                    paymentStatus: PaymentStatus.REFUNDED,
-                },
             });
+            if (current.status !== OrderStatus.CANCELLED) {
+                await this.setPaymentStatus(
+                    current,
+                    data.paymentStatus,
+                    data.reason
+                );
+                return;
+            }
+            if (data.paymentStatus !== PaymentStatus.COMPLETED) {
+                throw new Error("Order has been cancelled");
+            }
+            await this.refundUnfulfillablePayment(
+                current,
+                "Refunded, the order was cancelled before the payment completed"
+            );
+            return;
+        }
+
+        await prisma.orderStatusHistory.create({
+            data: {
+                orderId: order.id,
+                fromStatus: order.status,
+                toStatus: OrderStatus.PROCESSING,
+                reason: data.reason,
+            },
+        });
+        const paymentChanged = await this.recordPaymentStatus(
+            order,
+            data.paymentStatus,
+            data.reason
+        );
+
+        await this.notificationService.sendOrderUpdate(order.id, {
+            status: OrderStatus.PROCESSING,
+            ...(paymentChanged && { paymentStatus: data.paymentStatus }),
+        });
+    }
+
+    // Move an order to PROCESSING from the status it was read with.
+    // Returns false when it cannot be processed or was changed meanwhile.
+    private async claimProcessing(order: Order, paymentStatus: PaymentStatus) {
+        if (!canTransitionOrderStatus(order.status, OrderStatus.PROCESSING)) {
+            return false;
         }
+        const result = await prisma.order.updateMany({
+            where: { id: order.id, status: order.status },
+            data: { paymentStatus, status: OrderStatus.PROCESSING },
+        });
+        return result.count > 0;
     }
 }
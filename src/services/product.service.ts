@@ -1,8 +1,40 @@
 import { prisma } from "@/config/database";
-import { OrderStatus, Product } from "@prisma/client";
-import { paginate, PaginationParams } from "@/utils/pagination";
+import { MONEY_CONFIG } from "@/config/money";
+import { OrderStatus, Prisma, Product, ProductOption } from "@prisma/client";
+import { paginate, paginatePage, PaginationParams } from "@/utils/pagination";
+import { SEARCH_CONFIG } from "@/config/search";
+import {
+    getSearchProvider,
+    ProductIndexScope,
+    ProductSearchFilters,
+} from "@/providers/search";
+import { InventoryService } from "./inventory.service";
+import { SearchHistoryService } from "./searchHistory.service";
+
+export interface ProductSearchParams extends PaginationParams {
+    search?: string;
+    // Signed in user searching, whose search is saved to their history
+    userId?: string;
+    // Includes the products of its descendants
+    categoryId?: string;
+    sellerId?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    inStock?: boolean;
+    rating?: number;
+    sortBy?: "relevance" | "price" | "rating" | "createdAt";
+    sortOrder?: "asc" | "desc";
+}
 
 export class ProductService {
+    private inventoryService: InventoryService;
+    private searchHistoryService: SearchHistoryService;
+
+    constructor() {
+        this.inventoryService = new InventoryService();
+        this.searchHistoryService = new SearchHistoryService();
+    }
+
     // Create product
     async createProduct(data: {
         name: string;
@@ -12,6 +44,7 @@ export class ProductService {
         categoryId: string;
         sellerId: string;
         images: string[];
+        weight?: number;
     }): Promise<Product> {
         // Check if seller exists and is verified
         const seller = await prisma.seller.findUnique({
@@ -23,7 +56,11 @@ export class ProductService {
         if (!seller.isVerified) {
             throw new Error("Seller is not verified");
         }
-        return prisma.product.create({ data });
+        const product = await prisma.product.create({
+            data: { ...data, currency: MONEY_CONFIG.currency },
+        });
+        await this.indexForSearch({ productIds: [product.id] });
+        return product;
     }
 
     // Get product by id
@@ -102,6 +139,7 @@ export class ProductService {
             stock?: number;
             categoryId?: string;
             images?: string[];
+            weight?: number;
             isActive?: boolean;
         }
     ): Promise<Product> {
@@ -111,13 +149,25 @@ export class ProductService {
         if (!product) {
             throw new Error("Product not found");
         }
-        return prisma.product.update({
-            where: {
-                id,
-                sellerId,
-            },
-            data,
+        const { stock, ...fields } = data;
+        const updatedProduct = await prisma.$transaction(async (tx) => {
+            const updated = await tx.product.update({
+                where: {
+                    id,
+                    sellerId,
+                },
+                data: fields,
+            });
+            if (stock === undefined) {
+                return updated;
+            }
+            await this.inventoryService.setStock(tx, id, stock);
+            return { ...updated, stock };
         });
+        if (data.name || data.description || data.categoryId) {
+            await this.indexForSearch({ productIds: [id] });
+        }
+        return updatedProduct;
     }
 
     // Soft delete product
@@ -268,55 +318,118 @@ export class ProductService {
             isActive?: boolean;
         }
     ): Promise<number> {
-        const result = await prisma.product.updateMany({
-            where: {
-                id: { in: productIds },
-                sellerId,
-            },
-            data,
+        const { stock, ...fields } = data;
+        return prisma.$transaction(async (tx) => {
+            const products = await tx.product.findMany({
+                where: {
+                    id: { in: productIds },
+                    sellerId,
+                },
+                select: { id: true },
+            });
+            const ids = products.map((product) => product.id);
+
+            if (stock !== undefined) {
+                await this.inventoryService.lockProducts(tx, ids);
+                for (const id of ids) {
+                    await this.inventoryService.setStock(tx, id, stock);
+                }
+            }
+            await tx.product.updateMany({
+                where: { id: { in: ids } },
+                data: fields,
+            });
+            return ids.length;
         });
-        return result.count;
     }
 
-    async searchProduct(
-        params: {
-            search?: string;
-            categoryId?: string;
-            minPrice?: number;
-            maxPrice?: number;
-            inStock?: boolean;
-            rating?: number;
-            sortBy?: "price" | "rating" | "createdAt";
-            sortOrder?: "asc" | "desc";
-        } & PaginationParams
+    // Search products, with the counts of the matching products by facet
+    // to filter on next. A search text is matched by the search provider,
+    // most relevant first unless another order is asked for, and saved to
+    // the search history when its first page is asked for.
+    async searchProduct(params: ProductSearchParams) {
+        const categories = await prisma.category.findMany({
+            select: { id: true, name: true, parentId: true },
+        });
+        const filters: ProductSearchFilters = {
+            text: params.search?.trim() || undefined,
+            categoryIds: params.categoryId
+                ? this.getCategoryWithDescendants(categories, params.categoryId)
+                : undefined,
+            sellerId: params.sellerId,
+            minPrice: params.minPrice,
+            maxPrice: params.maxPrice,
+            inStock: params.inStock,
+            rating: params.rating,
+        };
+
+        const [products, facets] = await Promise.all([
+            filters.text
+                ? this.searchProductText(
+                      { ...filters, text: filters.text },
+                      params
+                  )
+                : this.listProducts(filters, params),
+            this.getSearchFacets(filters, categories),
+        ]);
+        if (filters.text && (params.page ?? 1) === 1) {
+            await this.recordSearch(
+                params.userId,
+                filters.text,
+                products.total
+            );
+        }
+        return { ...products, facets };
+    }
+
+    // List the products matching search filters without a search text
+    private async listProducts(
+        filters: ProductSearchFilters,
+        params: ProductSearchParams
     ) {
-        const {
-            search,
-            categoryId,
-            minPrice,
-            maxPrice,
-            inStock,
-            rating,
-            sortBy,
-            sortOrder,
-            ...paginationParams
-        } = params;
+        const { categoryIds, sellerId, minPrice, maxPrice, inStock, rating } =
+            filters;
+        const { sortBy, sortOrder, page, limit } = params;
 
         const where: any = { isActive: true };
 
-        if (search) {
+        if (categoryIds) where.categoryId = { in: categoryIds };
+        if (sellerId) where.sellerId = sellerId;
+        // Products whose prices, their own and their variants', overlap
+        // the range, as the search provider matches them
+        const priceConditions = [];
+        if (minPrice) {
+            priceConditions.push({
+                OR: [
+                    { price: { gte: minPrice } },
+                    {
+                        variants: {
+                            some: { isActive: true, price: { gte: minPrice } },
+                        },
+                    },
+                ],
+            });
+        }
+        if (maxPrice) {
+            priceConditions.push({
+                OR: [
+                    { price: { lte: maxPrice } },
+                    {
+                        variants: {
+                            some: { isActive: true, price: { lte: maxPrice } },
+                        },
+                    },
+                ],
+            });
+        }
+        if (priceConditions.length > 0) where.AND = priceConditions;
+        // Products with variants are in stock when a variant is
+        if (inStock) {
             where.OR = [
-                { name: { contains: search, mode: "insensitive" } },
-                { description: { contains: search, mode: "insensitive" } },
+                { stock: { gt: 0 } },
+                { variants: { some: { isActive: true, stock: { gt: 0 } } } },
             ];
         }
-        if (categoryId) where.categoryId = categoryId;
-        if (minPrice || maxPrice) {
-            where.price = {};
-            if (minPrice) where.price.gte = minPrice;
-            if (maxPrice) where.price.lte = maxPrice;
-        }
-        if (inStock) where.stock = { gt: 0 };
         if (rating) {
             where.reviews = {
                 some: {
@@ -326,7 +439,7 @@ export class ProductService {
         }
 
         const orderBy: any = {};
-        if (sortBy) {
+        if (sortBy && sortBy !== "relevance") {
             orderBy[sortBy] = sortOrder || "desc";
         } else {
             orderBy.createdAt = "desc";
@@ -346,8 +459,141 @@ export class ProductService {
                     orderBy,
                 }),
             () => prisma.product.count({ where }),
-            paginationParams
+            { page, limit }
+        );
+    }
+
+    // Search products by text with the search provider. Matched words are
+    // highlighted in the name and description of each product.
+    private async searchProductText(
+        filters: ProductSearchFilters & { text: string },
+        params: ProductSearchParams
+    ) {
+        const { sortBy, sortOrder, page, limit } = params;
+        const searchProvider = getSearchProvider();
+
+        // The search returns the page and the total together
+        return paginatePage(
+            async (skip, take) => {
+                const { hits, total } = await searchProvider.search({
+                    ...filters,
+                    sortBy,
+                    sortOrder,
+                    skip,
+                    take,
+                });
+                const products = await prisma.product.findMany({
+                    where: { id: { in: hits.map((hit) => hit.id) } },
+                    include: {
+                        category: true,
+                        seller: true,
+                        reviews: true,
+                    },
+                });
+                const productsById = new Map(
+                    products.map((product) => [product.id, product])
+                );
+                const data = hits.flatMap((hit) => {
+                    const product = productsById.get(hit.id);
+                    return product
+                        ? [
+                              {
+                                  ...product,
+                                  relevance: hit.relevance,
+                                  highlights: hit.highlights,
+                              },
+                          ]
+                        : [];
+                });
+                return { data, total };
+            },
+            { page, limit }
+        );
+    }
+
+    // Count the products matching search filters by category, seller,
+    // price range, rating and stock. Categories count the products of
+    // their descendants, and ratings count products rated at least as high.
+    private async getSearchFacets(
+        filters: ProductSearchFilters,
+        categories: Array<{ id: string; name: string; parentId: string | null }>
+    ) {
+        const boundaries = SEARCH_CONFIG.priceBoundaries;
+        const facets = await getSearchProvider().getFacets(filters, boundaries);
+
+        const categoriesById = new Map(
+            categories.map((category) => [category.id, category])
         );
+        const categoryCounts = new Map<string, number>();
+        for (const { categoryId, count } of facets.categories) {
+            let category = categoriesById.get(categoryId);
+            const seen = new Set<string>();
+            while (category && !seen.has(category.id)) {
+                seen.add(category.id);
+                categoryCounts.set(
+                    category.id,
+                    (categoryCounts.get(category.id) ?? 0) + count
+                );
+                category = category.parentId
+                    ? categoriesById.get(category.parentId)
+                    : undefined;
+            }
+        }
+
+        const priceCounts = new Map(
+            facets.prices.map((price) => [price.bucket, price.count])
+        );
+
+        return {
+            currency: MONEY_CONFIG.currency,
+            categories: [...categoryCounts]
+                .map(([id, count]) => ({
+                    id,
+                    name: categoriesById.get(id)!.name,
+                    parentId: categoriesById.get(id)!.parentId,
+                    count,
+                }))
+                .sort(
+                    (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+                ),
+            sellers: facets.sellers.map((seller) => ({
+                id: seller.sellerId,
+                businessName: seller.businessName,
+                count: seller.count,
+            })),
+            // The last range has no upper bound
+            priceRanges: [0, ...boundaries].map((min, bucket) => ({
+                min,
+                max: boundaries[bucket] ?? null,
+                count: priceCounts.get(bucket) ?? 0,
+            })),
+            ratings: [5, 4, 3, 2, 1].map((rating) => ({
+                rating,
+                count: facets.ratings
+                    .filter((entry) => entry.rating >= rating)
+                    .reduce((sum, entry) => sum + entry.count, 0),
+            })),
+            stock: facets.stock,
+        };
+    }
+
+    // Get the ids of a category and of all the categories below it
+    private getCategoryWithDescendants(
+        categories: Array<{ id: string; parentId: string | null }>,
+        categoryId: string
+    ) {
+        const ids = [categoryId];
+        for (let i = 0; i < ids.length; i++) {
+            for (const category of categories) {
+                if (
+                    category.parentId === ids[i] &&
+                    !ids.includes(category.id)
+                ) {
+                    ids.push(category.id);
+                }
+            }
+        }
+        return ids;
     }
 
     // Get products by category with subcategories
@@ -375,34 +621,319 @@ export class ProductService {
     }
 
     // Update product stock
+    // Stock held by reservations cannot be removed
     async updateProductStock(
         id: string,
         sellerId: string,
         quantity: number
     ): Promise<Product> {
-        return prisma.product.update({
-            where: { id, sellerId },
-            data: {
-                stock: {
-                    increment: quantity,
+        return prisma.$transaction(async (tx) => {
+            await this.inventoryService.lockProducts(tx, [id]);
+
+            const product = await tx.product.findFirst({
+                where: { id, sellerId },
+            });
+            if (!product) {
+                throw new Error("Product not found");
+            }
+
+            if (quantity < 0) {
+                const availableStock =
+                    await this.inventoryService.getAvailableStock(product, tx);
+                if (availableStock + quantity < 0) {
+                    throw new Error(
+                        `Cannot remove ${-quantity} units, only ${availableStock} available`
+                    );
+                }
+            }
+
+            return tx.product.update({
+                where: { id },
+                data: {
+                    stock: {
+                        increment: quantity,
+                    },
                 },
-            },
+            });
         });
     }
 
-    // Check product availability
+    // Check product availability. Without a variant, a product with
+    // variants is available when any of its variants is.
     async checkProductAvailability(
         id: string,
-        quantity: number
+        quantity: number,
+        variantId?: string
     ): Promise<boolean> {
         const product = await prisma.product.findUnique({
             where: { id },
-            select: { stock: true, isActive: true },
+            select: {
+                id: true,
+                stock: true,
+                isActive: true,
+                hasVariants: true,
+            },
         });
+        if (!product?.isActive) {
+            return false;
+        }
 
-        return (
-            (product?.isActive ?? false) && (product?.stock ?? 0) >= quantity
-        );
+        if (variantId || product.hasVariants) {
+            const variants = await prisma.productVariant.findMany({
+                where: {
+                    productId: id,
+                    isActive: true,
+                    ...(variantId && { id: variantId }),
+                },
+                select: { id: true, stock: true },
+            });
+            for (const variant of variants) {
+                const availableStock =
+                    await this.inventoryService.getAvailableStock(
+                        product,
+                        undefined,
+                        variant
+                    );
+                if (availableStock >= quantity) {
+                    return true;
+                }
+            }
+            return false;
+        }
+
+        // Stock held by pending checkouts is not available
+        const availableStock =
+            await this.inventoryService.getAvailableStock(product);
+        return availableStock >= quantity;
+    }
+
+    // Get the options of a product and its variants on sale
+    async getProductVariants(productId: string) {
+        const product = await prisma.product.findUnique({
+            where: { id: productId },
+            include: {
+                options: { orderBy: { position: "asc" } },
+                variants: {
+                    where: { isActive: true },
+                    orderBy: { createdAt: "asc" },
+                },
+            },
+        });
+        if (!product) {
+            throw new Error("Product not found");
+        }
+
+        return {
+            productId,
+            hasVariants: product.hasVariants,
+            options: product.options,
+            variants: product.variants,
+        };
+    }
+
+    // Set the options the variants of a product are made of, such as size
+    // or color. Existing variants must still match the new options.
+    async setProductOptions(
+        productId: string,
+        userId: string,
+        options: Array<{ name: string; values: string[] }>
+    ) {
+        await this.getSellerProduct(productId, userId);
+
+        return prisma.$transaction(async (tx) => {
+            const variants = await tx.productVariant.findMany({
+                where: { productId, isActive: true },
+            });
+            const newOptions = options.map((option, position) => ({
+                ...option,
+                productId,
+                position,
+            }));
+            for (const variant of variants) {
+                this.validateVariantOptions(
+                    newOptions,
+                    variant.options as Record<string, string>
+                );
+            }
+
+            await tx.productOption.deleteMany({ where: { productId } });
+            await tx.productOption.createMany({ data: newOptions });
+            return tx.productOption.findMany({
+                where: { productId },
+                orderBy: { position: "asc" },
+            });
+        });
+    }
+
+    // Add a variant to a product. The product is sold by variant from then on.
+    async createVariant(
+        productId: string,
+        userId: string,
+        data: {
+            sku: string;
+            options: Record<string, string>;
+            price: number;
+            stock: number;
+            images?: string[];
+            weight?: number;
+        }
+    ) {
+        await this.getSellerProduct(productId, userId);
+        const options = await prisma.productOption.findMany({
+            where: { productId },
+        });
+        this.validateVariantOptions(options, data.options);
+        await this.assertUniqueVariant(productId, data.options);
+
+        return prisma.$transaction(async (tx) => {
+            const variant = await tx.productVariant.create({
+                data: { ...data, productId },
+            });
+            await tx.product.update({
+                where: { id: productId },
+                data: { hasVariants: true },
+            });
+            return variant;
+        });
+    }
+
+    // Update a variant of a product
+    async updateVariant(
+        productId: string,
+        variantId: string,
+        userId: string,
+        data: {
+            sku?: string;
+            options?: Record<string, string>;
+            price?: number;
+            stock?: number;
+            images?: string[];
+            weight?: number;
+            isActive?: boolean;
+        }
+    ) {
+        await this.getSellerProduct(productId, userId);
+        const variant = await prisma.productVariant.findFirst({
+            where: { id: variantId, productId },
+        });
+        if (!variant) {
+            throw new Error("Variant not found");
+        }
+        if (data.options) {
+            const options = await prisma.productOption.findMany({
+                where: { productId },
+            });
+            this.validateVariantOptions(options, data.options);
+            await this.assertUniqueVariant(productId, data.options, variantId);
+        }
+
+        const { stock, ...fields } = data;
+        return prisma.$transaction(async (tx) => {
+            if (stock !== undefined) {
+                await this.inventoryService.setStock(
+                    tx,
+                    productId,
+                    stock,
+                    variantId
+                );
+            }
+            return tx.productVariant.update({
+                where: { id: variantId },
+                data: fields,
+            });
+        });
+    }
+
+    // Stop selling a variant. It is kept for the orders it is on.
+    async deleteVariant(productId: string, variantId: string, userId: string) {
+        return this.updateVariant(productId, variantId, userId, {
+            isActive: false,
+        });
+    }
+
+    // Bring the search index up to date after a change. New products that
+    // fail to index are picked up by the search.reindexProducts job.
+    private async indexForSearch(scope: ProductIndexScope) {
+        try {
+            await getSearchProvider().indexProducts(scope);
+        } catch (error) {
+            console.error("Error indexing products for search:", error);
+        }
+    }
+
+    // Save a search to the search history. Failing to save it does not fail
+    // the search.
+    private async recordSearch(
+        userId: string | undefined,
+        query: string,
+        resultCount: number
+    ) {
+        try {
+            await this.searchHistoryService.recordSearch({
+                userId,
+                query,
+                resultCount,
+            });
+        } catch (error) {
+            console.error("Error saving search history:", error);
+        }
+    }
+
+    // Get a product of the seller account of a user
+    private async getSellerProduct(productId: string, userId: string) {
+        const product = await prisma.product.findFirst({
+            where: { id: productId, seller: { userId } },
+        });
+        if (!product) {
+            throw new Error("Product not found");
+        }
+        return product;
+    }
+
+    // Check that a variant sets each option of its product to one of the
+    // option's values
+    private validateVariantOptions(
+        options: Pick<ProductOption, "name" | "values">[],
+        values: Record<string, string>
+    ) {
+        if (options.length === 0) {
+            throw new Error("Add the product's options before its variants");
+        }
+        for (const name of Object.keys(values)) {
+            if (!options.some((option) => option.name === name)) {
+                throw new Error(`Unknown option ${name}`);
+            }
+        }
+        for (const option of options) {
+            const value = values[option.name];
+            if (value === undefined) {
+                throw new Error(`Missing option ${option.name}`);
+            }
+            if (!option.values.includes(value)) {
+                throw new Error(
+                    `Invalid value ${value} for option ${option.name}`
+                );
+            }
+        }
+    }
+
+    // Check that no other variant on sale has the same options
+    private async assertUniqueVariant(
+        productId: string,
+        options: Record<string, string>,
+        excludeId?: string
+    ) {
+        const existing = await prisma.productVariant.findFirst({
+            where: {
+                productId,
+                isActive: true,
+                options: { equals: options as Prisma.InputJsonValue },
+                ...(excludeId && { id: { not: excludeId } }),
+            },
+        });
+        if (existing) {
+            throw new Error("A variant with these options already exists");
+        }
     }
 
     // Get product performance metrics
@@ -485,40 +1016,54 @@ export class ProductService {
         });
     }
 
+    // Products with variants are low on stock by variant
     async getInventoryAnalytics(sellerId: string) {
-        const [lowStock, fastMoving, slowMoving] = await Promise.all([
-            prisma.product.findMany({
-                where: {
-                    sellerId,
-                    stock: { lte: 10 },
-                    isActive: true,
-                },
-            }),
-            prisma.product.findMany({
-                where: {
-                    sellerId,
-                    isActive: true,
-                },
-                orderBy: {
-                    orderItems: {
-                        _count: "desc",
+        const [lowStock, lowStockVariants, fastMoving, slowMoving] =
+            await Promise.all([
+                prisma.product.findMany({
+                    where: {
+                        sellerId,
+                        stock: { lte: 10 },
+                        isActive: true,
+                        hasVariants: false,
                     },
-                },
-                take: 5,
-            }),
-            prisma.product.findMany({
-                where: {
-                    sellerId,
-                    isActive: true,
-                    orderItems: {
-                        none: {},
+                }),
+                prisma.productVariant.findMany({
+                    where: {
+                        product: { sellerId, isActive: true },
+                        stock: { lte: 10 },
+                        isActive: true,
                     },
-                },
-            }),
-        ]);
+                    include: {
+                        product: { select: { id: true, name: true } },
+                    },
+                }),
+                prisma.product.findMany({
+                    where: {
+                        sellerId,
+                        isActive: true,
+                    },
+                    orderBy: {
+                        orderItems: {
+                            _count: "desc",
+                        },
+                    },
+                    take: 5,
+                }),
+                prisma.product.findMany({
+                    where: {
+                        sellerId,
+                        isActive: true,
+                        orderItems: {
+                            none: {},
+                        },
+                    },
+                }),
+            ]);
 
         return {
             lowStock,
+            lowStockVariants,
             fastMoving,
             slowMoving,
         };
@@ -0,0 +1,392 @@
+import { prisma } from "@/config/database";
+import { RECOMMENDATION_CONFIG } from "@/config/recommendation";
+import { getSearchProvider } from "@/providers/search";
+import { Prisma, RecommendationType } from "@prisma/client";
+
+type RecommendedPair = {
+    productId: string;
+    recommendedId: string;
+    score: number;
+};
+
+type FeedEntry = { score: number; reason: string };
+
+const productInclude = {
+    category: true,
+    reviews: true,
+} satisfies Prisma.ProductInclude;
+
+export class RecommendationService {
+    // Get the products most often bought in the same order as a product
+    async getFrequentlyBoughtTogether(
+        productId: string,
+        limit: number = RECOMMENDATION_CONFIG.productLimit
+    ) {
+        return this.getProductRecommendations(
+            productId,
+            RecommendationType.BOUGHT_TOGETHER,
+            limit
+        );
+    }
+
+    // Get the products that customers who wishlisted or added a product to
+    // their cart did the same with. Products of the same category make up
+    // for missing recommendations.
+    async getCustomersAlsoViewed(
+        productId: string,
+        limit: number = RECOMMENDATION_CONFIG.productLimit
+    ) {
+        const recommended = await this.getProductRecommendations(
+            productId,
+            RecommendationType.ALSO_VIEWED,
+            limit
+        );
+        if (recommended.length >= limit) {
+            return recommended;
+        }
+
+        const product = await prisma.product.findUnique({
+            where: { id: productId },
+            select: { categoryId: true },
+        });
+        if (!product) {
+            return recommended;
+        }
+        const sameCategory = await prisma.product.findMany({
+            where: {
+                categoryId: product.categoryId,
+                id: {
+                    notIn: [
+                        productId,
+                        ...recommended.map(
+                            (recommendation) => recommendation.id
+                        ),
+                    ],
+                },
+                isActive: true,
+            },
+            include: productInclude,
+            orderBy: { createdAt: "desc" },
+            take: limit - recommended.length,
+        });
+        return [...recommended, ...sameCategory];
+    }
+
+    // Get the home feed of a user, each product with the reason it is
+    // recommended. Guests and users without a feed yet get the most
+    // ordered products, or the newest before anything is ordered.
+    async getHomeFeed(
+        userId?: string,
+        limit: number = RECOMMENDATION_CONFIG.feedSize
+    ) {
+        const findFeed = (feedUserId: string | null) =>
+            prisma.userRecommendation.findMany({
+                where: { userId: feedUserId, product: { isActive: true } },
+                include: { product: { include: productInclude } },
+                orderBy: { score: "desc" },
+                take: limit,
+            });
+
+        let feed = userId ? await findFeed(userId) : [];
+        if (feed.length === 0) {
+            feed = await findFeed(null);
+        }
+        if (feed.length === 0) {
+            const newest = await prisma.product.findMany({
+                where: { isActive: true },
+                include: productInclude,
+                orderBy: { createdAt: "desc" },
+                take: limit,
+            });
+            return newest.map((product) => ({ ...product, reason: "NEW" }));
+        }
+        return feed.map((recommendation) => ({
+            ...recommendation.product,
+            reason: recommendation.reason,
+        }));
+    }
+
+    // Recompute all recommendations from the orders, carts, wishlists and
+    // searches of the lookback period. Runs as a scheduled job so reading
+    // recommendations stays a simple lookup.
+    async computeRecommendations() {
+        const since = new Date(
+            Date.now() -
+                RECOMMENDATION_CONFIG.lookbackDays * 24 * 60 * 60 * 1000
+        );
+
+        const boughtTogether = await this.replaceProductRecommendations(
+            RecommendationType.BOUGHT_TOGETHER,
+            await this.findBoughtTogether(since)
+        );
+        const alsoViewed = await this.replaceProductRecommendations(
+            RecommendationType.ALSO_VIEWED,
+            await this.findAlsoViewed(since)
+        );
+        const popular = await this.computePopularFeed(since);
+
+        // Feeds of users no longer active are dropped for the popular feed
+        await prisma.userRecommendation.deleteMany({
+            where: { userId: { not: null }, createdAt: { lt: since } },
+        });
+        const users = await this.findActiveUsers(since);
+        let feeds = 0;
+        for (const { userId } of users) {
+            if ((await this.computeUserFeed(userId, since)) > 0) {
+                feeds++;
+            }
+        }
+
+        return { boughtTogether, alsoViewed, popular, feeds };
+    }
+
+    private async getProductRecommendations(
+        productId: string,
+        type: RecommendationType,
+        limit: number
+    ) {
+        const recommendations = await prisma.productRecommendation.findMany({
+            where: { productId, type, recommended: { isActive: true } },
+            include: { recommended: { include: productInclude } },
+            orderBy: { score: "desc" },
+            take: limit,
+        });
+        return recommendations.map(
+            (recommendation) => recommendation.recommended
+        );
+    }
+
+    // Pairs of products ordered together, by the number of orders they
+    // share, the most shared first for each product
+    private findBoughtTogether(since: Date) {
+        return prisma.$queryRaw<RecommendedPair[]>`
+            SELECT "productId", "recommendedId", score FROM (
+                SELECT a."productId", b."productId" AS "recommendedId",
+                    COUNT(DISTINCT a."orderId")::float AS score,
+                    ROW_NUMBER() OVER (
+                        PARTITION BY a."productId"
+                        ORDER BY COUNT(DISTINCT a."orderId") DESC, b."productId"
+                    ) AS rank
+                FROM "OrderItem" a
+                JOIN "OrderItem" b
+                    ON b."orderId" = a."orderId" AND b."productId" <> a."productId"
+                JOIN "Order" o ON o.id = a."orderId"
+                JOIN "Product" p ON p.id = b."productId"
+                WHERE o.status <> 'CANCELLED' AND o."createdAt" >= ${since}
+                    AND p."isActive" = true
+                GROUP BY a."productId", b."productId"
+                HAVING COUNT(DISTINCT a."orderId") >= ${RECOMMENDATION_CONFIG.minSharedCount}
+            ) pairs
+            WHERE rank <= ${RECOMMENDATION_CONFIG.productLimit}`;
+    }
+
+    // Pairs of products the same customers wishlisted or kept in their
+    // cart, by the number of customers they share
+    private findAlsoViewed(since: Date) {
+        return prisma.$queryRaw<RecommendedPair[]>`
+            WITH interests AS (
+                SELECT "userId", "productId" FROM "Wishlist"
+                WHERE "createdAt" >= ${since}
+                UNION
+                SELECT "userId", "productId" FROM "Cart"
+                WHERE "updatedAt" >= ${since}
+            )
+            SELECT "productId", "recommendedId", score FROM (
+                SELECT a."productId", b."productId" AS "recommendedId",
+                    COUNT(DISTINCT a."userId")::float AS score,
+                    ROW_NUMBER() OVER (
+                        PARTITION BY a."productId"
+                        ORDER BY COUNT(DISTINCT a."userId") DESC, b."productId"
+                    ) AS rank
+                FROM interests a
+                JOIN interests b
+                    ON b."userId" = a."userId" AND b."productId" <> a."productId"
+                JOIN "Product" p ON p.id = b."productId"
+                WHERE p."isActive" = true
+                GROUP BY a."productId", b."productId"
+                HAVING COUNT(DISTINCT a."userId") >= ${RECOMMENDATION_CONFIG.minSharedCount}
+            ) pairs
+            WHERE rank <= ${RECOMMENDATION_CONFIG.productLimit}`;
+    }
+
+    private async replaceProductRecommendations(
+        type: RecommendationType,
+        pairs: RecommendedPair[]
+    ) {
+        await prisma.$transaction([
+            prisma.productRecommendation.deleteMany({ where: { type } }),
+            prisma.productRecommendation.createMany({
+                data: pairs.map((pair) => ({ ...pair, type })),
+            }),
+        ]);
+        return pairs.length;
+    }
+
+    // The feed of guests: the products in the most orders
+    private async computePopularFeed(since: Date) {
+        const popular = await prisma.$queryRaw<
+            Array<{ productId: string; score: number }>
+        >`
+            SELECT oi."productId", COUNT(DISTINCT oi."orderId")::float AS score
+            FROM "OrderItem" oi
+            JOIN "Order" o ON o.id = oi."orderId"
+            JOIN "Product" p ON p.id = oi."productId"
+            WHERE o.status <> 'CANCELLED' AND o."createdAt" >= ${since}
+                AND p."isActive" = true
+            GROUP BY oi."productId"
+            ORDER BY score DESC, oi."productId"
+            LIMIT ${RECOMMENDATION_CONFIG.feedSize}`;
+
+        return this.replaceFeed(
+            null,
+            popular.map(({ productId, score }) => ({
+                productId,
+                score,
+                reason: "POPULAR",
+            }))
+        );
+    }
+
+    // Users who ordered, kept a cart, wishlisted or searched in the period,
+    // the most recently active first
+    private findActiveUsers(since: Date) {
+        return prisma.$queryRaw<Array<{ userId: string }>>`
+            SELECT "userId" FROM (
+                SELECT "userId", MAX("createdAt") AS "activeAt" FROM "Order"
+                WHERE "createdAt" >= ${since} GROUP BY "userId"
+                UNION ALL
+                SELECT "userId", MAX("updatedAt") FROM "Cart"
+                WHERE "updatedAt" >= ${since} GROUP BY "userId"
+                UNION ALL
+                SELECT "userId", MAX("createdAt") FROM "Wishlist"
+                WHERE "createdAt" >= ${since} GROUP BY "userId"
+                UNION ALL
+                SELECT "userId", MAX("createdAt") FROM "SearchHistory"
+                WHERE "userId" IS NOT NULL AND "createdAt" >= ${since}
+                GROUP BY "userId"
+            ) activity
+            GROUP BY "userId"
+            ORDER BY MAX("activeAt") DESC
+            LIMIT ${RECOMMENDATION_CONFIG.feedUserBatchSize}`;
+    }
+
+    // Recommend to a user what goes with the products they bought, keep in
+    // their cart or wishlisted, and what their latest searches found,
+    // leaving out those products themselves. Returns the feed size.
+    private async computeUserFeed(userId: string, since: Date) {
+        const { weights, feedSearches, feedResultsPerSearch } =
+            RECOMMENDATION_CONFIG;
+        const [orderItems, cartItems, wishlist, searches] = await Promise.all([
+            prisma.orderItem.findMany({
+                where: {
+                    order: {
+                        userId,
+                        createdAt: { gte: since },
+                        status: { not: "CANCELLED" },
+                    },
+                },
+                select: { productId: true },
+            }),
+            prisma.cart.findMany({
+                where: { userId },
+                select: { productId: true },
+            }),
+            prisma.wishlist.findMany({
+                where: { userId },
+                select: { productId: true },
+            }),
+            prisma.searchHistory.findMany({
+                where: {
+                    userId,
+                    createdAt: { gte: since },
+                    resultCount: { gt: 0 },
+                },
+                select: { query: true },
+                orderBy: { createdAt: "desc" },
+                distinct: ["normalizedQuery"],
+                take: feedSearches,
+            }),
+        ]);
+
+        // A product counts for the strongest interest shown in it
+        const seeds = new Map<string, number>();
+        const addSeeds = (items: { productId: string }[], weight: number) => {
+            for (const { productId } of items) {
+                seeds.set(
+                    productId,
+                    Math.max(seeds.get(productId) ?? 0, weight)
+                );
+            }
+        };
+        addSeeds(orderItems, weights.purchased);
+        addSeeds(cartItems, weights.cart);
+        addSeeds(wishlist, weights.wishlist);
+
+        const feed = new Map<string, FeedEntry>();
+        const recommend = (
+            productId: string,
+            score: number,
+            reason: string
+        ) => {
+            if (seeds.has(productId)) {
+                return;
+            }
+            const entry = feed.get(productId);
+            if (!entry) {
+                feed.set(productId, { score, reason });
+            } else {
+                // Keep the reason that counts most
+                if (score > entry.score) {
+                    entry.reason = reason;
+                }
+                entry.score += score;
+            }
+        };
+
+        const recommendations =
+            seeds.size > 0
+                ? await prisma.productRecommendation.findMany({
+                      where: { productId: { in: [...seeds.keys()] } },
+                  })
+                : [];
+        for (const recommendation of recommendations) {
+            recommend(
+                recommendation.recommendedId,
+                seeds.get(recommendation.productId)! * recommendation.score,
+                recommendation.type
+            );
+        }
+
+        const searchProvider = getSearchProvider();
+        for (const { query } of searches) {
+            const { hits } = await searchProvider.search({
+                text: query,
+                inStock: true,
+                skip: 0,
+                take: feedResultsPerSearch,
+            });
+            for (const hit of hits) {
+                recommend(hit.id, weights.search * hit.relevance, "SEARCHED");
+            }
+        }
+
+        const entries = [...feed]
+            .sort(([, a], [, b]) => b.score - a.score)
+            .slice(0, RECOMMENDATION_CONFIG.feedSize)
+            .map(([productId, entry]) => ({ productId, ...entry }));
+        return this.replaceFeed(userId, entries);
+    }
+
+    private async replaceFeed(
+        userId: string | null,
+        entries: Array<{ productId: string } & FeedEntry>
+    ) {
+        await prisma.$transaction([
+            prisma.userRecommendation.deleteMany({ where: { userId } }),
+            prisma.userRecommendation.createMany({
+                data: entries.map((entry) => ({ userId, ...entry })),
+            }),
+        ]);
+        return entries.length;
+    }
+}
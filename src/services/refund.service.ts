@@ -0,0 +1,440 @@
+import { prisma } from "@/config/database";
+import {
+    NotificationType,
+    OrderStatus,
+    PaymentStatus,
+    Prisma,
+    RefundReasonCode,
+    RefundStatus,
+    UserRole,
+} from "@prisma/client";
+import { InventoryService } from "./inventory.service";
+import { NotificationService } from "./notification.service";
+import { PaymentService } from "./payment.service";
+import { paginate, PaginationParams } from "@/utils/pagination";
+
+type RefundReviewer = {
+    userId: string;
+    role: UserRole;
+};
+
+const refundDetailsInclude = {
+    items: {
+        include: {
+            orderItem: {
+                include: { product: true },
+            },
+        },
+    },
+} satisfies Prisma.RefundRequestInclude;
+
+export class RefundService {
+    private paymentService: PaymentService;
+    private inventoryService: InventoryService;
+    private notificationService: NotificationService;
+
+    constructor() {
+        this.paymentService = new PaymentService();
+        this.inventoryService = new InventoryService();
+        this.notificationService = new NotificationService();
+    }
+
+    // Create a refund request for items of a delivered order
+    async createRefundRequest(data: {
+        userId: string;
+        orderId: string;
+        reasonCode: RefundReasonCode;
+        reason: string;
+        photos?: string[];
+        items: Array<{ orderItemId: string; quantity: number }>;
+    }) {
+        const refund = await prisma.$transaction(async (tx) => {
+            // Lock the order so concurrent requests cannot claim the same
+            // units twice
+            await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${data.orderId} FOR UPDATE`;
+
+            const order = await tx.order.findFirst({
+                where: { id: data.orderId, userId: data.userId },
+                include: {
+                    items: {
+                        include: {
+                            refundItems: {
+                                include: {
+                                    refundRequest: { select: { status: true } },
+                                },
+                            },
+                        },
+                    },
+                },
+            });
+
+            if (!order) {
+                throw new Error("Order not found");
+            }
+            if (order.status !== OrderStatus.DELIVERED) {
+                throw new Error(
+                    "Refunds can only be requested for delivered orders"
+                );
+            }
+            if (data.items.length === 0) {
+                throw new Error("At least one item is required");
+            }
+
+            // Check each item against what has already been requested
+            const refundItems = data.items.map((requested) => {
+                const orderItem = order.items.find(
+                    (item) => item.id === requested.orderItemId
+                );
+                if (!orderItem) {
+                    throw new Error(
+                        `Order item ${requested.orderItemId} not found`
+                    );
+                }
+
+                const requestedBefore = orderItem.refundItems.filter(
+                    (refundItem) =>
+                        refundItem.refundRequest.status !==
+                        RefundStatus.REJECTED
+                );
+                const alreadyRequested = requestedBefore.reduce(
+                    (sum, refundItem) => sum + refundItem.quantity,
+                    0
+                );
+                const remaining = orderItem.quantity - alreadyRequested;
+
+                if (requested.quantity <= 0 || requested.quantity > remaining) {
+                    throw new Error(
+                        `Invalid refund quantity for item ${requested.orderItemId}`
+                    );
+                }
+
+                // The gross amount is what was paid for the line, after its
+                // share of the discount and with its VAT. The last units get
+                // what is left of it, so rounding never refunds more.
+                const amount =
+                    requested.quantity === remaining
+                        ? orderItem.grossAmount -
+                          requestedBefore.reduce(
+                              (sum, refundItem) => sum + refundItem.amount,
+                              0
+                          )
+                        : Math.round(
+                              (orderItem.grossAmount * requested.quantity) /
+                                  orderItem.quantity
+                          );
+
+                return {
+                    orderItemId: orderItem.id,
+                    quantity: requested.quantity,
+                    amount,
+                };
+            });
+
+            const amount = refundItems.reduce(
+                (sum, item) => sum + item.amount,
+                0
+            );
+
+            return tx.refundRequest.create({
+                data: {
+                    orderId: order.id,
+                    userId: data.userId,
+                    reasonCode: data.reasonCode,
+                    reason: data.reason,
+                    photos: data.photos ?? [],
+                    amount,
+                    items: { create: refundItems },
+                },
+                include: refundDetailsInclude,
+            });
+        });
+
+        await this.notificationService.createNotification({
+            userId: data.userId,
+            type: NotificationType.REFUND_REQUESTED,
+            message: `Your refund request for order #${data.orderId} has been received`,
+            metadata: { refundRequestId: refund.id, orderId: data.orderId },
+        });
+
+        return refund;
+    }
+
+    // Get the refund requests of a customer
+    async getUserRefundRequests(userId: string, params: PaginationParams = {}) {
+        return paginate(
+            (skip, take) =>
+                prisma.refundRequest.findMany({
+                    where: { userId },
+                    skip,
+                    take,
+                    include: refundDetailsInclude,
+                    orderBy: { createdAt: "desc" },
+                }),
+            () => prisma.refundRequest.count({ where: { userId } }),
+            params
+        );
+    }
+
+    // Get a refund request visible to the given user
+    async getRefundRequestById(refundId: string, viewer: RefundReviewer) {
+        const where: Prisma.RefundRequestWhereInput = { id: refundId };
+        if (viewer.role === UserRole.CUSTOMER) {
+            where.userId = viewer.userId;
+        } else if (viewer.role === UserRole.SELLER) {
+            const sellerId = await this.getSellerIdByUserId(viewer.userId);
+            where.items = {
+                some: { orderItem: { product: { sellerId } } },
+            };
+        }
+
+        const refund = await prisma.refundRequest.findFirst({
+            where,
+            include: refundDetailsInclude,
+        });
+        if (!refund) {
+            throw new Error("Refund request not found");
+        }
+        return refund;
+    }
+
+    // Get refund requests waiting on an admin or seller
+    async getRefundRequestsForReview(
+        reviewer: RefundReviewer,
+        params: PaginationParams & { status?: RefundStatus } = {}
+    ) {
+        const { status, ...paginationParams } = params;
+        const where: Prisma.RefundRequestWhereInput = {
+            status: status ?? RefundStatus.PENDING,
+        };
+        if (reviewer.role === UserRole.SELLER) {
+            const sellerId = await this.getSellerIdByUserId(reviewer.userId);
+            where.items = {
+                some: { orderItem: { product: { sellerId } } },
+            };
+        }
+
+        return paginate(
+            (skip, take) =>
+                prisma.refundRequest.findMany({
+                    where,
+                    skip,
+                    take,
+                    include: refundDetailsInclude,
+                    orderBy: { createdAt: "asc" },
+                }),
+            () => prisma.refundRequest.count({ where }),
+            paginationParams
+        );
+    }
+
+    // Approve a refund request and refund the payment. The request is
+    // claimed before the provider is called, so concurrent reviews of the
+    // same request refund it once.
+    async approveRefundRequest(
+        refundId: string,
+        reviewer: RefundReviewer,
+        data: { restock?: boolean; note?: string } = {}
+    ) {
+        const refund = await this.getReviewableRefund(refundId, reviewer);
+        await this.claimPendingRefund(refundId, {
+            status: RefundStatus.APPROVED,
+            reviewedById: reviewer.userId,
+            reviewNote: data.note,
+            reviewedAt: new Date(),
+        });
+
+        let payment: Awaited<ReturnType<PaymentService["refundPayment"]>>;
+        try {
+            payment = await this.paymentService.refundPayment(
+                refund.orderId,
+                refund.amount
+            );
+        } catch (error) {
+            // Put the request back up for review when nothing was refunded
+            await prisma.refundRequest.updateMany({
+                where: { id: refundId, status: RefundStatus.APPROVED },
+                data: {
+                    status: RefundStatus.PENDING,
+                    reviewedById: null,
+                    reviewNote: null,
+                    reviewedAt: null,
+                },
+            });
+            throw error;
+        }
+
+        const updated = await prisma.$transaction(async (tx) => {
+            // Returned items go back to the stock of their product or variant
+            if (data.restock) {
+                for (const item of refund.items) {
+                    await this.inventoryService.restockOrderItem(tx, {
+                        ...item.orderItem,
+                        quantity: item.quantity,
+                    });
+                }
+            }
+
+            const approved = await tx.refundRequest.update({
+                where: { id: refundId },
+                data: {
+                    // Card refunds are issued straight away, cash ones by hand
+                    status: payment.refundId
+                        ? RefundStatus.COMPLETED
+                        : RefundStatus.APPROVED,
+                    restock: data.restock ?? false,
+                    paymentRefundId: payment.refundId,
+                    reviewedById: reviewer.userId,
+                    reviewNote: data.note,
+                    reviewedAt: new Date(),
+                },
+                include: refundDetailsInclude,
+            });
+
+            // Mark the order refunded once all its items have been refunded.
+            // Shipping is not refunded, so it is left out.
+            const [order, refunded] = await Promise.all([
+                tx.order.findUniqueOrThrow({
+                    where: { id: refund.orderId },
+                    include: { items: { select: { grossAmount: true } } },
+                }),
+                tx.refundRequest.aggregate({
+                    where: {
+                        orderId: refund.orderId,
+                        status: {
+                            in: [RefundStatus.APPROVED, RefundStatus.COMPLETED],
+                        },
+                    },
+                    _sum: { amount: true },
+                }),
+            ]);
+            const itemsAmount = order.items.reduce(
+                (sum, item) => sum + item.grossAmount,
+                0
+            );
+            if (
+                (refunded._sum.amount ?? 0) >= itemsAmount &&
+                order.paymentStatus !== PaymentStatus.REFUNDED
+            ) {
+                await tx.order.update({
+                    where: { id: order.id },
+                    data: { paymentStatus: PaymentStatus.REFUNDED },
+                });
+                await tx.paymentStatusHistory.create({
+                    data: {
+                        orderId: order.id,
+                        fromStatus: order.paymentStatus,
+                        toStatus: PaymentStatus.REFUNDED,
+                        changedById: reviewer.userId,
+                        reason: "Refund request approved",
+                    },
+                });
+            }
+
+            return approved;
+        });
+
+        await this.notificationService.sendOrderUpdate(refund.orderId);
+        await this.notificationService.createNotification({
+            userId: refund.userId,
+            type: NotificationType.REFUND_APPROVED,
+            message: `Your refund request for order #${refund.orderId} has been approved`,
+            metadata: {
+                refundRequestId: refund.id,
+                orderId: refund.orderId,
+                amount: refund.amount,
+            },
+        });
+
+        return updated;
+    }
+
+    // Reject a refund request
+    async rejectRefundRequest(
+        refundId: string,
+        reviewer: RefundReviewer,
+        note: string
+    ) {
+        const refund = await this.getReviewableRefund(refundId, reviewer);
+        await this.claimPendingRefund(refundId, {
+            status: RefundStatus.REJECTED,
+            reviewedById: reviewer.userId,
+            reviewNote: note,
+            reviewedAt: new Date(),
+        });
+
+        const rejected = await prisma.refundRequest.findUniqueOrThrow({
+            where: { id: refundId },
+            include: refundDetailsInclude,
+        });
+
+        await this.notificationService.createNotification({
+            userId: refund.userId,
+            type: NotificationType.REFUND_REJECTED,
+            message: `Your refund request for order #${refund.orderId} has been rejected`,
+            metadata: {
+                refundRequestId: refund.id,
+                orderId: refund.orderId,
+                note,
+            },
+        });
+
+        return rejected;
+    }
+
+    // Load a pending refund the reviewer is allowed to decide on
+    // Sellers may only review refunds made up entirely of their products
+    private async getReviewableRefund(
+        refundId: string,
+        reviewer: RefundReviewer
+    ) {
+        const refund = await prisma.refundRequest.findUnique({
+            where: { id: refundId },
+            include: refundDetailsInclude,
+        });
+        if (!refund) {
+            throw new Error("Refund request not found");
+        }
+
+        if (reviewer.role === UserRole.SELLER) {
+            const sellerId = await this.getSellerIdByUserId(reviewer.userId);
+            const ownsAllItems = refund.items.every(
+                (item) => item.orderItem.product.sellerId === sellerId
+            );
+            if (!ownsAllItems) {
+                throw new Error("Refund request not found");
+            }
+        }
+
+        if (refund.status !== RefundStatus.PENDING) {
+            throw new Error("Refund request has already been reviewed");
+        }
+
+        return refund;
+    }
+
+    // Move a refund request out of PENDING, unless a concurrent review got
+    // to it first
+    private async claimPendingRefund(
+        refundId: string,
+        data: Prisma.RefundRequestUncheckedUpdateManyInput
+    ) {
+        const claimed = await prisma.refundRequest.updateMany({
+            where: { id: refundId, status: RefundStatus.PENDING },
+            data,
+        });
+        if (claimed.count === 0) {
+            throw new Error("Refund request has already been reviewed");
+        }
+    }
+
+    private async getSellerIdByUserId(userId: string) {
+        const seller = await prisma.seller.findUnique({
+            where: { userId },
+            select: { id: true },
+        });
+        if (!seller) {
+            throw new Error("Seller profile not found");
+        }
+        return seller.id;
+    }
+}
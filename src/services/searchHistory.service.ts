@@ -0,0 +1,200 @@
+import { prisma } from "@/config/database";
+import { SEARCH_CONFIG } from "@/config/search";
+
+// Lowercase a search text and collapse its spaces, so the same search
+// typed differently is counted together
+const normalizeQuery = (text: string) =>
+    text.trim().toLowerCase().replace(/\s+/g, " ");
+
+export class SearchHistoryService {
+    // Save a product search to the search history. Searches of users who
+    // turned off saveSearchHistory in their settings are not saved.
+    async recordSearch(search: {
+        userId?: string;
+        query: string;
+        resultCount: number;
+    }) {
+        const query = search.query
+            .trim()
+            .slice(0, SEARCH_CONFIG.maxHistoryQueryLength);
+        const normalizedQuery = normalizeQuery(query);
+        if (!normalizedQuery) {
+            return null;
+        }
+        if (search.userId && !(await this.isHistoryEnabled(search.userId))) {
+            return null;
+        }
+
+        return prisma.searchHistory.create({
+            data: {
+                userId: search.userId,
+                query,
+                normalizedQuery,
+                resultCount: search.resultCount,
+            },
+        });
+    }
+
+    // Suggest products and categories whose name contains a search text,
+    // those starting with it first, and the signed in user's recent
+    // searches starting with it
+    async getSuggestions(text: string, userId?: string) {
+        const query = normalizeQuery(text);
+        if (!query) {
+            return { products: [], categories: [], recentSearches: [] };
+        }
+        const limit = SEARCH_CONFIG.suggestionLimit;
+        const nameContains = {
+            contains: query,
+            mode: "insensitive" as const,
+        };
+
+        const [products, categories, recentSearches] = await Promise.all([
+            prisma.product.findMany({
+                where: { isActive: true, name: nameContains },
+                select: { id: true, name: true, images: true },
+                orderBy: { name: "asc" },
+                take: limit,
+            }),
+            prisma.category.findMany({
+                where: { name: nameContains },
+                select: { id: true, name: true },
+                orderBy: { name: "asc" },
+                take: limit,
+            }),
+            userId ? this.getRecentSearches(userId, query) : [],
+        ]);
+
+        const startsWithQuery = (name: string) =>
+            name.toLowerCase().startsWith(query) ? 0 : 1;
+        const byMatch = (a: { name: string }, b: { name: string }) =>
+            startsWithQuery(a.name) - startsWithQuery(b.name);
+
+        return {
+            products: products.sort(byMatch),
+            categories: categories.sort(byMatch),
+            recentSearches,
+        };
+    }
+
+    // Get the report of the most searched queries in a period, the last 30
+    // days by default, compared to the period before it, and of the
+    // searches that found no products
+    async getSearchReport(range: { startDate?: Date; endDate?: Date }) {
+        const endDate = range.endDate ?? new Date();
+        const startDate =
+            range.startDate ??
+            new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+        const previousStartDate = new Date(
+            startDate.getTime() - (endDate.getTime() - startDate.getTime())
+        );
+        const createdAt = { gte: startDate, lte: endDate };
+        const limit = SEARCH_CONFIG.reportLimit;
+
+        const [searches, zeroResultSearches, topQueries, zeroResultQueries] =
+            await Promise.all([
+                prisma.searchHistory.count({ where: { createdAt } }),
+                prisma.searchHistory.count({
+                    where: { createdAt, resultCount: 0 },
+                }),
+                prisma.searchHistory.groupBy({
+                    by: ["normalizedQuery"],
+                    where: { createdAt },
+                    _count: { normalizedQuery: true },
+                    _avg: { resultCount: true },
+                    orderBy: { _count: { normalizedQuery: "desc" } },
+                    take: limit,
+                }),
+                prisma.searchHistory.groupBy({
+                    by: ["normalizedQuery"],
+                    where: { createdAt, resultCount: 0 },
+                    _count: { normalizedQuery: true },
+                    _max: { createdAt: true },
+                    orderBy: { _count: { normalizedQuery: "desc" } },
+                    take: limit,
+                }),
+            ]);
+
+        const previousQueries = await prisma.searchHistory.groupBy({
+            by: ["normalizedQuery"],
+            where: {
+                createdAt: { gte: previousStartDate, lt: startDate },
+                normalizedQuery: {
+                    in: topQueries.map((query) => query.normalizedQuery),
+                },
+            },
+            _count: { normalizedQuery: true },
+        });
+        const previousSearches = new Map(
+            previousQueries.map((query) => [
+                query.normalizedQuery,
+                query._count.normalizedQuery,
+            ])
+        );
+
+        return {
+            startDate,
+            endDate,
+            searches,
+            zeroResultSearches,
+            // Share of searches that found no products, in percent
+            zeroResultRate:
+                searches > 0
+                    ? Math.round((zeroResultSearches / searches) * 10000) / 100
+                    : 0,
+            trendingQueries: topQueries.map((query) => {
+                const count = query._count.normalizedQuery;
+                const previous =
+                    previousSearches.get(query.normalizedQuery) ?? 0;
+                return {
+                    query: query.normalizedQuery,
+                    searches: count,
+                    previousSearches: previous,
+                    // Change from the period before, in percent. Not set
+                    // for queries new in the period.
+                    change:
+                        previous > 0
+                            ? Math.round(
+                                  ((count - previous) / previous) * 10000
+                              ) / 100
+                            : null,
+                    averageResults:
+                        Math.round((query._avg.resultCount ?? 0) * 100) / 100,
+                };
+            }),
+            zeroResultQueries: zeroResultQueries.map((query) => ({
+                query: query.normalizedQuery,
+                searches: query._count.normalizedQuery,
+                lastSearchedAt: query._max.createdAt,
+            })),
+        };
+    }
+
+    // Get the latest distinct searches of a user starting with a text
+    private async getRecentSearches(userId: string, query: string) {
+        if (!(await this.isHistoryEnabled(userId))) {
+            return [];
+        }
+        const searches = await prisma.searchHistory.findMany({
+            where: { userId, normalizedQuery: { startsWith: query } },
+            select: { query: true },
+            orderBy: { createdAt: "desc" },
+            distinct: ["normalizedQuery"],
+            take: SEARCH_CONFIG.suggestionLimit,
+        });
+        return searches.map((search) => search.query);
+    }
+
+    // Check whether a user lets their searches be saved, which they do
+    // unless they turned it off in their settings
+    private async isHistoryEnabled(userId: string) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { settings: true },
+        });
+        return (
+            (user?.settings as { saveSearchHistory?: unknown } | null)
+                ?.saveSearchHistory !== false
+        );
+    }
+}
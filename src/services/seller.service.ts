@@ -1,7 +1,34 @@
 import { prisma } from "@/config/database";
-import { Seller } from "@prisma/client";
+import {
+    OrderItemStatus,
+    OrderStatus,
+    PaymentMethod,
+    PaymentStatus,
+    Prisma,
+    RefundReasonCode,
+    Seller,
+} from "@prisma/client";
+import { OrderService } from "./order.service";
+import { InventoryService } from "./inventory.service";
+import { NotificationService } from "./notification.service";
+import { paginate, PaginationParams } from "@/utils/pagination";
+import {
+    assertOrderItemStatusTransition,
+    canTransitionOrderStatus,
+    deriveFulfillmentGroupStatus,
+} from "@/utils/orderStatus";
 
 export class SellerService {
+    private orderService: OrderService;
+    private inventoryService: InventoryService;
+    private notificationService: NotificationService;
+
+    constructor() {
+        this.orderService = new OrderService();
+        this.inventoryService = new InventoryService();
+        this.notificationService = new NotificationService();
+    }
+
     // Create seller profile
     async createSellerProfile(data: {
         userId: string;
@@ -143,4 +170,342 @@ export class SellerService {
             averageRating,
         };
     }
+
+    // Get orders containing the seller's products
+    async getSellerOrders(
+        userId: string,
+        params: PaginationParams & {
+            status?: OrderStatus;
+            itemStatus?: OrderItemStatus;
+            startDate?: Date;
+            endDate?: Date;
+        } = {}
+    ) {
+        const { status, itemStatus, startDate, endDate, ...paginationParams } =
+            params;
+        const seller = await this.getSellerProfileByUserId(userId);
+
+        const itemWhere: Prisma.OrderItemWhereInput = {
+            product: { sellerId: seller.id },
+        };
+        if (itemStatus) itemWhere.status = itemStatus;
+
+        const where: Prisma.OrderWhereInput = {
+            items: { some: itemWhere },
+        };
+        if (status) {
+            where.fulfillmentGroups = {
+                some: { sellerId: seller.id, status },
+            };
+        }
+        if (startDate || endDate) {
+            where.createdAt = {};
+            if (startDate) where.createdAt.gte = startDate;
+            if (endDate) where.createdAt.lte = endDate;
+        }
+
+        return paginate(
+            (skip, take) =>
+                prisma.order.findMany({
+                    where,
+                    skip,
+                    take,
+                    include: this.getSellerOrderInclude(seller.id, itemWhere),
+                    orderBy: { createdAt: "desc" },
+                }),
+            () => prisma.order.count({ where }),
+            paginationParams
+        );
+    }
+
+    // Get a single order with only the seller's items
+    async getSellerOrder(userId: string, orderId: string) {
+        const seller = await this.getSellerProfileByUserId(userId);
+        const itemWhere: Prisma.OrderItemWhereInput = {
+            product: { sellerId: seller.id },
+        };
+
+        const order = await prisma.order.findFirst({
+            where: { id: orderId, items: { some: itemWhere } },
+            include: this.getSellerOrderInclude(seller.id, itemWhere),
+        });
+        if (!order) {
+            throw new Error("Order not found");
+        }
+        return order;
+    }
+
+    // Accept, reject, pack or ship the seller's items in an order
+    async updateOrderItemStatus(
+        userId: string,
+        orderId: string,
+        status: OrderItemStatus,
+        data: {
+            itemIds: string[];
+            reason?: string;
+            carrier?: string;
+            trackingNumber?: string;
+        }
+    ) {
+        const seller = await this.getSellerProfileByUserId(userId);
+        const itemIds = [...new Set(data.itemIds)];
+        let groupStatus: OrderStatus | undefined;
+
+        const updatedItems = await prisma.$transaction(async (tx) => {
+            const items = await tx.orderItem.findMany({
+                where: {
+                    id: { in: itemIds },
+                    orderId,
+                    product: { sellerId: seller.id },
+                },
+                include: {
+                    order: {
+                        select: {
+                            status: true,
+                            userId: true,
+                            paymentMethod: true,
+                            paymentStatus: true,
+                        },
+                    },
+                },
+            });
+            if (items.length !== itemIds.length) {
+                throw new Error("Order items not found");
+            }
+            const order = items[0].order;
+
+            // Items of cancelled or delivered orders can no longer change
+            const settled = (current: OrderStatus) =>
+                current === OrderStatus.CANCELLED ||
+                current === OrderStatus.DELIVERED;
+            const currentGroup = await tx.fulfillmentGroup.findUnique({
+                where: {
+                    orderId_sellerId: { orderId, sellerId: seller.id },
+                },
+                select: { status: true },
+            });
+            if (
+                items.some((item) => settled(item.order.status)) ||
+                (currentGroup && settled(currentGroup.status))
+            ) {
+                throw new Error(
+                    "Order has already been cancelled or delivered"
+                );
+            }
+
+            for (const item of items) {
+                assertOrderItemStatusTransition(item.status, status);
+            }
+
+            // Items are only prepared once they are paid for, or will be
+            // paid on delivery. Unpaid items can still be rejected.
+            const paid =
+                order.paymentStatus === PaymentStatus.COMPLETED ||
+                order.paymentMethod === PaymentMethod.CASH_ON_DELIVERY;
+            if (status !== OrderItemStatus.REJECTED && !paid) {
+                throw new Error("Order has not been paid yet");
+            }
+
+            const itemData: Prisma.OrderItemUpdateManyMutationInput = {
+                status,
+                ...(status === OrderItemStatus.REJECTED && {
+                    rejectionReason: data.reason,
+                }),
+                ...(status === OrderItemStatus.PACKED && {
+                    packedAt: new Date(),
+                }),
+                ...(status === OrderItemStatus.SHIPPED && {
+                    carrier: data.carrier,
+                    trackingNumber: data.trackingNumber,
+                    shippedAt: new Date(),
+                }),
+            };
+            for (const item of items) {
+                // Only move items still in the status they were read in
+                const updated = await tx.orderItem.updateMany({
+                    where: { id: item.id, status: item.status },
+                    data: itemData,
+                });
+                if (updated.count === 0) {
+                    throw new Error(
+                        "Order items have changed, please try again"
+                    );
+                }
+
+                // Rejected items go back into stock or release their reservation
+                if (status === OrderItemStatus.REJECTED) {
+                    await this.inventoryService.restockOrderItem(tx, item);
+                }
+            }
+
+            // Paid rejected items are refunded once the refund is approved
+            if (
+                status === OrderItemStatus.REJECTED &&
+                order.paymentStatus === PaymentStatus.COMPLETED
+            ) {
+                await tx.refundRequest.create({
+                    data: {
+                        orderId,
+                        userId: order.userId,
+                        reasonCode: RefundReasonCode.OTHER,
+                        reason: data.reason
+                            ? `Rejected by ${seller.businessName}: ${data.reason}`
+                            : `Rejected by ${seller.businessName}`,
+                        amount: items.reduce(
+                            (sum, item) => sum + item.grossAmount,
+                            0
+                        ),
+                        items: {
+                            create: items.map((item) => ({
+                                orderItemId: item.id,
+                                quantity: item.quantity,
+                                amount: item.grossAmount,
+                            })),
+                        },
+                    },
+                });
+            }
+
+            // Move the seller's fulfilment group along with its items
+            const group = await tx.fulfillmentGroup.findUnique({
+                where: {
+                    orderId_sellerId: { orderId, sellerId: seller.id },
+                },
+                include: { items: { select: { status: true } } },
+            });
+            if (group) {
+                const nextStatus = deriveFulfillmentGroupStatus(
+                    group.items.map((item) => item.status)
+                );
+                if (
+                    nextStatus &&
+                    nextStatus !== group.status &&
+                    canTransitionOrderStatus(group.status, nextStatus)
+                ) {
+                    await this.orderService.applyFulfillmentGroupStatus(
+                        tx,
+                        group.id,
+                        nextStatus,
+                        {
+                            changedById: userId,
+                            reason: data.reason,
+                            carrier: data.carrier,
+                            trackingNumber: data.trackingNumber,
+                        }
+                    );
+                    groupStatus = nextStatus;
+                }
+            }
+
+            return tx.orderItem.findMany({
+                where: { id: { in: itemIds } },
+                include: { product: true },
+            });
+        });
+
+        // Item changes that do not move the seller's part of the order
+        // along are only pushed to the socket rooms
+        await this.notificationService.sendOrderUpdate(
+            orderId,
+            groupStatus
+                ? { status: groupStatus, sellerName: seller.businessName }
+                : {}
+        );
+        return updatedItems;
+    }
+
+    // Render a printable packing slip for the seller's part of an order
+    async getPackingSlip(userId: string, orderId: string): Promise<string> {
+        const seller = await this.getSellerProfileByUserId(userId);
+        const order = await this.getSellerOrder(userId, orderId);
+        const items = order.items.filter(
+            (item) => item.status !== OrderItemStatus.REJECTED
+        );
+        const address = order.address;
+        const shipTo = [
+            address.street,
+            address.city,
+            address.state,
+            address.postalCode,
+            address.country,
+        ]
+            .filter(Boolean)
+            .map((line) => this.escapeHtml(line as string))
+            .join("<br>");
+
+        return `
+            <html>
+                <head><title>Packing slip ${order.id}</title></head>
+                <body>
+                    <h1>Packing Slip</h1>
+                    <p><strong>${this.escapeHtml(seller.businessName)}</strong></p>
+                    <p>Order ID: ${order.id}</p>
+                    <p>Order date: ${order.createdAt.toDateString()}</p>
+                    <h2>Ship to</h2>
+                    <p>
+                        ${this.escapeHtml(`${order.user.firstName} ${order.user.lastName}`)}<br>
+                        ${shipTo}
+                    </p>
+                    <h2>Items</h2>
+                    <table border="1" cellpadding="4" cellspacing="0">
+                        <tr><th>Product</th><th>Quantity</th><th>Status</th></tr>
+                        ${items
+                            .map(
+                                (item) => `
+                        <tr>
+                            <td>${this.escapeHtml(item.product.name)}</td>
+                            <td>${item.quantity}</td>
+                            <td>${item.status}</td>
+                        </tr>`
+                            )
+                            .join("")}
+                    </table>
+                </body>
+            </html>
+        `;
+    }
+
+    // Get the seller profile of a user or fail
+    private async getSellerProfileByUserId(userId: string): Promise<Seller> {
+        const seller = await prisma.seller.findUnique({ where: { userId } });
+        if (!seller) {
+            throw new Error("Seller profile not found");
+        }
+        return seller;
+    }
+
+    // Order relations visible to a seller
+    private getSellerOrderInclude(
+        sellerId: string,
+        itemWhere: Prisma.OrderItemWhereInput
+    ) {
+        return {
+            items: {
+                where: itemWhere,
+                include: { product: true },
+            },
+            fulfillmentGroups: {
+                where: { sellerId },
+            },
+            address: true,
+            user: {
+                select: {
+                    id: true,
+                    firstName: true,
+                    lastName: true,
+                    email: true,
+                    phoneNumber: true,
+                },
+            },
+        } satisfies Prisma.OrderInclude;
+    }
+
+    // Escape text placed in HTML documents
+    private escapeHtml(value: string): string {
+        return value
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;");
+    }
 }
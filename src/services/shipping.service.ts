@@ -0,0 +1,337 @@
+import { prisma } from "@/config/database";
+import {
+    RWANDA_DISTRICTS,
+    RWANDA_PROVINCES,
+    SHIPPING_COUNTRIES,
+} from "@/config/shipping";
+import {
+    Address,
+    Prisma,
+    ShippingRate,
+    ShippingRateBasis,
+    ShippingZone,
+} from "@prisma/client";
+
+// What the shipping price of an order depends on
+export interface ShippingParcel {
+    // Value of the items after discounts
+    orderValue: number;
+    // Total weight in kilograms
+    weight: number;
+    // Set when a free shipping coupon is applied
+    freeShipping?: boolean;
+}
+
+export interface ShippingOption {
+    rateId: string;
+    name: string;
+    zone: string;
+    price: number;
+    estimatedDays: number | null;
+}
+
+type ZoneInput = {
+    name: string;
+    provinces?: string[];
+    districts?: string[];
+    freeShippingThreshold?: number | null;
+    isActive?: boolean;
+};
+
+type RateInput = {
+    name: string;
+    basis: ShippingRateBasis;
+    minValue?: number;
+    maxValue?: number | null;
+    price: number;
+    estimatedDays?: number | null;
+};
+
+const normalize = (value?: string | null) => value?.trim().toLowerCase() ?? "";
+
+// Look up the official spelling of a province or district
+const canonicalName = (value: string, names: string[], label: string) => {
+    const name = names.find((n) => normalize(n) === normalize(value));
+    if (!name) {
+        throw new Error(`Unknown ${label}: ${value}`);
+    }
+    return name;
+};
+
+export class ShippingService {
+    // Create a delivery zone
+    async createZone(data: ZoneInput): Promise<ShippingZone> {
+        const existingZone = await prisma.shippingZone.findUnique({
+            where: { name: data.name },
+        });
+        if (existingZone) {
+            throw new Error("Shipping zone name already exists");
+        }
+
+        const areas = await this.resolveAreas(data);
+        return prisma.shippingZone.create({
+            data: { ...data, ...areas },
+        });
+    }
+
+    // Get delivery zones with their rates
+    async getZones() {
+        return prisma.shippingZone.findMany({
+            include: {
+                rates: { orderBy: [{ name: "asc" }, { minValue: "asc" }] },
+            },
+            orderBy: { name: "asc" },
+        });
+    }
+
+    // Get delivery zone by id
+    async getZoneById(zoneId: string) {
+        const zone = await prisma.shippingZone.findUnique({
+            where: { id: zoneId },
+            include: {
+                rates: { orderBy: [{ name: "asc" }, { minValue: "asc" }] },
+            },
+        });
+
+        if (!zone) {
+            throw new Error("Shipping zone not found");
+        }
+
+        return zone;
+    }
+
+    // Update a delivery zone
+    async updateZone(
+        zoneId: string,
+        data: Partial<ZoneInput>
+    ): Promise<ShippingZone> {
+        const zone = await this.getZoneById(zoneId);
+        const areas = await this.resolveAreas(
+            {
+                provinces: data.provinces ?? zone.provinces,
+                districts: data.districts ?? zone.districts,
+            },
+            zoneId
+        );
+
+        return prisma.shippingZone.update({
+            where: { id: zoneId },
+            data: { ...data, ...areas },
+        });
+    }
+
+    // Delete a delivery zone and its rates.
+    // Orders keep the shipping line they were placed with.
+    async deleteZone(zoneId: string) {
+        await this.getZoneById(zoneId);
+        await prisma.shippingZone.delete({
+            where: { id: zoneId },
+        });
+    }
+
+    // Add a rate to a delivery zone
+    async addRate(zoneId: string, data: RateInput): Promise<ShippingRate> {
+        await this.getZoneById(zoneId);
+        this.assertRateRange(data.minValue ?? 0, data.maxValue);
+
+        return prisma.shippingRate.create({
+            data: { ...data, zoneId },
+        });
+    }
+
+    // Update a rate
+    async updateRate(
+        rateId: string,
+        data: Partial<RateInput>
+    ): Promise<ShippingRate> {
+        const rate = await this.getRateById(rateId);
+        this.assertRateRange(
+            data.minValue ?? rate.minValue,
+            data.maxValue === undefined ? rate.maxValue : data.maxValue
+        );
+
+        return prisma.shippingRate.update({
+            where: { id: rateId },
+            data,
+        });
+    }
+
+    // Delete a rate
+    async deleteRate(rateId: string) {
+        await this.getRateById(rateId);
+        await prisma.shippingRate.delete({
+            where: { id: rateId },
+        });
+    }
+
+    // Get an address of the user to deliver to
+    async getDeliveryAddress(
+        userId: string,
+        addressId: string,
+        tx: Prisma.TransactionClient = prisma
+    ) {
+        const address = await tx.address.findFirst({
+            where: { id: addressId, userId },
+        });
+
+        if (!address) {
+            throw new Error("Address not found");
+        }
+
+        return address;
+    }
+
+    // Find the active zone that delivers to an address.
+    // A zone listing the district wins over a zone listing its province.
+    async findZoneForAddress(
+        address: Pick<Address, "city" | "state" | "country">,
+        tx: Prisma.TransactionClient = prisma
+    ) {
+        if (
+            address.country &&
+            !SHIPPING_COUNTRIES.includes(normalize(address.country))
+        ) {
+            throw new Error("We only deliver within Rwanda");
+        }
+
+        const zones = await tx.shippingZone.findMany({
+            where: { isActive: true },
+            include: { rates: true },
+        });
+
+        const places = [normalize(address.city), normalize(address.state)];
+        const byDistrict = zones.find((zone) =>
+            zone.districts.some((d) => places.includes(normalize(d)))
+        );
+        const zone =
+            byDistrict ||
+            zones.find((zone) =>
+                zone.provinces.some((p) => places.includes(normalize(p)))
+            );
+
+        if (!zone) {
+            throw new Error("We do not deliver to this address yet");
+        }
+
+        return zone;
+    }
+
+    // Get the delivery options for a parcel going to an address,
+    // cheapest first
+    async getShippingOptions(
+        address: Pick<Address, "city" | "state" | "country">,
+        parcel: ShippingParcel,
+        tx: Prisma.TransactionClient = prisma
+    ): Promise<ShippingOption[]> {
+        const zone = await this.findZoneForAddress(address, tx);
+        const freeShipping =
+            parcel.freeShipping ||
+            (zone.freeShippingThreshold !== null &&
+                parcel.orderValue >= zone.freeShippingThreshold);
+
+        const options = zone.rates
+            .filter((rate) => {
+                const value =
+                    rate.basis === ShippingRateBasis.WEIGHT
+                        ? parcel.weight
+                        : parcel.orderValue;
+                return (
+                    value >= rate.minValue &&
+                    (rate.maxValue === null || value < rate.maxValue)
+                );
+            })
+            .map((rate) => ({
+                rateId: rate.id,
+                name: rate.name,
+                zone: zone.name,
+                price: freeShipping ? 0 : rate.price,
+                estimatedDays: rate.estimatedDays,
+            }))
+            .sort((a, b) => a.price - b.price);
+
+        if (options.length === 0) {
+            throw new Error("No delivery option is available for this order");
+        }
+
+        return options;
+    }
+
+    // Pick the delivery option for an order, the cheapest one by default
+    async chooseShippingOption(
+        address: Pick<Address, "city" | "state" | "country">,
+        parcel: ShippingParcel,
+        rateId?: string,
+        tx: Prisma.TransactionClient = prisma
+    ): Promise<ShippingOption> {
+        const options = await this.getShippingOptions(address, parcel, tx);
+        if (!rateId) {
+            return options[0];
+        }
+
+        const option = options.find((o) => o.rateId === rateId);
+        if (!option) {
+            throw new Error(
+                "The selected delivery option is not available for this order"
+            );
+        }
+        return option;
+    }
+
+    private async getRateById(rateId: string) {
+        const rate = await prisma.shippingRate.findUnique({
+            where: { id: rateId },
+        });
+
+        if (!rate) {
+            throw new Error("Shipping rate not found");
+        }
+
+        return rate;
+    }
+
+    private assertRateRange(minValue: number, maxValue?: number | null) {
+        if (
+            maxValue !== undefined &&
+            maxValue !== null &&
+            maxValue <= minValue
+        ) {
+            throw new Error("Maximum value must be greater than minimum value");
+        }
+    }
+
+    // Use official province and district names and make sure no other
+    // zone already covers them
+    private async resolveAreas(
+        data: { provinces?: string[]; districts?: string[] },
+        zoneId?: string
+    ) {
+        const provinces = (data.provinces ?? []).map((p) =>
+            canonicalName(p, Object.keys(RWANDA_PROVINCES), "province")
+        );
+        const districts = (data.districts ?? []).map((d) =>
+            canonicalName(d, RWANDA_DISTRICTS, "district")
+        );
+        if (provinces.length === 0 && districts.length === 0) {
+            throw new Error(
+                "A zone must cover at least one province or district"
+            );
+        }
+
+        const overlapping = await prisma.shippingZone.findFirst({
+            where: {
+                id: zoneId ? { not: zoneId } : undefined,
+                OR: [
+                    { provinces: { hasSome: provinces } },
+                    { districts: { hasSome: districts } },
+                ],
+            },
+        });
+        if (overlapping) {
+            throw new Error(
+                `Some of these areas are already covered by zone ${overlapping.name}`
+            );
+        }
+
+        return { provinces, districts };
+    }
+}
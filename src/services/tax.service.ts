@@ -0,0 +1,36 @@
+import { prisma } from "@/config/database";
+import { TAX_CONFIG } from "@/config/tax";
+import { calculateTax, TaxBreakdown } from "@/utils/tax";
+import { Prisma } from "@prisma/client";
+
+export class TaxService {
+    // Get the VAT rate of each category. Categories without a rate use
+    // their parent's rate, then the default rate.
+    async getVatRates(
+        categoryIds: string[],
+        tx: Prisma.TransactionClient = prisma
+    ): Promise<Map<string, number>> {
+        const categories = await tx.category.findMany({
+            where: { id: { in: [...new Set(categoryIds)] } },
+            select: {
+                id: true,
+                vatRate: true,
+                parent: { select: { vatRate: true } },
+            },
+        });
+
+        return new Map(
+            categories.map((category) => [
+                category.id,
+                category.vatRate ??
+                    category.parent?.vatRate ??
+                    TAX_CONFIG.defaultVatRate,
+            ])
+        );
+    }
+
+    // Get the VAT breakdown of an order's delivery, taxed at the default rate
+    getShippingTax(shippingCost: number): TaxBreakdown {
+        return calculateTax(shippingCost, TAX_CONFIG.defaultVatRate);
+    }
+}
@@ -1,5 +1,6 @@
 import { prisma } from "@/config/database";
 import { User } from "@prisma/client";
+import { isSupportedCurrency } from "@/utils/money";
 import bcrypt from "bcryptjs";
 
 export class UserService {
@@ -335,11 +336,21 @@ export class UserService {
             currency?: string;
             theme?: "light" | "dark";
             timezone?: string;
+            // Searches are saved to the search history unless turned off
+            saveSearchHistory?: boolean;
         }
     ) {
+        // Prices are shown in this currency, so it needs to be one we know
+        if (settings.currency && !isSupportedCurrency(settings.currency)) {
+            throw new Error(`Unsupported currency: ${settings.currency}`);
+        }
         return prisma.user.update({
             where: { id: userId },
-            data: { settings },
+            data: {
+                settings: settings.currency
+                    ? { ...settings, currency: settings.currency.toUpperCase() }
+                    : settings,
+            },
         });
     }
 
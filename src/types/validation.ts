@@ -1,5 +1,8 @@
 import { z } from "zod";
 
+// Money amounts are whole numbers in the minor unit of the currency
+const amount = () => z.number().int("Amount must be in whole minor units");
+
 //User validation schemas
 export const registerSchema = z.object({
     email: z.string().email("Invalid email address"),
@@ -21,26 +24,122 @@ export const productSchema = z.object({
     description: z
         .string()
         .min(10, "Description must be at least 10 characters"),
-    price: z.number().positive("Price must be positive"),
+    price: amount().positive("Price must be positive"),
     stock: z.number().int().min(0, "Stock cannot be negative"),
     categoryId: z.string().uuid("Invalid category ID"),
     images: z.array(z.string().url("Invalid image URL")),
+    weight: z.number().positive("Weight must be positive").optional(),
+});
+
+// Product variant validation schemas
+export const productOptionsSchema = z.object({
+    options: z.array(
+        z.object({
+            name: z.string().min(1, "Option name is required"),
+            values: z
+                .array(z.string().min(1, "Option value is required"))
+                .nonempty("Option must have at least one value"),
+        })
+    ),
 });
 
+export const productVariantSchema = z.object({
+    sku: z.string().min(1, "SKU is required"),
+    options: z.record(z.string()),
+    price: amount().positive("Price must be positive"),
+    stock: z.number().int().min(0, "Stock cannot be negative"),
+    images: z.array(z.string().url("Invalid image URL")).optional(),
+    weight: z.number().positive("Weight must be positive").optional(),
+});
+
+export const updateProductVariantSchema = productVariantSchema
+    .extend({ isActive: z.boolean() })
+    .partial();
+
 // Order validation schema
 export const orderSchema = z.object({
     addressId: z.string().uuid("Invalid address ID"),
     items: z.array(
         z.object({
             productId: z.string().uuid("Invalid product ID"),
+            variantId: z.string().uuid("Invalid variant ID").optional(),
             quantity: z.number().int().positive("Quantity must be positive"),
         })
     ),
-    paymentMethod: z.enum(["STRIPE", "MOBILE_MONEY"], {
+    paymentMethod: z.enum(["CARD", "CASH_ON_DELIVERY", "MOBILE_MONEY"], {
         errorMap: () => ({ message: "Invalid payment method" }),
     }),
+    couponCode: z.string().min(1, "Coupon code is required").optional(),
+    shippingRateId: z.string().uuid("Invalid shipping rate ID").optional(),
+});
+
+// Checkout validation schema
+export const checkoutSchema = z.object({
+    addressId: z.string().uuid("Invalid address ID"),
+    paymentMethod: z.enum(["CARD", "CASH_ON_DELIVERY", "MOBILE_MONEY"], {
+        errorMap: () => ({ message: "Invalid payment method" }),
+    }),
+    productIds: z
+        .array(z.string().uuid("Invalid product ID"))
+        .nonempty("Select at least one product")
+        .optional(),
+    couponCode: z.string().min(1, "Coupon code is required").optional(),
+    shippingRateId: z.string().uuid("Invalid shipping rate ID").optional(),
+});
+
+// Coupon validation schemas
+const couponFields = z.object({
+    code: z
+        .string()
+        .regex(
+            /^[A-Za-z0-9_-]{3,32}$/,
+            "Code must be 3 to 32 letters, digits, dashes or underscores"
+        ),
+    description: z.string().optional(),
+    type: z.enum(["PERCENTAGE", "FIXED_AMOUNT", "FREE_SHIPPING"], {
+        errorMap: () => ({ message: "Invalid coupon type" }),
+    }),
+    value: z.number().min(0, "Value cannot be negative").optional(),
+    minBasket: amount().positive("Minimum basket must be positive").optional(),
+    usageLimit: z
+        .number()
+        .int()
+        .positive("Usage limit must be positive")
+        .optional(),
+    perUserLimit: z
+        .number()
+        .int()
+        .positive("Per user limit must be positive")
+        .optional(),
+    startsAt: z.coerce.date().optional(),
+    expiresAt: z.coerce.date().optional(),
+    isActive: z.boolean().optional(),
+    categoryIds: z.array(z.string().uuid("Invalid category ID")).optional(),
+    sellerIds: z.array(z.string().uuid("Invalid seller ID")).optional(),
 });
 
+export const couponSchema = couponFields
+    .refine((data) => data.type !== "PERCENTAGE" || (data.value ?? 0) <= 100, {
+        message: "Percentage cannot be more than 100",
+        path: ["value"],
+    })
+    .refine((data) => data.type === "FREE_SHIPPING" || (data.value ?? 0) > 0, {
+        message: "Value must be positive",
+        path: ["value"],
+    })
+    .refine(
+        (data) =>
+            data.type !== "FIXED_AMOUNT" || Number.isInteger(data.value ?? 0),
+        { message: "Amount must be in whole minor units", path: ["value"] }
+    )
+    .refine(
+        (data) =>
+            !data.startsAt || !data.expiresAt || data.startsAt < data.expiresAt,
+        { message: "Coupon must start before it expires", path: ["expiresAt"] }
+    );
+
+export const updateCouponSchema = couponFields.omit({ code: true }).partial();
+
 // Address validation schema
 export const addressSchema = z.object({
     street: z.string().optional(),
@@ -59,3 +158,78 @@ export const reviewSchema = z.object({
         .min(10, "Comment must be at least 10 characters")
         .optional(),
 });
+
+// Refund request validation schema
+export const refundRequestSchema = z.object({
+    orderId: z.string().uuid("Invalid order ID"),
+    reasonCode: z.enum(
+        [
+            "DAMAGED",
+            "WRONG_ITEM",
+            "NOT_AS_DESCRIBED",
+            "MISSING_PARTS",
+            "QUALITY_ISSUE",
+            "OTHER",
+        ],
+        {
+            errorMap: () => ({ message: "Invalid refund reason code" }),
+        }
+    ),
+    reason: z.string().min(10, "Reason must be at least 10 characters"),
+    photos: z
+        .array(z.string().url("Invalid photo URL"))
+        .max(5, "At most 5 photos can be attached")
+        .optional(),
+    items: z
+        .array(
+            z.object({
+                orderItemId: z.string().uuid("Invalid order item ID"),
+                quantity: z
+                    .number()
+                    .int()
+                    .positive("Quantity must be positive"),
+            })
+        )
+        .min(1, "At least one item is required"),
+});
+
+// Shipping validation schemas
+export const shippingZoneSchema = z.object({
+    name: z.string().min(2, "Zone name must be at least 2 characters"),
+    provinces: z.array(z.string()).optional(),
+    districts: z.array(z.string()).optional(),
+    freeShippingThreshold: amount()
+        .positive("Free shipping threshold must be positive")
+        .nullable()
+        .optional(),
+    isActive: z.boolean().optional(),
+});
+
+export const updateShippingZoneSchema = shippingZoneSchema.partial();
+
+export const shippingRateSchema = z.object({
+    name: z.string().min(2, "Rate name must be at least 2 characters"),
+    basis: z.enum(["WEIGHT", "ORDER_VALUE"], {
+        errorMap: () => ({ message: "Invalid rate basis" }),
+    }),
+    minValue: z.number().min(0, "Minimum value cannot be negative").optional(),
+    maxValue: z
+        .number()
+        .positive("Maximum value must be positive")
+        .nullable()
+        .optional(),
+    price: amount().min(0, "Price cannot be negative"),
+    estimatedDays: z
+        .number()
+        .int()
+        .positive("Estimated days must be positive")
+        .nullable()
+        .optional(),
+});
+
+export const updateShippingRateSchema = shippingRateSchema.partial();
+
+// Currency validation schemas
+export const exchangeRateSchema = z.object({
+    rate: z.number().positive("Exchange rate must be positive"),
+});
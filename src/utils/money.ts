@@ -0,0 +1,95 @@
+import { MONEY_CONFIG } from "@/config/money";
+
+// Money amounts are integers in the minor unit of their currency,
+// e.g. cents for USD and francs for RWF, which has no minor unit
+
+const getDecimals = (currency: string) => {
+    const decimals = MONEY_CONFIG.decimals[currency.toUpperCase()];
+    if (decimals === undefined) {
+        throw new Error(`Unsupported currency: ${currency}`);
+    }
+    return decimals;
+};
+
+// Whether amounts can be stored and shown in a currency
+export const isSupportedCurrency = (currency: string) =>
+    MONEY_CONFIG.decimals[currency.toUpperCase()] !== undefined;
+
+// Convert an amount in major units, e.g. 12.5 USD, to minor units (1250)
+export const toMinorUnits = (
+    amount: number,
+    currency: string = MONEY_CONFIG.currency
+) => Math.round(amount * 10 ** getDecimals(currency));
+
+// Convert an amount in minor units to major units
+export const fromMinorUnits = (
+    amount: number,
+    currency: string = MONEY_CONFIG.currency
+) => amount / 10 ** getDecimals(currency);
+
+// Percentage of an amount, rounded to the minor unit
+export const percentOf = (amount: number, percent: number) =>
+    Math.round((amount * percent) / 100);
+
+// Split an amount in proportion to weights. The shares are whole minor
+// units and add up to the amount; leftover units go to the largest
+// remainders.
+export const allocate = (amount: number, weights: number[]): number[] => {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (total === 0) {
+        return weights.map(() => 0);
+    }
+
+    const exact = weights.map((weight) => (amount * weight) / total);
+    const shares = exact.map(Math.floor);
+    let leftover = amount - shares.reduce((sum, share) => sum + share, 0);
+    const byRemainder = exact
+        .map((value, index) => ({ index, remainder: value - shares[index] }))
+        .sort((a, b) => b.remainder - a.remainder);
+    for (const { index } of byRemainder) {
+        if (leftover <= 0) {
+            break;
+        }
+        shares[index] += 1;
+        leftover -= 1;
+    }
+    return shares;
+};
+
+// Convert an amount in minor units of the base currency to another
+// currency for display, rounded with the rule of that currency
+export const convertAmount = (
+    amount: number,
+    rate: number,
+    currency: string
+) => {
+    const { increment, mode } = MONEY_CONFIG.displayRounding[
+        currency.toUpperCase()
+    ] ?? { increment: 1, mode: "nearest" };
+    const converted =
+        fromMinorUnits(amount) * rate * 10 ** getDecimals(currency);
+    // Trim float noise first so exact multiples are not rounded up
+    const steps = Number((converted / increment).toFixed(6));
+    const round =
+        mode === "up" ? Math.ceil : mode === "down" ? Math.floor : Math.round;
+    return round(steps) * increment;
+};
+
+// Format an amount in minor units as a number in major units,
+// e.g. "12,500" for RWF or "12.50" for USD
+export const formatAmount = (
+    amount: number,
+    currency: string = MONEY_CONFIG.currency
+) => {
+    const decimals = getDecimals(currency);
+    return fromMinorUnits(amount, currency).toLocaleString("en-US", {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+    });
+};
+
+// Format an amount in minor units with its currency, e.g. "12,500 RWF"
+export const formatMoney = (
+    amount: number,
+    currency: string = MONEY_CONFIG.currency
+) => `${formatAmount(amount, currency)} ${currency.toUpperCase()}`;
@@ -0,0 +1,25 @@
+import { Prisma, UserRole } from "@prisma/client";
+
+// Filter for an order a user may see: customers see their own orders,
+// sellers also the orders with their products, and admins all orders
+export const getOrderAccessFilter = (
+    orderId: string,
+    viewer: { userId: string; role: UserRole }
+): Prisma.OrderWhereInput => {
+    const where: Prisma.OrderWhereInput = { id: orderId };
+    if (viewer.role === UserRole.CUSTOMER) {
+        where.userId = viewer.userId;
+    } else if (viewer.role === UserRole.SELLER) {
+        where.OR = [
+            { userId: viewer.userId },
+            {
+                items: {
+                    some: {
+                        product: { seller: { userId: viewer.userId } },
+                    },
+                },
+            },
+        ];
+    }
+    return where;
+};
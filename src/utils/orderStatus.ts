@@ -0,0 +1,113 @@
+import { OrderItemStatus, OrderStatus } from "@prisma/client";
+
+// Allowed order status transitions
+// DELIVERED and CANCELLED are final states
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    [OrderStatus.PENDING]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
+    [OrderStatus.PROCESSING]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+    [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED],
+    [OrderStatus.DELIVERED]: [],
+    [OrderStatus.CANCELLED]: [],
+};
+
+// Check if an order can move from one status to another
+export const canTransitionOrderStatus = (
+    from: OrderStatus,
+    to: OrderStatus
+): boolean => {
+    return ORDER_STATUS_TRANSITIONS[from].includes(to);
+};
+
+// Throw if an order cannot move from one status to another
+export const assertOrderStatusTransition = (
+    from: OrderStatus,
+    to: OrderStatus
+) => {
+    if (!canTransitionOrderStatus(from, to)) {
+        throw new Error(`Cannot change order status from ${from} to ${to}`);
+    }
+};
+
+// Order in which an active order moves through its lifecycle
+const ORDER_STATUS_PROGRESS: OrderStatus[] = [
+    OrderStatus.PENDING,
+    OrderStatus.PROCESSING,
+    OrderStatus.SHIPPED,
+    OrderStatus.DELIVERED,
+];
+
+// Roll up fulfilment group statuses into an overall order status
+// The order is as far along as its least advanced active group;
+// it is only CANCELLED when every group is cancelled
+export const rollupOrderStatus = (statuses: OrderStatus[]): OrderStatus => {
+    const active = statuses.filter(
+        (status) => status !== OrderStatus.CANCELLED
+    );
+    if (active.length === 0) {
+        return OrderStatus.CANCELLED;
+    }
+
+    return active.reduce((least, status) =>
+        ORDER_STATUS_PROGRESS.indexOf(status) <
+        ORDER_STATUS_PROGRESS.indexOf(least)
+            ? status
+            : least
+    );
+};
+
+// Get the statuses that are allowed to move to the given status
+export const getOrderStatusesLeadingTo = (to: OrderStatus): OrderStatus[] => {
+    return (Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[]).filter(
+        (from) => canTransitionOrderStatus(from, to)
+    );
+};
+
+// Allowed order item transitions while a seller fulfils an order
+export const ORDER_ITEM_STATUS_TRANSITIONS: Record<
+    OrderItemStatus,
+    OrderItemStatus[]
+> = {
+    [OrderItemStatus.PENDING]: [
+        OrderItemStatus.ACCEPTED,
+        OrderItemStatus.REJECTED,
+    ],
+    [OrderItemStatus.ACCEPTED]: [
+        OrderItemStatus.PACKED,
+        OrderItemStatus.SHIPPED,
+    ],
+    [OrderItemStatus.PACKED]: [OrderItemStatus.SHIPPED],
+    [OrderItemStatus.SHIPPED]: [],
+    [OrderItemStatus.REJECTED]: [],
+};
+
+// Throw if an order item cannot move from one status to another
+export const assertOrderItemStatusTransition = (
+    from: OrderItemStatus,
+    to: OrderItemStatus
+) => {
+    if (!ORDER_ITEM_STATUS_TRANSITIONS[from].includes(to)) {
+        throw new Error(
+            `Cannot change order item status from ${from} to ${to}`
+        );
+    }
+};
+
+// Derive a fulfilment group status from the statuses of its items
+// Returns null while the seller still has items to accept or reject
+export const deriveFulfillmentGroupStatus = (
+    statuses: OrderItemStatus[]
+): OrderStatus | null => {
+    const active = statuses.filter(
+        (status) => status !== OrderItemStatus.REJECTED
+    );
+    if (active.length === 0) {
+        return OrderStatus.CANCELLED;
+    }
+    if (active.every((status) => status === OrderItemStatus.SHIPPED)) {
+        return OrderStatus.SHIPPED;
+    }
+    if (active.some((status) => status === OrderItemStatus.PENDING)) {
+        return null;
+    }
+    return OrderStatus.PROCESSING;
+};
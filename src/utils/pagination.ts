@@ -22,16 +22,29 @@ export const paginate = async <T>(
     findManyFn: (skip: number, take: number) => Promise<T[]>,
     countFn: () => Promise<number>,
     params: PaginationParams = {}
+): Promise<PaginatedRsponse<T>> =>
+    paginatePage(async (skip, take) => {
+        //Get data and total count in parallel
+        const [data, total] = await Promise.all([
+            findManyFn(skip, take),
+            countFn(),
+        ]);
+        return { data, total };
+    }, params);
+
+// Paginate with a query that returns the page and the total together
+export const paginatePage = async <T>(
+    findPageFn: (
+        skip: number,
+        take: number
+    ) => Promise<{ data: T[]; total: number }>,
+    params: PaginationParams = {}
 ): Promise<PaginatedRsponse<T>> => {
     const page = params.page || DEFAULT_PAGE;
     const limit = params.limit || DEFAULT_LIMIT;
     const skip = (page - 1) * limit;
 
-    //Get data and total count in parallel
-    const [data, total] = await Promise.all([
-        findManyFn(skip, limit),
-        countFn(),
-    ]);
+    const { data, total } = await findPageFn(skip, limit);
 
     const totalPages = Math.ceil(total / limit);
 
@@ -0,0 +1,179 @@
+// Minimal PDF writer for text documents such as invoices.
+// It uses the standard Helvetica fonts, so no font files are embedded.
+
+export type PdfFont = "regular" | "bold";
+
+export interface PdfTextOptions {
+    size?: number;
+    font?: PdfFont;
+    // Right aligned text ends at x
+    align?: "left" | "right";
+}
+
+// A4 in points
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+const FONT_NAMES: Record<PdfFont, string> = {
+    regular: "Helvetica",
+    bold: "Helvetica-Bold",
+};
+
+const FONT_KEYS: Record<PdfFont, string> = {
+    regular: "F1",
+    bold: "F2",
+};
+
+// Glyph widths of printable ASCII characters (space to ~), per 1000 units
+// of font size, from the standard Helvetica font metrics
+// prettier-ignore
+const GLYPH_WIDTHS: Record<PdfFont, number[]> = {
+    regular: [
+        278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333,
+        278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278,
+        584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278,
+        500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944,
+        667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556,
+        278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500,
+        278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+    ],
+    bold: [
+        278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333,
+        278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333,
+        584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278,
+        556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944,
+        667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556,
+        333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556,
+        333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+    ],
+};
+
+// Keep characters the standard fonts can show
+const toLatin1 = (value: string) =>
+    value
+        .replace(/[‘’]/g, "'")
+        .replace(/[“”]/g, '"')
+        .replace(/[–—]/g, "-")
+        .replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+
+const escapeText = (value: string) =>
+    toLatin1(value).replace(/[\\()]/g, (char) => `\\${char}`);
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+export class PdfDocument {
+    private pages: string[][] = [[]];
+
+    constructor(private title?: string) {}
+
+    get pageCount() {
+        return this.pages.length;
+    }
+
+    addPage() {
+        this.pages.push([]);
+    }
+
+    // Width of a text in points
+    textWidth(value: string, size = 10, font: PdfFont = "regular") {
+        let width = 0;
+        for (const char of toLatin1(value)) {
+            const code = char.charCodeAt(0);
+            width += GLYPH_WIDTHS[font][code - 32] ?? 556;
+        }
+        return (width * size) / 1000;
+    }
+
+    // Shorten a text with an ellipsis so it fits into a width
+    fitText(
+        value: string,
+        maxWidth: number,
+        size = 10,
+        font: PdfFont = "regular"
+    ) {
+        if (this.textWidth(value, size, font) <= maxWidth) {
+            return value;
+        }
+        let fitted = value;
+        while (
+            fitted.length > 0 &&
+            this.textWidth(`${fitted}...`, size, font) > maxWidth
+        ) {
+            fitted = fitted.slice(0, -1);
+        }
+        return `${fitted.trimEnd()}...`;
+    }
+
+    // Write text on the current page. y is the baseline, from the top.
+    text(x: number, y: number, value: string, options: PdfTextOptions = {}) {
+        const size = options.size ?? 10;
+        const font = options.font ?? "regular";
+        const left =
+            options.align === "right"
+                ? x - this.textWidth(value, size, font)
+                : x;
+        this.currentPage.push(
+            `BT /${FONT_KEYS[font]} ${size} Tf ${formatNumber(left)} ${formatNumber(
+                PDF_PAGE_HEIGHT - y
+            )} Td (${escapeText(value)}) Tj ET`
+        );
+    }
+
+    // Draw a line on the current page, in points from the top left corner
+    line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+        this.currentPage.push(
+            `${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(
+                PDF_PAGE_HEIGHT - y1
+            )} m ${formatNumber(x2)} ${formatNumber(PDF_PAGE_HEIGHT - y2)} l S`
+        );
+    }
+
+    toBuffer(): Buffer {
+        const objects: string[] = [];
+        const fontIds: Record<PdfFont, number> = { regular: 3, bold: 4 };
+        const firstPageId = 6;
+        const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+        objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+        objects[2] = `<< /Type /Pages /Kids [${pageIds
+            .map((id) => `${id} 0 R`)
+            .join(" ")}] /Count ${pageIds.length} >>`;
+        for (const font of Object.keys(fontIds) as PdfFont[]) {
+            objects[fontIds[font]] =
+                `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`;
+        }
+        objects[5] = `<< /Title (${escapeText(this.title ?? "")}) /Producer (Esoko) >>`;
+
+        this.pages.forEach((content, index) => {
+            const pageId = pageIds[index];
+            const stream = content.join("\n");
+            objects[pageId] =
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+                `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+            objects[pageId + 1] =
+                `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+        });
+
+        // Objects are written in order and the cross-reference table
+        // points at the byte offset of each one
+        let output = "%PDF-1.4\n";
+        const offsets: number[] = [];
+        for (let id = 1; id < objects.length; id++) {
+            offsets[id] = Buffer.byteLength(output, "latin1");
+            output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+        }
+
+        const xrefOffset = Buffer.byteLength(output, "latin1");
+        output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+        for (let id = 1; id < objects.length; id++) {
+            output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+        }
+        output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+        return Buffer.from(output, "latin1");
+    }
+
+    private get currentPage() {
+        return this.pages[this.pages.length - 1];
+    }
+}
@@ -0,0 +1,35 @@
+import { TAX_CONFIG } from "@/config/tax";
+
+export interface TaxBreakdown {
+    taxRate: number;
+    netAmount: number;
+    taxAmount: number;
+    grossAmount: number;
+}
+
+// Split an amount in minor units into net, VAT and gross at a rate in
+// percent. Amounts are taken as gross when prices include VAT and as net
+// otherwise. VAT is rounded to the minor unit.
+export const calculateTax = (
+    amount: number,
+    taxRate: number,
+    pricesIncludeTax: boolean = TAX_CONFIG.pricesIncludeTax
+): TaxBreakdown => {
+    if (pricesIncludeTax) {
+        const netAmount = Math.round(amount / (1 + taxRate / 100));
+        return {
+            taxRate,
+            netAmount,
+            taxAmount: amount - netAmount,
+            grossAmount: amount,
+        };
+    }
+
+    const taxAmount = Math.round((amount * taxRate) / 100);
+    return {
+        taxRate,
+        netAmount: amount,
+        taxAmount,
+        grossAmount: amount + taxAmount,
+    };
+};
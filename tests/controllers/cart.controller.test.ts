@@ -1,15 +1,18 @@
 import { CartController } from "@/controllers/cart.controller";
 import { CartService } from "@/services/cart.service";
+import { CartReminderService } from "@/services/cartReminder.service";
 import { Request, Response } from "express";
 import { UserRole } from "@prisma/client";
 
 jest.mock("@/services/cart.service");
+jest.mock("@/services/cartReminder.service");
 
 describe("CartController", () => {
     let cartController: CartController;
     let mockRequest: Partial<Request>;
     let mockResponse: Partial<Response>;
     let mockCartService: jest.Mocked<CartService>;
+    let mockCartReminderService: jest.Mocked<CartReminderService>;
 
     beforeEach(() => {
         mockRequest = {};
@@ -19,6 +22,11 @@ describe("CartController", () => {
         };
         mockCartService = new CartService() as jest.Mocked<CartService>;
         (CartService as jest.Mock).mockImplementation(() => mockCartService);
+        mockCartReminderService =
+            new CartReminderService() as jest.Mocked<CartReminderService>;
+        (CartReminderService as jest.Mock).mockImplementation(
+            () => mockCartReminderService
+        );
         cartController = new CartController();
     });
 
@@ -29,19 +37,24 @@ describe("CartController", () => {
                     id: "cart1",
                     userId: "user1",
                     productId: "p1",
+                    variantId: null,
                     quantity: 1,
                     createdAt: new Date(),
                     updatedAt: new Date(),
+                    variant: null,
                     product: {
                         id: "p1",
                         name: "Test Product",
                         description: "Test Description",
-                        price: 99.99,
+                        price: 9999,
+                        currency: "RWF",
                         stock: 100,
                         categoryId: "cat1",
                         sellerId: "seller1",
                         images: [],
+                        weight: null,
                         isActive: true,
+                        hasVariants: false,
                         createdAt: new Date(),
                         updatedAt: new Date(),
                         category: {
@@ -49,6 +62,7 @@ describe("CartController", () => {
                             name: "Test Category",
                             description: null,
                             image: null,
+                            vatRate: null,
                             parentId: null,
                             createdAt: new Date(),
                             updatedAt: new Date(),
@@ -99,19 +113,24 @@ describe("CartController", () => {
                 id: "cart1",
                 userId: "user1",
                 productId: "p1",
+                variantId: null,
                 quantity: 1,
                 createdAt: new Date(),
                 updatedAt: new Date(),
+                variant: null,
                 product: {
                     id: "p1",
                     name: "Test Product",
                     description: "Test Description",
-                    price: 99.99,
+                    price: 9999,
+                    currency: "RWF",
                     stock: 100,
                     categoryId: "cat1",
                     sellerId: "seller1",
                     images: [],
+                    weight: null,
                     isActive: true,
+                    hasVariants: false,
                     createdAt: new Date(),
                     updatedAt: new Date(),
                 },
@@ -151,19 +170,24 @@ describe("CartController", () => {
                 id: "cart1",
                 userId: "user1",
                 productId: "p1",
+                variantId: null,
                 quantity: 2,
                 createdAt: new Date(),
                 updatedAt: new Date(),
+                variant: null,
                 product: {
                     id: "p1",
                     name: "Test Product",
                     description: "Test Description",
-                    price: 99.99,
+                    price: 9999,
+                    currency: "RWF",
                     stock: 100,
                     categoryId: "cat1",
                     sellerId: "seller1",
                     images: [],
+                    weight: null,
                     isActive: true,
+                    hasVariants: false,
                     createdAt: new Date(),
                     updatedAt: new Date(),
                 },
@@ -204,6 +228,7 @@ describe("CartController", () => {
                 id: "cart1",
                 userId: "user1",
                 productId: "p1",
+                variantId: null,
                 quantity: 1,
                 createdAt: new Date(),
                 updatedAt: new Date(),
@@ -215,10 +240,16 @@ describe("CartController", () => {
                 role: UserRole.CUSTOMER,
             };
             mockRequest.params = { productId: "p1" };
+            mockRequest.query = { variantId: "v1" };
             await cartController.removeFromCart(
                 mockRequest as Request,
                 mockResponse as Response
             );
+            expect(mockCartService.removeFromCart).toHaveBeenCalledWith(
+                "user1",
+                "p1",
+                "v1"
+            );
             expect(mockResponse.json).toHaveBeenCalledWith({
                 message: "Item removed from cart",
             });
@@ -270,4 +301,51 @@ describe("CartController", () => {
             expect(mockResponse.status).toHaveBeenCalledWith(400);
         });
     });
+
+    describe("getAbandonedCartReport", () => {
+        it("should return the report for the period", async () => {
+            const mockReport = {
+                startDate: new Date("2026-10-01"),
+                endDate: new Date("2026-10-31"),
+                currency: "RWF",
+                abandonedCarts: 12,
+                abandonedCartValue: 480000,
+                remindersSent: 40,
+                remindedCartValue: 1600000,
+                recoveredCarts: 6,
+                recoveredRevenue: 250000,
+                recoveryRate: 15,
+            };
+            mockRequest = {
+                query: { startDate: "2026-10-01", endDate: "2026-10-31" },
+            };
+            mockCartReminderService.getAbandonedCartReport.mockResolvedValue(
+                mockReport
+            );
+
+            await cartController.getAbandonedCartReport(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(
+                mockCartReminderService.getAbandonedCartReport
+            ).toHaveBeenCalledWith({
+                startDate: new Date("2026-10-01"),
+                endDate: new Date("2026-10-31"),
+            });
+            expect(mockResponse.json).toHaveBeenCalledWith(mockReport);
+        });
+
+        it("should reject an invalid date", async () => {
+            mockRequest = { query: { startDate: "yesterday" } };
+
+            await cartController.getAbandonedCartReport(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+        });
+    });
 });
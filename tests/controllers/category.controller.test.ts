@@ -34,6 +34,7 @@ describe("CategoryController", () => {
                     name: "Cat1",
                     description: null,
                     image: null,
+                    vatRate: null,
                     parentId: null,
                 },
             ];
@@ -67,6 +68,7 @@ describe("CategoryController", () => {
                 name: "Cat1",
                 description: null,
                 image: null,
+                vatRate: null,
                 parentId: null,
             };
             mockCategoryService.getCategoryById.mockResolvedValue(mockCategory);
@@ -99,6 +101,7 @@ describe("CategoryController", () => {
                 name: "Cat1",
                 description: null,
                 image: null,
+                vatRate: null,
                 parentId: null,
             };
             mockCategoryService.createCategory.mockResolvedValue(mockCategory);
@@ -132,6 +135,7 @@ describe("CategoryController", () => {
                 name: "Cat1 Updated",
                 description: null,
                 image: null,
+                vatRate: null,
                 parentId: null,
             };
             mockCategoryService.updateCategory.mockResolvedValue(mockCategory);
@@ -0,0 +1,152 @@
+import { CouponController } from "@/controllers/coupon.controller";
+import { CouponService } from "@/services/coupon.service";
+import { Request, Response } from "express";
+import { CouponType } from "@prisma/client";
+
+jest.mock("@/services/coupon.service");
+
+describe("CouponController", () => {
+    let couponController: CouponController;
+    let mockRequest: Partial<Request>;
+    let mockResponse: Partial<Response>;
+    let mockCouponService: jest.Mocked<CouponService>;
+
+    const mockCoupon = {
+        id: "coupon123",
+        code: "SAVE10",
+        description: null,
+        type: CouponType.PERCENTAGE,
+        value: 10,
+        minBasket: null,
+        usageLimit: null,
+        perUserLimit: null,
+        usageCount: 0,
+        startsAt: null,
+        expiresAt: null,
+        isActive: true,
+        categoryIds: [],
+        sellerIds: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    beforeEach(() => {
+        mockRequest = { params: {}, query: {}, body: {} };
+        mockResponse = {
+            status: jest.fn().mockReturnThis(),
+            json: jest.fn(),
+        };
+        mockCouponService = new CouponService() as jest.Mocked<CouponService>;
+        (CouponService as jest.Mock).mockImplementation(
+            () => mockCouponService
+        );
+        couponController = new CouponController();
+    });
+
+    describe("createCoupon", () => {
+        it("should create a coupon", async () => {
+            mockRequest.body = {
+                code: "SAVE10",
+                type: CouponType.PERCENTAGE,
+                value: 10,
+            };
+            mockCouponService.createCoupon.mockResolvedValue(mockCoupon);
+
+            await couponController.createCoupon(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockCouponService.createCoupon).toHaveBeenCalledWith(
+                mockRequest.body
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(201);
+            expect(mockResponse.json).toHaveBeenCalledWith(mockCoupon);
+        });
+
+        it("should handle error", async () => {
+            mockCouponService.createCoupon.mockRejectedValue(
+                new Error("Coupon code already exists")
+            );
+
+            await couponController.createCoupon(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Coupon code already exists",
+            });
+        });
+    });
+
+    describe("getCoupons", () => {
+        it("should filter coupons by active flag", async () => {
+            const page = {
+                data: [mockCoupon],
+                total: 1,
+                page: 1,
+                limit: 10,
+                totalPages: 1,
+                hasNextPage: false,
+                hasPreviousPage: false,
+            };
+            mockRequest.query = { isActive: "false" };
+            mockCouponService.getCoupons.mockResolvedValue(page);
+
+            await couponController.getCoupons(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockCouponService.getCoupons).toHaveBeenCalledWith({
+                page: 1,
+                limit: 10,
+                isActive: false,
+            });
+            expect(mockResponse.json).toHaveBeenCalledWith(page);
+        });
+    });
+
+    describe("deactivateCoupon", () => {
+        it("should deactivate the coupon", async () => {
+            mockRequest.params = { couponId: "coupon123" };
+            mockCouponService.deactivateCoupon.mockResolvedValue({
+                ...mockCoupon,
+                isActive: false,
+            });
+
+            await couponController.deactivateCoupon(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockCouponService.deactivateCoupon).toHaveBeenCalledWith(
+                "coupon123"
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith(
+                expect.objectContaining({ isActive: false })
+            );
+        });
+    });
+
+    describe("announceCoupon", () => {
+        it("should return how many customers were notified", async () => {
+            mockRequest.params = { couponId: "coupon123" };
+            mockRequest.body = { message: "10% off this weekend" };
+            mockCouponService.announceCoupon.mockResolvedValue(3);
+
+            await couponController.announceCoupon(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockCouponService.announceCoupon).toHaveBeenCalledWith(
+                "coupon123",
+                "10% off this weekend"
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith({ recipients: 3 });
+        });
+    });
+});
@@ -0,0 +1,101 @@
+import { CurrencyController } from "@/controllers/currency.controller";
+import { CurrencyService } from "@/services/currency.service";
+import { Request, Response } from "express";
+
+jest.mock("@/services/currency.service");
+
+describe("CurrencyController", () => {
+    let currencyController: CurrencyController;
+    let mockRequest: Partial<Request>;
+    let mockResponse: Partial<Response>;
+    let mockCurrencyService: jest.Mocked<CurrencyService>;
+
+    const mockRate = {
+        id: "rate123",
+        currency: "USD",
+        rate: 0.00075,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    beforeEach(() => {
+        mockRequest = { params: {}, query: {}, body: {} };
+        mockResponse = {
+            status: jest.fn().mockReturnThis(),
+            json: jest.fn(),
+        };
+        mockCurrencyService =
+            new CurrencyService() as jest.Mocked<CurrencyService>;
+        (CurrencyService as jest.Mock).mockImplementation(
+            () => mockCurrencyService
+        );
+        currencyController = new CurrencyController();
+    });
+
+    describe("getRates", () => {
+        it("should return the exchange rates", async () => {
+            mockCurrencyService.getRates.mockResolvedValue([mockRate]);
+
+            await currencyController.getRates(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.json).toHaveBeenCalledWith([mockRate]);
+        });
+    });
+
+    describe("setRate", () => {
+        it("should set the exchange rate of a currency", async () => {
+            mockRequest.params = { currency: "USD" };
+            mockRequest.body = { rate: 0.00075 };
+            mockCurrencyService.setRate.mockResolvedValue(mockRate);
+
+            await currencyController.setRate(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockCurrencyService.setRate).toHaveBeenCalledWith(
+                "USD",
+                0.00075
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith(mockRate);
+        });
+
+        it("should handle error", async () => {
+            mockRequest.params = { currency: "XYZ" };
+            mockRequest.body = { rate: 1 };
+            mockCurrencyService.setRate.mockRejectedValue(
+                new Error("Unsupported currency: XYZ")
+            );
+
+            await currencyController.setRate(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Unsupported currency: XYZ",
+            });
+        });
+    });
+
+    describe("deleteRate", () => {
+        it("should delete the exchange rate of a currency", async () => {
+            mockRequest.params = { currency: "USD" };
+            mockCurrencyService.deleteRate.mockResolvedValue(mockRate);
+
+            await currencyController.deleteRate(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockCurrencyService.deleteRate).toHaveBeenCalledWith("USD");
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Exchange rate deleted successfully",
+            });
+        });
+    });
+});
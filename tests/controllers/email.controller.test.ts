@@ -1,6 +1,7 @@
 import { EmailController } from "@/controllers/email.controller";
 import { EmailService } from "@/services/email.service";
 import { Request, Response } from "express";
+import { UserRole } from "@prisma/client";
 
 jest.mock("@/services/email.service");
 
@@ -11,6 +12,7 @@ describe("EmailController", () => {
     let mockEmailService: jest.Mocked<EmailService>;
 
     beforeEach(() => {
+        jest.clearAllMocks();
         mockRequest = {};
         mockResponse = {
             status: jest.fn().mockReturnThis(),
@@ -51,4 +53,39 @@ describe("EmailController", () => {
             expect(mockResponse.status).toHaveBeenCalledWith(400);
         });
     });
+
+    describe("sendOrderConfirmationEmail", () => {
+        it("should send the confirmation of the user's order", async () => {
+            mockEmailService.sendOrderConfirmationEmail.mockResolvedValue(
+                undefined
+            );
+            mockRequest.user = {
+                userId: "user123",
+                email: "test@example.com",
+                role: UserRole.CUSTOMER,
+            };
+            mockRequest.body = { userId: "user456", orderId: "order123" };
+            await emailController.sendOrderConfirmationEmail(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(
+                mockEmailService.sendOrderConfirmationEmail
+            ).toHaveBeenCalledWith("user123", "order123");
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Order confirmation email sent successfully",
+            });
+        });
+        it("should require a signed in user", async () => {
+            mockRequest.body = { orderId: "order123" };
+            await emailController.sendOrderConfirmationEmail(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(401);
+            expect(
+                mockEmailService.sendOrderConfirmationEmail
+            ).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -0,0 +1,91 @@
+import { InventoryController } from "@/controllers/inventory.controller";
+import { InventoryService } from "@/services/inventory.service";
+import { Request, Response } from "express";
+
+jest.mock("@/services/inventory.service");
+
+describe("InventoryController", () => {
+    let inventoryController: InventoryController;
+    let mockRequest: Partial<Request>;
+    let mockResponse: Partial<Response>;
+    let mockInventoryService: jest.Mocked<InventoryService>;
+
+    const emptyPage = {
+        data: [],
+        total: 0,
+        page: 2,
+        limit: 5,
+        totalPages: 0,
+        hasNextPage: false,
+        hasPreviousPage: true,
+    };
+
+    beforeEach(() => {
+        mockRequest = { params: {}, query: {} };
+        mockResponse = {
+            status: jest.fn().mockReturnThis(),
+            json: jest.fn(),
+        };
+        mockInventoryService =
+            new InventoryService() as jest.Mocked<InventoryService>;
+        (InventoryService as jest.Mock).mockImplementation(
+            () => mockInventoryService
+        );
+        inventoryController = new InventoryController();
+    });
+
+    describe("getReservedProducts", () => {
+        it("should return reserved products", async () => {
+            mockRequest.query = { page: "2", limit: "5" };
+            mockInventoryService.getReservedProducts.mockResolvedValue(
+                emptyPage
+            );
+
+            await inventoryController.getReservedProducts(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(
+                mockInventoryService.getReservedProducts
+            ).toHaveBeenCalledWith({ page: 2, limit: 5 });
+            expect(mockResponse.json).toHaveBeenCalledWith(emptyPage);
+        });
+
+        it("should handle error", async () => {
+            mockInventoryService.getReservedProducts.mockRejectedValue(
+                new Error("Database error")
+            );
+
+            await inventoryController.getReservedProducts(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Database error",
+            });
+        });
+    });
+
+    describe("getProductReservations", () => {
+        it("should return the product's reservations", async () => {
+            mockRequest.params = { productId: "prod123" };
+            mockRequest.query = { page: "2", limit: "5" };
+            mockInventoryService.getProductReservations.mockResolvedValue(
+                emptyPage
+            );
+
+            await inventoryController.getProductReservations(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(
+                mockInventoryService.getProductReservations
+            ).toHaveBeenCalledWith("prod123", { page: 2, limit: 5 });
+            expect(mockResponse.json).toHaveBeenCalledWith(emptyPage);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { JobController } from "@/controllers/job.controller";
+import { JobService } from "@/services/job.service";
+import { Request, Response } from "express";
+import { JobStatus } from "@prisma/client";
+
+jest.mock("@/services/job.service");
+
+describe("JobController", () => {
+    let jobController: JobController;
+    let mockRequest: Partial<Request>;
+    let mockResponse: Partial<Response>;
+    let mockJobService: jest.Mocked<JobService>;
+
+    const mockJob = {
+        id: "job123",
+        name: "reports.dailySales",
+        payload: null,
+        status: JobStatus.FAILED,
+        runAt: new Date(),
+        attempts: 5,
+        maxAttempts: 5,
+        intervalMs: null,
+        key: null,
+        lastError: "Database unavailable",
+        lockedAt: null,
+        lockedBy: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockRequest = { params: {}, query: {}, body: {} };
+        mockResponse = {
+            status: jest.fn().mockReturnThis(),
+            json: jest.fn(),
+        };
+        mockJobService = new JobService() as jest.Mocked<JobService>;
+        (JobService as jest.Mock).mockImplementation(() => mockJobService);
+        jobController = new JobController();
+    });
+
+    describe("getJobs", () => {
+        it("should return jobs filtered by status", async () => {
+            const mockJobs = {
+                data: [mockJob],
+                total: 1,
+                page: 1,
+                limit: 10,
+                totalPages: 1,
+                hasNextPage: false,
+                hasPreviousPage: false,
+            };
+            mockRequest.query = { status: "FAILED" };
+            mockJobService.getJobs.mockResolvedValue(mockJobs);
+
+            await jobController.getJobs(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockJobService.getJobs).toHaveBeenCalledWith(
+                { status: JobStatus.FAILED, name: undefined },
+                { page: 1, limit: 10 }
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith(mockJobs);
+        });
+
+        it("should reject an invalid status", async () => {
+            mockRequest.query = { status: "DONE" };
+
+            await jobController.getJobs(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockJobService.getJobs).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getJobById", () => {
+        it("should return 404 if the job is not found", async () => {
+            mockRequest.params = { jobId: "job456" };
+            mockJobService.getJobById.mockResolvedValue(null);
+
+            await jobController.getJobById(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(404);
+        });
+    });
+
+    describe("retryJob", () => {
+        it("should retry a failed job", async () => {
+            mockRequest.params = { jobId: "job123" };
+            const retriedJob = {
+                ...mockJob,
+                status: JobStatus.PENDING,
+                attempts: 0,
+            };
+            mockJobService.retryJob.mockResolvedValue(retriedJob);
+
+            await jobController.retryJob(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockJobService.retryJob).toHaveBeenCalledWith("job123");
+            expect(mockResponse.json).toHaveBeenCalledWith(retriedJob);
+        });
+
+        it("should handle error", async () => {
+            mockRequest.params = { jobId: "job123" };
+            mockJobService.retryJob.mockRejectedValue(
+                new Error("Only failed jobs can be retried")
+            );
+
+            await jobController.retryJob(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Only failed jobs can be retried",
+            });
+        });
+    });
+});
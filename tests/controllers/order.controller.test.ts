@@ -1,7 +1,9 @@
 import { OrderController } from "@/controllers/order.controller";
 import { OrderService } from "@/services/order.service";
+import { InvoiceService } from "@/services/invoice.service";
 import { Request, Response } from "express";
 import {
+    OrderItemStatus,
     OrderStatus,
     PaymentStatus,
     PaymentMethod,
@@ -9,12 +11,14 @@ import {
 } from "@prisma/client";
 
 jest.mock("@/services/order.service");
+jest.mock("@/services/invoice.service");
 
 describe("OrderController", () => {
     let orderController: OrderController;
     let mockRequest: Partial<Request>;
     let mockResponse: Partial<Response>;
     let mockOrderService: jest.Mocked<OrderService>;
+    let mockInvoiceService: jest.Mocked<InvoiceService>;
 
     beforeEach(() => {
         mockRequest = {};
@@ -24,9 +28,78 @@ describe("OrderController", () => {
         };
         mockOrderService = new OrderService() as jest.Mocked<OrderService>;
         (OrderService as jest.Mock).mockImplementation(() => mockOrderService);
+        mockInvoiceService =
+            new InvoiceService() as jest.Mocked<InvoiceService>;
+        (InvoiceService as jest.Mock).mockImplementation(
+            () => mockInvoiceService
+        );
         orderController = new OrderController();
     });
 
+    describe("checkout", () => {
+        const mockResult = {
+            order: { id: "o1" },
+            priceSnapshot: { items: [], totalAmount: 100 },
+        } as unknown as Awaited<ReturnType<OrderService["checkout"]>>;
+
+        it("should place an order from the cart", async () => {
+            mockOrderService.checkout.mockResolvedValue(mockResult);
+            mockRequest.user = {
+                userId: "user1",
+                email: "test@example.com",
+                role: UserRole.CUSTOMER,
+            };
+            mockRequest.body = {
+                addressId: "addr1",
+                paymentMethod: PaymentMethod.CARD,
+                productIds: ["p1"],
+            };
+            await orderController.checkout(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(mockOrderService.checkout).toHaveBeenCalledWith("user1", {
+                addressId: "addr1",
+                paymentMethod: PaymentMethod.CARD,
+                productIds: ["p1"],
+            });
+            expect(mockResponse.status).toHaveBeenCalledWith(201);
+            expect(mockResponse.json).toHaveBeenCalledWith(mockResult);
+        });
+
+        it("should require authentication", async () => {
+            mockRequest.body = {};
+            await orderController.checkout(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(401);
+        });
+
+        it("should handle error", async () => {
+            mockOrderService.checkout.mockRejectedValue(
+                new Error("Cart is empty")
+            );
+            mockRequest.user = {
+                userId: "user1",
+                email: "test@example.com",
+                role: UserRole.CUSTOMER,
+            };
+            mockRequest.body = {
+                addressId: "addr1",
+                paymentMethod: PaymentMethod.CARD,
+            };
+            await orderController.checkout(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Cart is empty",
+            });
+        });
+    });
+
     describe("getUserOrders", () => {
         it("should return orders", async () => {
             const mockOrders = [
@@ -38,29 +111,56 @@ describe("OrderController", () => {
                     updatedAt: new Date(),
                     addressId: "addr1",
                     totalAmount: 100,
+                    currency: "RWF",
                     paymentStatus: PaymentStatus.PENDING,
                     paymentMethod: PaymentMethod.CARD,
                     paymentIntentId: null,
+                    mobileMoneyNetwork: null,
+                    paymentPhoneNumber: null,
+                    couponId: null,
+                    couponCode: null,
+                    discountAmount: 0,
+                    shippingRateId: null,
+                    shippingMethod: null,
+                    shippingZone: null,
+                    shippingCost: 0,
+                    netAmount: 0,
+                    taxAmount: 0,
                     items: [
                         {
                             id: "oi1",
                             orderId: "o1",
                             productId: "p1",
+                            variantId: null,
+                            fulfillmentGroupId: null,
+                            status: OrderItemStatus.PENDING,
+                            rejectionReason: null,
+                            carrier: null,
+                            trackingNumber: null,
+                            packedAt: null,
+                            shippedAt: null,
                             product: {
                                 id: "p1",
                                 name: "Test Product",
                                 description: "Test Description",
                                 price: 100,
+                                currency: "RWF",
                                 stock: 10,
                                 categoryId: "c1",
                                 sellerId: "s1",
                                 images: [],
+                                weight: null,
                                 isActive: true,
+                                hasVariants: false,
                                 createdAt: new Date(),
                                 updatedAt: new Date(),
                             },
                             quantity: 1,
                             price: 100,
+                            taxRate: 18,
+                            netAmount: 84.75,
+                            taxAmount: 15.25,
+                            grossAmount: 100,
                         },
                     ],
                 },
@@ -120,29 +220,56 @@ describe("OrderController", () => {
                 updatedAt: new Date(),
                 addressId: "addr1",
                 totalAmount: 100,
+                currency: "RWF",
                 paymentStatus: PaymentStatus.PENDING,
                 paymentMethod: PaymentMethod.CARD,
                 paymentIntentId: null,
+                mobileMoneyNetwork: null,
+                paymentPhoneNumber: null,
+                couponId: null,
+                couponCode: null,
+                discountAmount: 0,
+                shippingRateId: null,
+                shippingMethod: null,
+                shippingZone: null,
+                shippingCost: 0,
+                netAmount: 0,
+                taxAmount: 0,
                 items: [
                     {
                         id: "oi1",
                         orderId: "o1",
                         productId: "p1",
+                        variantId: null,
+                        fulfillmentGroupId: null,
+                        status: OrderItemStatus.PENDING,
+                        rejectionReason: null,
+                        carrier: null,
+                        trackingNumber: null,
+                        packedAt: null,
+                        shippedAt: null,
                         product: {
                             id: "p1",
                             name: "Test Product",
                             description: "Test Description",
                             price: 100,
+                            currency: "RWF",
                             stock: 10,
                             categoryId: "c1",
                             sellerId: "s1",
                             images: [],
+                            weight: null,
                             isActive: true,
+                            hasVariants: false,
                             createdAt: new Date(),
                             updatedAt: new Date(),
                         },
                         quantity: 1,
                         price: 100,
+                        taxRate: 18,
+                        netAmount: 84.75,
+                        taxAmount: 15.25,
+                        grossAmount: 100,
                     },
                 ],
             };
@@ -175,6 +302,189 @@ describe("OrderController", () => {
         });
     });
 
+    describe("getInvoice", () => {
+        beforeEach(() => {
+            mockRequest = {
+                params: { orderId: "o1" },
+                user: {
+                    userId: "user1",
+                    email: "test@example.com",
+                    role: UserRole.CUSTOMER,
+                },
+            };
+            mockResponse.setHeader = jest.fn();
+            mockResponse.send = jest.fn();
+        });
+
+        it("should send the invoice PDF", async () => {
+            const pdf = Buffer.from("%PDF-1.4");
+            mockInvoiceService.getInvoiceForUser.mockResolvedValue({
+                number: "INV-000001",
+                fileName: "INV-000001.pdf",
+                pdf,
+            });
+
+            await orderController.getInvoice(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockInvoiceService.getInvoiceForUser).toHaveBeenCalledWith(
+                "o1",
+                { userId: "user1", role: UserRole.CUSTOMER }
+            );
+            expect(mockResponse.setHeader).toHaveBeenCalledWith(
+                "Content-Type",
+                "application/pdf"
+            );
+            expect(mockResponse.setHeader).toHaveBeenCalledWith(
+                "Content-Disposition",
+                'attachment; filename="INV-000001.pdf"'
+            );
+            expect(mockResponse.send).toHaveBeenCalledWith(pdf);
+        });
+
+        it("should return 404 if the order is not found", async () => {
+            mockInvoiceService.getInvoiceForUser.mockResolvedValue(null);
+
+            await orderController.getInvoice(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(404);
+        });
+
+        it("should return 401 if user is not authenticated", async () => {
+            mockRequest.user = undefined;
+
+            await orderController.getInvoice(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(401);
+        });
+    });
+
+    describe("getOrderTimeline", () => {
+        beforeEach(() => {
+            mockRequest = {
+                params: { orderId: "o1" },
+                user: {
+                    userId: "user1",
+                    email: "seller@example.com",
+                    role: UserRole.SELLER,
+                },
+            };
+        });
+
+        it("should return the order timeline", async () => {
+            const mockTimeline = {
+                orderId: "o1",
+                status: OrderStatus.PROCESSING,
+                paymentStatus: PaymentStatus.COMPLETED,
+                createdAt: new Date(),
+                events: [
+                    {
+                        type: "ORDER_STATUS" as const,
+                        fromStatus: null,
+                        toStatus: OrderStatus.PENDING,
+                        reason: null,
+                        changedById: "user2",
+                        createdAt: new Date(),
+                    },
+                    {
+                        type: "PAYMENT_STATUS" as const,
+                        fromStatus: PaymentStatus.PENDING,
+                        toStatus: PaymentStatus.COMPLETED,
+                        reason: "Payment completed",
+                        changedById: null,
+                        createdAt: new Date(),
+                    },
+                ],
+            };
+            mockOrderService.getOrderTimeline.mockResolvedValue(mockTimeline);
+
+            await orderController.getOrderTimeline(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockOrderService.getOrderTimeline).toHaveBeenCalledWith(
+                "o1",
+                { userId: "user1", role: UserRole.SELLER }
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith(mockTimeline);
+        });
+
+        it("should return 404 if the order is not found", async () => {
+            mockOrderService.getOrderTimeline.mockResolvedValue(null);
+
+            await orderController.getOrderTimeline(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(404);
+        });
+    });
+
+    describe("reorder", () => {
+        beforeEach(() => {
+            mockRequest = {
+                params: { orderId: "o1" },
+                user: {
+                    userId: "user1",
+                    email: "user@example.com",
+                    role: UserRole.CUSTOMER,
+                },
+            };
+        });
+
+        it("should return the added items and changes", async () => {
+            const mockResult = {
+                orderId: "o1",
+                added: [],
+                changes: [
+                    {
+                        productId: "p1",
+                        variantId: null,
+                        name: "Basket",
+                        reasons: ["INACTIVE" as const],
+                        orderedQuantity: 1,
+                        addedQuantity: 0,
+                        orderedPrice: 5000,
+                        currentPrice: 5000,
+                    },
+                ],
+            };
+            mockOrderService.reorder.mockResolvedValue(mockResult);
+
+            await orderController.reorder(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockOrderService.reorder).toHaveBeenCalledWith(
+                "o1",
+                "user1"
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith(mockResult);
+        });
+
+        it("should return 404 if the order is not found", async () => {
+            mockOrderService.reorder.mockResolvedValue(null);
+
+            await orderController.reorder(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(404);
+        });
+    });
+
     describe("createOrder", () => {
         it("should create order", async () => {
             const mockOrder = {
@@ -185,29 +495,56 @@ describe("OrderController", () => {
                 updatedAt: new Date(),
                 addressId: "addr1",
                 totalAmount: 100,
+                currency: "RWF",
                 paymentStatus: PaymentStatus.PENDING,
                 paymentMethod: PaymentMethod.CARD,
                 paymentIntentId: null,
+                mobileMoneyNetwork: null,
+                paymentPhoneNumber: null,
+                couponId: null,
+                couponCode: null,
+                discountAmount: 0,
+                shippingRateId: null,
+                shippingMethod: null,
+                shippingZone: null,
+                shippingCost: 0,
+                netAmount: 0,
+                taxAmount: 0,
                 items: [
                     {
                         id: "oi1",
                         orderId: "o1",
                         productId: "p1",
+                        variantId: null,
+                        fulfillmentGroupId: null,
+                        status: OrderItemStatus.PENDING,
+                        rejectionReason: null,
+                        carrier: null,
+                        trackingNumber: null,
+                        packedAt: null,
+                        shippedAt: null,
                         product: {
                             id: "p1",
                             name: "Test Product",
                             description: "Test Description",
                             price: 100,
+                            currency: "RWF",
                             stock: 10,
                             categoryId: "c1",
                             sellerId: "s1",
                             images: [],
+                            weight: null,
                             isActive: true,
+                            hasVariants: false,
                             createdAt: new Date(),
                             updatedAt: new Date(),
                         },
                         quantity: 1,
                         price: 100,
+                        taxRate: 18,
+                        netAmount: 84.75,
+                        taxAmount: 15.25,
+                        grossAmount: 100,
                     },
                 ],
             };
@@ -259,9 +596,21 @@ describe("OrderController", () => {
                 updatedAt: new Date(),
                 addressId: "addr1",
                 totalAmount: 100,
+                currency: "RWF",
                 paymentStatus: PaymentStatus.PENDING,
                 paymentMethod: PaymentMethod.CARD,
                 paymentIntentId: null,
+                mobileMoneyNetwork: null,
+                paymentPhoneNumber: null,
+                couponId: null,
+                couponCode: null,
+                discountAmount: 0,
+                shippingRateId: null,
+                shippingMethod: null,
+                shippingZone: null,
+                shippingCost: 0,
+                netAmount: 0,
+                taxAmount: 0,
             };
             mockOrderService.updateOrderStatus.mockResolvedValue(mockOrder);
             mockRequest.params = { id: "o1" };
@@ -286,6 +635,71 @@ describe("OrderController", () => {
         });
     });
 
+    describe("updateFulfillmentGroupStatus", () => {
+        const mockGroup = {
+            id: "g1",
+            orderId: "o1",
+            sellerId: "s1",
+            status: OrderStatus.SHIPPED,
+            subtotal: 100,
+            carrier: "DHL",
+            trackingNumber: "TRK1",
+            shippedAt: new Date(),
+            deliveredAt: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            seller: { businessName: "Seller Business" },
+        };
+
+        it("should scope seller updates to their own groups", async () => {
+            mockOrderService.updateFulfillmentGroupStatus.mockResolvedValue(
+                mockGroup
+            );
+            mockRequest.user = {
+                userId: "user1",
+                email: "seller@example.com",
+                role: UserRole.SELLER,
+            };
+            mockRequest.params = { groupId: "g1" };
+            mockRequest.body = {
+                status: OrderStatus.SHIPPED,
+                carrier: "DHL",
+                trackingNumber: "TRK1",
+            };
+            await orderController.updateFulfillmentGroupStatus(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(
+                mockOrderService.updateFulfillmentGroupStatus
+            ).toHaveBeenCalledWith("g1", OrderStatus.SHIPPED, {
+                changedById: "user1",
+                reason: undefined,
+                carrier: "DHL",
+                trackingNumber: "TRK1",
+                sellerUserId: "user1",
+            });
+            expect(mockResponse.json).toHaveBeenCalledWith(mockGroup);
+        });
+        it("should reject an invalid status", async () => {
+            mockRequest.user = {
+                userId: "user1",
+                email: "seller@example.com",
+                role: UserRole.SELLER,
+            };
+            mockRequest.params = { groupId: "g1" };
+            mockRequest.body = { status: "LOST" };
+            await orderController.updateFulfillmentGroupStatus(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Invalid status",
+            });
+        });
+    });
+
     describe("cancelOrder", () => {
         it("should cancel order", async () => {
             const mockOrder = {
@@ -296,29 +710,56 @@ describe("OrderController", () => {
                 updatedAt: new Date(),
                 addressId: "addr1",
                 totalAmount: 100,
+                currency: "RWF",
                 paymentStatus: PaymentStatus.PENDING,
                 paymentMethod: PaymentMethod.CARD,
                 paymentIntentId: null,
+                mobileMoneyNetwork: null,
+                paymentPhoneNumber: null,
+                couponId: null,
+                couponCode: null,
+                discountAmount: 0,
+                shippingRateId: null,
+                shippingMethod: null,
+                shippingZone: null,
+                shippingCost: 0,
+                netAmount: 0,
+                taxAmount: 0,
                 items: [
                     {
                         id: "oi1",
                         orderId: "o1",
                         productId: "p1",
+                        variantId: null,
+                        fulfillmentGroupId: null,
+                        status: OrderItemStatus.PENDING,
+                        rejectionReason: null,
+                        carrier: null,
+                        trackingNumber: null,
+                        packedAt: null,
+                        shippedAt: null,
                         product: {
                             id: "p1",
                             name: "Test Product",
                             description: "Test Description",
                             price: 100,
+                            currency: "RWF",
                             stock: 10,
                             categoryId: "c1",
                             sellerId: "s1",
                             images: [],
+                            weight: null,
                             isActive: true,
+                            hasVariants: false,
                             createdAt: new Date(),
                             updatedAt: new Date(),
                         },
                         quantity: 1,
                         price: 100,
+                        taxRate: 18,
+                        netAmount: 84.75,
+                        taxAmount: 15.25,
+                        grossAmount: 100,
                     },
                 ],
             };
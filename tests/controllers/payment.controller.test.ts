@@ -1,7 +1,7 @@
 import { PaymentController } from "@/controllers/payment.controller";
 import { PaymentService } from "@/services/payment.service";
 import { Request, Response } from "express";
-import { PaymentMethod } from "@prisma/client";
+import { PaymentMethod, UserRole, WebhookEventStatus } from "@prisma/client";
 
 jest.mock("@/services/payment.service");
 
@@ -10,8 +10,14 @@ describe("PaymentController", () => {
     let mockRequest: Partial<Request>;
     let mockResponse: Partial<Response>;
     let mockPaymentService: jest.Mocked<PaymentService>;
+    const mockUser = {
+        userId: "user123",
+        email: "customer@example.com",
+        role: UserRole.CUSTOMER,
+    };
 
     beforeEach(() => {
+        jest.clearAllMocks();
         mockRequest = {};
         mockResponse = {
             status: jest.fn().mockReturnThis(),
@@ -33,33 +39,52 @@ describe("PaymentController", () => {
                 clientSecret: "secret",
             };
             mockPaymentService.createPayment.mockResolvedValue(mockPayment);
-            mockRequest.body = { orderId: "o1", method: "CARD", amount: 100 };
+            mockRequest.user = mockUser;
+            mockRequest.body = { orderId: "o1", method: "CARD" };
             await paymentController.createPayment(
                 mockRequest as Request,
                 mockResponse as Response
             );
+            expect(mockPaymentService.createPayment).toHaveBeenCalledWith(
+                "o1",
+                mockUser.userId,
+                "CARD",
+                { phoneNumber: undefined, network: undefined }
+            );
             expect(mockResponse.status).toHaveBeenCalledWith(201);
             expect(mockResponse.json).toHaveBeenCalledWith(mockPayment);
         });
 
         it("should handle missing required fields", async () => {
-            mockRequest.body = { orderId: "o1" }; // Missing method and amount
+            mockRequest.user = mockUser;
+            mockRequest.body = { orderId: "o1" }; // Missing method
             await paymentController.createPayment(
                 mockRequest as Request,
                 mockResponse as Response
             );
             expect(mockResponse.status).toHaveBeenCalledWith(400);
             expect(mockResponse.json).toHaveBeenCalledWith({
-                message: "Order ID, payment method, and amount are required",
+                message: "Order ID and payment method are required",
             });
         });
 
+        it("should require a signed in user", async () => {
+            mockRequest.body = { orderId: "o1", method: "CARD" };
+            await paymentController.createPayment(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(401);
+            expect(mockPaymentService.createPayment).not.toHaveBeenCalled();
+        });
+
         it("should handle error", async () => {
             const errorMessage = "Payment creation failed";
             mockPaymentService.createPayment.mockRejectedValue(
                 new Error(errorMessage)
             );
-            mockRequest.body = { orderId: "o1", method: "CARD", amount: 100 };
+            mockRequest.user = mockUser;
+            mockRequest.body = { orderId: "o1", method: "CARD" };
             await paymentController.createPayment(
                 mockRequest as Request,
                 mockResponse as Response
@@ -114,23 +139,38 @@ describe("PaymentController", () => {
 
     describe("handleWebhook", () => {
         it("should handle webhook", async () => {
-            mockPaymentService.handleWebhook.mockResolvedValue(undefined);
-            mockRequest.body = { event: "payment_intent.succeeded" };
+            mockPaymentService.handleWebhook.mockResolvedValue({
+                duplicate: false,
+                status: WebhookEventStatus.PROCESSED,
+            });
+            mockRequest.headers = { "stripe-signature": "t=1,v1=sig" };
+            mockRequest.body = Buffer.from("{}");
+            mockRequest.query = {};
             await paymentController.handleWebhook(
                 mockRequest as Request,
                 mockResponse as Response
             );
+            expect(mockPaymentService.handleWebhook).toHaveBeenCalledWith(
+                PaymentMethod.CARD,
+                {
+                    body: mockRequest.body,
+                    headers: mockRequest.headers,
+                    query: mockRequest.query,
+                }
+            );
             expect(mockResponse.json).toHaveBeenCalledWith({
                 received: true,
+                duplicate: false,
             });
         });
 
         it("should handle error", async () => {
-            const errorMessage = "Webhook processing failed";
+            const errorMessage = "Invalid webhook signature";
             mockPaymentService.handleWebhook.mockRejectedValue(
                 new Error(errorMessage)
             );
-            mockRequest.body = { event: "payment_intent.succeeded" };
+            mockRequest.headers = { "stripe-signature": "t=1,v1=bad" };
+            mockRequest.body = Buffer.from("{}");
             await paymentController.handleWebhook(
                 mockRequest as Request,
                 mockResponse as Response
@@ -141,4 +181,76 @@ describe("PaymentController", () => {
             });
         });
     });
+
+    describe("handleMobileMoneyCallback", () => {
+        it("should handle callback for a known network", async () => {
+            mockPaymentService.handleWebhook.mockResolvedValue({
+                duplicate: false,
+                status: WebhookEventStatus.PROCESSED,
+            });
+            mockRequest.params = { network: "mtn" };
+            mockRequest.headers = {};
+            mockRequest.query = { referenceId: "ref123" };
+            mockRequest.body = { status: "SUCCESSFUL" };
+            await paymentController.handleMobileMoneyCallback(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(mockPaymentService.handleWebhook).toHaveBeenCalledWith(
+                PaymentMethod.MOBILE_MONEY,
+                {
+                    body: mockRequest.body,
+                    headers: mockRequest.headers,
+                    query: mockRequest.query,
+                },
+                "MTN"
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                received: true,
+                duplicate: false,
+            });
+        });
+
+        it("should reject unknown networks", async () => {
+            mockRequest.params = { network: "tigo" };
+            await paymentController.handleMobileMoneyCallback(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Invalid mobile money network",
+            });
+        });
+    });
+
+    describe("reprocessWebhookEvent", () => {
+        it("should reprocess webhook event", async () => {
+            const mockWebhookEvent = {
+                id: "we_1",
+                provider: "stripe",
+                eventId: "evt_123",
+                type: "payment_intent.succeeded",
+                payload: {},
+                status: WebhookEventStatus.PROCESSED,
+                attempts: 2,
+                error: null,
+                processedAt: new Date(),
+                createdAt: new Date(),
+                updatedAt: new Date(),
+            };
+            mockPaymentService.reprocessWebhookEvent.mockResolvedValue(
+                mockWebhookEvent
+            );
+            mockRequest.params = { eventId: "we_1" };
+            await paymentController.reprocessWebhookEvent(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(mockPaymentService.reprocessWebhookEvent).toHaveBeenCalledWith(
+                "we_1"
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith(mockWebhookEvent);
+        });
+    });
 });
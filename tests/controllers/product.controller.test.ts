@@ -1,16 +1,20 @@
 import { ProductController } from "@/controllers/product.controller";
 import { ProductService } from "@/services/product.service";
+import { SearchHistoryService } from "@/services/searchHistory.service";
 import { Request, Response } from "express";
 
 jest.mock("@/services/product.service");
+jest.mock("@/services/searchHistory.service");
 
 describe("ProductController", () => {
     let productController: ProductController;
     let mockRequest: Partial<Request>;
     let mockResponse: Partial<Response>;
     let mockProductService: jest.Mocked<ProductService>;
+    let mockSearchHistoryService: jest.Mocked<SearchHistoryService>;
 
     beforeEach(() => {
+        jest.clearAllMocks();
         mockRequest = {};
         mockResponse = {
             status: jest.fn().mockReturnThis(),
@@ -21,6 +25,11 @@ describe("ProductController", () => {
         (ProductService as jest.Mock).mockImplementation(
             () => mockProductService
         );
+        mockSearchHistoryService =
+            new SearchHistoryService() as jest.Mocked<SearchHistoryService>;
+        (SearchHistoryService as jest.Mock).mockImplementation(
+            () => mockSearchHistoryService
+        );
         productController = new ProductController();
     });
 
@@ -34,6 +43,7 @@ describe("ProductController", () => {
                     updatedAt: new Date(),
                     description: "desc",
                     price: 100,
+                    currency: "RWF",
                     stock: 10,
                     category: {
                         id: "c1",
@@ -42,6 +52,7 @@ describe("ProductController", () => {
                         createdAt: new Date(),
                         updatedAt: new Date(),
                         image: null,
+                        vatRate: null,
                         parentId: null,
                     },
                     seller: {
@@ -61,7 +72,9 @@ describe("ProductController", () => {
                     sellerId: "s1",
                     categoryId: "c1",
                     images: [],
+                    weight: null,
                     isActive: true,
+                    hasVariants: false,
                 },
             ];
             mockProductService.getProducts.mockResolvedValue({
@@ -107,6 +120,7 @@ describe("ProductController", () => {
                 updatedAt: new Date(),
                 description: "desc",
                 price: 100,
+                currency: "RWF",
                 stock: 10,
                 category: {
                     id: "c1",
@@ -115,6 +129,7 @@ describe("ProductController", () => {
                     createdAt: new Date(),
                     updatedAt: new Date(),
                     image: null,
+                    vatRate: null,
                     parentId: null,
                 },
                 seller: {
@@ -134,7 +149,9 @@ describe("ProductController", () => {
                 sellerId: "s1",
                 categoryId: "c1",
                 images: [],
+                weight: null,
                 isActive: true,
+                hasVariants: false,
             };
             mockProductService.getProductById.mockResolvedValue(mockProduct);
             mockRequest.params = { id: "p1" };
@@ -166,6 +183,7 @@ describe("ProductController", () => {
                 updatedAt: new Date(),
                 description: "desc",
                 price: 100,
+                currency: "RWF",
                 stock: 10,
                 category: {
                     id: "c1",
@@ -174,6 +192,7 @@ describe("ProductController", () => {
                     createdAt: new Date(),
                     updatedAt: new Date(),
                     image: null,
+                    vatRate: null,
                     parentId: null,
                 },
                 seller: {
@@ -193,7 +212,9 @@ describe("ProductController", () => {
                 sellerId: "s1",
                 categoryId: "c1",
                 images: [],
+                weight: null,
                 isActive: true,
+                hasVariants: false,
             };
             mockProductService.createProduct.mockResolvedValue(mockProduct);
             mockRequest.body = { name: "Product1" };
@@ -236,6 +257,7 @@ describe("ProductController", () => {
                 updatedAt: new Date(),
                 description: "desc",
                 price: 100,
+                currency: "RWF",
                 stock: 10,
                 category: {
                     id: "c1",
@@ -244,6 +266,7 @@ describe("ProductController", () => {
                     createdAt: new Date(),
                     updatedAt: new Date(),
                     image: null,
+                    vatRate: null,
                     parentId: null,
                 },
                 seller: {
@@ -263,7 +286,9 @@ describe("ProductController", () => {
                 sellerId: "s1",
                 categoryId: "c1",
                 images: [],
+                weight: null,
                 isActive: true,
+                hasVariants: false,
             };
             mockProductService.updateProduct.mockResolvedValue(mockProduct);
             mockRequest.params = { id: "p1" };
@@ -308,6 +333,7 @@ describe("ProductController", () => {
                     updatedAt: new Date(),
                     description: "desc",
                     price: 100,
+                    currency: "RWF",
                     stock: 10,
                     category: {
                         id: "c1",
@@ -316,6 +342,7 @@ describe("ProductController", () => {
                         createdAt: new Date(),
                         updatedAt: new Date(),
                         image: null,
+                        vatRate: null,
                         parentId: null,
                     },
                     seller: {
@@ -335,7 +362,9 @@ describe("ProductController", () => {
                     sellerId: "s1",
                     categoryId: "c1",
                     images: [],
+                    weight: null,
                     isActive: true,
+                    hasVariants: false,
                 },
             ];
             const mockProduct = mockProducts[0];
@@ -361,6 +390,7 @@ describe("ProductController", () => {
                     updatedAt: new Date(),
                     description: "desc",
                     price: 100,
+                    currency: "RWF",
                     stock: 10,
                     category: {
                         id: "c1",
@@ -369,6 +399,7 @@ describe("ProductController", () => {
                         createdAt: new Date(),
                         updatedAt: new Date(),
                         image: null,
+                        vatRate: null,
                         parentId: null,
                     },
                     seller: {
@@ -388,7 +419,9 @@ describe("ProductController", () => {
                     sellerId: "s1",
                     categoryId: "c1",
                     images: [],
+                    weight: null,
                     isActive: true,
+                    hasVariants: false,
                 },
             ];
             const mockProduct = mockProducts[0];
@@ -408,4 +441,78 @@ describe("ProductController", () => {
             expect(mockResponse.status).toHaveBeenCalledWith(400);
         });
     });
+
+    describe("suggestSearch", () => {
+        it("should suggest searches for the signed in user", async () => {
+            const mockSuggestions = {
+                products: [{ id: "p1", name: "Coffee Beans", images: [] }],
+                categories: [],
+                recentSearches: ["coffee"],
+            };
+            mockRequest = {
+                query: { q: "cof" },
+                user: { userId: "user123", email: "a@b.c", role: "CUSTOMER" },
+            };
+            mockSearchHistoryService.getSuggestions.mockResolvedValue(
+                mockSuggestions
+            );
+
+            await productController.suggestSearch(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(
+                mockSearchHistoryService.getSuggestions
+            ).toHaveBeenCalledWith("cof", "user123");
+            expect(mockResponse.json).toHaveBeenCalledWith(mockSuggestions);
+        });
+    });
+
+    describe("getSearchReport", () => {
+        it("should return the report for the period", async () => {
+            const mockReport = {
+                startDate: new Date("2026-10-01"),
+                endDate: new Date("2026-10-31"),
+                searches: 200,
+                zeroResultSearches: 30,
+                zeroResultRate: 15,
+                trendingQueries: [],
+                zeroResultQueries: [],
+            };
+            mockRequest = {
+                query: { startDate: "2026-10-01", endDate: "2026-10-31" },
+            };
+            mockSearchHistoryService.getSearchReport.mockResolvedValue(
+                mockReport
+            );
+
+            await productController.getSearchReport(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(
+                mockSearchHistoryService.getSearchReport
+            ).toHaveBeenCalledWith({
+                startDate: new Date("2026-10-01"),
+                endDate: new Date("2026-10-31"),
+            });
+            expect(mockResponse.json).toHaveBeenCalledWith(mockReport);
+        });
+
+        it("should reject an invalid date", async () => {
+            mockRequest = { query: { endDate: "tomorrow" } };
+
+            await productController.getSearchReport(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(
+                mockSearchHistoryService.getSearchReport
+            ).not.toHaveBeenCalled();
+        });
+    });
 });
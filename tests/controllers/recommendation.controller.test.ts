@@ -0,0 +1,147 @@
+import { RecommendationController } from "@/controllers/recommendation.controller";
+import { RecommendationService } from "@/services/recommendation.service";
+import { Request, Response } from "express";
+
+jest.mock("@/services/recommendation.service");
+
+describe("RecommendationController", () => {
+    let recommendationController: RecommendationController;
+    let mockRequest: Partial<Request>;
+    let mockResponse: Partial<Response>;
+    let mockRecommendationService: jest.Mocked<RecommendationService>;
+
+    const mockProduct = {
+        id: "p1",
+        name: "Coffee Beans",
+        description: "Roasted beans",
+        price: 5000,
+        currency: "RWF",
+        stock: 10,
+        categoryId: "cat123",
+        sellerId: "seller123",
+        images: [],
+        weight: null,
+        isActive: true,
+        hasVariants: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        category: {
+            id: "cat123",
+            name: "Coffee",
+            description: null,
+            image: null,
+            vatRate: null,
+            parentId: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        },
+        reviews: [],
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockRequest = {};
+        mockResponse = {
+            status: jest.fn().mockReturnThis(),
+            json: jest.fn(),
+        };
+        mockRecommendationService =
+            new RecommendationService() as jest.Mocked<RecommendationService>;
+        (RecommendationService as jest.Mock).mockImplementation(
+            () => mockRecommendationService
+        );
+        recommendationController = new RecommendationController();
+    });
+
+    describe("getHomeFeed", () => {
+        it("should return the feed of the signed in user", async () => {
+            const feed = [{ ...mockProduct, reason: "BOUGHT_TOGETHER" }];
+            mockRequest = {
+                query: { limit: "5" },
+                user: { userId: "user123", email: "a@b.c", role: "CUSTOMER" },
+            };
+            mockRecommendationService.getHomeFeed.mockResolvedValue(feed);
+
+            await recommendationController.getHomeFeed(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockRecommendationService.getHomeFeed).toHaveBeenCalledWith(
+                "user123",
+                5
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith(feed);
+        });
+
+        it("should return the feed of guests", async () => {
+            mockRequest = { query: {} };
+            mockRecommendationService.getHomeFeed.mockResolvedValue([]);
+
+            await recommendationController.getHomeFeed(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockRecommendationService.getHomeFeed).toHaveBeenCalledWith(
+                undefined,
+                undefined
+            );
+        });
+    });
+
+    describe("getFrequentlyBoughtTogether", () => {
+        it("should return the products bought together", async () => {
+            mockRequest = { params: { productId: "p2" }, query: {} };
+            mockRecommendationService.getFrequentlyBoughtTogether.mockResolvedValue(
+                [mockProduct]
+            );
+
+            await recommendationController.getFrequentlyBoughtTogether(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(
+                mockRecommendationService.getFrequentlyBoughtTogether
+            ).toHaveBeenCalledWith("p2", undefined);
+            expect(mockResponse.json).toHaveBeenCalledWith([mockProduct]);
+        });
+
+        it("should return 400 when the lookup fails", async () => {
+            mockRequest = { params: { productId: "p2" }, query: {} };
+            mockRecommendationService.getFrequentlyBoughtTogether.mockRejectedValue(
+                new Error("Database unavailable")
+            );
+
+            await recommendationController.getFrequentlyBoughtTogether(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+        });
+    });
+
+    describe("getCustomersAlsoViewed", () => {
+        it("should return the products customers also viewed", async () => {
+            mockRequest = {
+                params: { productId: "p2" },
+                query: { limit: "4" },
+            };
+            mockRecommendationService.getCustomersAlsoViewed.mockResolvedValue([
+                mockProduct,
+            ]);
+
+            await recommendationController.getCustomersAlsoViewed(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(
+                mockRecommendationService.getCustomersAlsoViewed
+            ).toHaveBeenCalledWith("p2", 4);
+            expect(mockResponse.json).toHaveBeenCalledWith([mockProduct]);
+        });
+    });
+});
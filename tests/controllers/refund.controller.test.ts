@@ -0,0 +1,172 @@
+import { RefundController } from "@/controllers/refund.controller";
+import { RefundService } from "@/services/refund.service";
+import { Request, Response } from "express";
+import { RefundReasonCode, RefundStatus, UserRole } from "@prisma/client";
+
+jest.mock("@/services/refund.service");
+
+describe("RefundController", () => {
+    let refundController: RefundController;
+    let mockRequest: Partial<Request>;
+    let mockResponse: Partial<Response>;
+    let mockRefundService: jest.Mocked<RefundService>;
+
+    const mockRefund = {
+        id: "refund123",
+        orderId: "order123",
+        userId: "user123",
+        reason: "The item arrived broken",
+        reasonCode: RefundReasonCode.DAMAGED,
+        photos: [],
+        amount: 30,
+        status: RefundStatus.PENDING,
+        restock: false,
+        paymentRefundId: null,
+        reviewedById: null,
+        reviewNote: null,
+        reviewedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        items: [],
+    };
+
+    beforeEach(() => {
+        mockRequest = {
+            user: {
+                userId: "user123",
+                email: "test@example.com",
+                role: UserRole.CUSTOMER,
+            },
+            params: {},
+            query: {},
+            body: {},
+        };
+        mockResponse = {
+            status: jest.fn().mockReturnThis(),
+            json: jest.fn(),
+        };
+        mockRefundService = new RefundService() as jest.Mocked<RefundService>;
+        (RefundService as jest.Mock).mockImplementation(
+            () => mockRefundService
+        );
+        refundController = new RefundController();
+    });
+
+    describe("createRefundRequest", () => {
+        it("should create a refund request", async () => {
+            mockRequest.body = {
+                orderId: "order123",
+                reasonCode: RefundReasonCode.DAMAGED,
+                reason: "The item arrived broken",
+                items: [{ orderItemId: "item1", quantity: 1 }],
+            };
+            mockRefundService.createRefundRequest.mockResolvedValue(mockRefund);
+
+            await refundController.createRefundRequest(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockRefundService.createRefundRequest).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    userId: "user123",
+                    orderId: "order123",
+                })
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(201);
+            expect(mockResponse.json).toHaveBeenCalledWith(mockRefund);
+        });
+
+        it("should return 401 when not authenticated", async () => {
+            mockRequest.user = undefined;
+
+            await refundController.createRefundRequest(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(401);
+        });
+
+        it("should return 400 when the order is not eligible", async () => {
+            mockRefundService.createRefundRequest.mockRejectedValue(
+                new Error("Refunds can only be requested for delivered orders")
+            );
+
+            await refundController.createRefundRequest(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Refunds can only be requested for delivered orders",
+            });
+        });
+    });
+
+    describe("approveRefundRequest", () => {
+        it("should approve the refund request", async () => {
+            mockRequest.user = {
+                userId: "admin123",
+                email: "admin@example.com",
+                role: UserRole.ADMIN,
+            };
+            mockRequest.params = { refundId: "refund123" };
+            mockRequest.body = { restock: true, note: "Approved" };
+            mockRefundService.approveRefundRequest.mockResolvedValue({
+                ...mockRefund,
+                status: RefundStatus.COMPLETED,
+            });
+
+            await refundController.approveRefundRequest(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockRefundService.approveRefundRequest).toHaveBeenCalledWith(
+                "refund123",
+                mockRequest.user,
+                {
+                    restock: true,
+                    note: "Approved",
+                }
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith(
+                expect.objectContaining({ status: RefundStatus.COMPLETED })
+            );
+        });
+    });
+
+    describe("rejectRefundRequest", () => {
+        it("should require a rejection note", async () => {
+            mockRequest.params = { refundId: "refund123" };
+
+            await refundController.rejectRefundRequest(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Rejection note is required",
+            });
+        });
+    });
+
+    describe("getRefundRequestsForReview", () => {
+        it("should reject an invalid status filter", async () => {
+            mockRequest.query = { status: "UNKNOWN" };
+
+            await refundController.getRefundRequestsForReview(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Invalid status",
+            });
+        });
+    });
+});
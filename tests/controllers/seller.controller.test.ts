@@ -229,4 +229,71 @@ describe("SellerController", () => {
             expect(mockResponse.status).toHaveBeenCalledWith(400);
         });
     });
+
+    describe("rejectOrderItems", () => {
+        it("should require a rejection reason", async () => {
+            mockRequest.params = { orderId: "o1" };
+            mockRequest.body = { itemIds: ["i1"] };
+            mockRequest.user = {
+                userId: "u1",
+                email: "seller@example.com",
+                role: "SELLER",
+            };
+            await sellerController.rejectOrderItems(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Rejection reason is required",
+            });
+        });
+    });
+
+    describe("shipOrderItems", () => {
+        it("should ship items with tracking details", async () => {
+            mockSellerService.updateOrderItemStatus.mockResolvedValue([]);
+            mockRequest.params = { orderId: "o1" };
+            mockRequest.body = {
+                itemIds: ["i1"],
+                carrier: "DHL",
+                trackingNumber: "TRK1",
+            };
+            mockRequest.user = {
+                userId: "u1",
+                email: "seller@example.com",
+                role: "SELLER",
+            };
+            await sellerController.shipOrderItems(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(
+                mockSellerService.updateOrderItemStatus
+            ).toHaveBeenCalledWith("u1", "o1", "SHIPPED", {
+                itemIds: ["i1"],
+                reason: undefined,
+                carrier: "DHL",
+                trackingNumber: "TRK1",
+            });
+            expect(mockResponse.json).toHaveBeenCalledWith([]);
+        });
+        it("should require item IDs", async () => {
+            mockRequest.params = { orderId: "o1" };
+            mockRequest.body = { carrier: "DHL", trackingNumber: "TRK1" };
+            mockRequest.user = {
+                userId: "u1",
+                email: "seller@example.com",
+                role: "SELLER",
+            };
+            await sellerController.shipOrderItems(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Item IDs are required",
+            });
+        });
+    });
 });
@@ -0,0 +1,190 @@
+import { ShippingController } from "@/controllers/shipping.controller";
+import { ShippingService } from "@/services/shipping.service";
+import { CartService } from "@/services/cart.service";
+import { Request, Response } from "express";
+import { UserRole } from "@prisma/client";
+
+jest.mock("@/services/shipping.service");
+jest.mock("@/services/cart.service");
+
+describe("ShippingController", () => {
+    let shippingController: ShippingController;
+    let mockRequest: Partial<Request>;
+    let mockResponse: Partial<Response>;
+    let mockShippingService: jest.Mocked<ShippingService>;
+    let mockCartService: jest.Mocked<CartService>;
+
+    const mockZone = {
+        id: "zone123",
+        name: "Kigali",
+        provinces: ["Kigali City"],
+        districts: [],
+        freeShippingThreshold: null,
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    beforeEach(() => {
+        mockRequest = {
+            params: {},
+            query: {},
+            body: {},
+            user: {
+                userId: "user123",
+                email: "test@example.com",
+                role: UserRole.CUSTOMER,
+            },
+        };
+        mockResponse = {
+            status: jest.fn().mockReturnThis(),
+            json: jest.fn(),
+        };
+        mockShippingService =
+            new ShippingService() as jest.Mocked<ShippingService>;
+        mockCartService = new CartService() as jest.Mocked<CartService>;
+        (ShippingService as jest.Mock).mockImplementation(
+            () => mockShippingService
+        );
+        (CartService as jest.Mock).mockImplementation(() => mockCartService);
+        shippingController = new ShippingController();
+    });
+
+    describe("getQuote", () => {
+        it("should quote the cart to the address", async () => {
+            const quote = {
+                addressId: "address123",
+                orderValue: 20000,
+                weight: 2,
+                currency: "RWF",
+                options: [],
+            };
+            mockRequest.query = { addressId: "address123", couponCode: "SHIP" };
+            mockCartService.getShippingQuote.mockResolvedValue(quote);
+
+            await shippingController.getQuote(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockCartService.getShippingQuote).toHaveBeenCalledWith(
+                "user123",
+                "address123",
+                "SHIP"
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith(quote);
+        });
+
+        it("should require an address", async () => {
+            await shippingController.getQuote(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Address ID is required",
+            });
+        });
+
+        it("should return 401 if user is not authenticated", async () => {
+            mockRequest.user = undefined;
+
+            await shippingController.getQuote(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(401);
+        });
+    });
+
+    describe("createZone", () => {
+        it("should create a zone", async () => {
+            mockRequest.body = { name: "Kigali", provinces: ["Kigali City"] };
+            mockShippingService.createZone.mockResolvedValue(mockZone);
+
+            await shippingController.createZone(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockShippingService.createZone).toHaveBeenCalledWith(
+                mockRequest.body
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(201);
+            expect(mockResponse.json).toHaveBeenCalledWith(mockZone);
+        });
+
+        it("should handle error", async () => {
+            mockShippingService.createZone.mockRejectedValue(
+                new Error("Unknown district: Kampala")
+            );
+
+            await shippingController.createZone(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400);
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Unknown district: Kampala",
+            });
+        });
+    });
+
+    describe("addRate", () => {
+        it("should add a rate to the zone", async () => {
+            const rate = {
+                id: "rate123",
+                zoneId: "zone123",
+                name: "Standard",
+                basis: "ORDER_VALUE" as const,
+                minValue: 0,
+                maxValue: null,
+                price: 1500,
+                estimatedDays: 2,
+                createdAt: new Date(),
+                updatedAt: new Date(),
+            };
+            mockRequest.params = { zoneId: "zone123" };
+            mockRequest.body = {
+                name: "Standard",
+                basis: "ORDER_VALUE",
+                price: 1500,
+            };
+            mockShippingService.addRate.mockResolvedValue(rate);
+
+            await shippingController.addRate(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockShippingService.addRate).toHaveBeenCalledWith(
+                "zone123",
+                mockRequest.body
+            );
+            expect(mockResponse.status).toHaveBeenCalledWith(201);
+            expect(mockResponse.json).toHaveBeenCalledWith(rate);
+        });
+    });
+
+    describe("deleteZone", () => {
+        it("should delete the zone", async () => {
+            mockRequest.params = { zoneId: "zone123" };
+            mockShippingService.deleteZone.mockResolvedValue();
+
+            await shippingController.deleteZone(
+                mockRequest as Request,
+                mockResponse as Response
+            );
+
+            expect(mockShippingService.deleteZone).toHaveBeenCalledWith(
+                "zone123"
+            );
+            expect(mockResponse.json).toHaveBeenCalledWith({
+                message: "Shipping zone deleted successfully",
+            });
+        });
+    });
+});
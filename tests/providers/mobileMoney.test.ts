@@ -0,0 +1,160 @@
+import {
+    AirtelMoneyProvider,
+    MtnMomoProvider,
+    normalizePhoneNumber,
+    SandboxMobileMoneyProvider,
+} from "@/providers/mobileMoney";
+import { MobileMoneyNetwork } from "@prisma/client";
+
+const jsonResponse = (body: unknown, status = 200) =>
+    ({
+        ok: status >= 200 && status < 300,
+        status,
+        json: () => Promise.resolve(body),
+    }) as Response;
+
+describe("Mobile money providers", () => {
+    const fetchMock = jest.fn();
+    const paymentParams = {
+        externalId: "order123",
+        amount: 5000,
+        currency: "RWF",
+        phoneNumber: "0788123456",
+        payerMessage: "Payment for order #order123",
+    };
+
+    beforeEach(() => {
+        fetchMock.mockReset();
+        global.fetch = fetchMock;
+    });
+
+    describe("normalizePhoneNumber", () => {
+        it("should convert local numbers to MSISDN format", () => {
+            expect(normalizePhoneNumber("0788 123 456")).toBe("250788123456");
+            expect(normalizePhoneNumber("+250788123456")).toBe("250788123456");
+        });
+
+        it("should reject numbers that are not Rwandan mobile numbers", () => {
+            expect(() => normalizePhoneNumber("12345")).toThrow(
+                "Invalid phone number"
+            );
+        });
+    });
+
+    describe("MtnMomoProvider", () => {
+        it("should request payment with a reference in the callback URL", async () => {
+            const provider = new MtnMomoProvider();
+            fetchMock
+                .mockResolvedValueOnce(
+                    jsonResponse({ access_token: "token", expires_in: 3600 })
+                )
+                .mockResolvedValueOnce(jsonResponse({}, 202));
+
+            const payment = await provider.requestToPay(paymentParams);
+
+            expect(payment.status).toBe("PENDING");
+            const [url, init] = fetchMock.mock.calls[1];
+            expect(url).toMatch(/\/collection\/v1_0\/requesttopay$/);
+            expect(init.headers["X-Reference-Id"]).toBe(payment.referenceId);
+            expect(init.headers["X-Callback-Url"]).toContain(
+                `referenceId=${payment.referenceId}`
+            );
+            expect(JSON.parse(init.body).payer).toEqual({
+                partyIdType: "MSISDN",
+                partyId: "250788123456",
+            });
+        });
+
+        it("should map payment statuses", async () => {
+            const provider = new MtnMomoProvider();
+            fetchMock
+                .mockResolvedValueOnce(
+                    jsonResponse({ access_token: "token", expires_in: 3600 })
+                )
+                .mockResolvedValueOnce(
+                    jsonResponse({
+                        status: "REJECTED",
+                        reason: "APPROVAL_REJECTED",
+                    })
+                );
+
+            const payment = await provider.getPaymentStatus("ref123");
+
+            expect(payment).toEqual({
+                referenceId: "ref123",
+                status: "FAILED",
+                reason: "APPROVAL_REJECTED",
+            });
+        });
+
+        it("should read the reference from the callback URL", () => {
+            const provider = new MtnMomoProvider();
+
+            expect(
+                provider.parseCallback(
+                    { status: "SUCCESSFUL" },
+                    { referenceId: "ref123" }
+                )
+            ).toEqual({ referenceId: "ref123", status: "SUCCESSFUL" });
+            expect(() =>
+                provider.parseCallback({ status: "SUCCESSFUL" }, {})
+            ).toThrow("Invalid MTN Mobile Money callback");
+        });
+    });
+
+    describe("AirtelMoneyProvider", () => {
+        it("should request payment without the country code", async () => {
+            const provider = new AirtelMoneyProvider();
+            fetchMock
+                .mockResolvedValueOnce(
+                    jsonResponse({ access_token: "token", expires_in: "3600" })
+                )
+                .mockResolvedValueOnce(
+                    jsonResponse({ status: { success: true } })
+                );
+
+            const payment = await provider.requestToPay(paymentParams);
+
+            const body = JSON.parse(fetchMock.mock.calls[1][1].body);
+            expect(body.subscriber.msisdn).toBe("788123456");
+            expect(body.transaction.id).toBe(payment.referenceId);
+        });
+
+        it("should parse transaction status codes from callbacks", () => {
+            const provider = new AirtelMoneyProvider();
+
+            expect(
+                provider.parseCallback({
+                    transaction: { id: "ref123", status_code: "TS" },
+                })
+            ).toEqual({ referenceId: "ref123", status: "SUCCESSFUL" });
+            expect(
+                provider.parseCallback({
+                    transaction: { id: "ref123", status_code: "TF" },
+                })
+            ).toEqual({ referenceId: "ref123", status: "FAILED" });
+        });
+    });
+
+    describe("SandboxMobileMoneyProvider", () => {
+        it("should keep payments pending until they are completed", async () => {
+            const provider = new SandboxMobileMoneyProvider(
+                MobileMoneyNetwork.AIRTEL
+            );
+
+            const { referenceId } = await provider.requestToPay(paymentParams);
+            expect((await provider.getPaymentStatus(referenceId)).status).toBe(
+                "PENDING"
+            );
+
+            provider.completePayment(referenceId, "SUCCESSFUL");
+            expect((await provider.getPaymentStatus(referenceId)).status).toBe(
+                "SUCCESSFUL"
+            );
+            expect(() =>
+                provider.completePayment(referenceId, "FAILED")
+            ).toThrow("Mobile money payment is already complete");
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,210 @@
+import { PrismaClient } from "@prisma/client";
+import { PostgresSearchProvider } from "@/providers/search";
+
+// Runs against a local Postgres with the schema pushed to it, e.g.
+// DATABASE_URL=$SEARCH_TEST_DATABASE_URL npx prisma db push
+// Skipped when SEARCH_TEST_DATABASE_URL is not set.
+const databaseUrl = process.env.SEARCH_TEST_DATABASE_URL;
+const describeWithDatabase = databaseUrl ? describe : describe.skip;
+
+describeWithDatabase("PostgresSearchProvider", () => {
+    let db: PrismaClient;
+    let provider: PostgresSearchProvider;
+    let categoryId: string;
+    let teapotId: string;
+    const runId = Date.now().toString(36);
+
+    const searchQuery = (text: string) => ({
+        text,
+        categoryIds: [categoryId],
+        skip: 0,
+        take: 10,
+    });
+
+    beforeAll(async () => {
+        db = new PrismaClient({ datasources: { db: { url: databaseUrl } } });
+        provider = new PostgresSearchProvider(db);
+
+        const user = await db.user.create({
+            data: {
+                email: `search-${runId}@example.com`,
+                firstName: "Search",
+                lastName: "Test",
+            },
+        });
+        const seller = await db.seller.create({
+            data: { userId: user.id, businessName: "Search Test Store" },
+        });
+        const category = await db.category.create({
+            data: { name: `Beverages ${runId}` },
+        });
+        categoryId = category.id;
+
+        const product = (name: string, description: string) => ({
+            name,
+            description,
+            price: 5000,
+            stock: 10,
+            categoryId,
+            sellerId: seller.id,
+            images: [],
+        });
+        await db.product.createMany({
+            data: [
+                product(
+                    "Arabica Coffee Beans",
+                    "Roasted beans from the hills of Huye"
+                ),
+                product(
+                    "Ceramic Mug",
+                    "A mug for drinking coffee and tea every morning"
+                ),
+                product("Green Tea", "Loose leaf tea from Rubaya"),
+                product(
+                    "Milk <b>Frother</b>",
+                    'Froths milk for a latte <img src=x onerror="alert(1)"> & more'
+                ),
+            ],
+        });
+        // Sold in sizes priced apart from the product
+        const teapot = await db.product.create({
+            data: {
+                ...product("Cast Iron Teapot", "Brews loose leaf tea"),
+                hasVariants: true,
+                variants: {
+                    create: [
+                        { sku: `TEAPOT-S-${runId}`, price: 2000 },
+                        { sku: `TEAPOT-L-${runId}`, price: 15000 },
+                        {
+                            sku: `TEAPOT-XL-${runId}`,
+                            price: 50000,
+                            isActive: false,
+                        },
+                    ].map((variant) => ({
+                        ...variant,
+                        options: {},
+                        stock: 5,
+                        images: [],
+                    })),
+                },
+            },
+        });
+        teapotId = teapot.id;
+        await provider.indexProducts({ categoryId });
+    });
+
+    afterAll(async () => {
+        await db.product.deleteMany({ where: { categoryId } });
+        await db.category.delete({ where: { id: categoryId } });
+        await db.seller.deleteMany({
+            where: { businessName: "Search Test Store" },
+        });
+        await db.user.delete({
+            where: { email: `search-${runId}@example.com` },
+        });
+        await db.$disconnect();
+    });
+
+    it("should rank name matches above description matches", async () => {
+        const result = await provider.search(searchQuery("coffee"));
+
+        expect(result.total).toBe(2);
+        expect(result.hits[0].highlights.name).toBe(
+            "Arabica <mark>Coffee</mark> Beans"
+        );
+        expect(result.hits[1].highlights.description).toContain(
+            "<mark>coffee</mark>"
+        );
+        expect(result.hits[0].relevance).toBeGreaterThan(
+            result.hits[1].relevance
+        );
+    });
+
+    it("should match stemmed words", async () => {
+        const result = await provider.search(searchQuery("roasting"));
+
+        expect(result.hits).toHaveLength(1);
+        expect(result.hits[0].highlights.description).toContain(
+            "<mark>Roasted</mark>"
+        );
+    });
+
+    it("should tolerate typos in product names", async () => {
+        const result = await provider.search(searchQuery("arabika"));
+
+        expect(result.total).toBe(1);
+    });
+
+    it("should match the category name", async () => {
+        const result = await provider.search(searchQuery("beverages"));
+
+        expect(result.total).toBe(5);
+    });
+
+    it("should escape product text in highlights", async () => {
+        const result = await provider.search(searchQuery("milk"));
+
+        expect(result.hits[0].highlights.name).toBe(
+            "<mark>Milk</mark> &lt;b&gt;Frother&lt;/b&gt;"
+        );
+        expect(result.hits[0].highlights.description).toContain(
+            "&lt;img src=x onerror=&quot;alert(1)&quot;&gt; &amp; more"
+        );
+        expect(result.hits[0].highlights.description).not.toContain("<img");
+    });
+
+    it("should count the matching products by facet", async () => {
+        const facets = await provider.getFacets(
+            { text: "coffee", categoryIds: [categoryId] },
+            [1000, 10000]
+        );
+
+        expect(facets.categories).toEqual([{ categoryId, count: 2 }]);
+        expect(facets.prices).toEqual([{ bucket: 1, count: 2 }]);
+        expect(facets.stock).toEqual({ inStock: 2, outOfStock: 0 });
+    });
+
+    it("should filter on the prices of variants", async () => {
+        const dearer = await provider.search({
+            ...searchQuery("tea"),
+            minPrice: 10000,
+        });
+        const cheaper = await provider.search({
+            ...searchQuery("tea"),
+            maxPrice: 3000,
+        });
+        const inactive = await provider.search({
+            ...searchQuery("tea"),
+            minPrice: 20000,
+        });
+
+        expect(dearer.hits.map((hit) => hit.id)).toEqual([teapotId]);
+        expect(cheaper.hits.map((hit) => hit.id)).toEqual([teapotId]);
+        expect(inactive.total).toBe(0);
+    });
+
+    it("should sort by the lowest or highest price of variants", async () => {
+        const ascending = await provider.search({
+            ...searchQuery("tea"),
+            sortBy: "price",
+            sortOrder: "asc",
+        });
+        const descending = await provider.search({
+            ...searchQuery("tea"),
+            sortBy: "price",
+            sortOrder: "desc",
+        });
+
+        expect(ascending.hits[0].id).toBe(teapotId);
+        expect(descending.hits[0].id).toBe(teapotId);
+    });
+
+    it("should count products with variants by their lowest price", async () => {
+        const facets = await provider.getFacets(
+            { text: "iron", categoryIds: [categoryId] },
+            [3000, 10000]
+        );
+
+        expect(facets.prices).toEqual([{ bucket: 0, count: 1 }]);
+    });
+});
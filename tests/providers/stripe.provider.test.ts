@@ -0,0 +1,170 @@
+import { StripePaymentProvider } from "@/providers/payment";
+import { stripe } from "@/config/stripe";
+import { PaymentStatus } from "@prisma/client";
+
+// Mock Stripe
+jest.mock("@/config/stripe", () => ({
+    stripe: {
+        paymentIntents: {
+            create: jest.fn(),
+            retrieve: jest.fn(),
+        },
+        refunds: {
+            create: jest.fn(),
+        },
+        webhooks: {
+            constructEvent: jest.fn(),
+        },
+    },
+    STRIPE_CONFIG: {
+        currency: "usd",
+        webhookSecret: "whsec_test",
+    },
+}));
+
+describe("StripePaymentProvider", () => {
+    let provider: StripePaymentProvider;
+
+    const webhookRequest = (signature?: string) => ({
+        body: Buffer.from("{}"),
+        headers: signature ? { "stripe-signature": signature } : {},
+        query: {},
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        provider = new StripePaymentProvider();
+    });
+
+    it("should create payment intents in minor units", async () => {
+        (stripe.paymentIntents.create as jest.Mock).mockResolvedValue({
+            id: "pi_123",
+            status: "requires_payment_method",
+            client_secret: "secret_123",
+        });
+
+        const result = await provider.createPaymentIntent({
+            amount: 1050,
+            orderId: "order123",
+        });
+
+        expect(stripe.paymentIntents.create).toHaveBeenCalledWith({
+            amount: 1050,
+            currency: "usd",
+            metadata: { orderId: "order123" },
+        });
+        expect(result).toEqual({
+            id: "pi_123",
+            status: PaymentStatus.PENDING,
+            clientSecret: "secret_123",
+        });
+    });
+
+    it("should look up a payment intent with its client secret", async () => {
+        (stripe.paymentIntents.retrieve as jest.Mock).mockResolvedValue({
+            id: "pi_123",
+            status: "requires_payment_method",
+            client_secret: "pi_123_secret",
+        });
+
+        const result = await provider.getPaymentIntent("pi_123");
+
+        expect(result).toEqual({
+            id: "pi_123",
+            status: PaymentStatus.PENDING,
+            clientSecret: "pi_123_secret",
+        });
+    });
+
+    it("should confirm succeeded payment intents as completed", async () => {
+        (stripe.paymentIntents.retrieve as jest.Mock).mockResolvedValue({
+            id: "pi_123",
+            status: "succeeded",
+            amount: 1000,
+        });
+
+        const result = await provider.confirmPayment("pi_123");
+
+        expect(result).toEqual({
+            id: "pi_123",
+            status: PaymentStatus.COMPLETED,
+            amount: 1000,
+        });
+    });
+
+    it("should refund in minor units", async () => {
+        (stripe.refunds.create as jest.Mock).mockResolvedValue({
+            id: "re_123",
+            status: "succeeded",
+        });
+
+        const result = await provider.refundPayment("pi_123", 2550);
+
+        expect(stripe.refunds.create).toHaveBeenCalledWith({
+            payment_intent: "pi_123",
+            amount: 2550,
+        });
+        expect(result).toEqual({ id: "re_123", status: "succeeded" });
+    });
+
+    describe("parseWebhook", () => {
+        it("should map payment intent events to payment statuses", async () => {
+            (stripe.webhooks.constructEvent as jest.Mock).mockReturnValue({
+                id: "evt_123",
+                type: "payment_intent.payment_failed",
+                data: { object: { id: "pi_123" } },
+            });
+
+            const event = await provider.parseWebhook(
+                webhookRequest("t=1,v1=sig")
+            );
+
+            expect(stripe.webhooks.constructEvent).toHaveBeenCalledWith(
+                expect.any(Buffer),
+                "t=1,v1=sig",
+                "whsec_test"
+            );
+            expect(event).toMatchObject({
+                id: "evt_123",
+                type: "payment_intent.payment_failed",
+                paymentId: "pi_123",
+                paymentStatus: PaymentStatus.FAILED,
+            });
+        });
+
+        it("should only mark fully refunded charges as refunded", async () => {
+            (stripe.webhooks.constructEvent as jest.Mock).mockReturnValue({
+                id: "evt_123",
+                type: "charge.refunded",
+                data: {
+                    object: { payment_intent: "pi_123", refunded: false },
+                },
+            });
+
+            const event = await provider.parseWebhook(
+                webhookRequest("t=1,v1=sig")
+            );
+
+            expect(event.paymentId).toBe("pi_123");
+            expect(event.paymentStatus).toBeNull();
+        });
+
+        it("should reject requests without a signature", async () => {
+            await expect(
+                provider.parseWebhook(webhookRequest())
+            ).rejects.toThrow("Missing Stripe signature");
+        });
+
+        it("should reject invalid signatures", async () => {
+            (stripe.webhooks.constructEvent as jest.Mock).mockImplementation(
+                () => {
+                    throw new Error("No signatures found");
+                }
+            );
+
+            await expect(
+                provider.parseWebhook(webhookRequest("t=1,v1=bad"))
+            ).rejects.toThrow("Invalid webhook signature");
+        });
+    });
+});
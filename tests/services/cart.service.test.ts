@@ -5,7 +5,8 @@ import { prisma } from "@/config/database";
 jest.mock("@/config/database", () => ({
     prisma: {
         cart: {
-            upsert: jest.fn(),
+            findFirst: jest.fn(),
+            create: jest.fn(),
             update: jest.fn(),
             delete: jest.fn(),
             findMany: jest.fn(),
@@ -14,6 +15,21 @@ jest.mock("@/config/database", () => ({
         product: {
             findUnique: jest.fn(),
         },
+        stockReservation: {
+            aggregate: jest.fn(),
+        },
+        coupon: {
+            findUnique: jest.fn(),
+        },
+        couponRedemption: {
+            count: jest.fn(),
+        },
+        address: {
+            findFirst: jest.fn(),
+        },
+        shippingZone: {
+            findMany: jest.fn(),
+        },
     },
 }));
 
@@ -24,7 +40,7 @@ describe("CartService", () => {
     const mockProduct = {
         id: mockProductId,
         name: "Test Product",
-        price: 99.99,
+        price: 9999,
         stock: 100,
         isActive: true,
         category: {
@@ -47,11 +63,15 @@ describe("CartService", () => {
     beforeEach(() => {
         cartService = new CartService();
         jest.clearAllMocks();
+        (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+            _sum: { quantity: null },
+        });
     });
 
     describe("addCart", () => {
         it("should add new item to cart", async () => {
-            (prisma.cart.upsert as jest.Mock).mockResolvedValue(mockCartItem);
+            (prisma.cart.findFirst as jest.Mock).mockResolvedValue(null);
+            (prisma.cart.create as jest.Mock).mockResolvedValue(mockCartItem);
 
             const result = await cartService.addCart(
                 mockUserId,
@@ -60,31 +80,34 @@ describe("CartService", () => {
             );
 
             expect(result).toEqual(mockCartItem);
-            expect(prisma.cart.upsert).toHaveBeenCalledWith({
+            expect(prisma.cart.findFirst).toHaveBeenCalledWith({
                 where: {
-                    userId_productId: {
-                        userId: mockUserId,
-                        productId: mockProductId,
-                    },
-                },
-                update: {
-                    quantity: { increment: 2 },
+                    userId: mockUserId,
+                    productId: mockProductId,
+                    variantId: null,
                 },
-                create: {
+            });
+            expect(prisma.cart.create).toHaveBeenCalledWith({
+                data: {
                     userId: mockUserId,
                     productId: mockProductId,
+                    variantId: undefined,
                     quantity: 2,
                 },
                 include: {
                     product: true,
+                    variant: true,
                 },
             });
         });
 
         it("should increment quantity for existing item", async () => {
-            const existingItem = { ...mockCartItem, quantity: 1 };
+            const existingItem = { ...mockCartItem, id: "cart1", quantity: 1 };
             const updatedItem = { ...mockCartItem, quantity: 3 };
-            (prisma.cart.upsert as jest.Mock).mockResolvedValue(updatedItem);
+            (prisma.cart.findFirst as jest.Mock).mockResolvedValue(
+                existingItem
+            );
+            (prisma.cart.update as jest.Mock).mockResolvedValue(updatedItem);
 
             const result = await cartService.addCart(
                 mockUserId,
@@ -93,19 +116,43 @@ describe("CartService", () => {
             );
 
             expect(result).toEqual(updatedItem);
-            expect(prisma.cart.upsert).toHaveBeenCalledWith(
+            expect(prisma.cart.update).toHaveBeenCalledWith(
                 expect.objectContaining({
-                    update: {
+                    where: { id: "cart1" },
+                    data: {
                         quantity: { increment: 2 },
                     },
                 })
             );
         });
+
+        it("should keep each variant of a product on its own line", async () => {
+            (prisma.cart.findFirst as jest.Mock).mockResolvedValue(null);
+
+            await cartService.addCart(mockUserId, mockProductId, 1, "var123");
+
+            expect(prisma.cart.findFirst).toHaveBeenCalledWith({
+                where: {
+                    userId: mockUserId,
+                    productId: mockProductId,
+                    variantId: "var123",
+                },
+            });
+            expect(prisma.cart.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({ variantId: "var123" }),
+                })
+            );
+        });
     });
 
     describe("updateCartItem", () => {
         it("should update item quantity", async () => {
             const updatedItem = { ...mockCartItem, quantity: 3 };
+            (prisma.cart.findFirst as jest.Mock).mockResolvedValue({
+                ...mockCartItem,
+                id: "cart1",
+            });
             (prisma.cart.update as jest.Mock).mockResolvedValue(updatedItem);
 
             const result = await cartService.updateCartItem(
@@ -116,20 +163,20 @@ describe("CartService", () => {
 
             expect(result).toEqual(updatedItem);
             expect(prisma.cart.update).toHaveBeenCalledWith({
-                where: {
-                    userId_productId: {
-                        userId: mockUserId,
-                        productId: mockProductId,
-                    },
-                },
+                where: { id: "cart1" },
                 data: { quantity: 3 },
                 include: {
                     product: true,
+                    variant: true,
                 },
             });
         });
 
         it("should remove item when quantity is 0", async () => {
+            (prisma.cart.findFirst as jest.Mock).mockResolvedValue({
+                ...mockCartItem,
+                id: "cart1",
+            });
             (prisma.cart.delete as jest.Mock).mockResolvedValue(mockCartItem);
 
             const result = await cartService.updateCartItem(
@@ -140,14 +187,17 @@ describe("CartService", () => {
 
             expect(result).toEqual(mockCartItem);
             expect(prisma.cart.delete).toHaveBeenCalledWith({
-                where: {
-                    userId_productId: {
-                        userId: mockUserId,
-                        productId: mockProductId,
-                    },
-                },
+                where: { id: "cart1" },
             });
         });
+
+        it("should throw error if the item is not in the cart", async () => {
+            (prisma.cart.findFirst as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                cartService.updateCartItem(mockUserId, mockProductId, 3)
+            ).rejects.toThrow("Cart item not found");
+        });
     });
 
     describe("getCart", () => {
@@ -170,6 +220,7 @@ describe("CartService", () => {
                             seller: true,
                         },
                     },
+                    variant: true,
                 },
             });
         });
@@ -188,7 +239,86 @@ describe("CartService", () => {
 
             const result = await cartService.getCartTotal(mockUserId);
 
-            expect(result).toBe(99.99 * 3); // 2 items of first product + 1 item of second product
+            expect(result.total).toBe(9999 * 3); // 2 items of first product + 1 item of second product
+            expect(result.discountAmount).toBe(0);
+            expect(prisma.coupon.findUnique).not.toHaveBeenCalled();
+        });
+
+        it("should take off the discount of a coupon", async () => {
+            (prisma.cart.findMany as jest.Mock).mockResolvedValue(
+                mockCartItems
+            );
+            (prisma.coupon.findUnique as jest.Mock).mockResolvedValue({
+                id: "coupon123",
+                code: "SAVE10",
+                type: "PERCENTAGE",
+                value: 10,
+                isActive: true,
+                categoryIds: [],
+                sellerIds: [],
+            });
+
+            const result = await cartService.getCartTotal(mockUserId, {
+                couponCode: "save10",
+            });
+
+            expect(prisma.coupon.findUnique).toHaveBeenCalledWith({
+                where: { code: "SAVE10" },
+            });
+            expect(result).toEqual({
+                subtotal: 9999 * 3,
+                discountAmount: 3000,
+                freeShipping: false,
+                couponCode: "SAVE10",
+                shipping: null,
+                shippingCost: 0,
+                total: 9999 * 3 - 3000,
+                currency: "RWF",
+            });
+        });
+
+        it("should add the delivery to the address", async () => {
+            (prisma.cart.findMany as jest.Mock).mockResolvedValue(
+                mockCartItems
+            );
+            (prisma.address.findFirst as jest.Mock).mockResolvedValue({
+                id: "address123",
+                city: "Kicukiro",
+                state: "Kigali City",
+                country: "Rwanda",
+            });
+            (prisma.shippingZone.findMany as jest.Mock).mockResolvedValue([
+                {
+                    name: "Kigali",
+                    provinces: ["Kigali City"],
+                    districts: [],
+                    freeShippingThreshold: null,
+                    rates: [
+                        {
+                            id: "rate123",
+                            name: "Standard",
+                            basis: "ORDER_VALUE",
+                            minValue: 0,
+                            maxValue: null,
+                            price: 5,
+                            estimatedDays: 2,
+                        },
+                    ],
+                },
+            ]);
+
+            const result = await cartService.getCartTotal(mockUserId, {
+                addressId: "address123",
+            });
+
+            expect(result.shipping).toEqual({
+                rateId: "rate123",
+                name: "Standard",
+                zone: "Kigali",
+                price: 5,
+                estimatedDays: 2,
+            });
+            expect(result.total).toBe(9999 * 3 + 5);
         });
     });
 
@@ -252,5 +382,27 @@ describe("CartService", () => {
                 },
             ]);
         });
+
+        it("should not count stock held by reservations", async () => {
+            (prisma.cart.findMany as jest.Mock).mockResolvedValue(
+                mockCartItems
+            );
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: 99 },
+            });
+
+            const result = await cartService.validateCart(mockUserId);
+
+            expect(result).toEqual([
+                {
+                    productId: mockProductId,
+                    valid: false,
+                    reason: "Insufficient stock",
+                },
+            ]);
+        });
     });
 });
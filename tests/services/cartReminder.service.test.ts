@@ -0,0 +1,200 @@
+import { CartReminderService } from "@/services/cartReminder.service";
+import { EmailService } from "@/services/email.service";
+import { NotificationService } from "@/services/notification.service";
+import { prisma } from "@/config/database";
+import { CART_CONFIG } from "@/config/cart";
+import { NotificationType } from "@prisma/client";
+
+jest.mock("@/services/email.service");
+jest.mock("@/services/notification.service");
+
+// Mock Prisma client
+jest.mock("@/config/database", () => ({
+    prisma: {
+        cart: {
+            groupBy: jest.fn(),
+            findMany: jest.fn(),
+        },
+        cartReminder: {
+            findMany: jest.fn(),
+            create: jest.fn(),
+            aggregate: jest.fn(),
+            count: jest.fn(),
+        },
+        order: {
+            aggregate: jest.fn(),
+        },
+        user: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+describe("CartReminderService", () => {
+    let cartReminderService: CartReminderService;
+    const mockUserId = "user123";
+    const cartUpdatedAt = new Date(
+        Date.now() - (CART_CONFIG.abandonedAfterHours + 1) * 60 * 60 * 1000
+    );
+
+    const mockUser = {
+        email: "customer@example.com",
+        firstName: "Aline",
+        notificationPreferences: { promotions: true },
+    };
+
+    const mockCart = [
+        {
+            userId: mockUserId,
+            productId: "prod123",
+            quantity: 2,
+            product: {
+                id: "prod123",
+                name: "Coffee",
+                price: 5000,
+                isActive: true,
+            },
+        },
+        {
+            userId: mockUserId,
+            productId: "prod456",
+            quantity: 1,
+            product: {
+                id: "prod456",
+                name: "Old Basket",
+                price: 8000,
+                isActive: false,
+            },
+        },
+    ];
+
+    beforeEach(() => {
+        cartReminderService = new CartReminderService();
+        jest.clearAllMocks();
+        (prisma.cart.groupBy as jest.Mock).mockResolvedValue([
+            { userId: mockUserId, _max: { updatedAt: cartUpdatedAt } },
+        ]);
+        (prisma.cartReminder.findMany as jest.Mock).mockResolvedValue([]);
+        (prisma.cart.findMany as jest.Mock).mockResolvedValue(mockCart);
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue(mockUser);
+    });
+
+    describe("sendAbandonedCartReminders", () => {
+        it("should remind customers of their abandoned carts", async () => {
+            const result =
+                await cartReminderService.sendAbandonedCartReminders();
+
+            expect(result).toEqual({ reminded: 1 });
+            expect(prisma.cartReminder.create).toHaveBeenCalledWith({
+                data: {
+                    userId: mockUserId,
+                    cartValue: 10000,
+                    currency: "RWF",
+                    itemCount: 2,
+                    cartUpdatedAt,
+                },
+            });
+            expect(
+                NotificationService.prototype.createNotification
+            ).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    userId: mockUserId,
+                    type: NotificationType.CART_REMINDER,
+                })
+            );
+            expect(
+                EmailService.prototype.sendAbandonedCartEmail
+            ).toHaveBeenCalledWith(mockUser, {
+                items: [{ name: "Coffee", quantity: 2, price: 5000 }],
+                total: 10000,
+                currency: "RWF",
+            });
+        });
+
+        it("should not remind customers who turned off promotions", async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+                ...mockUser,
+                notificationPreferences: { promotions: false },
+            });
+
+            const result =
+                await cartReminderService.sendAbandonedCartReminders();
+
+            expect(result).toEqual({ reminded: 0 });
+            expect(prisma.cartReminder.create).not.toHaveBeenCalled();
+            expect(
+                EmailService.prototype.sendAbandonedCartEmail
+            ).not.toHaveBeenCalled();
+        });
+
+        it("should not email customers who turned off emails", async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+                ...mockUser,
+                notificationPreferences: { emailNotifications: false },
+            });
+
+            await cartReminderService.sendAbandonedCartReminders();
+
+            expect(
+                NotificationService.prototype.createNotification
+            ).toHaveBeenCalled();
+            expect(
+                EmailService.prototype.sendAbandonedCartEmail
+            ).not.toHaveBeenCalled();
+        });
+
+        it("should remind about a cart only once until it changes", async () => {
+            (prisma.cartReminder.findMany as jest.Mock).mockResolvedValue([
+                { userId: mockUserId, cartUpdatedAt },
+            ]);
+
+            const result =
+                await cartReminderService.sendAbandonedCartReminders();
+
+            expect(result).toEqual({ reminded: 0 });
+            expect(prisma.user.findUnique).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getAbandonedCartReport", () => {
+        it("should report abandoned carts and the recovery rate", async () => {
+            (prisma.cartReminder.aggregate as jest.Mock).mockResolvedValue({
+                _count: { id: 8 },
+                _sum: { cartValue: 120000 },
+            });
+            (prisma.cartReminder.count as jest.Mock).mockResolvedValue(3);
+            (prisma.order.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { totalAmount: 45000 },
+            });
+            const startDate = new Date("2026-10-01");
+            const endDate = new Date("2026-10-31");
+            (prisma.cart.findMany as jest.Mock).mockResolvedValue([
+                mockCart[0],
+            ]);
+
+            const report = await cartReminderService.getAbandonedCartReport({
+                startDate,
+                endDate,
+            });
+
+            expect(prisma.cartReminder.count).toHaveBeenCalledWith({
+                where: {
+                    sentAt: { gte: startDate, lte: endDate },
+                    orderId: { not: null },
+                },
+            });
+            expect(report).toEqual({
+                startDate,
+                endDate,
+                currency: "RWF",
+                abandonedCarts: 1,
+                abandonedCartValue: 10000,
+                remindersSent: 8,
+                remindedCartValue: 120000,
+                recoveredCarts: 3,
+                recoveredRevenue: 45000,
+                recoveryRate: 37.5,
+            });
+        });
+    });
+});
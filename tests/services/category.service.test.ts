@@ -87,7 +87,7 @@ describe("CategoryService", () => {
                 {
                     id: "prod123",
                     name: "Smartphone",
-                    price: 999.99,
+                    price: 99999,
                     images: ["phone.jpg"],
                 },
             ],
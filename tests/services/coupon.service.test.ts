@@ -0,0 +1,346 @@
+import { CouponService } from "@/services/coupon.service";
+import { NotificationService } from "@/services/notification.service";
+import { prisma } from "@/config/database";
+import { Coupon, CouponType, NotificationType } from "@prisma/client";
+
+jest.mock("@/services/notification.service");
+
+// Mock Prisma client
+jest.mock("@/config/database", () => ({
+    prisma: {
+        $queryRaw: jest.fn(),
+        coupon: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            findUniqueOrThrow: jest.fn(),
+            findMany: jest.fn(),
+            update: jest.fn(),
+            count: jest.fn(),
+        },
+        couponRedemption: {
+            findUnique: jest.fn(),
+            count: jest.fn(),
+            create: jest.fn(),
+            delete: jest.fn(),
+        },
+        user: {
+            findMany: jest.fn(),
+        },
+    },
+}));
+
+describe("CouponService", () => {
+    let couponService: CouponService;
+    const mockUserId = "user123";
+
+    const mockCoupon: Coupon = {
+        id: "coupon123",
+        code: "SAVE10",
+        description: null,
+        type: CouponType.PERCENTAGE,
+        value: 10,
+        minBasket: null,
+        usageLimit: null,
+        perUserLimit: null,
+        usageCount: 0,
+        startsAt: null,
+        expiresAt: null,
+        isActive: true,
+        categoryIds: [],
+        sellerIds: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    const mockLines = [
+        {
+            productId: "prod123",
+            quantity: 2,
+            price: 100,
+            categoryId: "cat123",
+            sellerId: "seller123",
+        },
+        {
+            productId: "prod456",
+            quantity: 1,
+            price: 50,
+            categoryId: "cat456",
+            sellerId: "seller456",
+        },
+    ];
+
+    const withCoupon = (overrides: Partial<Coupon>) =>
+        (prisma.coupon.findUnique as jest.Mock).mockResolvedValue({
+            ...mockCoupon,
+            ...overrides,
+        });
+
+    beforeEach(() => {
+        couponService = new CouponService();
+        jest.clearAllMocks();
+    });
+
+    describe("createCoupon", () => {
+        it("should create a coupon with an upper case code", async () => {
+            (prisma.coupon.findUnique as jest.Mock).mockResolvedValue(null);
+            (prisma.coupon.create as jest.Mock).mockResolvedValue(mockCoupon);
+
+            const result = await couponService.createCoupon({
+                code: "save10",
+                type: CouponType.PERCENTAGE,
+                value: 10,
+            });
+
+            expect(result).toEqual(mockCoupon);
+            expect(prisma.coupon.create).toHaveBeenCalledWith({
+                data: {
+                    code: "SAVE10",
+                    type: CouponType.PERCENTAGE,
+                    value: 10,
+                },
+            });
+        });
+
+        it("should reject codes that already exist", async () => {
+            (prisma.coupon.findUnique as jest.Mock).mockResolvedValue(
+                mockCoupon
+            );
+
+            await expect(
+                couponService.createCoupon({
+                    code: "SAVE10",
+                    type: CouponType.PERCENTAGE,
+                    value: 10,
+                })
+            ).rejects.toThrow("Coupon code already exists");
+        });
+
+        it("should reject percentages above 100", async () => {
+            await expect(
+                couponService.createCoupon({
+                    code: "TOOMUCH",
+                    type: CouponType.PERCENTAGE,
+                    value: 120,
+                })
+            ).rejects.toThrow("Percentage cannot be more than 100");
+        });
+    });
+
+    describe("applyCoupon", () => {
+        it("should take a percentage off the basket", async () => {
+            withCoupon({});
+
+            const result = await couponService.applyCoupon(
+                "save10",
+                mockUserId,
+                mockLines
+            );
+
+            expect(result.subtotal).toBe(250);
+            expect(result.discountAmount).toBe(25);
+            expect(result.freeShipping).toBe(false);
+        });
+
+        it("should not take more than the basket for fixed amounts", async () => {
+            withCoupon({ type: CouponType.FIXED_AMOUNT, value: 400 });
+
+            const result = await couponService.applyCoupon(
+                "SAVE10",
+                mockUserId,
+                mockLines
+            );
+
+            expect(result.discountAmount).toBe(250);
+        });
+
+        it("should give free shipping without a discount", async () => {
+            withCoupon({ type: CouponType.FREE_SHIPPING, value: 0 });
+
+            const result = await couponService.applyCoupon(
+                "SAVE10",
+                mockUserId,
+                mockLines
+            );
+
+            expect(result.discountAmount).toBe(0);
+            expect(result.freeShipping).toBe(true);
+        });
+
+        it("should only discount lines in the coupon's categories and sellers", async () => {
+            withCoupon({ categoryIds: ["cat123"], sellerIds: ["seller123"] });
+
+            const result = await couponService.applyCoupon(
+                "SAVE10",
+                mockUserId,
+                mockLines
+            );
+
+            expect(result.discountAmount).toBe(20);
+        });
+
+        it("should reject coupons that cover none of the lines", async () => {
+            withCoupon({ sellerIds: ["seller789"] });
+
+            await expect(
+                couponService.applyCoupon("SAVE10", mockUserId, mockLines)
+            ).rejects.toThrow(
+                "Coupon does not apply to any items in your order"
+            );
+        });
+
+        it("should reject unknown and inactive codes", async () => {
+            (prisma.coupon.findUnique as jest.Mock).mockResolvedValue(null);
+            await expect(
+                couponService.applyCoupon("NOPE", mockUserId, mockLines)
+            ).rejects.toThrow("Invalid coupon code");
+
+            withCoupon({ isActive: false });
+            await expect(
+                couponService.applyCoupon("SAVE10", mockUserId, mockLines)
+            ).rejects.toThrow("Invalid coupon code");
+        });
+
+        it("should only accept coupons inside their validity window", async () => {
+            withCoupon({ startsAt: new Date(Date.now() + 60 * 60 * 1000) });
+            await expect(
+                couponService.applyCoupon("SAVE10", mockUserId, mockLines)
+            ).rejects.toThrow("Coupon is not valid yet");
+
+            withCoupon({ expiresAt: new Date(Date.now() - 1000) });
+            await expect(
+                couponService.applyCoupon("SAVE10", mockUserId, mockLines)
+            ).rejects.toThrow("Coupon has expired");
+        });
+
+        it("should require the minimum basket", async () => {
+            withCoupon({ minBasket: 300 });
+
+            await expect(
+                couponService.applyCoupon("SAVE10", mockUserId, mockLines)
+            ).rejects.toThrow(
+                "Order must be at least 300 RWF to use this coupon"
+            );
+        });
+
+        it("should only count the items a scoped coupon covers towards the minimum basket", async () => {
+            withCoupon({ minBasket: 100, categoryIds: ["cat456"] });
+
+            await expect(
+                couponService.applyCoupon("SAVE10", mockUserId, mockLines)
+            ).rejects.toThrow(
+                "Items this coupon applies to must be at least 100 RWF"
+            );
+
+            withCoupon({ minBasket: 200, categoryIds: ["cat123"] });
+            await expect(
+                couponService.applyCoupon("SAVE10", mockUserId, mockLines)
+            ).resolves.toMatchObject({ discountAmount: 20 });
+        });
+
+        it("should enforce the global and per user limits", async () => {
+            withCoupon({ usageLimit: 5, usageCount: 5 });
+            await expect(
+                couponService.applyCoupon("SAVE10", mockUserId, mockLines)
+            ).rejects.toThrow("Coupon usage limit reached");
+
+            withCoupon({ perUserLimit: 1 });
+            (prisma.couponRedemption.count as jest.Mock).mockResolvedValue(1);
+            await expect(
+                couponService.applyCoupon("SAVE10", mockUserId, mockLines)
+            ).rejects.toThrow("You have already used this coupon");
+            expect(prisma.couponRedemption.count).toHaveBeenCalledWith({
+                where: { couponId: "coupon123", userId: mockUserId },
+            });
+        });
+    });
+
+    describe("redeemCoupon", () => {
+        const redemption = {
+            couponId: "coupon123",
+            userId: mockUserId,
+            orderId: "order123",
+            discountAmount: 25,
+        };
+
+        it("should lock the coupon and record the redemption", async () => {
+            (prisma.coupon.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                mockCoupon
+            );
+
+            await couponService.redeemCoupon(prisma, redemption);
+
+            expect(prisma.$queryRaw).toHaveBeenCalled();
+            expect(prisma.coupon.update).toHaveBeenCalledWith({
+                where: { id: "coupon123" },
+                data: { usageCount: { increment: 1 } },
+            });
+            expect(prisma.couponRedemption.create).toHaveBeenCalledWith({
+                data: redemption,
+            });
+        });
+
+        it("should re-check the limit once the coupon is locked", async () => {
+            (prisma.coupon.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+                ...mockCoupon,
+                usageLimit: 1,
+                usageCount: 1,
+            });
+
+            await expect(
+                couponService.redeemCoupon(prisma, redemption)
+            ).rejects.toThrow("Coupon usage limit reached");
+            expect(prisma.couponRedemption.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("releaseRedemption", () => {
+        it("should do nothing for orders without a coupon", async () => {
+            (prisma.couponRedemption.findUnique as jest.Mock).mockResolvedValue(
+                null
+            );
+
+            await couponService.releaseRedemption(prisma, "order123");
+
+            expect(prisma.couponRedemption.delete).not.toHaveBeenCalled();
+            expect(prisma.coupon.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("announceCoupon", () => {
+        it("should notify customers who accept promotions", async () => {
+            (prisma.coupon.findUnique as jest.Mock).mockResolvedValue(
+                mockCoupon
+            );
+            (prisma.user.findMany as jest.Mock).mockResolvedValue([
+                { id: "user1", notificationPreferences: { promotions: true } },
+                { id: "user2", notificationPreferences: { promotions: false } },
+                { id: "user3", notificationPreferences: null },
+            ]);
+
+            const result = await couponService.announceCoupon("coupon123");
+
+            expect(result).toBe(2);
+            expect(
+                NotificationService.prototype.createBulkNotification
+            ).toHaveBeenCalledWith([
+                expect.objectContaining({
+                    userId: "user1",
+                    type: NotificationType.PROMOTIONAL,
+                    message: "Use code SAVE10 on your next order",
+                }),
+                expect.objectContaining({ userId: "user3" }),
+            ]);
+        });
+
+        it("should not announce inactive coupons", async () => {
+            (prisma.coupon.findUnique as jest.Mock).mockResolvedValue({
+                ...mockCoupon,
+                isActive: false,
+            });
+
+            await expect(
+                couponService.announceCoupon("coupon123")
+            ).rejects.toThrow("Coupon is not active");
+        });
+    });
+});
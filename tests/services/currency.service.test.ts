@@ -0,0 +1,257 @@
+import { CurrencyService } from "@/services/currency.service";
+import { prisma } from "@/config/database";
+
+// Mock Prisma client
+jest.mock("@/config/database", () => ({
+    prisma: {
+        exchangeRate: {
+            findMany: jest.fn(),
+            findUnique: jest.fn(),
+            upsert: jest.fn(),
+            delete: jest.fn(),
+        },
+        user: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+describe("CurrencyService", () => {
+    let currencyService: CurrencyService;
+
+    const mockUsdRate = {
+        id: "rate123",
+        currency: "USD",
+        rate: 0.00075,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    beforeEach(() => {
+        currencyService = new CurrencyService();
+        jest.clearAllMocks();
+    });
+
+    describe("setRate", () => {
+        it("should save the rate of a currency", async () => {
+            (prisma.exchangeRate.upsert as jest.Mock).mockResolvedValue(
+                mockUsdRate
+            );
+
+            const rate = await currencyService.setRate("usd", 0.00075);
+
+            expect(rate).toEqual(mockUsdRate);
+            expect(prisma.exchangeRate.upsert).toHaveBeenCalledWith({
+                where: { currency: "USD" },
+                create: { currency: "USD", rate: 0.00075 },
+                update: { rate: 0.00075 },
+            });
+        });
+
+        it("should not set a rate for the base currency", async () => {
+            await expect(currencyService.setRate("RWF", 1)).rejects.toThrow(
+                "The base currency has no exchange rate"
+            );
+        });
+
+        it("should reject unsupported currencies", async () => {
+            await expect(currencyService.setRate("XYZ", 1)).rejects.toThrow(
+                "Unsupported currency: XYZ"
+            );
+        });
+    });
+
+    describe("getUserCurrency", () => {
+        it("should use the currency in the user's settings", async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+                settings: { language: "en", currency: "usd" },
+            });
+
+            await expect(
+                currencyService.getUserCurrency("user123")
+            ).resolves.toBe("USD");
+        });
+
+        it("should default to the base currency", async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+                settings: null,
+            });
+
+            await expect(
+                currencyService.getUserCurrency("user123")
+            ).resolves.toBe("RWF");
+        });
+    });
+
+    describe("localizeProducts", () => {
+        const mockProduct = { id: "prod123", price: 12500, currency: "RWF" };
+
+        it("should add the price in the display currency", async () => {
+            (prisma.exchangeRate.findUnique as jest.Mock).mockResolvedValue(
+                mockUsdRate
+            );
+
+            const [product] = await currencyService.localizeProducts(
+                [mockProduct],
+                "USD"
+            );
+
+            // 12,500 RWF is 9.375 USD, rounded to the cent
+            expect(product).toEqual({
+                ...mockProduct,
+                display: { currency: "USD", rate: 0.00075, price: 938 },
+            });
+        });
+
+        it("should round with the rule of the display currency", async () => {
+            (prisma.exchangeRate.findUnique as jest.Mock).mockResolvedValue({
+                ...mockUsdRate,
+                currency: "KES",
+                rate: 0.0987,
+            });
+
+            const [product] = await currencyService.localizeProducts(
+                [mockProduct],
+                "KES"
+            );
+
+            // 1,233.75 KES is shown in whole shillings
+            expect(product.display?.price).toBe(123400);
+        });
+
+        it("should leave prices in the base currency without a rate", async () => {
+            (prisma.exchangeRate.findUnique as jest.Mock).mockResolvedValue(
+                null
+            );
+
+            const products = await currencyService.localizeProducts(
+                [mockProduct],
+                "EUR"
+            );
+
+            expect(products).toEqual([mockProduct]);
+        });
+
+        it("should not look up a rate for the base currency", async () => {
+            const products = await currencyService.localizeProducts(
+                [mockProduct],
+                "RWF"
+            );
+
+            expect(products).toEqual([mockProduct]);
+            expect(prisma.exchangeRate.findUnique).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("localizeProducts with variants", () => {
+        it("should convert the prices of the variants", async () => {
+            (prisma.exchangeRate.findUnique as jest.Mock).mockResolvedValue(
+                mockUsdRate
+            );
+            const product = {
+                id: "prod123",
+                price: 12500,
+                currency: "RWF",
+                variants: [{ id: "variant123", price: 20000 }],
+            };
+
+            const [localized] = await currencyService.localizeProducts(
+                [product],
+                "USD"
+            );
+
+            expect(localized.display?.price).toBe(938);
+            expect(localized.variants?.[0]).toEqual({
+                id: "variant123",
+                price: 20000,
+                display: { currency: "USD", rate: 0.00075, price: 1500 },
+            });
+        });
+    });
+
+    describe("localizeCart", () => {
+        const mockProduct = { id: "prod123", price: 12500, currency: "RWF" };
+
+        beforeEach(() => {
+            (prisma.exchangeRate.findUnique as jest.Mock).mockResolvedValue(
+                mockUsdRate
+            );
+        });
+
+        it("should price a line of a variant by the variant", async () => {
+            const [line] = await currencyService.localizeCart(
+                [
+                    {
+                        id: "item123",
+                        quantity: 1,
+                        product: mockProduct,
+                        variant: { id: "variant123", price: 20000 },
+                    },
+                ],
+                "USD"
+            );
+
+            expect(line.display).toEqual({
+                currency: "USD",
+                rate: 0.00075,
+                price: 1500,
+            });
+            expect(line.variant?.display?.price).toBe(1500);
+            expect(line.product.display?.price).toBe(938);
+        });
+
+        it("should price a line without a variant by the product", async () => {
+            const [line] = await currencyService.localizeCart(
+                [
+                    {
+                        id: "item123",
+                        quantity: 1,
+                        product: mockProduct,
+                        variant: null,
+                    },
+                ],
+                "USD"
+            );
+
+            expect(line.display?.price).toBe(938);
+            expect(line.variant).toBeNull();
+        });
+    });
+
+    describe("localizeOrder", () => {
+        it("should convert the amounts of the order and its items", async () => {
+            (prisma.exchangeRate.findUnique as jest.Mock).mockResolvedValue(
+                mockUsdRate
+            );
+            const order = {
+                id: "order123",
+                currency: "RWF",
+                totalAmount: 21000,
+                discountAmount: 0,
+                shippingCost: 1000,
+                netAmount: 17797,
+                taxAmount: 3203,
+                items: [{ id: "item123", price: 10000, grossAmount: 20000 }],
+            };
+
+            const localized = await currencyService.localizeOrder(order, "USD");
+
+            expect(localized.totalAmount).toBe(21000);
+            expect(localized.display).toEqual({
+                currency: "USD",
+                rate: 0.00075,
+                totalAmount: 1575,
+                discountAmount: 0,
+                shippingCost: 75,
+                netAmount: 1335,
+                taxAmount: 240,
+            });
+            expect(localized.items?.[0].display).toEqual({
+                currency: "USD",
+                rate: 0.00075,
+                price: 750,
+                grossAmount: 1500,
+            });
+        });
+    });
+});
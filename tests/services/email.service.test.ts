@@ -1,6 +1,5 @@
 import { EmailService } from "@/services/email.service";
 import { prisma } from "@/config/database";
-import nodemailer from "nodemailer";
 
 // Mock Prisma client
 jest.mock("@/config/database", () => ({
@@ -8,27 +7,43 @@ jest.mock("@/config/database", () => ({
         user: {
             findUnique: jest.fn(),
         },
+        order: {
+            findUnique: jest.fn(),
+        },
     },
 }));
 
-// Mock nodemailer
+jest.mock("@/services/invoice.service", () => ({
+    InvoiceService: jest.fn().mockImplementation(() => ({
+        generateInvoice: jest.fn().mockResolvedValue({
+            number: "INV-000001",
+            fileName: "INV-000001.pdf",
+            pdf: Buffer.from("pdf"),
+        }),
+    })),
+}));
+
+// Mock nodemailer. Every transport hands its emails to mockSendMail.
+const mockSendMail = jest.fn();
 jest.mock("nodemailer", () => ({
     createTransport: jest.fn(() => ({
-        sendMail: jest.fn(),
+        sendMail: (...args: unknown[]) => mockSendMail(...args),
+        verify: jest.fn(),
     })),
 }));
 
+// The service needs SMTP settings to be created
+process.env.SMTP_HOST = "smtp.example.com";
+process.env.SMTP_USER = "shop@example.com";
+process.env.SMTP_PASS = "password";
+
 describe("EmailService", () => {
     let emailService: EmailService;
-    let mockSendMail: jest.Mock;
 
     beforeEach(() => {
-        mockSendMail = jest.fn();
-        (nodemailer.createTransport as jest.Mock).mockReturnValue({
-            sendMail: mockSendMail,
-        });
         emailService = new EmailService();
         jest.clearAllMocks();
+        mockSendMail.mockReset().mockResolvedValue({ messageId: "123" });
     });
 
     describe("sendVerificationEmail", () => {
@@ -71,4 +86,66 @@ describe("EmailService", () => {
             ).rejects.toThrow("User not found");
         });
     });
+
+    describe("sendOrderConfirmationEmail", () => {
+        const mockUser = { email: "test@example.com", firstName: "Test" };
+        const mockOrder = {
+            id: "order123",
+            userId: "user123",
+            currency: "RWF",
+            totalAmount: 11800,
+            taxAmount: 1800,
+            items: [
+                {
+                    quantity: 2,
+                    price: 5000,
+                    product: { name: "Coffee beans" },
+                },
+            ],
+        };
+
+        beforeEach(() => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue(mockUser);
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
+        });
+
+        it("should send the confirmation with the invoice attached", async () => {
+            await emailService.sendOrderConfirmationEmail(
+                "user123",
+                "order123"
+            );
+
+            expect(mockSendMail).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    to: mockUser.email,
+                    subject: "Order Confirmation",
+                    attachments: [
+                        expect.objectContaining({
+                            filename: "INV-000001.pdf",
+                        }),
+                    ],
+                })
+            );
+        });
+
+        it("should show amounts in major units of the order currency", async () => {
+            await emailService.sendOrderConfirmationEmail(
+                "user123",
+                "order123"
+            );
+
+            const { html } = mockSendMail.mock.calls[0][0];
+            expect(html).toContain(
+                "Total: 11,800 RWF, including VAT of 1,800 RWF"
+            );
+            expect(html).toContain("Coffee beans x 2 - 5,000 RWF");
+        });
+
+        it("should not send the confirmation of another user's order", async () => {
+            await expect(
+                emailService.sendOrderConfirmationEmail("user456", "order123")
+            ).rejects.toThrow("Order not found");
+            expect(mockSendMail).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -0,0 +1,289 @@
+import { PaymentMethod, PrismaClient, ReservationStatus } from "@prisma/client";
+import { prisma } from "@/config/database";
+import { InventoryService } from "@/services/inventory.service";
+import { OrderService } from "@/services/order.service";
+
+// Runs checkouts and stock counts side by side against a local Postgres
+// with the schema pushed to it, e.g.
+// DATABASE_URL=$STOCK_TEST_DATABASE_URL npx prisma db push
+// Skipped when STOCK_TEST_DATABASE_URL is not set.
+const databaseUrl = process.env.STOCK_TEST_DATABASE_URL;
+const describeWithDatabase = databaseUrl ? describe : describe.skip;
+
+// The services share one client, so they need the test database too.
+// Without it the client is left unconnected for the skipped tests.
+jest.mock("@/config/database", () => {
+    const { PrismaClient } = jest.requireActual("@prisma/client");
+    const url = process.env.STOCK_TEST_DATABASE_URL;
+    return {
+        prisma: new PrismaClient(
+            url ? { datasources: { db: { url } } } : undefined
+        ),
+    };
+});
+
+describeWithDatabase("Stock under concurrent requests", () => {
+    const db = prisma as PrismaClient;
+    const orderService = new OrderService();
+    const inventoryService = new InventoryService();
+    const runId = Date.now().toString(36);
+    const district = `Stock Test ${runId}`;
+    let userId: string;
+    let addressId: string;
+    let sellerId: string;
+    let categoryId: string;
+    let zoneId: string;
+
+    // Concurrent transactions wait on each other's row locks
+    const transactionOptions = { maxWait: 30000, timeout: 30000 };
+
+    const createProduct = (stock: number) =>
+        db.product.create({
+            data: {
+                name: `Stock Test Product ${runId}`,
+                description: "Sold by the stock concurrency tests",
+                price: 1000,
+                stock,
+                categoryId,
+                sellerId,
+                images: [],
+            },
+        });
+
+    const placeOrders = (
+        count: number,
+        paymentMethod: PaymentMethod,
+        item: { productId: string; variantId?: string }
+    ) =>
+        Promise.allSettled(
+            Array.from({ length: count }, () =>
+                db.$transaction(
+                    (tx) =>
+                        orderService.placeOrder(tx, {
+                            userId,
+                            addressId,
+                            paymentMethod,
+                            items: [{ ...item, quantity: 1 }],
+                        }),
+                    transactionOptions
+                )
+            )
+        );
+
+    const setStock = (productId: string, stock: number, variantId?: string) =>
+        db.$transaction(
+            (tx) => inventoryService.setStock(tx, productId, stock, variantId),
+            transactionOptions
+        );
+
+    const fulfilled = (results: PromiseSettledResult<unknown>[]) =>
+        results.filter((result) => result.status === "fulfilled").length;
+
+    const rejectionMessages = (results: PromiseSettledResult<unknown>[]) => [
+        ...new Set(
+            results.flatMap((result) =>
+                result.status === "rejected" ? [result.reason.message] : []
+            )
+        ),
+    ];
+
+    beforeAll(async () => {
+        const user = await db.user.create({
+            data: {
+                email: `stock-${runId}@example.com`,
+                firstName: "Stock",
+                lastName: "Test",
+            },
+        });
+        userId = user.id;
+        const address = await db.address.create({
+            data: { userId, city: district, country: "Rwanda" },
+        });
+        addressId = address.id;
+        const seller = await db.seller.create({
+            data: { userId, businessName: "Stock Test Store" },
+        });
+        sellerId = seller.id;
+        const category = await db.category.create({
+            data: { name: `Stock Test ${runId}` },
+        });
+        categoryId = category.id;
+        const zone = await db.shippingZone.create({
+            data: {
+                name: `Stock Test ${runId}`,
+                provinces: [],
+                districts: [district],
+                rates: {
+                    create: {
+                        name: "Standard",
+                        basis: "ORDER_VALUE",
+                        price: 500,
+                    },
+                },
+            },
+        });
+        zoneId = zone.id;
+    });
+
+    afterAll(async () => {
+        const orders = { order: { userId } };
+        await db.stockReservation.deleteMany({ where: { orderItem: orders } });
+        await db.orderItem.deleteMany({ where: orders });
+        await db.fulfillmentGroup.deleteMany({ where: orders });
+        await db.orderStatusHistory.deleteMany({ where: orders });
+        await db.order.deleteMany({ where: { userId } });
+        await db.product.deleteMany({ where: { categoryId } });
+        await db.category.delete({ where: { id: categoryId } });
+        await db.shippingZone.delete({ where: { id: zoneId } });
+        await db.seller.delete({ where: { id: sellerId } });
+        await db.address.delete({ where: { id: addressId } });
+        await db.user.delete({ where: { id: userId } });
+        await db.$disconnect();
+    });
+
+    it("should sell only the units in stock to cash on delivery orders", async () => {
+        const product = await createProduct(3);
+
+        const results = await placeOrders(8, PaymentMethod.CASH_ON_DELIVERY, {
+            productId: product.id,
+        });
+
+        expect(fulfilled(results)).toBe(3);
+        expect(rejectionMessages(results)).toEqual([
+            `Insufficient stock for product ${product.name}`,
+        ]);
+        const { stock } = await db.product.findUniqueOrThrow({
+            where: { id: product.id },
+        });
+        expect(stock).toBe(0);
+    });
+
+    it("should sell only the units of a variant in stock", async () => {
+        const product = await createProduct(0);
+        const variant = await db.productVariant.create({
+            data: {
+                productId: product.id,
+                sku: `STOCK-TEST-${runId}`,
+                options: { size: "M" },
+                price: 1200,
+                stock: 2,
+                images: [],
+            },
+        });
+        await db.product.update({
+            where: { id: product.id },
+            data: { hasVariants: true },
+        });
+
+        const results = await placeOrders(6, PaymentMethod.CASH_ON_DELIVERY, {
+            productId: product.id,
+            variantId: variant.id,
+        });
+
+        expect(fulfilled(results)).toBe(2);
+        const { stock } = await db.productVariant.findUniqueOrThrow({
+            where: { id: variant.id },
+        });
+        expect(stock).toBe(0);
+    });
+
+    it("should reserve only the units in stock for orders paid online", async () => {
+        const product = await createProduct(4);
+
+        const results = await placeOrders(8, PaymentMethod.MOBILE_MONEY, {
+            productId: product.id,
+        });
+
+        expect(fulfilled(results)).toBe(4);
+        expect(await inventoryService.getReservedQuantity(product.id)).toBe(4);
+        const { stock } = await db.product.findUniqueOrThrow({
+            where: { id: product.id },
+        });
+        expect(stock).toBe(4);
+    });
+
+    it("should not let stock counts remove units reserved by checkouts", async () => {
+        const product = await createProduct(5);
+
+        const [orders, ...counts] = await Promise.all([
+            placeOrders(5, PaymentMethod.MOBILE_MONEY, {
+                productId: product.id,
+            }),
+            ...[2, 3, 1].map((stock) =>
+                setStock(product.id, stock).then(
+                    () => stock,
+                    (error: Error) => error.message
+                )
+            ),
+        ]);
+
+        const reserved = await inventoryService.getReservedQuantity(product.id);
+        const { stock } = await db.product.findUniqueOrThrow({
+            where: { id: product.id },
+        });
+        expect(fulfilled(orders)).toBe(reserved);
+        expect(stock).toBeGreaterThanOrEqual(reserved);
+        for (const count of counts) {
+            if (typeof count === "string") {
+                expect(count).toMatch(
+                    /^Cannot set stock to \d+, \d+ units are reserved$/
+                );
+            }
+        }
+    });
+
+    it("should commit each paid reservation once", async () => {
+        const product = await createProduct(2);
+        const [order] = await placeOrders(1, PaymentMethod.MOBILE_MONEY, {
+            productId: product.id,
+        });
+        if (order.status !== "fulfilled") {
+            throw order.reason;
+        }
+
+        const unavailable = await Promise.all(
+            Array.from({ length: 4 }, () =>
+                inventoryService.commitOrderReservations(order.value.id)
+            )
+        );
+
+        expect(unavailable).toEqual([[], [], [], []]);
+        const { stock } = await db.product.findUniqueOrThrow({
+            where: { id: product.id },
+        });
+        expect(stock).toBe(1);
+        const reservation = await db.stockReservation.findFirstOrThrow({
+            where: { productId: product.id },
+        });
+        expect(reservation.status).toBe(ReservationStatus.COMMITTED);
+    });
+
+    it("should not take stock sold after a reservation expired", async () => {
+        const product = await createProduct(1);
+        const [order] = await placeOrders(1, PaymentMethod.MOBILE_MONEY, {
+            productId: product.id,
+        });
+        if (order.status !== "fulfilled") {
+            throw order.reason;
+        }
+        await db.stockReservation.updateMany({
+            where: { productId: product.id },
+            data: { expiresAt: new Date(Date.now() - 1000) },
+        });
+        await inventoryService.expireReservations();
+
+        const [sale] = await placeOrders(1, PaymentMethod.CASH_ON_DELIVERY, {
+            productId: product.id,
+        });
+        const unavailable = await inventoryService.commitOrderReservations(
+            order.value.id
+        );
+
+        expect(sale.status).toBe("fulfilled");
+        expect(unavailable).toEqual([product.id]);
+        const { stock } = await db.product.findUniqueOrThrow({
+            where: { id: product.id },
+        });
+        expect(stock).toBe(0);
+    });
+});
@@ -0,0 +1,546 @@
+import { InventoryService } from "@/services/inventory.service";
+import { prisma } from "@/config/database";
+import { OrderStatus, ReservationStatus } from "@prisma/client";
+
+// Mock Prisma client
+jest.mock("@/config/database", () => ({
+    prisma: {
+        $transaction: jest.fn((callback) => callback(prisma)),
+        $queryRaw: jest.fn(),
+        order: {
+            findUnique: jest.fn(),
+        },
+        product: {
+            findMany: jest.fn(),
+            findUniqueOrThrow: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        productVariant: {
+            update: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        stockReservation: {
+            aggregate: jest.fn(),
+            createMany: jest.fn(),
+            findMany: jest.fn(),
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+            groupBy: jest.fn(),
+            count: jest.fn(),
+        },
+    },
+}));
+
+describe("InventoryService", () => {
+    let inventoryService: InventoryService;
+    const mockProduct = { id: "prod123", stock: 10 };
+    const mockItem = {
+        id: "item123",
+        productId: "prod123",
+        variantId: null,
+        quantity: 2,
+    };
+    const mockReservation = {
+        id: "res123",
+        orderItemId: mockItem.id,
+        productId: mockItem.productId,
+        quantity: 2,
+        status: ReservationStatus.ACTIVE,
+    };
+
+    beforeEach(() => {
+        inventoryService = new InventoryService();
+        jest.clearAllMocks();
+    });
+
+    describe("getAvailableStock", () => {
+        it("should subtract unexpired active reservations from stock", async () => {
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: 3 },
+            });
+
+            const result =
+                await inventoryService.getAvailableStock(mockProduct);
+
+            expect(result).toBe(7);
+            expect(prisma.stockReservation.aggregate).toHaveBeenCalledWith({
+                where: {
+                    productId: "prod123",
+                    status: ReservationStatus.ACTIVE,
+                    expiresAt: { gt: expect.any(Date) },
+                },
+                _sum: { quantity: true },
+            });
+        });
+
+        it("should return all stock when nothing is reserved", async () => {
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: null },
+            });
+
+            const result =
+                await inventoryService.getAvailableStock(mockProduct);
+
+            expect(result).toBe(10);
+        });
+    });
+
+    describe("decrementStock", () => {
+        it("should only take stock out when enough is left", async () => {
+            (prisma.product.updateMany as jest.Mock).mockResolvedValue({
+                count: 1,
+            });
+
+            const result = await inventoryService.decrementStock(
+                prisma,
+                "prod123",
+                2
+            );
+
+            expect(result).toBe(true);
+            expect(prisma.product.updateMany).toHaveBeenCalledWith({
+                where: { id: "prod123", stock: { gte: 2 } },
+                data: { stock: { decrement: 2 } },
+            });
+        });
+
+        it("should report when there was not enough stock left", async () => {
+            (prisma.product.updateMany as jest.Mock).mockResolvedValue({
+                count: 0,
+            });
+
+            const result = await inventoryService.decrementStock(
+                prisma,
+                "prod123",
+                2
+            );
+
+            expect(result).toBe(false);
+        });
+
+        it("should take stock out of the variant of variant items", async () => {
+            (prisma.productVariant.updateMany as jest.Mock).mockResolvedValue({
+                count: 1,
+            });
+
+            await inventoryService.decrementStock(
+                prisma,
+                "prod123",
+                2,
+                "variant123"
+            );
+
+            expect(prisma.productVariant.updateMany).toHaveBeenCalledWith({
+                where: { id: "variant123", stock: { gte: 2 } },
+                data: { stock: { decrement: 2 } },
+            });
+            expect(prisma.product.updateMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("setStock", () => {
+        beforeEach(() => {
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: 3 },
+            });
+        });
+
+        it("should lock the product and set its stock", async () => {
+            await inventoryService.setStock(prisma, "prod123", 5);
+
+            expect(prisma.$queryRaw).toHaveBeenCalled();
+            expect(prisma.product.update).toHaveBeenCalledWith({
+                where: { id: "prod123" },
+                data: { stock: 5 },
+            });
+        });
+
+        it("should set the stock of a variant", async () => {
+            await inventoryService.setStock(prisma, "prod123", 5, "variant123");
+
+            expect(prisma.stockReservation.aggregate).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: expect.objectContaining({
+                        productId: "prod123",
+                        variantId: "variant123",
+                    }),
+                })
+            );
+            expect(prisma.productVariant.update).toHaveBeenCalledWith({
+                where: { id: "variant123" },
+                data: { stock: 5 },
+            });
+        });
+
+        it("should not remove stock held by reservations", async () => {
+            await expect(
+                inventoryService.setStock(prisma, "prod123", 2)
+            ).rejects.toThrow("Cannot set stock to 2, 3 units are reserved");
+            expect(prisma.product.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("reserveOrderItems", () => {
+        it("should hold stock for each item until the reservation expires", async () => {
+            const before = Date.now();
+
+            const expiresAt = await inventoryService.reserveOrderItems(prisma, [
+                mockItem,
+            ]);
+
+            expect(expiresAt.getTime()).toBeGreaterThan(before);
+            expect(prisma.stockReservation.createMany).toHaveBeenCalledWith({
+                data: [
+                    {
+                        orderItemId: "item123",
+                        productId: "prod123",
+                        variantId: null,
+                        quantity: 2,
+                        expiresAt,
+                    },
+                ],
+            });
+        });
+    });
+
+    describe("commitOrderReservations", () => {
+        const heldReservation = {
+            ...mockReservation,
+            variantId: null,
+            expiresAt: new Date(Date.now() + 60 * 1000),
+        };
+        const expiredReservation = {
+            ...heldReservation,
+            status: ReservationStatus.EXPIRED,
+            expiresAt: new Date(Date.now() - 60 * 1000),
+        };
+
+        beforeEach(() => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                status: OrderStatus.PENDING,
+            });
+            (prisma.stockReservation.updateMany as jest.Mock).mockResolvedValue(
+                { count: 1 }
+            );
+            (prisma.product.updateMany as jest.Mock).mockResolvedValue({
+                count: 1,
+            });
+        });
+
+        it("should take reserved stock out of inventory", async () => {
+            (prisma.stockReservation.findMany as jest.Mock).mockResolvedValue([
+                heldReservation,
+            ]);
+
+            const result =
+                await inventoryService.commitOrderReservations("order123");
+
+            expect(result).toEqual([]);
+            expect(prisma.stockReservation.findMany).toHaveBeenCalledWith({
+                where: {
+                    orderItem: { orderId: "order123" },
+                    status: { not: ReservationStatus.COMMITTED },
+                },
+            });
+            expect(prisma.stockReservation.updateMany).toHaveBeenCalledWith({
+                where: {
+                    id: "res123",
+                    status: ReservationStatus.ACTIVE,
+                },
+                data: {
+                    status: ReservationStatus.COMMITTED,
+                    committedAt: expect.any(Date),
+                },
+            });
+            expect(prisma.product.updateMany).toHaveBeenCalledWith({
+                where: { id: "prod123", stock: { gte: 2 } },
+                data: { stock: { decrement: 2 } },
+            });
+        });
+
+        it("should fail when reserved stock has already been sold", async () => {
+            (prisma.stockReservation.findMany as jest.Mock).mockResolvedValue([
+                heldReservation,
+            ]);
+            (prisma.product.updateMany as jest.Mock).mockResolvedValue({
+                count: 0,
+            });
+
+            await expect(
+                inventoryService.commitOrderReservations("order123")
+            ).rejects.toThrow("Insufficient stock for product prod123");
+        });
+
+        it("should take the stock of an expired reservation that is still available", async () => {
+            (prisma.stockReservation.findMany as jest.Mock).mockResolvedValue([
+                expiredReservation,
+            ]);
+            (prisma.product.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: 8 },
+            });
+
+            const result =
+                await inventoryService.commitOrderReservations("order123");
+
+            expect(result).toEqual([]);
+            expect(prisma.stockReservation.updateMany).toHaveBeenCalledWith({
+                where: {
+                    id: "res123",
+                    status: ReservationStatus.EXPIRED,
+                },
+                data: {
+                    status: ReservationStatus.COMMITTED,
+                    committedAt: expect.any(Date),
+                },
+            });
+            expect(prisma.product.updateMany).toHaveBeenCalledWith({
+                where: { id: "prod123", stock: { gte: 2 } },
+                data: { stock: { decrement: 2 } },
+            });
+        });
+
+        it("should report products sold out since a reservation expired", async () => {
+            (prisma.stockReservation.findMany as jest.Mock).mockResolvedValue([
+                expiredReservation,
+            ]);
+            (prisma.product.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: 9 },
+            });
+
+            const result =
+                await inventoryService.commitOrderReservations("order123");
+
+            expect(result).toEqual(["prod123"]);
+            expect(prisma.stockReservation.updateMany).not.toHaveBeenCalled();
+            expect(prisma.product.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should not commit anything for a cancelled order", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                status: OrderStatus.CANCELLED,
+            });
+
+            const result =
+                await inventoryService.commitOrderReservations("order123");
+
+            expect(result).toEqual([]);
+            expect(prisma.stockReservation.findMany).not.toHaveBeenCalled();
+            expect(prisma.product.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should skip reservations committed by a concurrent request", async () => {
+            (prisma.stockReservation.findMany as jest.Mock).mockResolvedValue([
+                heldReservation,
+            ]);
+            (prisma.stockReservation.updateMany as jest.Mock).mockResolvedValue(
+                { count: 0 }
+            );
+
+            const result =
+                await inventoryService.commitOrderReservations("order123");
+
+            expect(result).toEqual([]);
+            expect(prisma.product.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should do nothing once reservations are committed", async () => {
+            (prisma.stockReservation.findMany as jest.Mock).mockResolvedValue(
+                []
+            );
+
+            const result =
+                await inventoryService.commitOrderReservations("order123");
+
+            expect(result).toEqual([]);
+            expect(prisma.product.updateMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("releaseOrderReservations", () => {
+        it("should release the active reservations of an order", async () => {
+            (prisma.stockReservation.updateMany as jest.Mock).mockResolvedValue(
+                {
+                    count: 2,
+                }
+            );
+
+            const result =
+                await inventoryService.releaseOrderReservations("order123");
+
+            expect(result).toBe(2);
+            expect(prisma.stockReservation.updateMany).toHaveBeenCalledWith({
+                where: {
+                    orderItem: { orderId: "order123" },
+                    status: ReservationStatus.ACTIVE,
+                },
+                data: {
+                    status: ReservationStatus.RELEASED,
+                    releasedAt: expect.any(Date),
+                },
+            });
+        });
+    });
+
+    describe("restockOrderItem", () => {
+        it("should release an active reservation instead of adding stock", async () => {
+            (prisma.stockReservation.findUnique as jest.Mock).mockResolvedValue(
+                mockReservation
+            );
+
+            await inventoryService.restockOrderItem(prisma, mockItem);
+
+            expect(prisma.stockReservation.update).toHaveBeenCalledWith({
+                where: { id: "res123" },
+                data: {
+                    status: ReservationStatus.RELEASED,
+                    releasedAt: expect.any(Date),
+                },
+            });
+            expect(prisma.product.update).not.toHaveBeenCalled();
+        });
+
+        it("should leave stock alone when the reservation already expired", async () => {
+            (prisma.stockReservation.findUnique as jest.Mock).mockResolvedValue(
+                { ...mockReservation, status: ReservationStatus.EXPIRED }
+            );
+
+            await inventoryService.restockOrderItem(prisma, mockItem);
+
+            expect(prisma.stockReservation.update).not.toHaveBeenCalled();
+            expect(prisma.product.update).not.toHaveBeenCalled();
+        });
+
+        it("should add stock back for committed items", async () => {
+            (prisma.stockReservation.findUnique as jest.Mock).mockResolvedValue(
+                { ...mockReservation, status: ReservationStatus.COMMITTED }
+            );
+
+            await inventoryService.restockOrderItem(prisma, mockItem);
+
+            expect(prisma.product.update).toHaveBeenCalledWith({
+                where: { id: "prod123" },
+                data: { stock: { increment: 2 } },
+            });
+        });
+
+        it("should add stock back to the variant of variant items", async () => {
+            (prisma.stockReservation.findUnique as jest.Mock).mockResolvedValue(
+                { ...mockReservation, status: ReservationStatus.COMMITTED }
+            );
+
+            await inventoryService.restockOrderItem(prisma, {
+                ...mockItem,
+                variantId: "variant123",
+            });
+
+            expect(prisma.productVariant.update).toHaveBeenCalledWith({
+                where: { id: "variant123" },
+                data: { stock: { increment: 2 } },
+            });
+            expect(prisma.product.update).not.toHaveBeenCalled();
+        });
+
+        it("should add stock back for items without a reservation", async () => {
+            (prisma.stockReservation.findUnique as jest.Mock).mockResolvedValue(
+                null
+            );
+
+            await inventoryService.restockOrderItem(prisma, mockItem);
+
+            expect(prisma.product.update).toHaveBeenCalledWith({
+                where: { id: "prod123" },
+                data: { stock: { increment: 2 } },
+            });
+        });
+    });
+
+    describe("expireReservations", () => {
+        it("should mark reservations past their expiry as expired", async () => {
+            (prisma.stockReservation.findMany as jest.Mock).mockResolvedValue([
+                { id: "res1", orderItem: { orderId: "order1" } },
+                { id: "res2", orderItem: { orderId: "order1" } },
+                { id: "res3", orderItem: { orderId: "order2" } },
+            ]);
+            (prisma.stockReservation.updateMany as jest.Mock).mockResolvedValue(
+                {
+                    count: 3,
+                }
+            );
+
+            const result = await inventoryService.expireReservations();
+
+            expect(result).toEqual({
+                expired: 3,
+                orderIds: ["order1", "order2"],
+            });
+            expect(prisma.stockReservation.findMany).toHaveBeenCalledWith({
+                where: {
+                    status: ReservationStatus.ACTIVE,
+                    expiresAt: { lte: expect.any(Date) },
+                },
+                select: {
+                    id: true,
+                    orderItem: { select: { orderId: true } },
+                },
+            });
+            expect(prisma.stockReservation.updateMany).toHaveBeenCalledWith({
+                where: {
+                    id: { in: ["res1", "res2", "res3"] },
+                    status: ReservationStatus.ACTIVE,
+                },
+                data: {
+                    status: ReservationStatus.EXPIRED,
+                    releasedAt: expect.any(Date),
+                },
+            });
+        });
+
+        it("should do nothing when no reservation expired", async () => {
+            (prisma.stockReservation.findMany as jest.Mock).mockResolvedValue(
+                []
+            );
+
+            const result = await inventoryService.expireReservations();
+
+            expect(result).toEqual({ expired: 0, orderIds: [] });
+            expect(prisma.stockReservation.updateMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getReservedProducts", () => {
+        it("should return reserved and available stock per product", async () => {
+            (prisma.stockReservation.groupBy as jest.Mock)
+                .mockResolvedValueOnce([
+                    {
+                        productId: "prod123",
+                        _sum: { quantity: 4 },
+                        _count: { _all: 2 },
+                    },
+                ])
+                .mockResolvedValueOnce([{ productId: "prod123" }]);
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([
+                { id: "prod123", name: "Test Product", stock: 10 },
+            ]);
+
+            const result = await inventoryService.getReservedProducts();
+
+            expect(result.total).toBe(1);
+            expect(result.data).toEqual([
+                {
+                    product: { id: "prod123", name: "Test Product", stock: 10 },
+                    reservedQuantity: 4,
+                    reservations: 2,
+                    availableStock: 6,
+                },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,255 @@
+import { InvoiceService } from "@/services/invoice.service";
+import { prisma } from "@/config/database";
+import {
+    OrderStatus,
+    PaymentMethod,
+    PaymentStatus,
+    UserRole,
+} from "@prisma/client";
+
+// Mock Prisma client
+jest.mock("@/config/database", () => ({
+    prisma: {
+        $transaction: jest.fn((callback) => callback(prisma)),
+        $executeRaw: jest.fn(),
+        order: {
+            findUnique: jest.fn(),
+            findFirst: jest.fn(),
+        },
+        invoice: {
+            findUnique: jest.fn(),
+            aggregate: jest.fn(),
+            create: jest.fn(),
+        },
+    },
+}));
+
+describe("InvoiceService", () => {
+    let invoiceService: InvoiceService;
+    const mockOrderId = "order123";
+
+    const mockSeller = {
+        id: "seller123",
+        businessName: "Kigali Crafts",
+        user: { email: "seller@example.com", phoneNumber: "0788000000" },
+    };
+
+    const mockOrder = {
+        id: mockOrderId,
+        userId: "user123",
+        status: OrderStatus.PENDING,
+        paymentStatus: PaymentStatus.PENDING,
+        paymentMethod: PaymentMethod.MOBILE_MONEY,
+        mobileMoneyNetwork: "MTN",
+        currency: "RWF",
+        totalAmount: 2180,
+        discountAmount: 100,
+        couponCode: "SAVE100",
+        shippingMethod: "Standard",
+        shippingCost: 1000,
+        netAmount: 1847,
+        taxAmount: 333,
+        createdAt: new Date("2026-10-01T10:00:00Z"),
+        invoice: null,
+        user: {
+            firstName: "Aline",
+            lastName: "Uwase",
+            email: "aline@example.com",
+            phoneNumber: null,
+        },
+        address: {
+            street: "KG 11 Ave",
+            city: "Gasabo",
+            state: "Kigali City",
+            postalCode: null,
+            country: "Rwanda",
+        },
+        items: [
+            {
+                id: "item123",
+                quantity: 2,
+                price: 640,
+                taxRate: 18,
+                netAmount: 1000,
+                taxAmount: 180,
+                grossAmount: 1180,
+                product: {
+                    name: "Imigongo (painting)",
+                    sellerId: mockSeller.id,
+                    seller: mockSeller,
+                },
+            },
+        ],
+    };
+
+    const mockInvoice = {
+        id: "invoice123",
+        number: 42,
+        orderId: mockOrderId,
+        issuedAt: new Date("2026-10-02T10:00:00Z"),
+    };
+
+    beforeEach(() => {
+        invoiceService = new InvoiceService();
+        jest.clearAllMocks();
+    });
+
+    describe("generateInvoice", () => {
+        it("should give the order the next invoice number", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.invoice.findUnique as jest.Mock).mockResolvedValue(null);
+            (prisma.invoice.aggregate as jest.Mock).mockResolvedValue({
+                _max: { number: 41 },
+            });
+            (prisma.invoice.create as jest.Mock).mockResolvedValue(mockInvoice);
+
+            const invoice = await invoiceService.generateInvoice(mockOrderId);
+
+            expect(prisma.$executeRaw).toHaveBeenCalled();
+            expect(prisma.invoice.create).toHaveBeenCalledWith({
+                data: { orderId: mockOrderId, number: 42 },
+            });
+            expect(invoice.number).toBe("INV-000042");
+            expect(invoice.fileName).toBe("INV-000042.pdf");
+        });
+
+        it("should keep the number of an issued invoice", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                invoice: mockInvoice,
+            });
+
+            const invoice = await invoiceService.generateInvoice(mockOrderId);
+
+            expect(invoice.number).toBe("INV-000042");
+            expect(prisma.invoice.create).not.toHaveBeenCalled();
+        });
+
+        it("should print the seller, buyer, items and VAT", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                invoice: mockInvoice,
+            });
+
+            const { pdf } = await invoiceService.generateInvoice(mockOrderId);
+            const content = pdf.toString("latin1");
+
+            expect(content.startsWith("%PDF-1.4")).toBe(true);
+            expect(content).toContain("(INVOICE)");
+            expect(content).toContain("(Invoice no. INV-000042)");
+            expect(content).toContain("(Sold by Kigali Crafts)");
+            expect(content).toContain("(Aline Uwase)");
+            expect(content).toContain("(Imigongo \\(painting\\))");
+            expect(content).toContain("(Discount \\(SAVE100\\))");
+            expect(content).toContain("(333)");
+            expect(content).toContain("(2,180 RWF)");
+            expect(content).toContain(
+                "(Payment: Pending, Mobile money \\(MTN\\))"
+            );
+        });
+
+        it("should title paid orders as receipts", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                paymentStatus: PaymentStatus.COMPLETED,
+                invoice: mockInvoice,
+            });
+
+            const { pdf } = await invoiceService.generateInvoice(mockOrderId);
+
+            expect(pdf.toString("latin1")).toContain("(RECEIPT)");
+        });
+
+        it("should point the cross-reference table at each object", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                invoice: mockInvoice,
+            });
+
+            const { pdf } = await invoiceService.generateInvoice(mockOrderId);
+            const content = pdf.toString("latin1");
+            const xref = content.slice(content.indexOf("\nxref\n"));
+            const offsets = xref
+                .split("\n")
+                .filter((line) => line.endsWith(" 00000 n "))
+                .map((line) => Number(line.slice(0, 10)));
+
+            expect(offsets.length).toBeGreaterThan(0);
+            offsets.forEach((offset, index) => {
+                expect(content.startsWith(`${index + 1} 0 obj`, offset)).toBe(
+                    true
+                );
+            });
+        });
+
+        it("should not issue invoices for cancelled orders", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                status: OrderStatus.CANCELLED,
+            });
+
+            await expect(
+                invoiceService.generateInvoice(mockOrderId)
+            ).rejects.toThrow("Cannot issue an invoice for a cancelled order");
+        });
+
+        it("should throw error if order not found", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                invoiceService.generateInvoice(mockOrderId)
+            ).rejects.toThrow("Order not found");
+        });
+    });
+
+    describe("getInvoiceForUser", () => {
+        it("should only find customers their own orders", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(null);
+
+            const invoice = await invoiceService.getInvoiceForUser(
+                mockOrderId,
+                { userId: "user456", role: UserRole.CUSTOMER }
+            );
+
+            expect(invoice).toBeNull();
+            expect(prisma.order.findFirst).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { id: mockOrderId, userId: "user456" },
+                })
+            );
+        });
+
+        it("should only find sellers the orders they placed", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(null);
+
+            const invoice = await invoiceService.getInvoiceForUser(
+                mockOrderId,
+                { userId: "sellerUser123", role: UserRole.SELLER }
+            );
+
+            expect(invoice).toBeNull();
+            expect(prisma.order.findFirst).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { id: mockOrderId, userId: "sellerUser123" },
+                })
+            );
+        });
+
+        it("should find admins any order", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                invoice: mockInvoice,
+            });
+
+            const invoice = await invoiceService.getInvoiceForUser(
+                mockOrderId,
+                { userId: "admin123", role: UserRole.ADMIN }
+            );
+
+            expect(invoice?.number).toBe("INV-000042");
+            expect(prisma.order.findFirst).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { id: mockOrderId } })
+            );
+        });
+    });
+});
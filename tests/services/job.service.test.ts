@@ -0,0 +1,262 @@
+import { JobHandlers, JobService } from "@/services/job.service";
+import { prisma } from "@/config/database";
+import { JOB_CONFIG } from "@/config/jobs";
+import { JobRunStatus, JobStatus } from "@prisma/client";
+
+// Mock Prisma client
+jest.mock("@/config/database", () => ({
+    prisma: {
+        $queryRaw: jest.fn(),
+        job: {
+            create: jest.fn(),
+            upsert: jest.fn(),
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        jobRun: {
+            create: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+        },
+    },
+}));
+
+describe("JobService", () => {
+    let jobService: JobService;
+    let handlers: jest.Mocked<JobHandlers>;
+    const mockWorkerId = "worker1";
+
+    const mockJob = {
+        id: "job123",
+        name: "notifications.expire",
+        payload: { notificationId: "notification123" },
+        status: JobStatus.RUNNING,
+        runAt: new Date(),
+        attempts: 1,
+        maxAttempts: 3,
+        intervalMs: null,
+        key: null,
+        lastError: null,
+        lockedAt: new Date(),
+        lockedBy: mockWorkerId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    beforeEach(() => {
+        jobService = new JobService();
+        jest.clearAllMocks();
+        handlers = {
+            "notifications.expire": jest.fn(),
+            "inventory.expireReservations": jest.fn(),
+            "auth.cleanupTokens": jest.fn(),
+            "reports.dailySales": jest.fn(),
+            "carts.remindAbandoned": jest.fn(),
+            "search.reindexProducts": jest.fn(),
+            "recommendations.compute": jest.fn(),
+        };
+        (prisma.jobRun.create as jest.Mock).mockResolvedValue({ id: "run123" });
+    });
+
+    // Get the data a run wrote to its job
+    const jobUpdateData = () =>
+        (prisma.job.updateMany as jest.Mock).mock.calls.find(
+            ([args]) => args.where.id === mockJob.id
+        )[0].data;
+
+    describe("schedule", () => {
+        it("should create a job to run at the given time", async () => {
+            const runAt = new Date("2026-11-01T00:00:00Z");
+
+            await jobService.schedule(
+                "notifications.expire",
+                { notificationId: "notification123" },
+                { runAt }
+            );
+
+            expect(prisma.job.create).toHaveBeenCalledWith({
+                data: {
+                    name: "notifications.expire",
+                    payload: { notificationId: "notification123" },
+                    runAt,
+                    maxAttempts: JOB_CONFIG.maxAttempts,
+                },
+            });
+        });
+    });
+
+    describe("scheduleRecurringJobs", () => {
+        it("should schedule each recurring job once by its name", async () => {
+            await jobService.scheduleRecurringJobs({
+                "inventory.expireReservations": 60000,
+                "auth.cleanupTokens": 3600000,
+                "reports.dailySales": 86400000,
+                "carts.remindAbandoned": 3600000,
+                "search.reindexProducts": 600000,
+                "recommendations.compute": 21600000,
+            });
+
+            expect(prisma.job.upsert).toHaveBeenCalledTimes(6);
+            expect(prisma.job.upsert).toHaveBeenCalledWith({
+                where: { key: "auth.cleanupTokens" },
+                create: {
+                    name: "auth.cleanupTokens",
+                    key: "auth.cleanupTokens",
+                    intervalMs: 3600000,
+                    maxAttempts: JOB_CONFIG.maxAttempts,
+                },
+                update: { intervalMs: 3600000 },
+            });
+        });
+    });
+
+    describe("runDueJobs", () => {
+        it("should run claimed jobs and record the result", async () => {
+            (prisma.$queryRaw as jest.Mock).mockResolvedValue([mockJob]);
+            handlers["notifications.expire"].mockResolvedValue({ deleted: 1 });
+
+            const count = await jobService.runDueJobs(handlers, mockWorkerId);
+
+            expect(count).toBe(1);
+            expect(handlers["notifications.expire"]).toHaveBeenCalledWith(
+                mockJob.payload
+            );
+            expect(prisma.jobRun.create).toHaveBeenCalledWith({
+                data: { jobId: mockJob.id, attempt: 1, workerId: mockWorkerId },
+            });
+            expect(prisma.jobRun.update).toHaveBeenCalledWith({
+                where: { id: "run123" },
+                data: expect.objectContaining({
+                    status: JobRunStatus.COMPLETED,
+                    result: { deleted: 1 },
+                }),
+            });
+            expect(prisma.job.updateMany).toHaveBeenCalledWith({
+                where: { id: mockJob.id, lockedBy: mockWorkerId },
+                data: expect.objectContaining({
+                    status: JobStatus.COMPLETED,
+                }),
+            });
+        });
+
+        it("should put back jobs whose worker stopped", async () => {
+            (prisma.$queryRaw as jest.Mock).mockResolvedValue([]);
+
+            await jobService.runDueJobs(handlers, mockWorkerId);
+
+            expect(prisma.job.updateMany).toHaveBeenCalledWith({
+                where: {
+                    status: JobStatus.RUNNING,
+                    lockedAt: { lt: expect.any(Date) },
+                },
+                data: expect.objectContaining({ status: JobStatus.PENDING }),
+            });
+        });
+
+        it("should retry a failed job with backoff", async () => {
+            (prisma.$queryRaw as jest.Mock).mockResolvedValue([
+                { ...mockJob, attempts: 2 },
+            ]);
+            handlers["notifications.expire"].mockRejectedValue(
+                new Error("Database unavailable")
+            );
+            jest.spyOn(console, "error").mockImplementation(() => {});
+            const before = Date.now();
+
+            await jobService.runDueJobs(handlers, mockWorkerId);
+
+            expect(prisma.jobRun.update).toHaveBeenCalledWith({
+                where: { id: "run123" },
+                data: expect.objectContaining({
+                    status: JobRunStatus.FAILED,
+                    error: "Database unavailable",
+                }),
+            });
+            const data = jobUpdateData();
+            expect(data.status).toBe(JobStatus.PENDING);
+            expect(data.lastError).toBe("Database unavailable");
+            // Second attempt waits twice the base delay
+            expect(data.runAt.getTime()).toBeGreaterThanOrEqual(
+                before + JOB_CONFIG.backoffBaseMs * 2
+            );
+        });
+
+        it("should fail a job that runs out of attempts", async () => {
+            (prisma.$queryRaw as jest.Mock).mockResolvedValue([
+                { ...mockJob, attempts: 3 },
+            ]);
+            handlers["notifications.expire"].mockRejectedValue(
+                new Error("Database unavailable")
+            );
+            jest.spyOn(console, "error").mockImplementation(() => {});
+
+            await jobService.runDueJobs(handlers, mockWorkerId);
+
+            expect(prisma.job.updateMany).toHaveBeenCalledWith({
+                where: { id: mockJob.id, lockedBy: mockWorkerId },
+                data: expect.objectContaining({
+                    status: JobStatus.FAILED,
+                    lastError: "Database unavailable",
+                }),
+            });
+        });
+
+        it("should schedule the next run of a recurring job", async () => {
+            (prisma.$queryRaw as jest.Mock).mockResolvedValue([
+                {
+                    ...mockJob,
+                    name: "auth.cleanupTokens",
+                    intervalMs: 3600000,
+                    attempts: 3,
+                },
+            ]);
+            handlers["auth.cleanupTokens"].mockRejectedValue(
+                new Error("Database unavailable")
+            );
+            jest.spyOn(console, "error").mockImplementation(() => {});
+            const before = Date.now();
+
+            await jobService.runDueJobs(handlers, mockWorkerId);
+
+            const data = jobUpdateData();
+            expect(data).toEqual(
+                expect.objectContaining({
+                    status: JobStatus.PENDING,
+                    attempts: 0,
+                    lastError: "Database unavailable",
+                })
+            );
+            expect(data.runAt.getTime()).toBeGreaterThanOrEqual(
+                before + 3600000
+            );
+        });
+    });
+
+    describe("retryJob", () => {
+        it("should schedule a failed job to run now", async () => {
+            (prisma.job.findUnique as jest.Mock).mockResolvedValue({
+                ...mockJob,
+                status: JobStatus.FAILED,
+            });
+
+            await jobService.retryJob(mockJob.id);
+
+            expect(prisma.job.update).toHaveBeenCalledWith({
+                where: { id: mockJob.id },
+                data: expect.objectContaining({
+                    status: JobStatus.PENDING,
+                    attempts: 0,
+                }),
+            });
+        });
+
+        it("should not retry a job that has not failed", async () => {
+            (prisma.job.findUnique as jest.Mock).mockResolvedValue(mockJob);
+
+            await expect(jobService.retryJob(mockJob.id)).rejects.toThrow(
+                "Only failed jobs can be retried"
+            );
+        });
+    });
+});
@@ -1,6 +1,8 @@
 import { NotificationService } from "@/services/notification.service";
+import { JobService } from "@/services/job.service";
 import { prisma } from "@/config/database";
-import { NotificationType } from "@prisma/client";
+import { getIO } from "@/config/socket";
+import { NotificationType, OrderStatus, PaymentStatus } from "@prisma/client";
 
 // Mock Prisma client
 jest.mock("@/config/database", () => ({
@@ -20,9 +22,14 @@ jest.mock("@/config/database", () => ({
             findUnique: jest.fn(),
             update: jest.fn(),
         },
+        order: {
+            findUnique: jest.fn(),
+        },
     },
 }));
 
+jest.mock("@/services/job.service");
+
 // Mock Socket.IO
 jest.mock("@/config/socket", () => ({
     getIO: jest.fn(() => ({
@@ -100,6 +107,80 @@ describe("NotificationService", () => {
         });
     });
 
+    describe("sendOrderUpdate", () => {
+        const mockOrderId = "order123";
+        const mockOrder = {
+            id: mockOrderId,
+            userId: mockUserId,
+            status: OrderStatus.SHIPPED,
+            paymentStatus: PaymentStatus.COMPLETED,
+            user: { notificationPreferences: null },
+            fulfillmentGroups: [
+                { seller: { userId: "sellerUser1" } },
+                { seller: { userId: "sellerUser2" } },
+            ],
+        };
+
+        it("should emit the order to the buyer and its sellers", async () => {
+            const io = { to: jest.fn().mockReturnThis(), emit: jest.fn() };
+            (getIO as jest.Mock).mockReturnValueOnce(io);
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
+
+            await notificationService.sendOrderUpdate(mockOrderId);
+
+            expect(io.to).toHaveBeenCalledWith([
+                mockUserId,
+                "sellerUser1",
+                "sellerUser2",
+            ]);
+            expect(io.emit).toHaveBeenCalledWith(
+                "orderUpdate",
+                expect.objectContaining({
+                    id: mockOrderId,
+                    status: OrderStatus.SHIPPED,
+                })
+            );
+            expect(prisma.notification.create).not.toHaveBeenCalled();
+        });
+
+        it("should notify the buyer of status and payment changes", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
+
+            await notificationService.sendOrderUpdate(mockOrderId, {
+                status: OrderStatus.SHIPPED,
+                paymentStatus: PaymentStatus.COMPLETED,
+                sellerName: "Kigali Crafts",
+            });
+
+            expect(prisma.notification.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    userId: mockUserId,
+                    type: NotificationType.PAYMENT_SUCCESS,
+                }),
+            });
+            expect(prisma.notification.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    userId: mockUserId,
+                    type: NotificationType.ORDER_SHIPPED,
+                    message: `Items from Kigali Crafts in your order #${mockOrderId} have been shipped`,
+                }),
+            });
+        });
+
+        it("should not notify buyers who turned off order updates", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                user: { notificationPreferences: { orderUpdates: false } },
+            });
+
+            await notificationService.sendOrderUpdate(mockOrderId, {
+                status: OrderStatus.DELIVERED,
+            });
+
+            expect(prisma.notification.create).not.toHaveBeenCalled();
+        });
+    });
+
     describe("getUserNotifications", () => {
         const mockNotifications = [
             {
@@ -243,6 +324,29 @@ describe("NotificationService", () => {
         });
     });
 
+    describe("createExpiringNotification", () => {
+        it("should schedule the deletion of the notification", async () => {
+            const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+            (prisma.notification.create as jest.Mock).mockResolvedValue({
+                id: mockNotificationId,
+                userId: mockUserId,
+            });
+
+            await notificationService.createExpiringNotification({
+                userId: mockUserId,
+                type: NotificationType.PROMOTIONAL,
+                message: "Flash sale ends in an hour",
+                expiresAt,
+            });
+
+            expect(JobService.prototype.schedule).toHaveBeenCalledWith(
+                "notifications.expire",
+                { notificationId: mockNotificationId },
+                { runAt: expiresAt }
+            );
+        });
+    });
+
     describe("getNotificationStats", () => {
         const mockStats = {
             totalNotifications: 10,
@@ -1,47 +1,123 @@
 import { OrderService } from "@/services/order.service";
+import { NotificationService } from "@/services/notification.service";
 import { prisma } from "@/config/database";
-import { stripe } from "@/config/stripe";
-import { OrderStatus, PaymentMethod, PaymentStatus } from "@prisma/client";
+import {
+    OrderStatus,
+    PaymentMethod,
+    PaymentStatus,
+    ReservationStatus,
+} from "@prisma/client";
+import {
+    InMemoryPaymentProvider,
+    resetPaymentProviders,
+    setPaymentProvider,
+} from "@/providers/payment";
+
+jest.mock("@/services/notification.service");
 
 // Mock Prisma client
 jest.mock("@/config/database", () => ({
     prisma: {
         $transaction: jest.fn((callback) => callback(prisma)),
+        $queryRaw: jest.fn(),
         order: {
             create: jest.fn(),
+            findUnique: jest.fn(),
+            findUniqueOrThrow: jest.fn(),
             findFirst: jest.fn(),
             findMany: jest.fn(),
             update: jest.fn(),
+            updateMany: jest.fn(),
             count: jest.fn(),
         },
+        fulfillmentGroup: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+            count: jest.fn(),
+        },
+        seller: {
+            findUnique: jest.fn(),
+        },
         product: {
             findUnique: jest.fn(),
+            findMany: jest.fn(),
             update: jest.fn(),
+            updateMany: jest.fn(),
         },
-    },
-}));
-
-// Mock Stripe
-jest.mock("@/config/stripe", () => ({
-    stripe: {
-        paymentIntents: {
+        productVariant: {
+            findFirst: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        orderStatusHistory: {
+            create: jest.fn(),
+        },
+        paymentStatusHistory: {
+            create: jest.fn(),
+        },
+        cartReminder: {
+            findFirst: jest.fn(),
+            update: jest.fn(),
+        },
+        orderItem: {
+            groupBy: jest.fn(),
+        },
+        cart: {
+            findMany: jest.fn(),
+            findFirst: jest.fn(),
             create: jest.fn(),
+            update: jest.fn(),
+            deleteMany: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        stockReservation: {
+            aggregate: jest.fn(),
+            createMany: jest.fn(),
+            findUnique: jest.fn(),
+            update: jest.fn(),
+        },
+        address: {
+            findFirst: jest.fn(),
+        },
+        shippingZone: {
+            findMany: jest.fn(),
+        },
+        category: {
+            findMany: jest.fn(),
+        },
+        coupon: {
+            findUnique: jest.fn(),
+            findUniqueOrThrow: jest.fn(),
+            update: jest.fn(),
+        },
+        couponRedemption: {
+            findUnique: jest.fn(),
+            count: jest.fn(),
+            create: jest.fn(),
+            delete: jest.fn(),
         },
     },
 }));
 
 describe("OrderService", () => {
     let orderService: OrderService;
+    let cardProvider: InMemoryPaymentProvider;
     const mockUserId = "user123";
     const mockAddressId = "address123";
     const mockProductId = "prod123";
     const mockOrderId = "order123";
+    const mockSellerId = "seller123";
+    const mockGroupId = "group123";
 
     const mockProduct = {
         id: mockProductId,
         name: "Test Product",
         price: 100,
         stock: 10,
+        categoryId: "cat123",
+        sellerId: mockSellerId,
     };
 
     const mockOrder = {
@@ -49,11 +125,14 @@ describe("OrderService", () => {
         userId: mockUserId,
         addressId: mockAddressId,
         totalAmount: 200,
+        discountAmount: 0,
+        couponCode: null,
         status: OrderStatus.PENDING,
         paymentStatus: PaymentStatus.PENDING,
         paymentMethod: PaymentMethod.CARD,
         items: [
             {
+                id: "item123",
                 productId: mockProductId,
                 quantity: 2,
                 price: 100,
@@ -62,9 +141,78 @@ describe("OrderService", () => {
         ],
     };
 
+    const mockAddress = {
+        id: mockAddressId,
+        userId: mockUserId,
+        city: "Gasabo",
+        state: "Kigali City",
+        country: "Rwanda",
+    };
+
+    const mockZone = {
+        id: "zone123",
+        name: "Kigali",
+        provinces: ["Kigali City"],
+        districts: [],
+        freeShippingThreshold: null,
+        isActive: true,
+        rates: [
+            {
+                id: "rate123",
+                name: "Standard",
+                basis: "ORDER_VALUE",
+                minValue: 0,
+                maxValue: null,
+                price: 10,
+                estimatedDays: 2,
+            },
+            {
+                id: "rate456",
+                name: "Express",
+                basis: "WEIGHT",
+                minValue: 0,
+                maxValue: 5,
+                price: 25,
+                estimatedDays: 1,
+            },
+        ],
+    };
+
+    const mockGroup = {
+        id: mockGroupId,
+        orderId: mockOrderId,
+        sellerId: mockSellerId,
+        status: OrderStatus.PENDING,
+        subtotal: 200,
+        items: mockOrder.items,
+    };
+
     beforeEach(() => {
         orderService = new OrderService();
+        cardProvider = new InMemoryPaymentProvider();
+        setPaymentProvider(PaymentMethod.CARD, cardProvider);
         jest.clearAllMocks();
+        (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+            _sum: { quantity: null },
+        });
+        (prisma.stockReservation.findUnique as jest.Mock).mockResolvedValue(
+            null
+        );
+        (prisma.product.updateMany as jest.Mock).mockResolvedValue({
+            count: 1,
+        });
+        (prisma.order.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+        (prisma.address.findFirst as jest.Mock).mockResolvedValue(mockAddress);
+        (prisma.shippingZone.findMany as jest.Mock).mockResolvedValue([
+            mockZone,
+        ]);
+        (prisma.category.findMany as jest.Mock).mockResolvedValue([
+            { id: "cat123", vatRate: null, parent: null },
+        ]);
+    });
+
+    afterEach(() => {
+        resetPaymentProviders();
     });
 
     describe("createOrder", () => {
@@ -80,23 +228,55 @@ describe("OrderService", () => {
                 mockProduct
             );
             (prisma.order.create as jest.Mock).mockResolvedValue(mockOrder);
-            (stripe.paymentIntents.create as jest.Mock).mockResolvedValue({
-                id: "pi_123",
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                totalAmount: 210,
             });
-
             const result = await orderService.createOrder(mockOrderData);
 
-            expect(result).toEqual(mockOrder);
-            expect(prisma.product.update).toHaveBeenCalledWith({
-                where: { id: mockProductId },
-                data: { stock: 8 },
+            // The card payment starts once the order is committed
+            const [payment] = cardProvider.payments.values();
+            expect(payment.amount).toBe(210);
+            expect(payment.orderId).toBe(mockOrderId);
+            expect(prisma.order.update).toHaveBeenCalledWith({
+                where: { id: mockOrderId },
+                data: { paymentIntentId: payment.id },
+            });
+            expect(result).toEqual({
+                ...mockOrder,
+                totalAmount: 210,
+                paymentIntentId: payment.id,
+            });
+            expect(prisma.order.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.not.objectContaining({
+                        paymentIntentId: expect.anything(),
+                    }),
+                })
+            );
+            expect(prisma.product.update).not.toHaveBeenCalled();
+            expect(prisma.stockReservation.createMany).toHaveBeenCalledWith({
+                data: [
+                    {
+                        orderItemId: "item123",
+                        productId: mockProductId,
+                        quantity: 2,
+                        expiresAt: expect.any(Date),
+                    },
+                ],
             });
             expect(prisma.order.create).toHaveBeenCalledWith(
                 expect.objectContaining({
                     data: expect.objectContaining({
                         userId: mockUserId,
                         addressId: mockAddressId,
-                        totalAmount: 200,
+                        totalAmount: 210,
+                        netAmount: 177,
+                        taxAmount: 33,
+                        shippingRateId: "rate123",
+                        shippingMethod: "Standard",
+                        shippingZone: "Kigali",
+                        shippingCost: 10,
                         paymentMethod: PaymentMethod.CARD,
                         paymentStatus: PaymentStatus.PENDING,
                         status: OrderStatus.PENDING,
@@ -105,25 +285,558 @@ describe("OrderService", () => {
             );
         });
 
-        it("should throw error if product not found", async () => {
-            (prisma.product.findUnique as jest.Mock).mockResolvedValue(null);
+        it("should store the VAT of each item", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.category.findMany as jest.Mock).mockResolvedValue([
+                { id: "cat123", vatRate: null, parent: { vatRate: 0 } },
+            ]);
+            (prisma.order.create as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                mockOrder
+            );
+
+            await orderService.createOrder(mockOrderData);
+
+            expect(prisma.order.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        totalAmount: 210,
+                        netAmount: 208,
+                        taxAmount: 2,
+                        items: {
+                            create: [
+                                expect.objectContaining({
+                                    productId: mockProductId,
+                                    taxRate: 0,
+                                    netAmount: 200,
+                                    taxAmount: 0,
+                                    grossAmount: 200,
+                                }),
+                            ],
+                        },
+                    }),
+                })
+            );
+        });
+
+        it("should take stock right away for cash on delivery", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.order.create as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                mockOrder
+            );
+
+            await orderService.createOrder({
+                ...mockOrderData,
+                paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+            });
+
+            expect(prisma.product.updateMany).toHaveBeenCalledWith({
+                where: { id: mockProductId, stock: { gte: 2 } },
+                data: { stock: { decrement: 2 } },
+            });
+            expect(prisma.stockReservation.createMany).not.toHaveBeenCalled();
+        });
+
+        it("should price and stock a variant line by its variant", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue({
+                ...mockProduct,
+                hasVariants: true,
+            });
+            (prisma.productVariant.findFirst as jest.Mock).mockResolvedValue({
+                id: "variant123",
+                productId: mockProductId,
+                price: 150,
+                stock: 5,
+                weight: null,
+                isActive: true,
+            });
+            (prisma.productVariant.updateMany as jest.Mock).mockResolvedValue({
+                count: 1,
+            });
+            (prisma.order.create as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                mockOrder
+            );
+
+            await orderService.createOrder({
+                ...mockOrderData,
+                items: [
+                    {
+                        productId: mockProductId,
+                        variantId: "variant123",
+                        quantity: 2,
+                    },
+                ],
+                paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+            });
+
+            expect(prisma.productVariant.updateMany).toHaveBeenCalledWith({
+                where: { id: "variant123", stock: { gte: 2 } },
+                data: { stock: { decrement: 2 } },
+            });
+            expect(prisma.product.updateMany).not.toHaveBeenCalled();
+            expect(prisma.order.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        items: {
+                            create: [
+                                expect.objectContaining({
+                                    productId: mockProductId,
+                                    variantId: "variant123",
+                                    price: 150,
+                                }),
+                            ],
+                        },
+                    }),
+                })
+            );
+        });
+
+        it("should require a variant of products with variants", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue({
+                ...mockProduct,
+                hasVariants: true,
+            });
+
+            await expect(
+                orderService.createOrder(mockOrderData)
+            ).rejects.toThrow("Choose a variant of Test Product");
+            expect(prisma.order.create).not.toHaveBeenCalled();
+        });
+
+        it("should not sell stock held by other checkouts", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: 9 },
+            });
+
+            await expect(
+                orderService.createOrder(mockOrderData)
+            ).rejects.toThrow(
+                `Insufficient stock for product ${mockProduct.name}`
+            );
+        });
+
+        it("should fail when another order took the stock first", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.product.updateMany as jest.Mock).mockResolvedValue({
+                count: 0,
+            });
+
+            await expect(
+                orderService.createOrder({
+                    ...mockOrderData,
+                    paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+                })
+            ).rejects.toThrow(
+                `Insufficient stock for product ${mockProduct.name}`
+            );
+            expect(prisma.order.create).not.toHaveBeenCalled();
+        });
+
+        it("should count repeated lines of a product together", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+
+            await expect(
+                orderService.createOrder({
+                    ...mockOrderData,
+                    items: [
+                        { productId: mockProductId, quantity: 6 },
+                        { productId: mockProductId, quantity: 6 },
+                    ],
+                })
+            ).rejects.toThrow(
+                `Insufficient stock for product ${mockProduct.name}`
+            );
+            expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+        });
+
+        it("should split items into per-seller fulfillment groups", async () => {
+            const otherProduct = {
+                ...mockProduct,
+                id: "prod456",
+                sellerId: "seller456",
+                price: 50,
+            };
+            (prisma.product.findUnique as jest.Mock)
+                .mockResolvedValueOnce(mockProduct)
+                .mockResolvedValueOnce(otherProduct);
+            (prisma.order.create as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                items: [
+                    ...mockOrder.items,
+                    {
+                        id: "item456",
+                        productId: otherProduct.id,
+                        quantity: 1,
+                        price: 50,
+                        product: otherProduct,
+                    },
+                ],
+            });
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                mockOrder
+            );
+
+            await orderService.createOrder({
+                ...mockOrderData,
+                items: [
+                    { productId: mockProductId, quantity: 2 },
+                    { productId: otherProduct.id, quantity: 1 },
+                ],
+                paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+            });
+
+            expect(prisma.fulfillmentGroup.create).toHaveBeenCalledTimes(2);
+            expect(prisma.fulfillmentGroup.create).toHaveBeenCalledWith({
+                data: {
+                    orderId: mockOrderId,
+                    sellerId: mockSellerId,
+                    subtotal: 200,
+                    items: { connect: [{ id: "item123" }] },
+                },
+            });
+            expect(prisma.fulfillmentGroup.create).toHaveBeenCalledWith({
+                data: {
+                    orderId: mockOrderId,
+                    sellerId: "seller456",
+                    subtotal: 50,
+                    items: { connect: [{ id: "item456" }] },
+                },
+            });
+        });
+
+        it("should take off a coupon discount and record its use", async () => {
+            const mockCoupon = {
+                id: "coupon123",
+                code: "SAVE10",
+                type: "PERCENTAGE",
+                value: 10,
+                isActive: true,
+                usageLimit: 5,
+                usageCount: 1,
+                categoryIds: ["cat123"],
+                sellerIds: [],
+            };
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.coupon.findUnique as jest.Mock).mockResolvedValue(
+                mockCoupon
+            );
+            (prisma.coupon.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                mockCoupon
+            );
+            (prisma.order.create as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                totalAmount: 190,
+            });
+
+            await orderService.createOrder({
+                ...mockOrderData,
+                couponCode: "save10",
+            });
+
+            const [payment] = cardProvider.payments.values();
+            expect(payment.amount).toBe(190);
+            expect(prisma.order.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        totalAmount: 190,
+                        discountAmount: 20,
+                        couponId: "coupon123",
+                        couponCode: "SAVE10",
+                    }),
+                })
+            );
+            expect(prisma.$queryRaw).toHaveBeenCalledTimes(2);
+            expect(prisma.coupon.update).toHaveBeenCalledWith({
+                where: { id: "coupon123" },
+                data: { usageCount: { increment: 1 } },
+            });
+            expect(prisma.couponRedemption.create).toHaveBeenCalledWith({
+                data: {
+                    couponId: "coupon123",
+                    userId: mockUserId,
+                    orderId: mockOrderId,
+                    discountAmount: 20,
+                },
+            });
+        });
+
+        it("should charge the chosen delivery option", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue({
+                ...mockProduct,
+                weight: 1.5,
+            });
+            (prisma.order.create as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                mockOrder
+            );
+
+            await orderService.createOrder({
+                ...mockOrderData,
+                shippingRateId: "rate456",
+            });
+
+            expect(prisma.address.findFirst).toHaveBeenCalledWith({
+                where: { id: mockAddressId, userId: mockUserId },
+            });
+            expect(prisma.order.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        totalAmount: 225,
+                        shippingMethod: "Express",
+                        shippingCost: 25,
+                    }),
+                })
+            );
+        });
+
+        it("should not offer delivery options the parcel is too heavy for", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue({
+                ...mockProduct,
+                weight: 3,
+            });
+
+            await expect(
+                orderService.createOrder({
+                    ...mockOrderData,
+                    shippingRateId: "rate456",
+                })
+            ).rejects.toThrow(
+                "The selected delivery option is not available for this order"
+            );
+            expect(prisma.order.create).not.toHaveBeenCalled();
+        });
+
+        it("should not take orders to addresses outside the delivery zones", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.address.findFirst as jest.Mock).mockResolvedValue({
+                ...mockAddress,
+                city: "Musanze",
+                state: "Northern",
+            });
+
+            await expect(
+                orderService.createOrder(mockOrderData)
+            ).rejects.toThrow("We do not deliver to this address yet");
+        });
+
+        it("should not place the order when the coupon cannot be used", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.coupon.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                orderService.createOrder({
+                    ...mockOrderData,
+                    couponCode: "UNKNOWN",
+                })
+            ).rejects.toThrow("Invalid coupon code");
+            expect(prisma.order.create).not.toHaveBeenCalled();
+        });
+
+        it("should throw error if product not found", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                orderService.createOrder(mockOrderData)
+            ).rejects.toThrow(`Product ${mockProductId} not found`);
+        });
+
+        it("should throw error if insufficient stock", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue({
+                ...mockProduct,
+                stock: 1,
+            });
+
+            await expect(
+                orderService.createOrder(mockOrderData)
+            ).rejects.toThrow(
+                `Insufficient stock for product ${mockProduct.name}`
+            );
+        });
+    });
+
+    describe("checkout", () => {
+        const otherProduct = {
+            ...mockProduct,
+            id: "prod456",
+            name: "Other Product",
+            isActive: true,
+        };
+        const mockCart = [
+            {
+                userId: mockUserId,
+                productId: mockProductId,
+                quantity: 2,
+                product: { ...mockProduct, isActive: true },
+            },
+            {
+                userId: mockUserId,
+                productId: otherProduct.id,
+                quantity: 1,
+                product: otherProduct,
+            },
+        ];
+
+        beforeEach(() => {
+            (prisma.cart.findMany as jest.Mock).mockResolvedValue(mockCart);
+            (prisma.product.findUnique as jest.Mock).mockImplementation(
+                ({ where }) =>
+                    Promise.resolve(
+                        where.id === otherProduct.id
+                            ? otherProduct
+                            : { ...mockProduct, isActive: true }
+                    )
+            );
+            (prisma.order.create as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                mockOrder
+            );
+        });
+
+        it("should credit the checkout to a recent cart reminder", async () => {
+            (prisma.cartReminder.findFirst as jest.Mock).mockResolvedValue({
+                id: "reminder123",
+            });
+
+            await orderService.checkout(mockUserId, {
+                addressId: mockAddressId,
+                paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+            });
+
+            expect(prisma.cartReminder.findFirst).toHaveBeenCalledWith({
+                where: {
+                    userId: mockUserId,
+                    orderId: null,
+                    sentAt: { gte: expect.any(Date) },
+                },
+                orderBy: { sentAt: "desc" },
+            });
+            expect(prisma.cartReminder.update).toHaveBeenCalledWith({
+                where: { id: "reminder123" },
+                data: { orderId: mockOrderId, convertedAt: expect.any(Date) },
+            });
+        });
+
+        it("should order the cart and remove the ordered lines", async () => {
+            const result = await orderService.checkout(mockUserId, {
+                addressId: mockAddressId,
+                paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+                productIds: [mockProductId],
+            });
+
+            expect(prisma.order.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        items: {
+                            create: [
+                                expect.objectContaining({
+                                    productId: mockProductId,
+                                    quantity: 2,
+                                    price: 100,
+                                }),
+                            ],
+                        },
+                    }),
+                })
+            );
+            expect(prisma.cart.deleteMany).toHaveBeenCalledTimes(1);
+            expect(prisma.cart.deleteMany).toHaveBeenCalledWith({
+                where: {
+                    userId: mockUserId,
+                    productId: mockProductId,
+                    variantId: null,
+                    quantity: { lte: 2 },
+                },
+            });
+            expect(prisma.cart.updateMany).toHaveBeenCalledWith({
+                where: {
+                    userId: mockUserId,
+                    productId: mockProductId,
+                    variantId: null,
+                    quantity: { gt: 2 },
+                },
+                data: { quantity: { decrement: 2 } },
+            });
+            expect(result).toEqual({
+                order: { ...mockOrder, paymentIntentId: expect.any(String) },
+                priceSnapshot: {
+                    items: [
+                        {
+                            productId: mockProductId,
+                            name: mockProduct.name,
+                            quantity: 2,
+                            unitPrice: 100,
+                            lineTotal: 200,
+                        },
+                    ],
+                    subtotal: 200,
+                    discountAmount: 0,
+                    couponCode: null,
+                    totalAmount: 200,
+                },
+            });
+        });
+
+        it("should order the whole cart when no products are selected", async () => {
+            await orderService.checkout(mockUserId, {
+                addressId: mockAddressId,
+                paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+            });
+
+            expect(prisma.order.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({ totalAmount: 310 }),
+                })
+            );
+        });
+
+        it("should throw error if the cart is empty", async () => {
+            (prisma.cart.findMany as jest.Mock).mockResolvedValue([]);
 
             await expect(
-                orderService.createOrder(mockOrderData)
-            ).rejects.toThrow(`Product ${mockProductId} not found`);
+                orderService.checkout(mockUserId, {
+                    addressId: mockAddressId,
+                    paymentMethod: PaymentMethod.CARD,
+                })
+            ).rejects.toThrow("Cart is empty");
         });
 
-        it("should throw error if insufficient stock", async () => {
+        it("should not order items that fail validation", async () => {
             (prisma.product.findUnique as jest.Mock).mockResolvedValue({
                 ...mockProduct,
-                stock: 1,
+                isActive: false,
             });
 
             await expect(
-                orderService.createOrder(mockOrderData)
+                orderService.checkout(mockUserId, {
+                    addressId: mockAddressId,
+                    paymentMethod: PaymentMethod.CARD,
+                    productIds: [mockProductId],
+                })
             ).rejects.toThrow(
-                `Insufficient stock for product ${mockProduct.name}`
+                "Some cart items cannot be ordered: Test Product (Product not available)"
             );
+            expect(prisma.order.create).not.toHaveBeenCalled();
+            expect(prisma.cart.deleteMany).not.toHaveBeenCalled();
         });
     });
 
@@ -146,9 +859,23 @@ describe("OrderService", () => {
                     items: {
                         include: {
                             product: true,
+                            variant: true,
+                        },
+                    },
+                    fulfillmentGroups: {
+                        include: {
+                            seller: {
+                                select: {
+                                    id: true,
+                                    businessName: true,
+                                },
+                            },
                         },
                     },
                     address: true,
+                    statusHistory: {
+                        orderBy: { createdAt: "asc" },
+                    },
                 },
             });
         });
@@ -193,13 +920,265 @@ describe("OrderService", () => {
         });
     });
 
+    describe("getOrderTimeline", () => {
+        it("should merge order, fulfilment and payment changes by time", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                createdAt: new Date("2026-10-01T10:00:00Z"),
+                statusHistory: [
+                    {
+                        fromStatus: null,
+                        toStatus: OrderStatus.PENDING,
+                        reason: null,
+                        changedById: mockUserId,
+                        fulfillmentGroup: null,
+                        createdAt: new Date("2026-10-01T10:00:00Z"),
+                    },
+                    {
+                        fromStatus: OrderStatus.PROCESSING,
+                        toStatus: OrderStatus.SHIPPED,
+                        reason: null,
+                        changedById: "sellerUser123",
+                        fulfillmentGroup: {
+                            carrier: "DHL",
+                            trackingNumber: "TRK1",
+                            seller: {
+                                id: mockSellerId,
+                                businessName: "Kigali Crafts",
+                            },
+                        },
+                        createdAt: new Date("2026-10-03T10:00:00Z"),
+                    },
+                ],
+                paymentStatusHistory: [
+                    {
+                        fromStatus: PaymentStatus.PENDING,
+                        toStatus: PaymentStatus.COMPLETED,
+                        reason: "Payment completed",
+                        changedById: null,
+                        createdAt: new Date("2026-10-02T10:00:00Z"),
+                    },
+                ],
+            });
+
+            const timeline = await orderService.getOrderTimeline(mockOrderId, {
+                userId: mockUserId,
+                role: "CUSTOMER",
+            });
+
+            expect(prisma.order.findFirst).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { id: mockOrderId, userId: mockUserId },
+                })
+            );
+            expect(timeline?.events.map((event) => event.type)).toEqual([
+                "ORDER_STATUS",
+                "PAYMENT_STATUS",
+                "FULFILLMENT_STATUS",
+            ]);
+            expect(timeline?.events[2]).toEqual(
+                expect.objectContaining({
+                    toStatus: OrderStatus.SHIPPED,
+                    seller: { id: mockSellerId, businessName: "Kigali Crafts" },
+                    trackingNumber: "TRK1",
+                })
+            );
+        });
+
+        it("should return null if the user cannot see the order", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(null);
+
+            const timeline = await orderService.getOrderTimeline(mockOrderId, {
+                userId: "user456",
+                role: "CUSTOMER",
+            });
+
+            expect(timeline).toBeNull();
+        });
+    });
+
+    describe("updatePaymentStatus", () => {
+        it("should record the change and send an order update", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.update as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                paymentStatus: PaymentStatus.COMPLETED,
+            });
+
+            await orderService.updatePaymentStatus(
+                mockOrderId,
+                PaymentStatus.COMPLETED,
+                { changedById: "admin123", reason: "Paid at the counter" }
+            );
+
+            expect(prisma.paymentStatusHistory.create).toHaveBeenCalledWith({
+                data: {
+                    orderId: mockOrderId,
+                    fromStatus: PaymentStatus.PENDING,
+                    toStatus: PaymentStatus.COMPLETED,
+                    changedById: "admin123",
+                    reason: "Paid at the counter",
+                },
+            });
+            expect(
+                NotificationService.prototype.sendOrderUpdate
+            ).toHaveBeenCalledWith(mockOrderId, {
+                paymentStatus: PaymentStatus.COMPLETED,
+            });
+        });
+    });
+
+    describe("reorder", () => {
+        it("should add available items to the cart and report changes", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                items: [
+                    {
+                        ...mockOrder.items[0],
+                        product: { ...mockProduct, isActive: true },
+                    },
+                    {
+                        id: "item456",
+                        productId: "prod456",
+                        quantity: 1,
+                        price: 500,
+                        product: {
+                            ...mockProduct,
+                            id: "prod456",
+                            name: "Old Product",
+                            isActive: false,
+                        },
+                    },
+                    {
+                        id: "item789",
+                        productId: "prod789",
+                        quantity: 5,
+                        price: 300,
+                        product: {
+                            ...mockProduct,
+                            id: "prod789",
+                            name: "Popular Product",
+                            price: 350,
+                            stock: 4,
+                            isActive: true,
+                        },
+                    },
+                ],
+            });
+            (prisma.cart.findMany as jest.Mock).mockResolvedValue([
+                { productId: "prod789", quantity: 1 },
+            ]);
+            (prisma.cart.create as jest.Mock).mockImplementation(({ data }) =>
+                Promise.resolve(data)
+            );
+
+            const result = await orderService.reorder(mockOrderId, mockUserId);
+
+            expect(prisma.cart.create).toHaveBeenCalledTimes(2);
+            expect(result?.added).toEqual([
+                {
+                    userId: mockUserId,
+                    productId: mockProductId,
+                    variantId: undefined,
+                    quantity: 2,
+                },
+                {
+                    userId: mockUserId,
+                    productId: "prod789",
+                    variantId: undefined,
+                    quantity: 3,
+                },
+            ]);
+            expect(result?.changes).toEqual([
+                {
+                    productId: "prod456",
+                    variantId: undefined,
+                    name: "Old Product",
+                    reasons: ["INACTIVE", "REPRICED"],
+                    orderedQuantity: 1,
+                    addedQuantity: 0,
+                    orderedPrice: 500,
+                    currentPrice: 100,
+                },
+                {
+                    productId: "prod789",
+                    variantId: undefined,
+                    name: "Popular Product",
+                    reasons: ["OUT_OF_STOCK", "REPRICED"],
+                    orderedQuantity: 5,
+                    addedQuantity: 3,
+                    orderedPrice: 300,
+                    currentPrice: 350,
+                },
+            ]);
+        });
+
+        it("should return null if the order is not the user's", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(null);
+
+            const result = await orderService.reorder(mockOrderId, "user456");
+
+            expect(result).toBeNull();
+            expect(prisma.cart.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getBuyAgainProducts", () => {
+        it("should return the most often ordered products", async () => {
+            (prisma.orderItem.groupBy as jest.Mock).mockResolvedValue([
+                {
+                    productId: "prod456",
+                    _count: { productId: 3 },
+                    _sum: { quantity: 4 },
+                },
+                {
+                    productId: mockProductId,
+                    _count: { productId: 1 },
+                    _sum: { quantity: 2 },
+                },
+            ]);
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([
+                mockProduct,
+                { ...mockProduct, id: "prod456" },
+            ]);
+
+            const products = await orderService.getBuyAgainProducts(
+                mockUserId,
+                5
+            );
+
+            expect(prisma.orderItem.groupBy).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        order: {
+                            userId: mockUserId,
+                            status: { not: OrderStatus.CANCELLED },
+                        },
+                        product: { isActive: true },
+                    },
+                    take: 5,
+                })
+            );
+            expect(
+                products.map((product) => [product.id, product.timesOrdered])
+            ).toEqual([
+                ["prod456", 3],
+                [mockProductId, 1],
+            ]);
+            expect(products[0].quantityOrdered).toBe(4);
+        });
+    });
+
     describe("updateOrderStatus", () => {
         it("should update order status successfully", async () => {
             const updatedOrder = {
                 ...mockOrder,
                 status: OrderStatus.PROCESSING,
             };
-            (prisma.order.update as jest.Mock).mockResolvedValue(updatedOrder);
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                updatedOrder
+            );
 
             const result = await orderService.updateOrderStatus(
                 mockOrderId,
@@ -207,17 +1186,284 @@ describe("OrderService", () => {
             );
 
             expect(result).toEqual(updatedOrder);
+            expect(prisma.order.updateMany).toHaveBeenCalledWith({
+                where: { id: mockOrderId, status: OrderStatus.PENDING },
+                data: { status: OrderStatus.PROCESSING },
+            });
+        });
+
+        it("should record the status change in history", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                status: OrderStatus.PROCESSING,
+            });
+
+            await orderService.updateOrderStatus(
+                mockOrderId,
+                OrderStatus.PROCESSING,
+                { changedById: "admin123", reason: "Payment verified" }
+            );
+
+            expect(prisma.orderStatusHistory.create).toHaveBeenCalledWith({
+                data: {
+                    orderId: mockOrderId,
+                    fromStatus: OrderStatus.PENDING,
+                    toStatus: OrderStatus.PROCESSING,
+                    changedById: "admin123",
+                    reason: "Payment verified",
+                },
+            });
+        });
+
+        it("should restore stock when cancelling", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                status: OrderStatus.PROCESSING,
+            });
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                status: OrderStatus.CANCELLED,
+            });
+
+            await orderService.updateOrderStatus(
+                mockOrderId,
+                OrderStatus.CANCELLED
+            );
+
+            expect(prisma.product.update).toHaveBeenCalledWith({
+                where: { id: mockProductId },
+                data: {
+                    stock: {
+                        increment: 2,
+                    },
+                },
+            });
+        });
+
+        it("should release the reservation of unpaid items when cancelling", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                status: OrderStatus.CANCELLED,
+            });
+            (prisma.stockReservation.findUnique as jest.Mock).mockResolvedValue(
+                {
+                    id: "res123",
+                    status: ReservationStatus.ACTIVE,
+                }
+            );
+
+            await orderService.updateOrderStatus(
+                mockOrderId,
+                OrderStatus.CANCELLED
+            );
+
+            expect(prisma.product.update).not.toHaveBeenCalled();
+            expect(prisma.stockReservation.update).toHaveBeenCalledWith({
+                where: { id: "res123" },
+                data: {
+                    status: ReservationStatus.RELEASED,
+                    releasedAt: expect.any(Date),
+                },
+            });
+        });
+
+        it("should reject invalid status transitions", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                status: OrderStatus.CANCELLED,
+            });
+
+            await expect(
+                orderService.updateOrderStatus(mockOrderId, OrderStatus.SHIPPED)
+            ).rejects.toThrow(
+                "Cannot change order status from CANCELLED to SHIPPED"
+            );
+            expect(prisma.order.update).not.toHaveBeenCalled();
+            expect(prisma.orderStatusHistory.create).not.toHaveBeenCalled();
+        });
+
+        it("should not allow delivered orders to go back to pending", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                status: OrderStatus.DELIVERED,
+            });
+
+            await expect(
+                orderService.updateOrderStatus(mockOrderId, OrderStatus.PENDING)
+            ).rejects.toThrow(
+                "Cannot change order status from DELIVERED to PENDING"
+            );
+        });
+
+        it("should throw error if order not found", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                orderService.updateOrderStatus(
+                    mockOrderId,
+                    OrderStatus.PROCESSING
+                )
+            ).rejects.toThrow("Order not found");
+        });
+    });
+
+    describe("updateFulfillmentGroupStatus", () => {
+        it("should update the group and roll up the order status", async () => {
+            (prisma.fulfillmentGroup.findUnique as jest.Mock).mockResolvedValue(
+                mockGroup
+            );
+            (prisma.fulfillmentGroup.update as jest.Mock).mockResolvedValue({
+                ...mockGroup,
+                status: OrderStatus.PROCESSING,
+                seller: { businessName: "Kigali Crafts" },
+            });
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                fulfillmentGroups: [
+                    { status: OrderStatus.PROCESSING },
+                    { status: OrderStatus.SHIPPED },
+                ],
+            });
+
+            const result = await orderService.updateFulfillmentGroupStatus(
+                mockGroupId,
+                OrderStatus.PROCESSING,
+                { changedById: mockUserId }
+            );
+
+            expect(result.status).toBe(OrderStatus.PROCESSING);
             expect(prisma.order.update).toHaveBeenCalledWith({
                 where: { id: mockOrderId },
                 data: { status: OrderStatus.PROCESSING },
             });
+            expect(prisma.orderStatusHistory.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    orderId: mockOrderId,
+                    fulfillmentGroupId: mockGroupId,
+                    fromStatus: OrderStatus.PENDING,
+                    toStatus: OrderStatus.PROCESSING,
+                }),
+            });
+            expect(
+                NotificationService.prototype.sendOrderUpdate
+            ).toHaveBeenCalledWith(mockOrderId, {
+                status: OrderStatus.PROCESSING,
+                sellerName: "Kigali Crafts",
+            });
+        });
+
+        it("should keep the order status while another group is behind", async () => {
+            (prisma.fulfillmentGroup.findUnique as jest.Mock).mockResolvedValue(
+                { ...mockGroup, status: OrderStatus.PROCESSING }
+            );
+            (prisma.fulfillmentGroup.update as jest.Mock).mockResolvedValue({
+                ...mockGroup,
+                status: OrderStatus.SHIPPED,
+                seller: { businessName: "Kigali Crafts" },
+            });
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                status: OrderStatus.PROCESSING,
+                fulfillmentGroups: [
+                    { status: OrderStatus.SHIPPED },
+                    { status: OrderStatus.PROCESSING },
+                ],
+            });
+
+            await orderService.updateFulfillmentGroupStatus(
+                mockGroupId,
+                OrderStatus.SHIPPED,
+                { carrier: "DHL", trackingNumber: "TRK1" }
+            );
+
+            expect(prisma.fulfillmentGroup.update).toHaveBeenCalledWith({
+                where: { id: mockGroupId },
+                data: expect.objectContaining({
+                    status: OrderStatus.SHIPPED,
+                    carrier: "DHL",
+                    trackingNumber: "TRK1",
+                    shippedAt: expect.any(Date),
+                }),
+                include: { seller: { select: { businessName: true } } },
+            });
+            expect(prisma.order.update).not.toHaveBeenCalled();
+        });
+
+        it("should not let a seller update another seller's group", async () => {
+            (prisma.seller.findUnique as jest.Mock).mockResolvedValue({
+                id: "seller456",
+            });
+            (prisma.fulfillmentGroup.findUnique as jest.Mock).mockResolvedValue(
+                mockGroup
+            );
+
+            await expect(
+                orderService.updateFulfillmentGroupStatus(
+                    mockGroupId,
+                    OrderStatus.PROCESSING,
+                    { sellerUserId: "otherUser" }
+                )
+            ).rejects.toThrow("Fulfillment group not found");
+            expect(prisma.fulfillmentGroup.update).not.toHaveBeenCalled();
+        });
+
+        it("should reject invalid group transitions", async () => {
+            (prisma.fulfillmentGroup.findUnique as jest.Mock).mockResolvedValue(
+                { ...mockGroup, status: OrderStatus.DELIVERED }
+            );
+
+            await expect(
+                orderService.updateFulfillmentGroupStatus(
+                    mockGroupId,
+                    OrderStatus.SHIPPED
+                )
+            ).rejects.toThrow(
+                "Cannot change order status from DELIVERED to SHIPPED"
+            );
+        });
+    });
+
+    describe("getSellerFulfillmentGroups", () => {
+        it("should return only the seller's groups", async () => {
+            (prisma.seller.findUnique as jest.Mock).mockResolvedValue({
+                id: mockSellerId,
+            });
+            (prisma.fulfillmentGroup.findMany as jest.Mock).mockResolvedValue([
+                mockGroup,
+            ]);
+            (prisma.fulfillmentGroup.count as jest.Mock).mockResolvedValue(1);
+
+            const result = await orderService.getSellerFulfillmentGroups(
+                mockUserId,
+                { status: OrderStatus.PENDING }
+            );
+
+            expect(result.data).toEqual([mockGroup]);
+            expect(prisma.fulfillmentGroup.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        sellerId: mockSellerId,
+                        status: OrderStatus.PENDING,
+                    },
+                })
+            );
+        });
+
+        it("should throw error if user has no seller profile", async () => {
+            (prisma.seller.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                orderService.getSellerFulfillmentGroups(mockUserId)
+            ).rejects.toThrow("Seller profile not found");
         });
     });
 
     describe("cancelOrder", () => {
         it("should cancel order and restore stock", async () => {
             (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
-            (prisma.order.update as jest.Mock).mockResolvedValue({
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue({
                 ...mockOrder,
                 status: OrderStatus.CANCELLED,
             });
@@ -238,6 +1484,41 @@ describe("OrderService", () => {
             });
         });
 
+        it("should give back the coupon use of the order", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                status: OrderStatus.CANCELLED,
+            });
+            (prisma.couponRedemption.findUnique as jest.Mock).mockResolvedValue(
+                { id: "redemption123", couponId: "coupon123" }
+            );
+
+            await orderService.cancelOrder(mockOrderId, mockUserId);
+
+            expect(prisma.couponRedemption.delete).toHaveBeenCalledWith({
+                where: { id: "redemption123" },
+            });
+            expect(prisma.coupon.update).toHaveBeenCalledWith({
+                where: { id: "coupon123" },
+                data: { usageCount: { decrement: 1 } },
+            });
+        });
+
+        it("should not restock twice when cancelled concurrently", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.updateMany as jest.Mock).mockResolvedValue({
+                count: 0,
+            });
+
+            await expect(
+                orderService.cancelOrder(mockOrderId, mockUserId)
+            ).rejects.toThrow(
+                "Order was updated by another request, please try again"
+            );
+            expect(prisma.product.update).not.toHaveBeenCalled();
+        });
+
         it("should throw error if order not found", async () => {
             (prisma.order.findFirst as jest.Mock).mockResolvedValue(null);
 
@@ -263,4 +1544,55 @@ describe("OrderService", () => {
             ).rejects.toThrow("Order not found or cannot be cancelled");
         });
     });
+
+    describe("cancelUnpaidOrders", () => {
+        it("should cancel orders that were not paid in time", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                items: mockOrder.items.map((item) => ({
+                    ...item,
+                    fulfillmentGroup: null,
+                })),
+            });
+
+            const result = await orderService.cancelUnpaidOrders([mockOrderId]);
+
+            expect(result).toBe(1);
+            expect(prisma.order.updateMany).toHaveBeenCalledWith({
+                where: { id: mockOrderId, status: OrderStatus.PENDING },
+                data: { status: OrderStatus.CANCELLED },
+            });
+            expect(prisma.orderStatusHistory.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    toStatus: OrderStatus.CANCELLED,
+                    reason: "Not paid before the stock reservation expired",
+                }),
+            });
+        });
+
+        it("should leave paid and cash on delivery orders alone", async () => {
+            (prisma.order.findUnique as jest.Mock)
+                .mockResolvedValueOnce({
+                    ...mockOrder,
+                    paymentStatus: PaymentStatus.COMPLETED,
+                })
+                .mockResolvedValueOnce({
+                    ...mockOrder,
+                    paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+                })
+                .mockResolvedValueOnce({
+                    ...mockOrder,
+                    status: OrderStatus.CANCELLED,
+                });
+
+            const result = await orderService.cancelUnpaidOrders([
+                "order1",
+                "order2",
+                "order3",
+            ]);
+
+            expect(result).toBe(0);
+            expect(prisma.order.updateMany).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -1,27 +1,54 @@
 import { PaymentService } from "@/services/payment.service";
+import { InventoryService } from "@/services/inventory.service";
+import { OrderService } from "@/services/order.service";
 import { prisma } from "@/config/database";
-import { stripe, STRIPE_CONFIG } from "@/config/stripe";
-import { PaymentMethod, PaymentStatus } from "@prisma/client";
+import { STRIPE_CONFIG } from "@/config/stripe";
+import {
+    MobileMoneyNetwork,
+    PaymentMethod,
+    PaymentStatus,
+    Prisma,
+    WebhookEventStatus,
+} from "@prisma/client";
+import {
+    InMemoryPaymentProvider,
+    PaymentWebhookEvent,
+    resetPaymentProviders,
+    setPaymentProvider,
+} from "@/providers/payment";
+import {
+    getMobileMoneyProvider,
+    SandboxMobileMoneyProvider,
+} from "@/providers/mobileMoney";
 
 // Mock Prisma client
 jest.mock("@/config/database", () => ({
     prisma: {
         order: {
             findUnique: jest.fn(),
+            findUniqueOrThrow: jest.fn(),
             findFirst: jest.fn(),
             update: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        orderStatusHistory: {
+            create: jest.fn(),
+        },
+        paymentStatusHistory: {
+            create: jest.fn(),
+        },
+        webhookEvent: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            findUniqueOrThrow: jest.fn(),
+            update: jest.fn(),
         },
     },
 }));
 
 // Mock Stripe
 jest.mock("@/config/stripe", () => ({
-    stripe: {
-        paymentIntents: {
-            create: jest.fn(),
-            retrieve: jest.fn(),
-        },
-    },
+    stripe: {},
     STRIPE_CONFIG: {
         minimumAmount: 1,
         maximumAmount: 10000,
@@ -29,50 +56,139 @@ jest.mock("@/config/stripe", () => ({
     },
 }));
 
+jest.mock("@/services/inventory.service");
+jest.mock("@/services/notification.service");
+jest.mock("@/services/order.service");
+
 describe("PaymentService", () => {
     let paymentService: PaymentService;
+    let cardProvider: InMemoryPaymentProvider;
     const mockOrderId = "order123";
+    const mockUserId = "user123";
     const mockOrder = {
         id: mockOrderId,
-        total: 100,
+        userId: mockUserId,
+        totalAmount: 100,
         status: "PENDING",
         paymentStatus: PaymentStatus.PENDING,
+        paymentMethod: PaymentMethod.CARD,
+        paymentIntentId: null as string | null,
+        mobileMoneyNetwork: null,
     };
 
-    const mockPaymentIntent = {
-        id: "pi_123",
-        client_secret: "secret_123",
-        status: "succeeded",
-        amount: 10000,
+    // Start a card payment with the in-memory provider and return its ID
+    const createCardPayment = async (amount = 100) => {
+        const intent = await cardProvider.createPaymentIntent({
+            orderId: mockOrderId,
+            amount,
+        });
+        return intent.id;
     };
 
+    const webhookRequest = (event: Partial<PaymentWebhookEvent>) => ({
+        body: { id: "evt_123", type: "payment", data: null, ...event },
+        headers: {},
+        query: {},
+    });
+
     beforeEach(() => {
-        paymentService = new PaymentService();
         jest.clearAllMocks();
+        paymentService = new PaymentService();
+        cardProvider = new InMemoryPaymentProvider("stripe");
+        setPaymentProvider(PaymentMethod.CARD, cardProvider);
+        (
+            InventoryService.prototype.commitOrderReservations as jest.Mock
+        ).mockResolvedValue([]);
+        (prisma.order.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+        (prisma.webhookEvent.create as jest.Mock).mockImplementation(
+            ({ data }) =>
+                Promise.resolve({
+                    id: "we_1",
+                    ...data,
+                    status: WebhookEventStatus.PENDING,
+                })
+        );
+        (prisma.webhookEvent.update as jest.Mock).mockImplementation(
+            ({ data }) => Promise.resolve({ id: "we_1", ...data })
+        );
+    });
+
+    afterEach(() => {
+        resetPaymentProviders();
     });
 
     describe("createPayment", () => {
-        it("should create card payment successfully", async () => {
+        it("should charge the order total with the card provider", async () => {
             (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
-            (stripe.paymentIntents.create as jest.Mock).mockResolvedValue(
-                mockPaymentIntent
+
+            const result = await paymentService.createPayment(
+                mockOrderId,
+                mockUserId,
+                PaymentMethod.CARD
             );
 
+            const [payment] = cardProvider.payments.values();
+            expect(result).toEqual({
+                type: "card",
+                paymentIntentId: payment.id,
+                clientSecret: `${payment.id}_secret`,
+            });
+            expect(payment).toMatchObject({
+                orderId: mockOrderId,
+                amount: 100,
+            });
+            expect(prisma.order.update).toHaveBeenCalledWith({
+                where: { id: mockOrderId },
+                data: {
+                    paymentMethod: PaymentMethod.CARD,
+                    paymentStatus: PaymentStatus.PENDING,
+                    paymentIntentId: payment.id,
+                    mobileMoneyNetwork: null,
+                    paymentPhoneNumber: null,
+                },
+            });
+        });
+
+        it("should resume the card payment started with the order", async () => {
+            const paymentId = await createCardPayment();
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                paymentIntentId: paymentId,
+            });
+
             const result = await paymentService.createPayment(
                 mockOrderId,
-                PaymentMethod.CARD,
-                100
+                mockUserId,
+                PaymentMethod.CARD
             );
 
             expect(result).toEqual({
                 type: "card",
-                paymentIntentId: mockPaymentIntent.id,
-                clientSecret: mockPaymentIntent.client_secret,
+                paymentIntentId: paymentId,
+                clientSecret: `${paymentId}_secret`,
             });
-            expect(stripe.paymentIntents.create).toHaveBeenCalledWith({
-                amount: 10000,
-                currency: STRIPE_CONFIG.currency,
+            expect(cardProvider.payments.size).toBe(1);
+            expect(prisma.order.update).not.toHaveBeenCalled();
+        });
+
+        it("should start a new card payment when the earlier one failed", async () => {
+            const paymentId = await createCardPayment();
+            cardProvider.setPaymentStatus(paymentId, PaymentStatus.FAILED);
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                paymentIntentId: paymentId,
             });
+
+            const result = await paymentService.createPayment(
+                mockOrderId,
+                mockUserId,
+                PaymentMethod.CARD
+            );
+
+            expect(result).toMatchObject({ type: "card" });
+            expect(result).not.toMatchObject({ paymentIntentId: paymentId });
+            expect(cardProvider.payments.size).toBe(2);
         });
 
         it("should handle cash on delivery payment", async () => {
@@ -85,16 +201,16 @@ describe("PaymentService", () => {
 
             const result = await paymentService.createPayment(
                 mockOrderId,
-                PaymentMethod.CASH_ON_DELIVERY,
-                100
+                mockUserId,
+                PaymentMethod.CASH_ON_DELIVERY
             );
 
             expect(result).toEqual({
                 type: "cash_on_delivery",
                 status: "pending",
             });
-            expect(prisma.order.update).toHaveBeenCalledWith({
-                where: { id: mockOrderId },
+            expect(prisma.order.updateMany).toHaveBeenCalledWith({
+                where: { id: mockOrderId, status: "PENDING" },
                 data: {
                     paymentStatus: PaymentStatus.PENDING,
                     status: "PROCESSING",
@@ -108,20 +224,69 @@ describe("PaymentService", () => {
             await expect(
                 paymentService.createPayment(
                     mockOrderId,
-                    PaymentMethod.CARD,
-                    100
+                    mockUserId,
+                    PaymentMethod.CARD
+                )
+            ).rejects.toThrow("Order not found");
+        });
+
+        it("should throw error if order is already paid", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                paymentStatus: PaymentStatus.COMPLETED,
+            });
+
+            await expect(
+                paymentService.createPayment(
+                    mockOrderId,
+                    mockUserId,
+                    PaymentMethod.CARD
+                )
+            ).rejects.toThrow("Order has already been paid");
+        });
+
+        it("should throw error for the order of another user", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                userId: "user456",
+            });
+
+            await expect(
+                paymentService.createPayment(
+                    mockOrderId,
+                    mockUserId,
+                    PaymentMethod.CARD
                 )
             ).rejects.toThrow("Order not found");
+            expect(prisma.order.update).not.toHaveBeenCalled();
+        });
+
+        it("should throw error if order is cancelled", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                status: "CANCELLED",
+            });
+
+            await expect(
+                paymentService.createPayment(
+                    mockOrderId,
+                    mockUserId,
+                    PaymentMethod.CARD
+                )
+            ).rejects.toThrow("Order has been cancelled");
         });
 
         it("should throw error if amount is below minimum", async () => {
-            (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                totalAmount: 0,
+            });
 
             await expect(
                 paymentService.createPayment(
                     mockOrderId,
-                    PaymentMethod.CARD,
-                    0.5
+                    mockUserId,
+                    PaymentMethod.CARD
                 )
             ).rejects.toThrow(
                 `Amount must be at least ${STRIPE_CONFIG.minimumAmount} ${STRIPE_CONFIG.currency}`
@@ -129,13 +294,16 @@ describe("PaymentService", () => {
         });
 
         it("should throw error if amount exceeds maximum", async () => {
-            (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                totalAmount: 20000,
+            });
 
             await expect(
                 paymentService.createPayment(
                     mockOrderId,
-                    PaymentMethod.CARD,
-                    20000
+                    mockUserId,
+                    PaymentMethod.CARD
                 )
             ).rejects.toThrow(
                 `Amount cannot exceed ${STRIPE_CONFIG.maximumAmount} ${STRIPE_CONFIG.currency}`
@@ -144,23 +312,41 @@ describe("PaymentService", () => {
     });
 
     describe("confirmPayment", () => {
-        it("should confirm card payment successfully", async () => {
-            (stripe.paymentIntents.retrieve as jest.Mock).mockResolvedValue(
-                mockPaymentIntent
-            );
+        it("should confirm card payment and complete the order", async () => {
+            const paymentId = await createCardPayment();
+            cardProvider.setPaymentStatus(paymentId, PaymentStatus.COMPLETED);
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                paymentIntentId: paymentId,
+            });
 
             const result = await paymentService.confirmPayment(
-                mockPaymentIntent.id,
+                paymentId,
                 PaymentMethod.CARD
             );
 
             expect(result).toEqual({
-                status: mockPaymentIntent.status,
-                amount: mockPaymentIntent.amount / 100,
+                status: PaymentStatus.COMPLETED,
+                amount: 100,
             });
-            expect(stripe.paymentIntents.retrieve).toHaveBeenCalledWith(
-                mockPaymentIntent.id
-            );
+            expect(
+                InventoryService.prototype.commitOrderReservations
+            ).toHaveBeenCalledWith(mockOrderId);
+            expect(prisma.order.updateMany).toHaveBeenCalledWith({
+                where: { id: mockOrderId, status: "PENDING" },
+                data: {
+                    paymentStatus: PaymentStatus.COMPLETED,
+                    status: "PROCESSING",
+                },
+            });
+        });
+
+        it("should throw error for unknown payments", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                paymentService.confirmPayment("pay_123", PaymentMethod.CARD)
+            ).rejects.toThrow("Payment not found");
         });
 
         it("should throw error for invalid payment method", async () => {
@@ -173,25 +359,115 @@ describe("PaymentService", () => {
         });
     });
 
-    describe("handleWebhook", () => {
-        it("should handle payment success", async () => {
-            const mockEvent = {
-                type: "payment_intent.succeeded",
+    describe("mobile money", () => {
+        const mockMobileMoneyOrder = {
+            ...mockOrder,
+            totalAmount: 5000,
+            paymentMethod: PaymentMethod.MOBILE_MONEY,
+            mobileMoneyNetwork: MobileMoneyNetwork.MTN,
+        };
+
+        const referenceOf = (payment: object) =>
+            (payment as { referenceId: string }).referenceId;
+
+        // Start a sandbox payment and return its reference
+        const requestPayment = async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(
+                mockMobileMoneyOrder
+            );
+            const payment = await paymentService.createPayment(
+                mockOrderId,
+                mockUserId,
+                PaymentMethod.MOBILE_MONEY,
+                { phoneNumber: "0788123456", network: MobileMoneyNetwork.MTN }
+            );
+            (prisma.order.update as jest.Mock).mockClear();
+            return referenceOf(payment);
+        };
+
+        it("should request payment from the customer's wallet", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(
+                mockMobileMoneyOrder
+            );
+
+            const result = await paymentService.createPayment(
+                mockOrderId,
+                mockUserId,
+                PaymentMethod.MOBILE_MONEY,
+                { phoneNumber: "0788123456", network: MobileMoneyNetwork.MTN }
+            );
+
+            expect(result).toEqual({
+                type: "mobile_money",
+                referenceId: expect.any(String),
+                status: "pending",
+            });
+            expect(prisma.order.update).toHaveBeenCalledWith({
+                where: { id: mockOrderId },
                 data: {
-                    object: mockPaymentIntent,
+                    paymentMethod: PaymentMethod.MOBILE_MONEY,
+                    paymentStatus: PaymentStatus.PENDING,
+                    paymentIntentId: referenceOf(result),
+                    mobileMoneyNetwork: MobileMoneyNetwork.MTN,
+                    paymentPhoneNumber: "0788123456",
                 },
-            };
-            (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
-            (prisma.order.update as jest.Mock).mockResolvedValue({
-                ...mockOrder,
-                paymentStatus: PaymentStatus.COMPLETED,
-                status: "PROCESSING",
             });
+        });
+
+        it("should require a phone number and network", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(
+                mockMobileMoneyOrder
+            );
 
-            await paymentService.handleWebhook(mockEvent);
+            await expect(
+                paymentService.createPayment(
+                    mockOrderId,
+                    mockUserId,
+                    PaymentMethod.MOBILE_MONEY
+                )
+            ).rejects.toThrow(
+                "Phone number and mobile money network are required"
+            );
+        });
 
-            expect(prisma.order.update).toHaveBeenCalledWith({
-                where: { id: mockOrder.id },
+        it("should reject invalid phone numbers", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(
+                mockMobileMoneyOrder
+            );
+
+            await expect(
+                paymentService.createPayment(
+                    mockOrderId,
+                    mockUserId,
+                    PaymentMethod.MOBILE_MONEY,
+                    { phoneNumber: "12345", network: MobileMoneyNetwork.MTN }
+                )
+            ).rejects.toThrow("Invalid phone number");
+        });
+
+        it("should poll the payment status and complete the order", async () => {
+            const referenceId = await requestPayment();
+            (
+                getMobileMoneyProvider(
+                    MobileMoneyNetwork.MTN
+                ) as SandboxMobileMoneyProvider
+            ).completePayment(referenceId, "SUCCESSFUL");
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
+                ...mockMobileMoneyOrder,
+                paymentIntentId: referenceId,
+            });
+
+            const result = await paymentService.confirmPayment(
+                referenceId,
+                PaymentMethod.MOBILE_MONEY
+            );
+
+            expect(result).toEqual({
+                status: PaymentStatus.COMPLETED,
+                amount: 5000,
+            });
+            expect(prisma.order.updateMany).toHaveBeenCalledWith({
+                where: { id: mockOrderId, status: "PENDING" },
                 data: {
                     paymentStatus: PaymentStatus.COMPLETED,
                     status: "PROCESSING",
@@ -199,52 +475,414 @@ describe("PaymentService", () => {
             });
         });
 
-        it("should handle payment failure", async () => {
-            const mockEvent = {
-                type: "payment_intent.payment_failed",
-                data: {
-                    object: mockPaymentIntent,
+        it("should confirm callbacks with the provider before applying them", async () => {
+            const referenceId = await requestPayment();
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
+                ...mockMobileMoneyOrder,
+                paymentIntentId: referenceId,
+            });
+
+            // The sandbox payment is still pending, whatever the callback says
+            const result = await paymentService.handleWebhook(
+                PaymentMethod.MOBILE_MONEY,
+                {
+                    body: { referenceId, status: "SUCCESSFUL" },
+                    headers: {},
+                    query: {},
+                },
+                MobileMoneyNetwork.MTN
+            );
+
+            expect(prisma.webhookEvent.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    provider: "mtn",
+                    eventId: `MTN:${referenceId}:PENDING`,
+                    type: "mobile_money.pending",
+                }),
+            });
+            expect(result.status).toBe(WebhookEventStatus.IGNORED);
+            expect(prisma.order.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should mark the payment failed when the sandbox payment is declined", async () => {
+            const referenceId = await requestPayment();
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
+                ...mockMobileMoneyOrder,
+                paymentIntentId: referenceId,
+            });
+
+            await paymentService.completeSandboxMobileMoneyPayment(
+                referenceId,
+                "FAILED"
+            );
+
+            expect(prisma.order.updateMany).toHaveBeenCalledWith({
+                where: {
+                    id: mockOrderId,
+                    paymentStatus: PaymentStatus.PENDING,
                 },
-            };
+                data: { paymentStatus: PaymentStatus.FAILED },
+            });
+        });
+    });
+
+    describe("handleWebhook", () => {
+        it("should handle payment success", async () => {
             (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
-            (prisma.order.update as jest.Mock).mockResolvedValue({
+
+            const result = await paymentService.handleWebhook(
+                PaymentMethod.CARD,
+                webhookRequest({
+                    paymentId: "pay_123",
+                    paymentStatus: PaymentStatus.COMPLETED,
+                })
+            );
+
+            expect(prisma.order.findFirst).toHaveBeenCalledWith({
+                where: { paymentIntentId: "pay_123" },
+            });
+            expect(prisma.order.updateMany).toHaveBeenCalledWith({
+                where: { id: mockOrder.id, status: "PENDING" },
+                data: {
+                    paymentStatus: PaymentStatus.COMPLETED,
+                    status: "PROCESSING",
+                },
+            });
+            expect(prisma.webhookEvent.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    provider: "stripe",
+                    eventId: "evt_123",
+                }),
+            });
+            expect(prisma.webhookEvent.update).toHaveBeenCalledWith({
+                where: { id: "we_1" },
+                data: expect.objectContaining({
+                    status: WebhookEventStatus.PROCESSED,
+                    error: null,
+                }),
+            });
+            expect(result).toEqual({
+                duplicate: false,
+                status: WebhookEventStatus.PROCESSED,
+            });
+        });
+
+        it("should refund and cancel an order whose stock sold out before it was paid", async () => {
+            const paymentId = await createCardPayment();
+            cardProvider.setPaymentStatus(paymentId, PaymentStatus.COMPLETED);
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
                 ...mockOrder,
-                paymentStatus: PaymentStatus.FAILED,
+                paymentIntentId: paymentId,
             });
+            (
+                InventoryService.prototype.commitOrderReservations as jest.Mock
+            ).mockResolvedValue(["prod123"]);
 
-            await paymentService.handleWebhook(mockEvent);
+            await paymentService.handleWebhook(
+                PaymentMethod.CARD,
+                webhookRequest({
+                    paymentId,
+                    paymentStatus: PaymentStatus.COMPLETED,
+                })
+            );
 
-            expect(prisma.order.update).toHaveBeenCalledWith({
-                where: { id: mockOrder.id },
+            expect(cardProvider.refunds).toEqual([
+                expect.objectContaining({ paymentId, amount: 100 }),
+            ]);
+            expect(prisma.order.updateMany).toHaveBeenCalledWith({
+                where: {
+                    id: mockOrderId,
+                    paymentStatus: PaymentStatus.PENDING,
+                },
+                data: { paymentStatus: PaymentStatus.REFUNDED },
+            });
+            expect(prisma.paymentStatusHistory.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    toStatus: PaymentStatus.REFUNDED,
+                    reason: "Refunded, the ordered stock sold out before the payment completed",
+                }),
+            });
+            expect(
+                OrderService.prototype.updateOrderStatus
+            ).toHaveBeenCalledWith(mockOrderId, "CANCELLED", {
+                reason: "Out of stock when the payment completed",
+            });
+        });
+
+        it("should refund a payment completed for an order cancelled meanwhile", async () => {
+            const paymentId = await createCardPayment();
+            cardProvider.setPaymentStatus(paymentId, PaymentStatus.COMPLETED);
+            const order = { ...mockOrder, paymentIntentId: paymentId };
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(order);
+            (prisma.order.updateMany as jest.Mock).mockResolvedValueOnce({
+                count: 0,
+            });
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+                ...order,
+                status: "CANCELLED",
+            });
+
+            await paymentService.handleWebhook(
+                PaymentMethod.CARD,
+                webhookRequest({
+                    paymentId,
+                    paymentStatus: PaymentStatus.COMPLETED,
+                })
+            );
+
+            expect(cardProvider.refunds).toEqual([
+                expect.objectContaining({ paymentId, amount: 100 }),
+            ]);
+            expect(prisma.order.updateMany).toHaveBeenLastCalledWith({
+                where: {
+                    id: mockOrderId,
+                    paymentStatus: PaymentStatus.PENDING,
+                },
+                data: { paymentStatus: PaymentStatus.REFUNDED },
+            });
+            expect(prisma.order.updateMany).not.toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: { paymentStatus: PaymentStatus.COMPLETED },
+                })
+            );
+            expect(prisma.orderStatusHistory.create).not.toHaveBeenCalled();
+        });
+
+        it("should not overwrite a payment result recorded concurrently", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.order.updateMany as jest.Mock).mockResolvedValue({
+                count: 0,
+            });
+
+            await paymentService.handleWebhook(
+                PaymentMethod.CARD,
+                webhookRequest({
+                    paymentId: "pay_123",
+                    paymentStatus: PaymentStatus.FAILED,
+                })
+            );
+
+            expect(prisma.paymentStatusHistory.create).not.toHaveBeenCalled();
+            expect(
+                InventoryService.prototype.releaseOrderReservations
+            ).not.toHaveBeenCalled();
+        });
+
+        it("should handle payment failure", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
+
+            await paymentService.handleWebhook(
+                PaymentMethod.CARD,
+                webhookRequest({
+                    paymentId: "pay_123",
+                    paymentStatus: PaymentStatus.FAILED,
+                })
+            );
+
+            expect(prisma.order.updateMany).toHaveBeenCalledWith({
+                where: {
+                    id: mockOrder.id,
+                    paymentStatus: PaymentStatus.PENDING,
+                },
                 data: {
                     paymentStatus: PaymentStatus.FAILED,
                 },
             });
+            expect(
+                InventoryService.prototype.releaseOrderReservations
+            ).toHaveBeenCalledWith(mockOrder.id);
         });
 
         it("should handle refund", async () => {
-            const mockEvent = {
-                type: "charge.refunded",
-                data: {
-                    object: {
-                        payment_intent: mockPaymentIntent.id,
-                    },
-                },
-            };
-            (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
-            (prisma.order.update as jest.Mock).mockResolvedValue({
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
                 ...mockOrder,
-                paymentStatus: PaymentStatus.REFUNDED,
+                paymentStatus: PaymentStatus.COMPLETED,
             });
 
-            await paymentService.handleWebhook(mockEvent);
+            await paymentService.handleWebhook(
+                PaymentMethod.CARD,
+                webhookRequest({
+                    paymentId: "pay_123",
+                    paymentStatus: PaymentStatus.REFUNDED,
+                })
+            );
 
-            expect(prisma.order.update).toHaveBeenCalledWith({
-                where: { id: mockOrder.id },
+            expect(prisma.order.updateMany).toHaveBeenCalledWith({
+                where: {
+                    id: mockOrder.id,
+                    paymentStatus: PaymentStatus.COMPLETED,
+                },
                 data: {
                     paymentStatus: PaymentStatus.REFUNDED,
                 },
             });
         });
+
+        it("should skip events that were already delivered", async () => {
+            (prisma.webhookEvent.create as jest.Mock).mockRejectedValue(
+                new Prisma.PrismaClientKnownRequestError(
+                    "Unique constraint failed",
+                    { code: "P2002", clientVersion: "5.22.0" }
+                )
+            );
+            (
+                prisma.webhookEvent.findUniqueOrThrow as jest.Mock
+            ).mockResolvedValue({
+                id: "we_1",
+                status: WebhookEventStatus.PROCESSED,
+            });
+
+            const result = await paymentService.handleWebhook(
+                PaymentMethod.CARD,
+                webhookRequest({
+                    paymentId: "pay_123",
+                    paymentStatus: PaymentStatus.COMPLETED,
+                })
+            );
+
+            expect(result).toEqual({
+                duplicate: true,
+                status: WebhookEventStatus.PROCESSED,
+            });
+            expect(prisma.order.updateMany).not.toHaveBeenCalled();
+            expect(prisma.webhookEvent.update).not.toHaveBeenCalled();
+            expect(
+                InventoryService.prototype.commitOrderReservations
+            ).not.toHaveBeenCalled();
+        });
+
+        it("should store events that do not change a payment as ignored", async () => {
+            const result = await paymentService.handleWebhook(
+                PaymentMethod.CARD,
+                webhookRequest({
+                    type: "customer.created",
+                    paymentId: null,
+                    paymentStatus: null,
+                })
+            );
+
+            expect(result.status).toBe(WebhookEventStatus.IGNORED);
+            expect(prisma.order.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should store failed events and report the error", async () => {
+            (prisma.order.findFirst as jest.Mock).mockRejectedValue(
+                new Error("Database unavailable")
+            );
+
+            await expect(
+                paymentService.handleWebhook(
+                    PaymentMethod.CARD,
+                    webhookRequest({
+                        paymentId: "pay_123",
+                        paymentStatus: PaymentStatus.COMPLETED,
+                    })
+                )
+            ).rejects.toThrow("Database unavailable");
+            expect(prisma.webhookEvent.update).toHaveBeenCalledWith({
+                where: { id: "we_1" },
+                data: expect.objectContaining({
+                    status: WebhookEventStatus.FAILED,
+                    error: "Database unavailable",
+                }),
+            });
+        });
+    });
+
+    describe("reprocessWebhookEvent", () => {
+        it("should re-run a failed event", async () => {
+            (prisma.webhookEvent.findUnique as jest.Mock).mockResolvedValue({
+                id: "we_1",
+                provider: "stripe",
+                status: WebhookEventStatus.FAILED,
+                payload: {
+                    id: "evt_123",
+                    type: "payment_intent.payment_failed",
+                    paymentId: "pay_123",
+                    paymentStatus: PaymentStatus.FAILED,
+                    data: null,
+                },
+            });
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
+
+            const result = await paymentService.reprocessWebhookEvent("we_1");
+
+            expect(prisma.order.updateMany).toHaveBeenCalledWith({
+                where: {
+                    id: mockOrder.id,
+                    paymentStatus: PaymentStatus.PENDING,
+                },
+                data: { paymentStatus: PaymentStatus.FAILED },
+            });
+            expect(result.status).toBe(WebhookEventStatus.PROCESSED);
+        });
+
+        it("should not re-run processed events", async () => {
+            (prisma.webhookEvent.findUnique as jest.Mock).mockResolvedValue({
+                id: "we_1",
+                status: WebhookEventStatus.PROCESSED,
+            });
+
+            await expect(
+                paymentService.reprocessWebhookEvent("we_1")
+            ).rejects.toThrow("Webhook event has already been processed");
+        });
+    });
+
+    describe("refundPayment", () => {
+        it("should refund a completed card payment through its provider", async () => {
+            const paymentId = await createCardPayment();
+            cardProvider.setPaymentStatus(paymentId, PaymentStatus.COMPLETED);
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                paymentStatus: PaymentStatus.COMPLETED,
+                paymentIntentId: paymentId,
+            });
+
+            const result = await paymentService.refundPayment(
+                mockOrderId,
+                25.5
+            );
+
+            expect(cardProvider.refunds).toEqual([
+                { id: result.refundId, paymentId, amount: 25.5 },
+            ]);
+            expect(result).toEqual({
+                type: "card",
+                refundId: expect.any(String),
+                status: "succeeded",
+            });
+        });
+
+        it("should leave cash on delivery refunds to be settled by hand", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+            });
+
+            const result = await paymentService.refundPayment(mockOrderId, 50);
+
+            expect(cardProvider.refunds).toHaveLength(0);
+            expect(result.refundId).toBeNull();
+        });
+
+        it("should not refund unpaid orders", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                paymentIntentId: "pay_123",
+            });
+
+            await expect(
+                paymentService.refundPayment(mockOrderId, 50)
+            ).rejects.toThrow("Order has no completed payment to refund");
+        });
+
+        it("should reject amounts above the order total", async () => {
+            (prisma.order.findUnique as jest.Mock).mockResolvedValue(mockOrder);
+
+            await expect(
+                paymentService.refundPayment(mockOrderId, 150)
+            ).rejects.toThrow("Invalid refund amount");
+        });
     });
 });
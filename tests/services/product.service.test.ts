@@ -1,20 +1,47 @@
 import { ProductService } from "@/services/product.service";
+import { SearchHistoryService } from "@/services/searchHistory.service";
 import { prisma } from "@/config/database";
+import {
+    ProductSearchProvider,
+    resetSearchProvider,
+    setSearchProvider,
+} from "@/providers/search";
+
+jest.mock("@/services/searchHistory.service");
 
 // Mock Prisma client
 jest.mock("@/config/database", () => ({
     prisma: {
+        $transaction: jest.fn((callback) => callback(prisma)),
+        $queryRaw: jest.fn(),
         product: {
             create: jest.fn(),
             findUnique: jest.fn(),
+            findFirst: jest.fn(),
             findMany: jest.fn(),
             update: jest.fn(),
+            updateMany: jest.fn(),
             delete: jest.fn(),
             count: jest.fn(),
         },
         seller: {
             findUnique: jest.fn(),
         },
+        category: {
+            findMany: jest.fn(),
+        },
+        productOption: {
+            findMany: jest.fn(),
+        },
+        productVariant: {
+            create: jest.fn(),
+            findFirst: jest.fn(),
+            findMany: jest.fn(),
+            update: jest.fn(),
+        },
+        stockReservation: {
+            aggregate: jest.fn(),
+        },
     },
 }));
 
@@ -25,7 +52,7 @@ describe("ProductService", () => {
         sellerId: "seller123",
         name: "Test Product",
         description: "Test Description",
-        price: 99.99,
+        price: 9999,
         stock: 100,
         images: ["image1.jpg", "image2.jpg"],
         category: "Electronics",
@@ -41,9 +68,31 @@ describe("ProductService", () => {
         isVerified: true,
     };
 
+    const searchProvider = {
+        name: "test",
+        search: jest.fn(),
+        getFacets: jest.fn(),
+        indexProducts: jest.fn(),
+    } satisfies ProductSearchProvider;
+
+    const noFacets = {
+        categories: [],
+        sellers: [],
+        prices: [],
+        ratings: [],
+        stock: { inStock: 0, outOfStock: 0 },
+    };
+
     beforeEach(() => {
         productService = new ProductService();
         jest.clearAllMocks();
+        setSearchProvider(searchProvider);
+        (prisma.category.findMany as jest.Mock).mockResolvedValue([]);
+        searchProvider.getFacets.mockResolvedValue(noFacets);
+    });
+
+    afterEach(() => {
+        resetSearchProvider();
     });
 
     describe("createProduct", () => {
@@ -51,7 +100,7 @@ describe("ProductService", () => {
             sellerId: "seller123",
             name: "Test Product",
             description: "Test Description",
-            price: 99.99,
+            price: 9999,
             stock: 100,
             images: ["image1.jpg", "image2.jpg"],
             categoryId: "cat123",
@@ -67,7 +116,10 @@ describe("ProductService", () => {
 
             expect(result).toEqual(mockProduct);
             expect(prisma.product.create).toHaveBeenCalledWith({
-                data: mockProductData,
+                data: { ...mockProductData, currency: "RWF" },
+            });
+            expect(searchProvider.indexProducts).toHaveBeenCalledWith({
+                productIds: [mockProduct.id],
             });
         });
 
@@ -167,6 +219,51 @@ describe("ProductService", () => {
             });
         });
 
+        it("should set stock through the inventory", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.product.update as jest.Mock).mockResolvedValue(mockProduct);
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: 30 },
+            });
+
+            const result = await productService.updateProduct(
+                mockProduct.id,
+                mockProduct.sellerId,
+                { price: 8999, stock: 40 }
+            );
+
+            expect(result.stock).toBe(40);
+            expect(prisma.product.update).toHaveBeenCalledWith({
+                where: { id: mockProduct.id, sellerId: mockProduct.sellerId },
+                data: { price: 8999 },
+            });
+            expect(prisma.$queryRaw).toHaveBeenCalled();
+            expect(prisma.product.update).toHaveBeenCalledWith({
+                where: { id: mockProduct.id },
+                data: { stock: 40 },
+            });
+        });
+
+        it("should not remove stock held by reservations", async () => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.product.update as jest.Mock).mockResolvedValue(mockProduct);
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: 30 },
+            });
+
+            await expect(
+                productService.updateProduct(
+                    mockProduct.id,
+                    mockProduct.sellerId,
+                    { stock: 20 }
+                )
+            ).rejects.toThrow("Cannot set stock to 20, 30 units are reserved");
+        });
+
         it("should throw error if product not found", async () => {
             (prisma.product.findUnique as jest.Mock).mockResolvedValue(null);
 
@@ -212,4 +309,522 @@ describe("ProductService", () => {
             ).rejects.toThrow("Product not found");
         });
     });
+
+    describe("updateProductStock", () => {
+        beforeEach(() => {
+            (prisma.product.findFirst as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: 30 },
+            });
+        });
+
+        it("should lock the product and adjust its stock", async () => {
+            (prisma.product.update as jest.Mock).mockResolvedValue({
+                ...mockProduct,
+                stock: 90,
+            });
+
+            const result = await productService.updateProductStock(
+                "product123",
+                "seller123",
+                -10
+            );
+
+            expect(result.stock).toBe(90);
+            expect(prisma.$queryRaw).toHaveBeenCalled();
+            expect(prisma.product.update).toHaveBeenCalledWith({
+                where: { id: "product123" },
+                data: { stock: { increment: -10 } },
+            });
+        });
+
+        it("should not remove stock held by reservations", async () => {
+            await expect(
+                productService.updateProductStock(
+                    "product123",
+                    "seller123",
+                    -80
+                )
+            ).rejects.toThrow("Cannot remove 80 units, only 70 available");
+            expect(prisma.product.update).not.toHaveBeenCalled();
+        });
+
+        it("should throw error if product not found", async () => {
+            (prisma.product.findFirst as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                productService.updateProductStock("product123", "seller123", 5)
+            ).rejects.toThrow("Product not found");
+        });
+    });
+
+    describe("searchProduct", () => {
+        it("should return products in the order of their relevance", async () => {
+            searchProvider.search.mockResolvedValue({
+                hits: [
+                    {
+                        id: "product456",
+                        relevance: 1.2,
+                        highlights: {
+                            name: "<mark>Coffee</mark> Beans",
+                            description: "Roasted beans",
+                        },
+                    },
+                    {
+                        id: "product123",
+                        relevance: 0.4,
+                        highlights: {
+                            name: "Test Product",
+                            description: "A mug for <mark>coffee</mark>",
+                        },
+                    },
+                ],
+                total: 12,
+            });
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([
+                mockProduct,
+                { ...mockProduct, id: "product456", name: "Coffee Beans" },
+            ]);
+            (prisma.category.findMany as jest.Mock).mockResolvedValue([
+                { id: "cat123", name: "Groceries", parentId: null },
+            ]);
+
+            const result = await productService.searchProduct({
+                search: " cofee ",
+                userId: "user123",
+                categoryId: "cat123",
+                inStock: true,
+                page: 2,
+                limit: 2,
+            });
+
+            expect(searchProvider.search).toHaveBeenCalledWith({
+                text: "cofee",
+                categoryIds: ["cat123"],
+                inStock: true,
+                skip: 2,
+                take: 2,
+            });
+            expect(result.data.map((product) => product.id)).toEqual([
+                "product456",
+                "product123",
+            ]);
+            expect(result.data[0]).toEqual(
+                expect.objectContaining({
+                    relevance: 1.2,
+                    highlights: {
+                        name: "<mark>Coffee</mark> Beans",
+                        description: "Roasted beans",
+                    },
+                })
+            );
+            expect(result).toEqual(
+                expect.objectContaining({ total: 12, page: 2, totalPages: 6 })
+            );
+            // Only the first page of a search is saved
+            expect(
+                SearchHistoryService.prototype.recordSearch
+            ).not.toHaveBeenCalled();
+        });
+
+        it("should save a search text to the search history", async () => {
+            searchProvider.search.mockResolvedValue({ hits: [], total: 0 });
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([]);
+
+            await productService.searchProduct({
+                search: " matooke ",
+                userId: "user123",
+            });
+
+            expect(
+                SearchHistoryService.prototype.recordSearch
+            ).toHaveBeenCalledWith({
+                userId: "user123",
+                query: "matooke",
+                resultCount: 0,
+            });
+        });
+
+        it("should list products without a search text", async () => {
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([
+                mockProduct,
+            ]);
+            (prisma.product.count as jest.Mock).mockResolvedValue(1);
+
+            const result = await productService.searchProduct({ search: "" });
+
+            expect(searchProvider.search).not.toHaveBeenCalled();
+            expect(result.data).toEqual([mockProduct]);
+            expect(
+                SearchHistoryService.prototype.recordSearch
+            ).not.toHaveBeenCalled();
+        });
+
+        it("should filter by a category and its subcategories", async () => {
+            (prisma.category.findMany as jest.Mock).mockResolvedValue([
+                { id: "food", name: "Food", parentId: null },
+                { id: "drinks", name: "Drinks", parentId: "food" },
+                { id: "coffee", name: "Coffee", parentId: "drinks" },
+                { id: "tools", name: "Tools", parentId: null },
+            ]);
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([]);
+            (prisma.product.count as jest.Mock).mockResolvedValue(0);
+
+            await productService.searchProduct({
+                categoryId: "food",
+                sellerId: "seller123",
+                inStock: true,
+            });
+
+            expect(prisma.product.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: expect.objectContaining({
+                        categoryId: { in: ["food", "drinks", "coffee"] },
+                        sellerId: "seller123",
+                    }),
+                })
+            );
+            expect(searchProvider.getFacets).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    categoryIds: ["food", "drinks", "coffee"],
+                    sellerId: "seller123",
+                    inStock: true,
+                }),
+                [5000, 10000, 25000, 50000, 100000]
+            );
+        });
+
+        it("should match the prices of variants without a search text", async () => {
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([]);
+            (prisma.product.count as jest.Mock).mockResolvedValue(0);
+
+            await productService.searchProduct({ maxPrice: 3000 });
+
+            expect(prisma.product.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: expect.objectContaining({
+                        AND: [
+                            {
+                                OR: [
+                                    { price: { lte: 3000 } },
+                                    {
+                                        variants: {
+                                            some: {
+                                                isActive: true,
+                                                price: { lte: 3000 },
+                                            },
+                                        },
+                                    },
+                                ],
+                            },
+                        ],
+                    }),
+                })
+            );
+        });
+
+        it("should count matching products by facet", async () => {
+            (prisma.category.findMany as jest.Mock).mockResolvedValue([
+                { id: "food", name: "Food", parentId: null },
+                { id: "drinks", name: "Drinks", parentId: "food" },
+                { id: "coffee", name: "Coffee", parentId: "drinks" },
+            ]);
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([]);
+            (prisma.product.count as jest.Mock).mockResolvedValue(0);
+            searchProvider.getFacets.mockResolvedValue({
+                categories: [
+                    { categoryId: "coffee", count: 3 },
+                    { categoryId: "drinks", count: 2 },
+                ],
+                sellers: [
+                    { sellerId: "seller123", businessName: "Test", count: 5 },
+                ],
+                prices: [
+                    { bucket: 0, count: 1 },
+                    { bucket: 5, count: 4 },
+                ],
+                ratings: [
+                    { rating: 5, count: 1 },
+                    { rating: 4, count: 2 },
+                    { rating: 2, count: 1 },
+                ],
+                stock: { inStock: 4, outOfStock: 1 },
+            });
+
+            const result = await productService.searchProduct({});
+
+            expect(result.facets.categories).toEqual([
+                { id: "drinks", name: "Drinks", parentId: "food", count: 5 },
+                { id: "food", name: "Food", parentId: null, count: 5 },
+                { id: "coffee", name: "Coffee", parentId: "drinks", count: 3 },
+            ]);
+            expect(result.facets.sellers).toEqual([
+                { id: "seller123", businessName: "Test", count: 5 },
+            ]);
+            expect(result.facets.priceRanges).toEqual([
+                { min: 0, max: 5000, count: 1 },
+                { min: 5000, max: 10000, count: 0 },
+                { min: 10000, max: 25000, count: 0 },
+                { min: 25000, max: 50000, count: 0 },
+                { min: 50000, max: 100000, count: 0 },
+                { min: 100000, max: null, count: 4 },
+            ]);
+            expect(result.facets.ratings).toEqual([
+                { rating: 5, count: 1 },
+                { rating: 4, count: 3 },
+                { rating: 3, count: 3 },
+                { rating: 2, count: 4 },
+                { rating: 1, count: 4 },
+            ]);
+            expect(result.facets.stock).toEqual({ inStock: 4, outOfStock: 1 });
+        });
+    });
+
+    describe("bulkUpdateProducts", () => {
+        it("should only update the seller's products", async () => {
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([
+                { id: "product123" },
+            ]);
+
+            const count = await productService.bulkUpdateProducts(
+                "seller123",
+                ["product123", "product456"],
+                { price: 8999 }
+            );
+
+            expect(count).toBe(1);
+            expect(prisma.product.updateMany).toHaveBeenCalledWith({
+                where: { id: { in: ["product123"] } },
+                data: { price: 8999 },
+            });
+            expect(prisma.$queryRaw).not.toHaveBeenCalled();
+        });
+
+        it("should set stock through the inventory", async () => {
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([
+                { id: "product123" },
+                { id: "product456" },
+            ]);
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: null },
+            });
+
+            await productService.bulkUpdateProducts(
+                "seller123",
+                ["product123", "product456"],
+                { stock: 0 }
+            );
+
+            expect(prisma.product.update).toHaveBeenCalledWith({
+                where: { id: "product123" },
+                data: { stock: 0 },
+            });
+            expect(prisma.product.update).toHaveBeenCalledWith({
+                where: { id: "product456" },
+                data: { stock: 0 },
+            });
+        });
+    });
+
+    describe("updateVariant", () => {
+        beforeEach(() => {
+            (prisma.product.findFirst as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.productVariant.findFirst as jest.Mock).mockResolvedValue({
+                id: "variant123",
+                productId: "product123",
+            });
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: 2 },
+            });
+        });
+
+        it("should set the variant's stock through the inventory", async () => {
+            await productService.updateVariant(
+                "product123",
+                "variant123",
+                "user123",
+                { price: 12000, stock: 8 }
+            );
+
+            expect(prisma.$queryRaw).toHaveBeenCalled();
+            expect(prisma.productVariant.update).toHaveBeenCalledWith({
+                where: { id: "variant123" },
+                data: { stock: 8 },
+            });
+            expect(prisma.productVariant.update).toHaveBeenCalledWith({
+                where: { id: "variant123" },
+                data: { price: 12000 },
+            });
+        });
+
+        it("should not remove stock held by reservations", async () => {
+            await expect(
+                productService.updateVariant(
+                    "product123",
+                    "variant123",
+                    "user123",
+                    { stock: 1 }
+                )
+            ).rejects.toThrow("Cannot set stock to 1, 2 units are reserved");
+        });
+    });
+
+    describe("createVariant", () => {
+        const mockOptions = [
+            { name: "Size", values: ["S", "M", "L"] },
+            { name: "Color", values: ["Red", "Blue"] },
+        ];
+        const mockVariantData = {
+            sku: "TSHIRT-M-RED",
+            options: { Size: "M", Color: "Red" },
+            price: 12000,
+            stock: 5,
+        };
+
+        beforeEach(() => {
+            (prisma.product.findFirst as jest.Mock).mockResolvedValue(
+                mockProduct
+            );
+            (prisma.productOption.findMany as jest.Mock).mockResolvedValue(
+                mockOptions
+            );
+            (prisma.productVariant.findFirst as jest.Mock).mockResolvedValue(
+                null
+            );
+        });
+
+        it("should add the variant and sell the product by variant", async () => {
+            (prisma.productVariant.create as jest.Mock).mockResolvedValue({
+                id: "variant123",
+                ...mockVariantData,
+            });
+
+            const result = await productService.createVariant(
+                "product123",
+                "user123",
+                mockVariantData
+            );
+
+            expect(result.id).toBe("variant123");
+            expect(prisma.product.findFirst).toHaveBeenCalledWith({
+                where: { id: "product123", seller: { userId: "user123" } },
+            });
+            expect(prisma.productVariant.create).toHaveBeenCalledWith({
+                data: { ...mockVariantData, productId: "product123" },
+            });
+            expect(prisma.product.update).toHaveBeenCalledWith({
+                where: { id: "product123" },
+                data: { hasVariants: true },
+            });
+        });
+
+        it("should reject a value that is not one of the option's", async () => {
+            await expect(
+                productService.createVariant("product123", "user123", {
+                    ...mockVariantData,
+                    options: { Size: "XL", Color: "Red" },
+                })
+            ).rejects.toThrow("Invalid value XL for option Size");
+            expect(prisma.productVariant.create).not.toHaveBeenCalled();
+        });
+
+        it("should require every option of the product", async () => {
+            await expect(
+                productService.createVariant("product123", "user123", {
+                    ...mockVariantData,
+                    options: { Size: "M" },
+                })
+            ).rejects.toThrow("Missing option Color");
+        });
+
+        it("should reject a variant with the options of another", async () => {
+            (prisma.productVariant.findFirst as jest.Mock).mockResolvedValue({
+                id: "variant456",
+            });
+
+            await expect(
+                productService.createVariant(
+                    "product123",
+                    "user123",
+                    mockVariantData
+                )
+            ).rejects.toThrow("A variant with these options already exists");
+        });
+    });
+
+    describe("checkProductAvailability", () => {
+        beforeEach(() => {
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue({
+                ...mockProduct,
+                hasVariants: true,
+            });
+            (prisma.stockReservation.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { quantity: 2 },
+            });
+        });
+
+        it("should check the stock of the requested variant", async () => {
+            (prisma.productVariant.findMany as jest.Mock).mockResolvedValue([
+                { id: "variant123", stock: 5 },
+            ]);
+
+            const available = await productService.checkProductAvailability(
+                "product123",
+                4,
+                "variant123"
+            );
+
+            expect(available).toBe(false);
+            expect(prisma.stockReservation.aggregate).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: expect.objectContaining({ variantId: "variant123" }),
+                })
+            );
+        });
+
+        it("should be available when any variant is in stock", async () => {
+            (prisma.productVariant.findMany as jest.Mock).mockResolvedValue([
+                { id: "variant123", stock: 0 },
+                { id: "variant456", stock: 10 },
+            ]);
+
+            const available = await productService.checkProductAvailability(
+                "product123",
+                4
+            );
+
+            expect(available).toBe(true);
+        });
+    });
+
+    describe("getInventoryAnalytics", () => {
+        it("should report low stock variants apart from products", async () => {
+            const lowStockVariant = {
+                id: "variant123",
+                stock: 2,
+                product: { id: "product123", name: "Test Product" },
+            };
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([]);
+            (prisma.productVariant.findMany as jest.Mock).mockResolvedValue([
+                lowStockVariant,
+            ]);
+
+            const analytics =
+                await productService.getInventoryAnalytics("seller123");
+
+            expect(analytics.lowStockVariants).toEqual([lowStockVariant]);
+            expect(prisma.product.findMany).toHaveBeenCalledWith({
+                where: {
+                    sellerId: "seller123",
+                    stock: { lte: 10 },
+                    isActive: true,
+                    hasVariants: false,
+                },
+            });
+        });
+    });
 });
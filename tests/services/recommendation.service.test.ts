@@ -0,0 +1,296 @@
+import { RecommendationService } from "@/services/recommendation.service";
+import { prisma } from "@/config/database";
+import { RECOMMENDATION_CONFIG } from "@/config/recommendation";
+import {
+    ProductSearchProvider,
+    resetSearchProvider,
+    setSearchProvider,
+} from "@/providers/search";
+
+// Mock Prisma client
+jest.mock("@/config/database", () => ({
+    prisma: {
+        $transaction: jest.fn((operations) => Promise.all(operations)),
+        $queryRaw: jest.fn(),
+        product: {
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+        },
+        productRecommendation: {
+            findMany: jest.fn(),
+            deleteMany: jest.fn(),
+            createMany: jest.fn(),
+        },
+        userRecommendation: {
+            findMany: jest.fn(),
+            deleteMany: jest.fn(),
+            createMany: jest.fn(),
+        },
+        orderItem: {
+            findMany: jest.fn(),
+        },
+        cart: {
+            findMany: jest.fn(),
+        },
+        wishlist: {
+            findMany: jest.fn(),
+        },
+        searchHistory: {
+            findMany: jest.fn(),
+        },
+    },
+}));
+
+describe("RecommendationService", () => {
+    let recommendationService: RecommendationService;
+    const mockUserId = "user123";
+
+    const product = (id: string) => ({
+        id,
+        name: `Product ${id}`,
+        price: 5000,
+        currency: "RWF",
+        categoryId: "cat123",
+        isActive: true,
+    });
+
+    const searchProvider = {
+        name: "test",
+        search: jest.fn(),
+        getFacets: jest.fn(),
+        indexProducts: jest.fn(),
+    } satisfies ProductSearchProvider;
+
+    beforeEach(() => {
+        recommendationService = new RecommendationService();
+        jest.clearAllMocks();
+        setSearchProvider(searchProvider);
+    });
+
+    afterEach(() => {
+        resetSearchProvider();
+    });
+
+    describe("getFrequentlyBoughtTogether", () => {
+        it("should return the precomputed products, best first", async () => {
+            (
+                prisma.productRecommendation.findMany as jest.Mock
+            ).mockResolvedValue([
+                { recommendedId: "p2", score: 8, recommended: product("p2") },
+                { recommendedId: "p3", score: 3, recommended: product("p3") },
+            ]);
+
+            const result =
+                await recommendationService.getFrequentlyBoughtTogether(
+                    "p1",
+                    2
+                );
+
+            expect(result).toEqual([product("p2"), product("p3")]);
+            expect(prisma.productRecommendation.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        productId: "p1",
+                        type: "BOUGHT_TOGETHER",
+                        recommended: { isActive: true },
+                    },
+                    orderBy: { score: "desc" },
+                    take: 2,
+                })
+            );
+        });
+    });
+
+    describe("getCustomersAlsoViewed", () => {
+        it("should fill up with products of the same category", async () => {
+            (
+                prisma.productRecommendation.findMany as jest.Mock
+            ).mockResolvedValue([
+                { recommendedId: "p2", score: 4, recommended: product("p2") },
+            ]);
+            (prisma.product.findUnique as jest.Mock).mockResolvedValue({
+                categoryId: "cat123",
+            });
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([
+                product("p4"),
+            ]);
+
+            const result = await recommendationService.getCustomersAlsoViewed(
+                "p1",
+                3
+            );
+
+            expect(result).toEqual([product("p2"), product("p4")]);
+            expect(prisma.product.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        categoryId: "cat123",
+                        id: { notIn: ["p1", "p2"] },
+                        isActive: true,
+                    },
+                    take: 2,
+                })
+            );
+        });
+    });
+
+    describe("getHomeFeed", () => {
+        it("should return the feed of the user with the reasons", async () => {
+            (prisma.userRecommendation.findMany as jest.Mock).mockResolvedValue(
+                [{ reason: "SEARCHED", score: 2, product: product("p2") }]
+            );
+
+            const result = await recommendationService.getHomeFeed(mockUserId);
+
+            expect(result).toEqual([{ ...product("p2"), reason: "SEARCHED" }]);
+            expect(prisma.userRecommendation.findMany).toHaveBeenCalledTimes(1);
+        });
+
+        it("should fall back to the popular feed, then the newest products", async () => {
+            (prisma.userRecommendation.findMany as jest.Mock).mockResolvedValue(
+                []
+            );
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([
+                product("p9"),
+            ]);
+
+            const result = await recommendationService.getHomeFeed(mockUserId);
+
+            expect(prisma.userRecommendation.findMany).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    where: { userId: null, product: { isActive: true } },
+                })
+            );
+            expect(result).toEqual([{ ...product("p9"), reason: "NEW" }]);
+        });
+    });
+
+    describe("computeRecommendations", () => {
+        beforeEach(() => {
+            (prisma.$queryRaw as jest.Mock)
+                // Bought together
+                .mockResolvedValueOnce([
+                    { productId: "p1", recommendedId: "p2", score: 5 },
+                    { productId: "p2", recommendedId: "p1", score: 5 },
+                ])
+                // Also viewed
+                .mockResolvedValueOnce([
+                    { productId: "p1", recommendedId: "p3", score: 2 },
+                ])
+                // Popular
+                .mockResolvedValueOnce([{ productId: "p1", score: 9 }])
+                // Active users
+                .mockResolvedValueOnce([{ userId: mockUserId }]);
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([
+                { productId: "p1" },
+            ]);
+            (prisma.cart.findMany as jest.Mock).mockResolvedValue([]);
+            (prisma.wishlist.findMany as jest.Mock).mockResolvedValue([
+                { productId: "p1" },
+            ]);
+            (prisma.searchHistory.findMany as jest.Mock).mockResolvedValue([
+                { query: "coffee" },
+            ]);
+            (
+                prisma.productRecommendation.findMany as jest.Mock
+            ).mockResolvedValue([
+                {
+                    productId: "p1",
+                    recommendedId: "p2",
+                    type: "BOUGHT_TOGETHER",
+                    score: 5,
+                },
+                {
+                    productId: "p1",
+                    recommendedId: "p3",
+                    type: "ALSO_VIEWED",
+                    score: 2,
+                },
+            ]);
+            searchProvider.search.mockResolvedValue({
+                hits: [
+                    { id: "p1", relevance: 1, highlights: {} },
+                    { id: "p3", relevance: 1.5, highlights: {} },
+                    { id: "p5", relevance: 0.5, highlights: {} },
+                ],
+                total: 3,
+            });
+        });
+
+        it("should replace the product recommendations", async () => {
+            const result = await recommendationService.computeRecommendations();
+
+            expect(result).toEqual({
+                boughtTogether: 2,
+                alsoViewed: 1,
+                popular: 1,
+                feeds: 1,
+            });
+            expect(
+                prisma.productRecommendation.deleteMany
+            ).toHaveBeenCalledWith({ where: { type: "BOUGHT_TOGETHER" } });
+            expect(
+                prisma.productRecommendation.createMany
+            ).toHaveBeenCalledWith({
+                data: [
+                    {
+                        productId: "p1",
+                        recommendedId: "p3",
+                        score: 2,
+                        type: "ALSO_VIEWED",
+                    },
+                ],
+            });
+            expect(prisma.userRecommendation.createMany).toHaveBeenCalledWith({
+                data: [
+                    {
+                        userId: null,
+                        productId: "p1",
+                        score: 9,
+                        reason: "POPULAR",
+                    },
+                ],
+            });
+        });
+
+        it("should build the feed of active users from their interests", async () => {
+            await recommendationService.computeRecommendations();
+
+            const { purchased, search } = RECOMMENDATION_CONFIG.weights;
+            expect(prisma.userRecommendation.deleteMany).toHaveBeenCalledWith({
+                where: { userId: mockUserId },
+            });
+            // The product bought is left out of the feed
+            expect(
+                prisma.userRecommendation.createMany
+            ).toHaveBeenLastCalledWith({
+                data: [
+                    {
+                        userId: mockUserId,
+                        productId: "p2",
+                        score: purchased * 5,
+                        reason: "BOUGHT_TOGETHER",
+                    },
+                    {
+                        userId: mockUserId,
+                        productId: "p3",
+                        score: purchased * 2 + search * 1.5,
+                        reason: "ALSO_VIEWED",
+                    },
+                    {
+                        userId: mockUserId,
+                        productId: "p5",
+                        score: search * 0.5,
+                        reason: "SEARCHED",
+                    },
+                ],
+            });
+            expect(searchProvider.search).toHaveBeenCalledWith({
+                text: "coffee",
+                inStock: true,
+                skip: 0,
+                take: RECOMMENDATION_CONFIG.feedResultsPerSearch,
+            });
+        });
+    });
+});
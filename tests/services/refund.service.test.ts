@@ -0,0 +1,513 @@
+import { RefundService } from "@/services/refund.service";
+import { PaymentService } from "@/services/payment.service";
+import { InventoryService } from "@/services/inventory.service";
+import { NotificationService } from "@/services/notification.service";
+import { prisma } from "@/config/database";
+import {
+    NotificationType,
+    OrderStatus,
+    PaymentStatus,
+    RefundReasonCode,
+    RefundStatus,
+    UserRole,
+} from "@prisma/client";
+
+// Mock Prisma client
+jest.mock("@/config/database", () => ({
+    prisma: {
+        $transaction: jest.fn((callback) => callback(prisma)),
+        $queryRaw: jest.fn(),
+        order: {
+            findFirst: jest.fn(),
+            findUniqueOrThrow: jest.fn(),
+            update: jest.fn(),
+        },
+        paymentStatusHistory: {
+            create: jest.fn(),
+        },
+        refundRequest: {
+            create: jest.fn(),
+            findFirst: jest.fn(),
+            findUnique: jest.fn(),
+            findUniqueOrThrow: jest.fn(),
+            findMany: jest.fn(),
+            count: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+            aggregate: jest.fn(),
+        },
+        seller: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("@/services/payment.service");
+jest.mock("@/services/inventory.service");
+jest.mock("@/services/notification.service");
+
+describe("RefundService", () => {
+    let refundService: RefundService;
+    const mockUserId = "user123";
+    const admin = { userId: "admin123", role: UserRole.ADMIN };
+    const seller = { userId: "sellerUser123", role: UserRole.SELLER };
+
+    const mockOrder = {
+        id: "order123",
+        userId: mockUserId,
+        status: OrderStatus.DELIVERED,
+        // Items after a discount and with VAT, and 30 for shipping
+        totalAmount: 130,
+        shippingCost: 30,
+        items: [
+            {
+                id: "item1",
+                productId: "product1",
+                quantity: 2,
+                price: 30,
+                grossAmount: 55,
+                refundItems: [],
+            },
+            {
+                id: "item2",
+                productId: "product2",
+                quantity: 1,
+                price: 40,
+                grossAmount: 45,
+                refundItems: [],
+            },
+        ],
+    };
+
+    const mockRefund = {
+        id: "refund123",
+        orderId: "order123",
+        userId: mockUserId,
+        amount: 30,
+        status: RefundStatus.PENDING,
+        items: [
+            {
+                id: "refundItem1",
+                orderItemId: "item1",
+                quantity: 1,
+                amount: 30,
+                orderItem: {
+                    id: "item1",
+                    productId: "product1",
+                    variantId: "variant1",
+                    quantity: 2,
+                    product: { id: "product1", sellerId: "seller123" },
+                },
+            },
+        ],
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        refundService = new RefundService();
+        (prisma.refundRequest.updateMany as jest.Mock).mockResolvedValue({
+            count: 1,
+        });
+    });
+
+    describe("createRefundRequest", () => {
+        const requestData = {
+            userId: mockUserId,
+            orderId: "order123",
+            reasonCode: RefundReasonCode.DAMAGED,
+            reason: "The item arrived broken",
+            photos: ["https://example.com/photo.jpg"],
+            items: [{ orderItemId: "item1", quantity: 2 }],
+        };
+
+        it("should create a refund request for a delivered order", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.refundRequest.create as jest.Mock).mockResolvedValue(
+                mockRefund
+            );
+
+            const result = await refundService.createRefundRequest(requestData);
+
+            expect(result).toEqual(mockRefund);
+            // The order is locked before the quantities are checked
+            expect(prisma.$queryRaw).toHaveBeenCalled();
+            expect(
+                (prisma.$queryRaw as jest.Mock).mock.invocationCallOrder[0]
+            ).toBeLessThan(
+                (prisma.order.findFirst as jest.Mock).mock
+                    .invocationCallOrder[0]
+            );
+            expect(prisma.refundRequest.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        reasonCode: RefundReasonCode.DAMAGED,
+                        photos: requestData.photos,
+                        amount: 55,
+                        items: {
+                            create: [
+                                {
+                                    orderItemId: "item1",
+                                    quantity: 2,
+                                    amount: 55,
+                                },
+                            ],
+                        },
+                    }),
+                })
+            );
+            expect(
+                NotificationService.prototype.createNotification
+            ).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    userId: mockUserId,
+                    type: NotificationType.REFUND_REQUESTED,
+                })
+            );
+        });
+
+        it("should reject orders that have not been delivered", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                status: OrderStatus.SHIPPED,
+            });
+
+            await expect(
+                refundService.createRefundRequest(requestData)
+            ).rejects.toThrow(
+                "Refunds can only be requested for delivered orders"
+            );
+        });
+
+        it("should not refund more than was purchased", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                items: [
+                    {
+                        ...mockOrder.items[0],
+                        refundItems: [
+                            {
+                                quantity: 1,
+                                refundRequest: {
+                                    status: RefundStatus.PENDING,
+                                },
+                            },
+                        ],
+                    },
+                ],
+            });
+
+            await expect(
+                refundService.createRefundRequest(requestData)
+            ).rejects.toThrow("Invalid refund quantity for item item1");
+            expect(prisma.refundRequest.create).not.toHaveBeenCalled();
+        });
+
+        it("should refund a share of what was paid for the line", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
+            (prisma.refundRequest.create as jest.Mock).mockResolvedValue(
+                mockRefund
+            );
+
+            await refundService.createRefundRequest({
+                ...requestData,
+                items: [{ orderItemId: "item1", quantity: 1 }],
+            });
+
+            expect(prisma.refundRequest.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({ amount: 28 }),
+                })
+            );
+        });
+
+        it("should refund what is left of the line for its last units", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                items: [
+                    {
+                        ...mockOrder.items[0],
+                        refundItems: [
+                            {
+                                quantity: 1,
+                                amount: 28,
+                                refundRequest: {
+                                    status: RefundStatus.COMPLETED,
+                                },
+                            },
+                        ],
+                    },
+                ],
+            });
+            (prisma.refundRequest.create as jest.Mock).mockResolvedValue(
+                mockRefund
+            );
+
+            await refundService.createRefundRequest({
+                ...requestData,
+                items: [{ orderItemId: "item1", quantity: 1 }],
+            });
+
+            expect(prisma.refundRequest.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({ amount: 27 }),
+                })
+            );
+        });
+
+        it("should ignore quantities from rejected refund requests", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue({
+                ...mockOrder,
+                items: [
+                    {
+                        ...mockOrder.items[0],
+                        refundItems: [
+                            {
+                                quantity: 2,
+                                amount: 55,
+                                refundRequest: {
+                                    status: RefundStatus.REJECTED,
+                                },
+                            },
+                        ],
+                    },
+                ],
+            });
+            (prisma.refundRequest.create as jest.Mock).mockResolvedValue(
+                mockRefund
+            );
+
+            await refundService.createRefundRequest(requestData);
+
+            expect(prisma.refundRequest.create).toHaveBeenCalled();
+        });
+    });
+
+    describe("approveRefundRequest", () => {
+        beforeEach(() => {
+            (prisma.refundRequest.findUnique as jest.Mock).mockResolvedValue(
+                mockRefund
+            );
+            (prisma.refundRequest.update as jest.Mock).mockResolvedValue({
+                ...mockRefund,
+                status: RefundStatus.COMPLETED,
+            });
+            (prisma.order.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+                mockOrder
+            );
+            (prisma.refundRequest.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { amount: 30 },
+            });
+        });
+
+        it("should refund the payment and complete the request", async () => {
+            (
+                PaymentService.prototype.refundPayment as jest.Mock
+            ).mockResolvedValue({
+                type: "card",
+                refundId: "re_123",
+                status: "succeeded",
+            });
+
+            await refundService.approveRefundRequest("refund123", admin, {
+                restock: true,
+                note: "Sorry about that",
+            });
+
+            expect(PaymentService.prototype.refundPayment).toHaveBeenCalledWith(
+                "order123",
+                30
+            );
+            expect(
+                InventoryService.prototype.restockOrderItem
+            ).toHaveBeenCalledWith(
+                prisma,
+                expect.objectContaining({
+                    id: "item1",
+                    productId: "product1",
+                    variantId: "variant1",
+                    quantity: 1,
+                })
+            );
+            expect(prisma.refundRequest.updateMany).toHaveBeenCalledWith({
+                where: { id: "refund123", status: RefundStatus.PENDING },
+                data: expect.objectContaining({
+                    status: RefundStatus.APPROVED,
+                    reviewedById: admin.userId,
+                }),
+            });
+            expect(prisma.refundRequest.update).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        status: RefundStatus.COMPLETED,
+                        paymentRefundId: "re_123",
+                        reviewedById: admin.userId,
+                        reviewNote: "Sorry about that",
+                    }),
+                })
+            );
+            expect(prisma.order.update).not.toHaveBeenCalled();
+            expect(
+                NotificationService.prototype.createNotification
+            ).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    type: NotificationType.REFUND_APPROVED,
+                })
+            );
+        });
+
+        it("should mark the order refunded once all its items are refunded", async () => {
+            (
+                PaymentService.prototype.refundPayment as jest.Mock
+            ).mockResolvedValue({
+                type: "cash_on_delivery",
+                refundId: null,
+                status: "manual",
+            });
+            (prisma.refundRequest.aggregate as jest.Mock).mockResolvedValue({
+                _sum: { amount: 100 },
+            });
+
+            await refundService.approveRefundRequest("refund123", admin);
+
+            expect(prisma.refundRequest.update).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        status: RefundStatus.APPROVED,
+                    }),
+                })
+            );
+            expect(
+                InventoryService.prototype.restockOrderItem
+            ).not.toHaveBeenCalled();
+            expect(prisma.order.update).toHaveBeenCalledWith({
+                where: { id: "order123" },
+                data: { paymentStatus: PaymentStatus.REFUNDED },
+            });
+        });
+
+        it("should not approve a request that was already reviewed", async () => {
+            (prisma.refundRequest.findUnique as jest.Mock).mockResolvedValue({
+                ...mockRefund,
+                status: RefundStatus.REJECTED,
+            });
+
+            await expect(
+                refundService.approveRefundRequest("refund123", admin)
+            ).rejects.toThrow("Refund request has already been reviewed");
+            expect(
+                PaymentService.prototype.refundPayment
+            ).not.toHaveBeenCalled();
+        });
+
+        it("should not refund a request a concurrent review claimed", async () => {
+            (prisma.refundRequest.updateMany as jest.Mock).mockResolvedValue({
+                count: 0,
+            });
+
+            await expect(
+                refundService.approveRefundRequest("refund123", admin)
+            ).rejects.toThrow("Refund request has already been reviewed");
+            expect(
+                PaymentService.prototype.refundPayment
+            ).not.toHaveBeenCalled();
+        });
+
+        it("should put the request back up for review if the refund fails", async () => {
+            (
+                PaymentService.prototype.refundPayment as jest.Mock
+            ).mockRejectedValue(new Error("Order has no completed payment"));
+
+            await expect(
+                refundService.approveRefundRequest("refund123", admin)
+            ).rejects.toThrow("Order has no completed payment");
+            expect(prisma.refundRequest.updateMany).toHaveBeenLastCalledWith({
+                where: { id: "refund123", status: RefundStatus.APPROVED },
+                data: {
+                    status: RefundStatus.PENDING,
+                    reviewedById: null,
+                    reviewNote: null,
+                    reviewedAt: null,
+                },
+            });
+            expect(prisma.refundRequest.update).not.toHaveBeenCalled();
+        });
+
+        it("should not let sellers approve refunds for other sellers' items", async () => {
+            (prisma.seller.findUnique as jest.Mock).mockResolvedValue({
+                id: "otherSeller",
+            });
+
+            await expect(
+                refundService.approveRefundRequest("refund123", seller)
+            ).rejects.toThrow("Refund request not found");
+            expect(
+                PaymentService.prototype.refundPayment
+            ).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("rejectRefundRequest", () => {
+        it("should reject the request and notify the customer", async () => {
+            (prisma.seller.findUnique as jest.Mock).mockResolvedValue({
+                id: "seller123",
+            });
+            (prisma.refundRequest.findUnique as jest.Mock).mockResolvedValue(
+                mockRefund
+            );
+            (
+                prisma.refundRequest.findUniqueOrThrow as jest.Mock
+            ).mockResolvedValue({
+                ...mockRefund,
+                status: RefundStatus.REJECTED,
+            });
+
+            await refundService.rejectRefundRequest(
+                "refund123",
+                seller,
+                "Item shows signs of use"
+            );
+
+            expect(prisma.refundRequest.updateMany).toHaveBeenCalledWith({
+                where: { id: "refund123", status: RefundStatus.PENDING },
+                data: expect.objectContaining({
+                    status: RefundStatus.REJECTED,
+                    reviewNote: "Item shows signs of use",
+                }),
+            });
+            expect(
+                NotificationService.prototype.createNotification
+            ).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    type: NotificationType.REFUND_REJECTED,
+                })
+            );
+        });
+    });
+
+    describe("getRefundRequestsForReview", () => {
+        it("should only show sellers refunds for their products", async () => {
+            (prisma.seller.findUnique as jest.Mock).mockResolvedValue({
+                id: "seller123",
+            });
+            (prisma.refundRequest.findMany as jest.Mock).mockResolvedValue([
+                mockRefund,
+            ]);
+            (prisma.refundRequest.count as jest.Mock).mockResolvedValue(1);
+
+            await refundService.getRefundRequestsForReview(seller);
+
+            expect(prisma.refundRequest.count).toHaveBeenCalledWith({
+                where: {
+                    status: RefundStatus.PENDING,
+                    items: {
+                        some: {
+                            orderItem: {
+                                product: { sellerId: "seller123" },
+                            },
+                        },
+                    },
+                },
+            });
+        });
+    });
+});
@@ -0,0 +1,237 @@
+import { SearchHistoryService } from "@/services/searchHistory.service";
+import { prisma } from "@/config/database";
+
+// Mock Prisma client
+jest.mock("@/config/database", () => ({
+    prisma: {
+        searchHistory: {
+            create: jest.fn(),
+            findMany: jest.fn(),
+            count: jest.fn(),
+            groupBy: jest.fn(),
+        },
+        product: {
+            findMany: jest.fn(),
+        },
+        category: {
+            findMany: jest.fn(),
+        },
+        user: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+describe("SearchHistoryService", () => {
+    let searchHistoryService: SearchHistoryService;
+    const mockUserId = "user123";
+
+    beforeEach(() => {
+        searchHistoryService = new SearchHistoryService();
+        jest.clearAllMocks();
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+            settings: { language: "en", currency: "RWF" },
+        });
+    });
+
+    describe("recordSearch", () => {
+        it("should save the search with its normalized query", async () => {
+            await searchHistoryService.recordSearch({
+                userId: mockUserId,
+                query: "  Coffee   Beans ",
+                resultCount: 4,
+            });
+
+            expect(prisma.searchHistory.create).toHaveBeenCalledWith({
+                data: {
+                    userId: mockUserId,
+                    query: "Coffee   Beans",
+                    normalizedQuery: "coffee beans",
+                    resultCount: 4,
+                },
+            });
+        });
+
+        it("should save the searches of guests", async () => {
+            await searchHistoryService.recordSearch({
+                query: "tea",
+                resultCount: 0,
+            });
+
+            expect(prisma.user.findUnique).not.toHaveBeenCalled();
+            expect(prisma.searchHistory.create).toHaveBeenCalledWith({
+                data: {
+                    userId: undefined,
+                    query: "tea",
+                    normalizedQuery: "tea",
+                    resultCount: 0,
+                },
+            });
+        });
+
+        it("should not save the searches of users who opted out", async () => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+                settings: { saveSearchHistory: false },
+            });
+
+            const result = await searchHistoryService.recordSearch({
+                userId: mockUserId,
+                query: "coffee",
+                resultCount: 4,
+            });
+
+            expect(result).toBeNull();
+            expect(prisma.searchHistory.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getSuggestions", () => {
+        it("should suggest names starting with the text first", async () => {
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([
+                { id: "p1", name: "Arabica Coffee", images: [] },
+                { id: "p2", name: "Coffee Beans", images: [] },
+            ]);
+            (prisma.category.findMany as jest.Mock).mockResolvedValue([
+                { id: "c1", name: "Coffee" },
+            ]);
+            (prisma.searchHistory.findMany as jest.Mock).mockResolvedValue([
+                { query: "Coffee beans" },
+            ]);
+
+            const result = await searchHistoryService.getSuggestions(
+                "Coff",
+                mockUserId
+            );
+
+            expect(result).toEqual({
+                products: [
+                    { id: "p2", name: "Coffee Beans", images: [] },
+                    { id: "p1", name: "Arabica Coffee", images: [] },
+                ],
+                categories: [{ id: "c1", name: "Coffee" }],
+                recentSearches: ["Coffee beans"],
+            });
+            expect(prisma.searchHistory.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        userId: mockUserId,
+                        normalizedQuery: { startsWith: "coff" },
+                    },
+                    distinct: ["normalizedQuery"],
+                })
+            );
+        });
+
+        it("should not suggest recent searches to guests or users who opted out", async () => {
+            (prisma.product.findMany as jest.Mock).mockResolvedValue([]);
+            (prisma.category.findMany as jest.Mock).mockResolvedValue([]);
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+                settings: { saveSearchHistory: false },
+            });
+
+            const guest = await searchHistoryService.getSuggestions("tea");
+            const optedOut = await searchHistoryService.getSuggestions(
+                "tea",
+                mockUserId
+            );
+
+            expect(guest.recentSearches).toEqual([]);
+            expect(optedOut.recentSearches).toEqual([]);
+            expect(prisma.searchHistory.findMany).not.toHaveBeenCalled();
+        });
+
+        it("should suggest nothing for an empty text", async () => {
+            const result = await searchHistoryService.getSuggestions("  ");
+
+            expect(result).toEqual({
+                products: [],
+                categories: [],
+                recentSearches: [],
+            });
+            expect(prisma.product.findMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getSearchReport", () => {
+        it("should report trending and zero result queries", async () => {
+            const startDate = new Date("2026-10-01");
+            const endDate = new Date("2026-10-31");
+            (prisma.searchHistory.count as jest.Mock)
+                .mockResolvedValueOnce(200)
+                .mockResolvedValueOnce(30);
+            (prisma.searchHistory.groupBy as jest.Mock)
+                .mockResolvedValueOnce([
+                    {
+                        normalizedQuery: "coffee",
+                        _count: { normalizedQuery: 60 },
+                        _avg: { resultCount: 12.5 },
+                    },
+                    {
+                        normalizedQuery: "phone case",
+                        _count: { normalizedQuery: 20 },
+                        _avg: { resultCount: 3 },
+                    },
+                ])
+                .mockResolvedValueOnce([
+                    {
+                        normalizedQuery: "matooke",
+                        _count: { normalizedQuery: 9 },
+                        _max: { createdAt: new Date("2026-10-30") },
+                    },
+                ])
+                .mockResolvedValueOnce([
+                    {
+                        normalizedQuery: "coffee",
+                        _count: { normalizedQuery: 40 },
+                    },
+                ]);
+
+            const result = await searchHistoryService.getSearchReport({
+                startDate,
+                endDate,
+            });
+
+            expect(result).toEqual({
+                startDate,
+                endDate,
+                searches: 200,
+                zeroResultSearches: 30,
+                zeroResultRate: 15,
+                trendingQueries: [
+                    {
+                        query: "coffee",
+                        searches: 60,
+                        previousSearches: 40,
+                        change: 50,
+                        averageResults: 12.5,
+                    },
+                    {
+                        query: "phone case",
+                        searches: 20,
+                        previousSearches: 0,
+                        change: null,
+                        averageResults: 3,
+                    },
+                ],
+                zeroResultQueries: [
+                    {
+                        query: "matooke",
+                        searches: 9,
+                        lastSearchedAt: new Date("2026-10-30"),
+                    },
+                ],
+            });
+            expect(prisma.searchHistory.groupBy).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    where: {
+                        createdAt: {
+                            gte: new Date("2026-09-01"),
+                            lt: startDate,
+                        },
+                        normalizedQuery: { in: ["coffee", "phone case"] },
+                    },
+                })
+            );
+        });
+    });
+});
@@ -1,9 +1,39 @@
 import { SellerService } from "@/services/seller.service";
+import { OrderService } from "@/services/order.service";
 import { prisma } from "@/config/database";
+import {
+    OrderItemStatus,
+    OrderStatus,
+    PaymentMethod,
+    PaymentStatus,
+    RefundReasonCode,
+} from "@prisma/client";
 
 // Mock Prisma client
 jest.mock("@/config/database", () => ({
     prisma: {
+        $transaction: jest.fn((callback) => callback(prisma)),
+        order: {
+            findMany: jest.fn(),
+            findFirst: jest.fn(),
+            count: jest.fn(),
+        },
+        orderItem: {
+            findMany: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        fulfillmentGroup: {
+            findUnique: jest.fn(),
+        },
+        refundRequest: {
+            create: jest.fn(),
+        },
+        product: {
+            update: jest.fn(),
+        },
+        stockReservation: {
+            findUnique: jest.fn(),
+        },
         seller: {
             create: jest.fn(),
             findUnique: jest.fn(),
@@ -18,6 +48,9 @@ jest.mock("@/config/database", () => ({
     },
 }));
 
+jest.mock("@/services/order.service");
+jest.mock("@/services/notification.service");
+
 describe("SellerService", () => {
     let sellerService: SellerService;
     const mockSeller = {
@@ -171,4 +204,351 @@ describe("SellerService", () => {
             ).rejects.toThrow("Seller not found");
         });
     });
+
+    describe("seller orders", () => {
+        const mockItem = {
+            id: "item123",
+            orderId: "order123",
+            productId: "prod123",
+            quantity: 2,
+            price: 100,
+            grossAmount: 200,
+            status: OrderItemStatus.PENDING,
+            product: { id: "prod123", name: "Beans <1kg>" },
+            order: {
+                status: OrderStatus.PENDING,
+                userId: "customer123",
+                paymentMethod: PaymentMethod.MOBILE_MONEY,
+                paymentStatus: PaymentStatus.COMPLETED,
+            },
+        };
+        const mockOrder = {
+            id: "order123",
+            createdAt: new Date("2024-01-01"),
+            items: [mockItem],
+            address: {
+                street: "KG 11 Ave",
+                city: "Kigali",
+                state: null,
+                postalCode: null,
+                country: "Rwanda",
+            },
+            user: { firstName: "Test", lastName: "User" },
+        };
+
+        beforeEach(() => {
+            (prisma.seller.findUnique as jest.Mock).mockResolvedValue(
+                mockSeller
+            );
+            (prisma.orderItem.updateMany as jest.Mock).mockResolvedValue({
+                count: 1,
+            });
+            (prisma.fulfillmentGroup.findUnique as jest.Mock).mockResolvedValue(
+                null
+            );
+        });
+
+        it("should list orders containing the seller's products", async () => {
+            (prisma.order.findMany as jest.Mock).mockResolvedValue([mockOrder]);
+            (prisma.order.count as jest.Mock).mockResolvedValue(1);
+
+            const result = await sellerService.getSellerOrders("user123", {
+                status: OrderStatus.PENDING,
+            });
+
+            expect(result.data).toEqual([mockOrder]);
+            expect(prisma.order.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        items: {
+                            some: { product: { sellerId: mockSeller.id } },
+                        },
+                        fulfillmentGroups: {
+                            some: {
+                                sellerId: mockSeller.id,
+                                status: OrderStatus.PENDING,
+                            },
+                        },
+                    },
+                })
+            );
+        });
+
+        it("should throw error if user has no seller profile", async () => {
+            (prisma.seller.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                sellerService.getSellerOrders("user123")
+            ).rejects.toThrow("Seller profile not found");
+        });
+
+        it("should accept items and move the fulfillment group along", async () => {
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([
+                mockItem,
+            ]);
+            (prisma.fulfillmentGroup.findUnique as jest.Mock).mockResolvedValue(
+                {
+                    id: "group123",
+                    status: OrderStatus.PENDING,
+                    items: [{ status: OrderItemStatus.ACCEPTED }],
+                }
+            );
+
+            await sellerService.updateOrderItemStatus(
+                "user123",
+                "order123",
+                OrderItemStatus.ACCEPTED,
+                { itemIds: ["item123"] }
+            );
+
+            expect(prisma.orderItem.updateMany).toHaveBeenCalledWith({
+                where: { id: "item123", status: OrderItemStatus.PENDING },
+                data: { status: OrderItemStatus.ACCEPTED },
+            });
+            expect(
+                OrderService.prototype.applyFulfillmentGroupStatus
+            ).toHaveBeenCalledWith(prisma, "group123", OrderStatus.PROCESSING, {
+                changedById: "user123",
+                reason: undefined,
+                carrier: undefined,
+                trackingNumber: undefined,
+            });
+        });
+
+        it("should restock rejected items", async () => {
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([
+                mockItem,
+            ]);
+            (prisma.fulfillmentGroup.findUnique as jest.Mock).mockResolvedValue(
+                null
+            );
+
+            await sellerService.updateOrderItemStatus(
+                "user123",
+                "order123",
+                OrderItemStatus.REJECTED,
+                { itemIds: ["item123"], reason: "Out of stock" }
+            );
+
+            expect(prisma.product.update).toHaveBeenCalledWith({
+                where: { id: "prod123" },
+                data: { stock: { increment: 2 } },
+            });
+            expect(prisma.orderItem.updateMany).toHaveBeenCalledWith({
+                where: { id: "item123", status: OrderItemStatus.PENDING },
+                data: {
+                    status: OrderItemStatus.REJECTED,
+                    rejectionReason: "Out of stock",
+                },
+            });
+        });
+
+        it("should request a refund of paid rejected items", async () => {
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([
+                mockItem,
+            ]);
+
+            await sellerService.updateOrderItemStatus(
+                "user123",
+                "order123",
+                OrderItemStatus.REJECTED,
+                { itemIds: ["item123"], reason: "Out of stock" }
+            );
+
+            expect(prisma.refundRequest.create).toHaveBeenCalledWith({
+                data: {
+                    orderId: "order123",
+                    userId: "customer123",
+                    reasonCode: RefundReasonCode.OTHER,
+                    reason: "Rejected by Test Business: Out of stock",
+                    amount: 200,
+                    items: {
+                        create: [
+                            {
+                                orderItemId: "item123",
+                                quantity: 2,
+                                amount: 200,
+                            },
+                        ],
+                    },
+                },
+            });
+        });
+
+        it("should not request a refund of unpaid rejected items", async () => {
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([
+                {
+                    ...mockItem,
+                    order: {
+                        ...mockItem.order,
+                        paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+                        paymentStatus: PaymentStatus.PENDING,
+                    },
+                },
+            ]);
+
+            await sellerService.updateOrderItemStatus(
+                "user123",
+                "order123",
+                OrderItemStatus.REJECTED,
+                { itemIds: ["item123"], reason: "Out of stock" }
+            );
+
+            expect(prisma.refundRequest.create).not.toHaveBeenCalled();
+        });
+
+        it("should not accept items of orders that are not paid", async () => {
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([
+                {
+                    ...mockItem,
+                    order: {
+                        ...mockItem.order,
+                        paymentStatus: PaymentStatus.PENDING,
+                    },
+                },
+            ]);
+
+            await expect(
+                sellerService.updateOrderItemStatus(
+                    "user123",
+                    "order123",
+                    OrderItemStatus.ACCEPTED,
+                    { itemIds: ["item123"] }
+                )
+            ).rejects.toThrow("Order has not been paid yet");
+            expect(prisma.orderItem.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should accept items of cash on delivery orders", async () => {
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([
+                {
+                    ...mockItem,
+                    order: {
+                        ...mockItem.order,
+                        paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+                        paymentStatus: PaymentStatus.PENDING,
+                    },
+                },
+            ]);
+
+            await sellerService.updateOrderItemStatus(
+                "user123",
+                "order123",
+                OrderItemStatus.ACCEPTED,
+                { itemIds: ["item123"] }
+            );
+
+            expect(prisma.orderItem.updateMany).toHaveBeenCalledWith({
+                where: { id: "item123", status: OrderItemStatus.PENDING },
+                data: { status: OrderItemStatus.ACCEPTED },
+            });
+        });
+
+        it("should not restock items another request already changed", async () => {
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([
+                mockItem,
+            ]);
+            (prisma.fulfillmentGroup.findUnique as jest.Mock).mockResolvedValue(
+                null
+            );
+            (prisma.orderItem.updateMany as jest.Mock).mockResolvedValue({
+                count: 0,
+            });
+
+            await expect(
+                sellerService.updateOrderItemStatus(
+                    "user123",
+                    "order123",
+                    OrderItemStatus.REJECTED,
+                    { itemIds: ["item123"], reason: "Out of stock" }
+                )
+            ).rejects.toThrow("Order items have changed, please try again");
+            expect(prisma.product.update).not.toHaveBeenCalled();
+        });
+
+        it("should not change items of a cancelled order", async () => {
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([
+                {
+                    ...mockItem,
+                    order: { ...mockItem.order, status: OrderStatus.CANCELLED },
+                },
+            ]);
+            (prisma.fulfillmentGroup.findUnique as jest.Mock).mockResolvedValue(
+                null
+            );
+
+            await expect(
+                sellerService.updateOrderItemStatus(
+                    "user123",
+                    "order123",
+                    OrderItemStatus.REJECTED,
+                    { itemIds: ["item123"], reason: "Out of stock" }
+                )
+            ).rejects.toThrow("Order has already been cancelled or delivered");
+            expect(prisma.orderItem.updateMany).not.toHaveBeenCalled();
+            expect(prisma.product.update).not.toHaveBeenCalled();
+        });
+
+        it("should not change items of a delivered fulfillment group", async () => {
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([
+                mockItem,
+            ]);
+            (prisma.fulfillmentGroup.findUnique as jest.Mock).mockResolvedValue(
+                { status: OrderStatus.DELIVERED }
+            );
+
+            await expect(
+                sellerService.updateOrderItemStatus(
+                    "user123",
+                    "order123",
+                    OrderItemStatus.ACCEPTED,
+                    { itemIds: ["item123"] }
+                )
+            ).rejects.toThrow("Order has already been cancelled or delivered");
+            expect(prisma.orderItem.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should reject items that do not belong to the seller", async () => {
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([]);
+
+            await expect(
+                sellerService.updateOrderItemStatus(
+                    "user123",
+                    "order123",
+                    OrderItemStatus.ACCEPTED,
+                    { itemIds: ["item123"] }
+                )
+            ).rejects.toThrow("Order items not found");
+        });
+
+        it("should reject invalid item transitions", async () => {
+            (prisma.orderItem.findMany as jest.Mock).mockResolvedValue([
+                mockItem,
+            ]);
+
+            await expect(
+                sellerService.updateOrderItemStatus(
+                    "user123",
+                    "order123",
+                    OrderItemStatus.SHIPPED,
+                    { itemIds: ["item123"] }
+                )
+            ).rejects.toThrow(
+                "Cannot change order item status from PENDING to SHIPPED"
+            );
+        });
+
+        it("should render an escaped packing slip", async () => {
+            (prisma.order.findFirst as jest.Mock).mockResolvedValue(mockOrder);
+
+            const slip = await sellerService.getPackingSlip(
+                "user123",
+                "order123"
+            );
+
+            expect(slip).toContain("Test Business");
+            expect(slip).toContain("Beans &lt;1kg&gt;");
+            expect(slip).toContain("Kigali");
+        });
+    });
 });
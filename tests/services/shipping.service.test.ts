@@ -0,0 +1,315 @@
+import { ShippingService } from "@/services/shipping.service";
+import { prisma } from "@/config/database";
+import { ShippingRateBasis } from "@prisma/client";
+
+// Mock Prisma client
+jest.mock("@/config/database", () => ({
+    prisma: {
+        shippingZone: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            findFirst: jest.fn(),
+            findMany: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn(),
+        },
+        shippingRate: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn(),
+        },
+        address: {
+            findFirst: jest.fn(),
+        },
+    },
+}));
+
+describe("ShippingService", () => {
+    let shippingService: ShippingService;
+
+    const standardRate = {
+        id: "rate1",
+        name: "Standard",
+        basis: ShippingRateBasis.ORDER_VALUE,
+        minValue: 0,
+        maxValue: null,
+        price: 1500,
+        estimatedDays: 3,
+    };
+    const lightRate = {
+        id: "rate2",
+        name: "Moto",
+        basis: ShippingRateBasis.WEIGHT,
+        minValue: 0,
+        maxValue: 5,
+        price: 1000,
+        estimatedDays: 1,
+    };
+    const heavyRate = {
+        ...lightRate,
+        id: "rate3",
+        minValue: 5,
+        maxValue: null,
+        price: 4000,
+    };
+
+    const kigaliZone = {
+        id: "zone1",
+        name: "Kigali",
+        provinces: ["Kigali City"],
+        districts: [],
+        freeShippingThreshold: 50000,
+        isActive: true,
+        rates: [standardRate, lightRate, heavyRate],
+    };
+    const musanzeZone = {
+        id: "zone2",
+        name: "Musanze",
+        provinces: [],
+        districts: ["Musanze"],
+        freeShippingThreshold: null,
+        isActive: true,
+        rates: [{ ...standardRate, id: "rate4", price: 3000 }],
+    };
+    const northernZone = {
+        id: "zone3",
+        name: "North",
+        provinces: ["Northern"],
+        districts: [],
+        freeShippingThreshold: null,
+        isActive: true,
+        rates: [{ ...standardRate, id: "rate5", price: 5000 }],
+    };
+
+    const kigaliAddress = {
+        city: "Kicukiro",
+        state: "Kigali City",
+        country: "Rwanda",
+    };
+
+    beforeEach(() => {
+        shippingService = new ShippingService();
+        jest.clearAllMocks();
+        (prisma.shippingZone.findMany as jest.Mock).mockResolvedValue([
+            kigaliZone,
+            northernZone,
+            musanzeZone,
+        ]);
+    });
+
+    describe("createZone", () => {
+        it("should store official province and district names", async () => {
+            (prisma.shippingZone.findUnique as jest.Mock).mockResolvedValue(
+                null
+            );
+            (prisma.shippingZone.findFirst as jest.Mock).mockResolvedValue(
+                null
+            );
+
+            await shippingService.createZone({
+                name: "Kigali",
+                provinces: ["kigali city"],
+                districts: [" BUGESERA "],
+            });
+
+            expect(prisma.shippingZone.create).toHaveBeenCalledWith({
+                data: {
+                    name: "Kigali",
+                    provinces: ["Kigali City"],
+                    districts: ["Bugesera"],
+                },
+            });
+        });
+
+        it("should reject places that are not in Rwanda", async () => {
+            (prisma.shippingZone.findUnique as jest.Mock).mockResolvedValue(
+                null
+            );
+
+            await expect(
+                shippingService.createZone({
+                    name: "Kampala",
+                    districts: ["Kampala"],
+                })
+            ).rejects.toThrow("Unknown district: Kampala");
+        });
+
+        it("should not cover areas of another zone", async () => {
+            (prisma.shippingZone.findUnique as jest.Mock).mockResolvedValue(
+                null
+            );
+            (prisma.shippingZone.findFirst as jest.Mock).mockResolvedValue(
+                musanzeZone
+            );
+
+            await expect(
+                shippingService.createZone({
+                    name: "Volcanoes",
+                    districts: ["Musanze", "Nyabihu"],
+                })
+            ).rejects.toThrow(
+                "Some of these areas are already covered by zone Musanze"
+            );
+            expect(prisma.shippingZone.findFirst).toHaveBeenCalledWith({
+                where: {
+                    id: undefined,
+                    OR: [
+                        { provinces: { hasSome: [] } },
+                        { districts: { hasSome: ["Musanze", "Nyabihu"] } },
+                    ],
+                },
+            });
+        });
+    });
+
+    describe("addRate", () => {
+        it("should reject empty ranges", async () => {
+            (prisma.shippingZone.findUnique as jest.Mock).mockResolvedValue(
+                kigaliZone
+            );
+
+            await expect(
+                shippingService.addRate("zone1", {
+                    name: "Moto",
+                    basis: ShippingRateBasis.WEIGHT,
+                    minValue: 5,
+                    maxValue: 5,
+                    price: 1000,
+                })
+            ).rejects.toThrow(
+                "Maximum value must be greater than minimum value"
+            );
+        });
+    });
+
+    describe("findZoneForAddress", () => {
+        it("should prefer a zone listing the district over its province", async () => {
+            const zone = await shippingService.findZoneForAddress({
+                city: "Musanze",
+                state: "Northern",
+                country: "Rwanda",
+            });
+
+            expect(zone.name).toBe("Musanze");
+        });
+
+        it("should fall back to the zone of the province", async () => {
+            const zone = await shippingService.findZoneForAddress({
+                city: "Burera",
+                state: "northern",
+                country: null,
+            });
+
+            expect(zone.name).toBe("North");
+        });
+
+        it("should only deliver within Rwanda", async () => {
+            await expect(
+                shippingService.findZoneForAddress({
+                    ...kigaliAddress,
+                    country: "Uganda",
+                })
+            ).rejects.toThrow("We only deliver within Rwanda");
+        });
+
+        it("should reject addresses no zone covers", async () => {
+            await expect(
+                shippingService.findZoneForAddress({
+                    city: "Huye",
+                    state: "Southern",
+                    country: "Rwanda",
+                })
+            ).rejects.toThrow("We do not deliver to this address yet");
+        });
+    });
+
+    describe("getShippingOptions", () => {
+        it("should return the rates matching the parcel, cheapest first", async () => {
+            const options = await shippingService.getShippingOptions(
+                kigaliAddress,
+                { orderValue: 20000, weight: 2 }
+            );
+
+            expect(options).toEqual([
+                {
+                    rateId: "rate2",
+                    name: "Moto",
+                    zone: "Kigali",
+                    price: 1000,
+                    estimatedDays: 1,
+                },
+                {
+                    rateId: "rate1",
+                    name: "Standard",
+                    zone: "Kigali",
+                    price: 1500,
+                    estimatedDays: 3,
+                },
+            ]);
+        });
+
+        it("should use the weight band of heavy parcels", async () => {
+            const options = await shippingService.getShippingOptions(
+                kigaliAddress,
+                { orderValue: 20000, weight: 5 }
+            );
+
+            expect(options.map((o) => o.rateId)).toEqual(["rate1", "rate3"]);
+        });
+
+        it("should ship for free above the zone's threshold", async () => {
+            const options = await shippingService.getShippingOptions(
+                kigaliAddress,
+                { orderValue: 50000, weight: 2 }
+            );
+
+            expect(options.every((o) => o.price === 0)).toBe(true);
+        });
+
+        it("should ship for free with a free shipping coupon", async () => {
+            const options = await shippingService.getShippingOptions(
+                { city: "Musanze", state: null, country: "Rwanda" },
+                { orderValue: 1000, weight: 1, freeShipping: true }
+            );
+
+            expect(options[0].price).toBe(0);
+        });
+    });
+
+    describe("chooseShippingOption", () => {
+        it("should pick the cheapest option by default", async () => {
+            const option = await shippingService.chooseShippingOption(
+                kigaliAddress,
+                { orderValue: 20000, weight: 2 }
+            );
+
+            expect(option.rateId).toBe("rate2");
+        });
+
+        it("should reject options that do not fit the parcel", async () => {
+            await expect(
+                shippingService.chooseShippingOption(
+                    kigaliAddress,
+                    { orderValue: 20000, weight: 8 },
+                    "rate2"
+                )
+            ).rejects.toThrow(
+                "The selected delivery option is not available for this order"
+            );
+        });
+    });
+
+    describe("getDeliveryAddress", () => {
+        it("should only use addresses of the user", async () => {
+            (prisma.address.findFirst as jest.Mock).mockResolvedValue(null);
+
+            await expect(
+                shippingService.getDeliveryAddress("user123", "address123")
+            ).rejects.toThrow("Address not found");
+            expect(prisma.address.findFirst).toHaveBeenCalledWith({
+                where: { id: "address123", userId: "user123" },
+            });
+        });
+    });
+});
@@ -0,0 +1,87 @@
+import { TaxService } from "@/services/tax.service";
+import { prisma } from "@/config/database";
+import { calculateTax } from "@/utils/tax";
+import { TAX_CONFIG } from "@/config/tax";
+
+// Mock Prisma client
+jest.mock("@/config/database", () => ({
+    prisma: {
+        category: {
+            findMany: jest.fn(),
+        },
+    },
+}));
+
+describe("TaxService", () => {
+    let taxService: TaxService;
+
+    beforeEach(() => {
+        taxService = new TaxService();
+        jest.clearAllMocks();
+    });
+
+    describe("calculateTax", () => {
+        it("should take VAT out of tax inclusive prices", () => {
+            expect(calculateTax(1180, 18, true)).toEqual({
+                taxRate: 18,
+                netAmount: 1000,
+                taxAmount: 180,
+                grossAmount: 1180,
+            });
+        });
+
+        it("should add VAT on top of tax exclusive prices", () => {
+            expect(calculateTax(1000, 18, false)).toEqual({
+                taxRate: 18,
+                netAmount: 1000,
+                taxAmount: 180,
+                grossAmount: 1180,
+            });
+        });
+
+        it("should round to the minor unit so net and VAT add up to gross", () => {
+            const tax = calculateTax(100, 18, true);
+
+            expect(tax.netAmount).toBe(85);
+            expect(tax.taxAmount).toBe(15);
+            expect(tax.netAmount + tax.taxAmount).toBe(tax.grossAmount);
+        });
+    });
+
+    describe("getVatRates", () => {
+        it("should use the category's rate, then its parent's, then the default", async () => {
+            (prisma.category.findMany as jest.Mock).mockResolvedValue([
+                { id: "books", vatRate: 0, parent: null },
+                { id: "novels", vatRate: null, parent: { vatRate: 0 } },
+                { id: "phones", vatRate: null, parent: null },
+            ]);
+
+            const rates = await taxService.getVatRates([
+                "books",
+                "novels",
+                "phones",
+                "books",
+            ]);
+
+            expect(rates.get("books")).toBe(0);
+            expect(rates.get("novels")).toBe(0);
+            expect(rates.get("phones")).toBe(TAX_CONFIG.defaultVatRate);
+            expect(prisma.category.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { id: { in: ["books", "novels", "phones"] } },
+                })
+            );
+        });
+    });
+
+    describe("getShippingTax", () => {
+        it("should tax delivery at the default rate", () => {
+            expect(taxService.getShippingTax(0)).toEqual(
+                calculateTax(0, TAX_CONFIG.defaultVatRate)
+            );
+            expect(taxService.getShippingTax(1500).taxRate).toBe(
+                TAX_CONFIG.defaultVatRate
+            );
+        });
+    });
+});
@@ -5,6 +5,7 @@ config({ path: ".env" });
 
 // Set test environment
 process.env.NODE_ENV = "test";
+process.env.MOBILE_MONEY_SANDBOX = "true";
 
 // Mock console methods to keep test output clean
 global.console = {